@@ -1,5 +1,7 @@
 import { BigNumber } from "ethers";
 
+import type { DeployAction } from "./scripts/deployPipeline";
+
 const decimals = 8;
 const oneToken = BigNumber.from(10).pow(decimals);
 
@@ -30,8 +32,58 @@ export const config = {
         token: {
             ethereumMainnet: "0xaD22f63404f7305e4713CcBd4F296f34770513f4",
         },
+        // checked by the staking:check task
+        tokenDecimals: decimals,
         minStakeAmount: oneToken.mul(50),
         // percent denominator is 100_00 (100%)
         apr: 20_00,
+        // in seconds, can't be bigger than 365 days
+        coolingPeriod: 10 * 24 * 60 * 60,
+        // ERC20 receipt of the flexible stakes
+        receiptToken: {
+            isEnabled: true,
+            name: "Staked Atomic Wallet Coin",
+            symbol: "stAWC",
+            // if false, the receipt token is soulbound
+            isTransferable: false,
+        },
+        // limits of the APR changes, zero values disable them
+        aprGuardrails: {
+            // percent denominator is 100_00 (100%)
+            maxApr: 50_00,
+            maxAprDelta: 5_00,
+            // in seconds, can't be bigger than 365 days
+            minChangeInterval: 7 * 24 * 60 * 60,
+            // in seconds, can't be bigger than 365 days
+            rampDuration: 24 * 60 * 60,
+        },
+        // scaling down of the APR when the reward pool is running low
+        solvency: {
+            // in seconds, the pool should cover the emission of this period, zero disables the throttling
+            runway: 30 * 24 * 60 * 60,
+            // amount by which the unpaid rewards can exceed the pool
+            buffer: oneToken.mul(0),
+        },
+        // in seconds, delay of the timelocked changes and of the admin transfer, can't be bigger than 30 days
+        changeDelay: 2 * 24 * 60 * 60,
+        // OpenZeppelin TimelockController that becomes the admin of the staking
+        timelock: {
+            isEnabled: false,
+            // in seconds
+            minDelay: 2 * 24 * 60 * 60,
+            proposers: [] as string[],
+            executors: [] as string[],
+        },
+        // run once after the setup, the done ones are recorded in deployments/<network>.json
+        actions: [
+            // { type: "grantRole", role: "MANAGER_ROLE", account: "0x..." },
+            // { type: "donate", amount: oneToken.mul(1000) },
+            // the multisig accepts the role by acceptDefaultAdminTransfer after changeDelay
+            // { type: "transferAdmin", account: "0x..." },
+        ] as DeployAction[],
+        // if false, the staking:check task fails while the deployer holds DEFAULT_ADMIN_ROLE
+        isDeployerAdminAllowed: true,
+        // deploys AtomicStakingUpgradeable behind a TransparentUpgradeableProxy, see scripts/upgrade.ts
+        isUpgradeable: false,
     },
 };
@@ -0,0 +1,769 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import {AtomicStakingBase} from "./AtomicStakingBase.sol";
+import {IStakingReceiptToken} from "./interface/IStakingReceiptToken.sol";
+import {AprRamps} from "./library/AprRamps.sol";
+import {Campaigns} from "./library/Campaigns.sol";
+import {ExtraRewards} from "./library/ExtraRewards.sol";
+import {LockTiers} from "./library/LockTiers.sol";
+
+/// @title The admins' functions of the `AtomicStaking` contract.
+/// @author TepNik
+/// @dev The `AtomicStaking` contract delegates calls of the admins' functions to this contract
+/// to stay within the contract size limit. This contract has no roles in its own storage,
+/// so its functions can't be called directly.
+contract AtomicStakingAdmin is AtomicStakingBase {
+    using SafeERC20 for IERC20;
+
+    /* ADMINS' FUNCTIONS */
+
+    /// @dev See {IAtomicStaking-setMinStakeAmount}.
+    function setMinStakeAmount(uint256 newAmount) external nonReentrant onlyRole(MANAGER_ROLE) {
+        _checkNotTimelocked(Change.MinStakeAmount);
+
+        _setMinStakeAmount(newAmount);
+    }
+
+    /// @dev See {IAtomicStaking-setApr}.
+    function setApr(uint256 newValue) external nonReentrant onlyRole(MANAGER_ROLE) {
+        _checkNotTimelocked(Change.Apr);
+
+        _setApr(newValue);
+    }
+
+    /// @dev See {IAtomicStaking-enableCampaignMode}.
+    function enableCampaignMode() external nonReentrant onlyRole(MANAGER_ROLE) {
+        if (isCampaignMode) {
+            revert TheSameValue();
+        }
+
+        // to calculate previous rewards
+        _updateAllRates();
+
+        isCampaignMode = true;
+        LockTiers.followFlexibleRate(_lockTiers, _ratePerStaking);
+
+        emit CampaignModeEnabled();
+    }
+
+    /// @dev See {IAtomicStaking-addCampaign}.
+    function addCampaign(
+        uint256 startTimestamp,
+        uint256 duration,
+        uint256 budget
+    ) external nonReentrant onlyRole(MANAGER_ROLE) returns (uint256 campaignId) {
+        if (!isCampaignMode) {
+            revert CampaignModeIsDisabled();
+        }
+
+        uint256 endTimestamp;
+        (campaignId, endTimestamp) = Campaigns.add({
+            data: _campaigns,
+            startTimestamp: startTimestamp,
+            duration: duration,
+            budget: budget
+        });
+
+        TOKEN.safeTransferFrom(msg.sender, address(this), budget);
+
+        emit CampaignAdded(campaignId, startTimestamp, endTimestamp, budget);
+    }
+
+    /// @dev See {IAtomicStaking-addExtraRewardToken}.
+    function addExtraRewardToken(
+        IERC20 token,
+        uint256 rewardRate
+    ) external nonReentrant onlyRole(MANAGER_ROLE) {
+        if (address(token) == address(0)) {
+            revert AddressZero();
+        }
+        if (token == TOKEN || _extraRewards.states[token].lastUpdateTimestamp != 0) {
+            revert InvalidExtraRewardToken(token);
+        }
+        uint256 tokensCount = _extraRewards.tokens.length + 1;
+        if (tokensCount > _MAX_EXTRA_REWARD_TOKENS) {
+            revert TooBigValue(tokensCount, _MAX_EXTRA_REWARD_TOKENS);
+        }
+
+        ExtraRewards.addToken(_extraRewards, token, rewardRate);
+
+        emit ExtraRewardTokenAdded(token, rewardRate);
+    }
+
+    /// @dev See {IAtomicStaking-setExtraRewardRate}.
+    function setExtraRewardRate(
+        IERC20 token,
+        uint256 newValue
+    ) external nonReentrant onlyRole(MANAGER_ROLE) {
+        _checkNotTimelocked(Change.ExtraRewardRate);
+
+        _setExtraRewardRate(token, newValue);
+    }
+
+    /// @dev See {IAtomicStaking-setCoolingPeriod}.
+    function setCoolingPeriod(uint256 newValue) external nonReentrant onlyRole(MANAGER_ROLE) {
+        _checkNotTimelocked(Change.CoolingPeriod);
+
+        _setCoolingPeriod(newValue);
+    }
+
+    /// @dev See {IAtomicStaking-addLockTier}.
+    function addLockTier(
+        uint256 lockPeriod,
+        uint256 aprMultiplier
+    ) external nonReentrant onlyRole(MANAGER_ROLE) returns (uint256 tierId) {
+        tierId = LockTiers.add({
+            data: _lockTiers,
+            lockPeriod: lockPeriod,
+            aprMultiplier: aprMultiplier,
+            flexibleRate: _ratePerStaking
+        });
+
+        emit LockTierAdded(tierId, lockPeriod, aprMultiplier);
+    }
+
+    /// @dev See {IAtomicStaking-setLockTierMultiplier}.
+    function setLockTierMultiplier(
+        uint256 tierId,
+        uint256 newValue
+    ) external nonReentrant onlyRole(MANAGER_ROLE) {
+        _checkNotTimelocked(Change.LockTierMultiplier);
+
+        _setLockTierMultiplier(tierId, newValue);
+    }
+
+    /// @dev See {IAtomicStaking-setLockTierActive}.
+    function setLockTierActive(
+        uint256 tierId,
+        bool isActive
+    ) external nonReentrant onlyRole(MANAGER_ROLE) {
+        LockTiers.setActive(_lockTiers, tierId, isActive);
+
+        emit LockTierActiveChanged(tierId, isActive);
+    }
+
+    /// @dev See {IAtomicStaking-setEarlyWithdrawPenalty}.
+    function setEarlyWithdrawPenalty(
+        uint256 newValue
+    ) external nonReentrant onlyRole(MANAGER_ROLE) {
+        _checkNotTimelocked(Change.EarlyWithdrawPenalty);
+
+        _setEarlyWithdrawPenalty(newValue);
+    }
+
+    /// @dev See {IAtomicStaking-setPenaltyProRated}.
+    function setPenaltyProRated(bool newValue) external nonReentrant onlyRole(MANAGER_ROLE) {
+        if (newValue == isPenaltyProRated) {
+            revert TheSameValue();
+        }
+
+        isPenaltyProRated = newValue;
+
+        emit PenaltyProRatedChanged(newValue);
+    }
+
+    /// @dev See {IAtomicStaking-setPenaltyReceiver}.
+    function setPenaltyReceiver(
+        address newValue
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.PenaltyReceiver);
+
+        _setPenaltyReceiver(newValue);
+    }
+
+    /// @dev See {IAtomicStaking-receiveExcessiveBalance}.
+    function receiveExcessiveBalance(
+        uint256 amount
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.ExcessiveBalance);
+
+        _receiveExcessiveBalance(amount);
+    }
+
+    /// @dev See {IAtomicStaking-receiveExcessiveExtraRewards}.
+    function receiveExcessiveExtraRewards(
+        IERC20 token,
+        uint256 amount
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkExtraRewardToken(token);
+        if (amount == 0) {
+            return;
+        }
+
+        uint256 withdrawnAmount = ExtraRewards.withdrawExcess({
+            data: _extraRewards,
+            token: token,
+            amount: amount,
+            recipient: msg.sender
+        });
+        if (withdrawnAmount > 0) {
+            emit ExcessiveExtraRewardsWithdrawn(msg.sender, token, withdrawnAmount);
+        }
+    }
+
+    /// @dev See {IAtomicStaking-setPaused}.
+    function setPaused(
+        Operation operation,
+        bool newValue
+    ) external nonReentrant onlyRole(PAUSER_ROLE) {
+        if (newValue == isPaused[operation]) {
+            revert TheSameValue();
+        }
+
+        isPaused[operation] = newValue;
+
+        emit PausedChanged(operation, newValue);
+    }
+
+    /// @dev See {IAtomicStaking-enableEmergencyShutdown}.
+    function enableEmergencyShutdown() external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.EmergencyShutdown);
+
+        _enableEmergencyShutdown();
+    }
+
+    /// @dev See {IAtomicStaking-setReceiptToken}.
+    function setReceiptToken(
+        IStakingReceiptToken token
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (address(token) == address(0)) {
+            revert AddressZero();
+        }
+        if (
+            address(_receiptToken) != address(0) ||
+            totalStaked != 0 ||
+            address(token.STAKING()) != address(this)
+        ) {
+            revert InvalidReceiptToken(token);
+        }
+
+        _receiptToken = token;
+
+        emit ReceiptTokenSet(token);
+    }
+
+    /// @dev See {IAtomicStaking-setChangeDelay}.
+    function setChangeDelay(uint256 newValue) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.ChangeDelay);
+
+        _setChangeDelay(newValue);
+    }
+
+    /// @dev See {IAtomicStaking-proposeChange}.
+    function proposeChange(Change change, bytes calldata params) external nonReentrant {
+        _checkRole(_changeRole(change));
+
+        uint256 executableTimestamp = block.timestamp + changeDelay;
+        // only the hash is stored, the params are passed again to `executeChange`
+        pendingChanges[change] = PendingChange({
+            value: uint256(keccak256(params)),
+            executableTimestamp: uint64(executableTimestamp)
+        });
+
+        emit ChangeProposed(change, params, executableTimestamp);
+    }
+
+    /// @dev See {IAtomicStaking-executeChange}.
+    function executeChange(Change change, bytes calldata params) external nonReentrant {
+        _checkRole(_changeRole(change));
+
+        PendingChange memory pendingChange = pendingChanges[change];
+        if (pendingChange.executableTimestamp == 0) {
+            revert NoPendingChange(change);
+        }
+        if (block.timestamp < pendingChange.executableTimestamp) {
+            revert ChangeNotExecutableYet(block.timestamp, pendingChange.executableTimestamp);
+        }
+        if (uint256(keccak256(params)) != pendingChange.value) {
+            revert InvalidChangeParams(change);
+        }
+
+        delete pendingChanges[change];
+
+        _executeChange(change, params);
+
+        emit ChangeExecuted(change, params);
+    }
+
+    /// @dev See {IAtomicStaking-cancelChange}.
+    function cancelChange(Change change) external nonReentrant {
+        _checkRole(_changeRole(change));
+
+        if (pendingChanges[change].executableTimestamp == 0) {
+            revert NoPendingChange(change);
+        }
+
+        delete pendingChanges[change];
+
+        emit ChangeCanceled(change);
+    }
+
+    /// @dev See {IAtomicStaking-beginDefaultAdminTransfer}.
+    function beginDefaultAdminTransfer(
+        address newAdmin
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        // the role is never transferred instantly, even without the timelock
+        uint256 delay = changeDelay;
+        if (delay < _MIN_ADMIN_TRANSFER_DELAY) {
+            delay = _MIN_ADMIN_TRANSFER_DELAY;
+        }
+        uint256 acceptableTimestamp = block.timestamp + delay;
+        pendingDefaultAdmin = PendingAdminTransfer({
+            newAdmin: newAdmin,
+            acceptableTimestamp: uint64(acceptableTimestamp)
+        });
+
+        emit DefaultAdminTransferScheduled(newAdmin, acceptableTimestamp);
+    }
+
+    /// @dev See {IAtomicStaking-cancelDefaultAdminTransfer}.
+    function cancelDefaultAdminTransfer() external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (pendingDefaultAdmin.acceptableTimestamp == 0) {
+            revert TheSameValue();
+        }
+
+        delete pendingDefaultAdmin;
+
+        emit DefaultAdminTransferCanceled();
+    }
+
+    /// @dev See {IAtomicStaking-acceptDefaultAdminTransfer}.
+    function acceptDefaultAdminTransfer() external nonReentrant {
+        address newAdmin = pendingDefaultAdmin.newAdmin;
+        if (msg.sender != newAdmin) {
+            revert NotAllowedUser(msg.sender, newAdmin);
+        }
+        _checkAdminTransferAcceptable();
+
+        delete pendingDefaultAdmin;
+
+        address oldAdmin = defaultAdmin;
+        if (oldAdmin != address(0)) {
+            _revokeRole(DEFAULT_ADMIN_ROLE, oldAdmin);
+        }
+        _grantRole(DEFAULT_ADMIN_ROLE, newAdmin);
+        defaultAdmin = newAdmin;
+    }
+
+    /// @dev See {IAtomicStaking-setAprGuardrails}.
+    function setAprGuardrails(
+        uint256 maxApr,
+        uint256 maxAprDelta,
+        uint256 minChangeInterval,
+        uint256 rampDuration
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.AprGuardrails);
+
+        _setAprGuardrails(maxApr, maxAprDelta, minChangeInterval, rampDuration);
+    }
+
+    /// @dev See {IAtomicStaking-setSolvencyParameters}.
+    function setSolvencyParameters(
+        uint256 runway,
+        uint256 buffer
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.SolvencyParameters);
+
+        _setSolvencyParameters(runway, buffer);
+    }
+
+    /// @dev See {IAtomicStaking-setMigrationTarget}.
+    function setMigrationTarget(
+        address target,
+        bool isAllowed
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.MigrationTarget);
+
+        _setMigrationTarget(target, isAllowed);
+    }
+
+    /// @dev See {IAtomicStaking-setMigrationSource}.
+    function setMigrationSource(
+        address source,
+        bool isAllowed
+    ) external nonReentrant onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkNotTimelocked(Change.MigrationSource);
+
+        _setMigrationSource(source, isAllowed);
+    }
+
+    /* ACCESS CONTROL */
+
+    /// @dev `DEFAULT_ADMIN_ROLE` can't be granted directly.
+    function grantRole(bytes32 role, address account) public override {
+        if (role == DEFAULT_ADMIN_ROLE) {
+            revert DefaultAdminRoleIsProtected();
+        }
+
+        super.grantRole(role, account);
+    }
+
+    /// @dev `DEFAULT_ADMIN_ROLE` can't be revoked directly.
+    function revokeRole(bytes32 role, address account) public override {
+        if (role == DEFAULT_ADMIN_ROLE) {
+            revert DefaultAdminRoleIsProtected();
+        }
+
+        super.revokeRole(role, account);
+    }
+
+    /// @dev `DEFAULT_ADMIN_ROLE` can be renounced only after the renouncement
+    /// is scheduled by `beginDefaultAdminTransfer` with the zero address.
+    function renounceRole(bytes32 role, address account) public override {
+        if (role == DEFAULT_ADMIN_ROLE && account == defaultAdmin) {
+            if (pendingDefaultAdmin.newAdmin != address(0)) {
+                revert DefaultAdminRoleIsProtected();
+            }
+            _checkAdminTransferAcceptable();
+
+            delete pendingDefaultAdmin;
+            defaultAdmin = address(0);
+        }
+
+        super.renounceRole(role, account);
+    }
+
+    /* PRIVATE FUNCTIONS */
+
+    function _setMinStakeAmount(uint256 newAmount) private {
+        uint256 oldAmount = minStakeAmount;
+        if (newAmount == oldAmount) {
+            revert TheSameValue();
+        }
+
+        minStakeAmount = newAmount;
+
+        emit MinStakeAmountChanged(oldAmount, newAmount);
+    }
+
+    /// @dev The delta is measured from the current APR, so a change in the middle of a ramp
+    /// starts a new ramp from the reached APR.
+    function _setApr(uint256 newValue) private {
+        AprGuardrails memory guardrails = aprGuardrails;
+        uint256 maxApr = guardrails.maxApr;
+        if (maxApr == 0) {
+            if (newValue > _PERCENT_DENOMINATOR) {
+                revert TooBigValue(newValue, _PERCENT_DENOMINATOR);
+            }
+        } else if (newValue > maxApr) {
+            revert AprAboveMax(newValue, maxApr);
+        }
+
+        uint256 oldValue = apr;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        AprRamp memory ramp = aprRamp;
+        uint256 nextChangeTimestamp = ramp.startTimestamp + guardrails.minChangeInterval;
+        if (block.timestamp < nextChangeTimestamp) {
+            revert AprChangeTooEarly(block.timestamp, nextChangeTimestamp);
+        }
+
+        uint256 currentApr = AprRamps.aprAt(ramp, oldValue, block.timestamp);
+        uint256 maxAprDelta = guardrails.maxAprDelta;
+        if (maxAprDelta != 0) {
+            uint256 delta = newValue > currentApr ? newValue - currentApr : currentApr - newValue;
+            if (delta > maxAprDelta) {
+                revert AprDeltaTooBig(delta, maxAprDelta);
+            }
+        }
+
+        // to calculate previous rewards
+        _updateAllRates();
+
+        apr = newValue;
+        aprRamp = AprRamp({
+            fromApr: currentApr,
+            startTimestamp: uint64(block.timestamp),
+            endTimestamp: uint64(block.timestamp + guardrails.rampDuration)
+        });
+
+        emit AprChanged(oldValue, newValue);
+    }
+
+    function _receiveExcessiveBalance(uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+
+        uint256 totalBalance = TOKEN.balanceOf(address(this));
+        // budgets of the campaigns are reserved until they are emitted
+        uint256 reserved = totalStaked + Campaigns.unemittedBudget(_campaigns);
+        if (isCampaignMode) {
+            // and the emitted rewards are reserved until they are paid
+            _updateRate();
+            reserved += totalUnpaidRewards;
+        }
+        if (totalBalance <= reserved) {
+            return;
+        }
+
+        uint256 possibleToWithdraw = totalBalance - reserved;
+        uint256 toWithdraw = possibleToWithdraw <= amount ? possibleToWithdraw : amount;
+
+        TOKEN.safeTransfer(msg.sender, toWithdraw);
+
+        emit ExcessiveBalanceWithdrawn(msg.sender, toWithdraw);
+    }
+
+    function _setChangeDelay(uint256 newValue) private {
+        if (newValue > _MAX_CHANGE_DELAY) {
+            revert TooBigValue(newValue, _MAX_CHANGE_DELAY);
+        }
+
+        uint256 oldValue = changeDelay;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        changeDelay = newValue;
+
+        emit ChangeDelayChanged(oldValue, newValue);
+    }
+
+    function _setCoolingPeriod(uint256 newValue) private {
+        if (newValue > _MAX_COOLING_PERIOD) {
+            revert TooBigValue(newValue, _MAX_COOLING_PERIOD);
+        }
+
+        uint256 oldValue = coolingPeriod;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        coolingPeriod = newValue;
+
+        emit CoolingPeriodChanged(oldValue, newValue);
+    }
+
+    function _setEarlyWithdrawPenalty(uint256 newValue) private {
+        if (newValue > _PERCENT_DENOMINATOR) {
+            revert TooBigValue(newValue, _PERCENT_DENOMINATOR);
+        }
+
+        uint256 oldValue = earlyWithdrawPenalty;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        earlyWithdrawPenalty = newValue;
+
+        emit EarlyWithdrawPenaltyChanged(oldValue, newValue);
+    }
+
+    function _setPenaltyReceiver(address newValue) private {
+        address oldValue = penaltyReceiver;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        penaltyReceiver = newValue;
+
+        emit PenaltyReceiverChanged(oldValue, newValue);
+    }
+
+    function _setExtraRewardRate(IERC20 token, uint256 newValue) private {
+        _checkExtraRewardToken(token);
+        uint256 oldValue = _extraRewards.states[token].rewardRate;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        // to calculate previous rewards
+        ExtraRewards.setRewardRate(_extraRewards, token, newValue);
+
+        emit ExtraRewardRateChanged(token, oldValue, newValue);
+    }
+
+    function _setAprGuardrails(
+        uint256 maxApr,
+        uint256 maxAprDelta,
+        uint256 minChangeInterval,
+        uint256 rampDuration
+    ) private {
+        if (maxApr > _PERCENT_DENOMINATOR) {
+            revert TooBigValue(maxApr, _PERCENT_DENOMINATOR);
+        }
+        if (minChangeInterval > _MAX_APR_CHANGE_INTERVAL) {
+            revert TooBigValue(minChangeInterval, _MAX_APR_CHANGE_INTERVAL);
+        }
+        if (rampDuration > _MAX_APR_RAMP_DURATION) {
+            revert TooBigValue(rampDuration, _MAX_APR_RAMP_DURATION);
+        }
+
+        AprGuardrails memory oldGuardrails = aprGuardrails;
+        if (
+            maxApr == oldGuardrails.maxApr &&
+            maxAprDelta == oldGuardrails.maxAprDelta &&
+            minChangeInterval == oldGuardrails.minChangeInterval &&
+            rampDuration == oldGuardrails.rampDuration
+        ) {
+            revert TheSameValue();
+        }
+
+        aprGuardrails = AprGuardrails({
+            maxApr: maxApr,
+            maxAprDelta: maxAprDelta,
+            minChangeInterval: uint64(minChangeInterval),
+            rampDuration: uint64(rampDuration)
+        });
+
+        emit AprGuardrailsChanged({
+            maxApr: maxApr,
+            maxAprDelta: maxAprDelta,
+            minChangeInterval: minChangeInterval,
+            rampDuration: rampDuration
+        });
+    }
+
+    function _setSolvencyParameters(uint256 runway, uint256 buffer) private {
+        if (runway > _MAX_SOLVENCY_RUNWAY) {
+            revert TooBigValue(runway, _MAX_SOLVENCY_RUNWAY);
+        }
+        if (runway == solvencyRunway && buffer == solvencyBuffer) {
+            revert TheSameValue();
+        }
+
+        // to calculate previous rewards
+        _updateAllRates();
+
+        solvencyRunway = runway;
+        solvencyBuffer = buffer;
+
+        emit SolvencyParametersChanged(runway, buffer);
+
+        _updateSolvencyThrottling();
+    }
+
+    function _setMigrationTarget(address target, bool isAllowed) private {
+        if (target == address(0)) {
+            revert AddressZero();
+        }
+        if (isAllowed == isMigrationTarget[target]) {
+            revert TheSameValue();
+        }
+
+        isMigrationTarget[target] = isAllowed;
+
+        emit MigrationTargetChanged(target, isAllowed);
+    }
+
+    function _setMigrationSource(address source, bool isAllowed) private {
+        if (source == address(0)) {
+            revert AddressZero();
+        }
+        if (isAllowed == isMigrationSource[source]) {
+            revert TheSameValue();
+        }
+
+        isMigrationSource[source] = isAllowed;
+
+        emit MigrationSourceChanged(source, isAllowed);
+    }
+
+    function _setLockTierMultiplier(uint256 tierId, uint256 newValue) private {
+        (uint256 oldValue, uint256 totalLocked) = LockTiers.setMultiplier({
+            data: _lockTiers,
+            tierId: tierId,
+            newValue: newValue,
+            context: _updatedRateContext()
+        });
+        totalRewardWeight = totalRewardWeight + totalLocked * newValue - totalLocked * oldValue;
+
+        emit LockTierMultiplierChanged(tierId, oldValue, newValue);
+    }
+
+    function _enableEmergencyShutdown() private {
+        if (isEmergencyShutdown) {
+            revert TheSameValue();
+        }
+
+        isEmergencyShutdown = true;
+
+        emit EmergencyShutdownEnabled();
+    }
+
+    /// @dev Makes the `change` by the private part of its setter with the decoded `params`.
+    // solhint-disable-next-line code-complexity
+    function _executeChange(Change change, bytes calldata params) private {
+        if (change == Change.Apr) {
+            _setApr(abi.decode(params, (uint256)));
+        } else if (change == Change.MinStakeAmount) {
+            _setMinStakeAmount(abi.decode(params, (uint256)));
+        } else if (change == Change.ExcessiveBalance) {
+            _receiveExcessiveBalance(abi.decode(params, (uint256)));
+        } else if (change == Change.ChangeDelay) {
+            _setChangeDelay(abi.decode(params, (uint256)));
+        } else if (change == Change.CoolingPeriod) {
+            _setCoolingPeriod(abi.decode(params, (uint256)));
+        } else if (change == Change.EarlyWithdrawPenalty) {
+            _setEarlyWithdrawPenalty(abi.decode(params, (uint256)));
+        } else if (change == Change.PenaltyReceiver) {
+            _setPenaltyReceiver(abi.decode(params, (address)));
+        } else if (change == Change.ExtraRewardRate) {
+            (IERC20 token, uint256 newValue) = abi.decode(params, (IERC20, uint256));
+            _setExtraRewardRate(token, newValue);
+        } else if (change == Change.AprGuardrails) {
+            (
+                uint256 maxApr,
+                uint256 maxAprDelta,
+                uint256 minChangeInterval,
+                uint256 rampDuration
+            ) = abi.decode(params, (uint256, uint256, uint256, uint256));
+            _setAprGuardrails(maxApr, maxAprDelta, minChangeInterval, rampDuration);
+        } else if (change == Change.SolvencyParameters) {
+            (uint256 runway, uint256 buffer) = abi.decode(params, (uint256, uint256));
+            _setSolvencyParameters(runway, buffer);
+        } else if (change == Change.MigrationTarget) {
+            (address target, bool isAllowed) = abi.decode(params, (address, bool));
+            _setMigrationTarget(target, isAllowed);
+        } else if (change == Change.MigrationSource) {
+            (address source, bool isAllowed) = abi.decode(params, (address, bool));
+            _setMigrationSource(source, isAllowed);
+        } else if (change == Change.EmergencyShutdown) {
+            _enableEmergencyShutdown();
+        } else {
+            (uint256 tierId, uint256 newValue) = abi.decode(params, (uint256, uint256));
+            _setLockTierMultiplier(tierId, newValue);
+        }
+    }
+
+    function _checkNotTimelocked(Change change) private view {
+        if (changeDelay != 0) {
+            revert ChangeIsTimelocked(change);
+        }
+    }
+
+    /// @dev Reverts if no transfer of `DEFAULT_ADMIN_ROLE` is scheduled or its delay hasn't passed.
+    function _checkAdminTransferAcceptable() private view {
+        uint256 acceptableTimestamp = pendingDefaultAdmin.acceptableTimestamp;
+        if (acceptableTimestamp == 0) {
+            revert DefaultAdminRoleIsProtected();
+        }
+        if (block.timestamp < acceptableTimestamp) {
+            revert AdminTransferNotAcceptableYet(block.timestamp, acceptableTimestamp);
+        }
+    }
+
+    /// @dev Timelocked changes are made by the role of their setters.
+    function _changeRole(Change change) private pure returns (bytes32 role) {
+        if (
+            change == Change.Apr ||
+            change == Change.MinStakeAmount ||
+            change == Change.CoolingPeriod ||
+            change == Change.EarlyWithdrawPenalty ||
+            change == Change.ExtraRewardRate ||
+            change == Change.LockTierMultiplier
+        ) {
+            return MANAGER_ROLE;
+        }
+        return DEFAULT_ADMIN_ROLE;
+    }
+}
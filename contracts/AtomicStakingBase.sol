@@ -0,0 +1,807 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import {IAtomicStakingBase} from "./interface/IAtomicStakingBase.sol";
+import {IStakingReceiptToken} from "./interface/IStakingReceiptToken.sol";
+import {AprRamps} from "./library/AprRamps.sol";
+import {Campaigns} from "./library/Campaigns.sol";
+import {ExtraRewards} from "./library/ExtraRewards.sol";
+import {LockTiers} from "./library/LockTiers.sol";
+
+/// @title The storage, events, errors and rate calculations of the `AtomicStaking` contract.
+/// @author TepNik
+/// @dev The `AtomicStakingAdmin` extension is executed by delegatecall in the context of the `AtomicStaking`
+/// contract, so both of them inherit this contract to have the same storage layout.
+/// New state variables can only be appended here, as `AtomicStakingUpgradeable` proxies keep the storage.
+abstract contract AtomicStakingBase is
+    Initializable,
+    AccessControl,
+    ReentrancyGuard,
+    IAtomicStakingBase
+{
+    /* PUBLIC STATE VARIABLES */
+
+    /// @inheritdoc IAtomicStakingBase
+    bytes32 public constant override MANAGER_ROLE = keccak256("MANAGER_ROLE");
+
+    /// @inheritdoc IAtomicStakingBase
+    bytes32 public constant override PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    /// @inheritdoc IAtomicStakingBase
+    // solhint-disable-next-line var-name-mixedcase
+    IERC20 public override TOKEN;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override minStakeAmount;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override apr;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override totalStaked;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override lastRateUpdateTimestamp;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override coolingPeriod;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override earlyWithdrawPenalty;
+
+    /// @inheritdoc IAtomicStakingBase
+    bool public override isPenaltyProRated;
+
+    /// @inheritdoc IAtomicStakingBase
+    address public override penaltyReceiver;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(address => bool) public override isAutoCompounding;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(address => mapping(address => bool)) public override isOperator;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(address => address) public override payoutRecipients;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(address => uint256) public override nonces;
+
+    /// @inheritdoc IAtomicStakingBase
+    bool public override isCampaignMode;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override totalRewardWeight;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(Operation => bool) public override isPaused;
+
+    /// @inheritdoc IAtomicStakingBase
+    bool public override isEmergencyShutdown;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override changeDelay;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(Change => PendingChange) public override pendingChanges;
+
+    /// @inheritdoc IAtomicStakingBase
+    address public override defaultAdmin;
+
+    /// @inheritdoc IAtomicStakingBase
+    PendingAdminTransfer public override pendingDefaultAdmin;
+
+    /// @inheritdoc IAtomicStakingBase
+    AprGuardrails public override aprGuardrails;
+
+    /// @inheritdoc IAtomicStakingBase
+    AprRamp public override aprRamp;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override solvencyRunway;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override solvencyBuffer;
+
+    /// @inheritdoc IAtomicStakingBase
+    uint256 public override totalUnpaidRewards;
+
+    /// @inheritdoc IAtomicStakingBase
+    bool public override isSolvencyThrottled;
+
+    /* INTERNAL VARIABLES */
+
+    uint256 internal constant _MAX_COOLING_PERIOD = 365 days;
+    uint256 internal constant _MAX_CHANGE_DELAY = 30 days;
+    uint256 internal constant _MIN_ADMIN_TRANSFER_DELAY = 1 days;
+    uint256 internal constant _MAX_APR_CHANGE_INTERVAL = 365 days;
+    uint256 internal constant _MAX_APR_RAMP_DURATION = 365 days;
+    uint256 internal constant _MAX_SOLVENCY_RUNWAY = 365 days;
+    uint256 internal constant _ONE_YEAR = (1 days) * 365;
+
+    uint256 internal constant _RATE_PRECISION = 1e18;
+    uint256 internal constant _PERCENT_DENOMINATOR = 100_00;
+    uint256 internal constant _MAX_EXTRA_REWARD_TOKENS = 8;
+
+    // stake stats
+    mapping(address => StakeState) internal _stakeStates;
+    // rate info
+    uint256 internal _ratePerStaking;
+    // withdraw stats
+    uint256 internal _lastWithdrawId;
+    mapping(uint256 => WithdrawState) internal _withdrawStates;
+
+    mapping(address => EnumerableSet.UintSet) internal _usersWithdrawIds;
+    // lock tiers info
+    LockTiers.Data internal _lockTiers;
+    // reward campaigns info
+    Campaigns.Data internal _campaigns;
+    // extra reward tokens info
+    ExtraRewards.Data internal _extraRewards;
+    // receipt token of the flexible stakes
+    IStakingReceiptToken internal _receiptToken;
+
+    /* MIGRATION STATE VARIABLES */
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(address => bool) public override isMigrationTarget;
+
+    /// @inheritdoc IAtomicStakingBase
+    mapping(address => bool) public override isMigrationSource;
+
+    /* EVENTS */
+
+    /// @notice Event is emmited when a user staked the token.
+    /// @param user The user that staked the token
+    /// @param amount Staked amount of the token
+    event TokenStaked(address indexed user, uint256 amount);
+
+    /// @notice Event is emmited when an admin changes the `minStakeAmount` global variable.
+    /// @param oldValue The old value of the `minStakeAmount` global variable
+    /// @param newValue The new value of the `minStakeAmount` global variable
+    event MinStakeAmountChanged(uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when an admin changes the `apr` global variable.
+    /// @param oldValue The old value of the `apr` global variable
+    /// @param newValue The new value of the `apr` global variable
+    event AprChanged(uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when an admin changes the `coolingPeriod` global variable.
+    /// @param oldValue The old value of the `coolingPeriod` global variable
+    /// @param newValue The new value of the `coolingPeriod` global variable
+    event CoolingPeriodChanged(uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when the `_ratePerStaking` global variable is changed.
+    /// @param newRate The new value of the `_ratePerStaking` global variable
+    event RateUpdated(uint256 newRate);
+
+    /// @notice Event is emmited when the `donator` address have donated `amount` number of tokens to the contract
+    /// that will be distributed as rewards to the stakers.
+    /// @param donator The address of a donator
+    /// @param amount The donated amount
+    event TokensDonated(address indexed donator, uint256 amount);
+
+    /// @notice Event is emmited when the `contractDeptToUser` field in the structure `StakeState` has changed.
+    /// @param user Address of a user which has this parameter changed
+    /// @param oldAmount The old amount of the `contractDeptToUser` field
+    /// @param newAmount The new amount of the `contractDeptToUser` field
+    event DeptToUserChanged(address indexed user, uint256 oldAmount, uint256 newAmount);
+
+    /// @notice Event is emmited when a user claims his rewards.
+    /// @param user A user that has claimed his rewards
+    /// @param amount Amount of the tokens that the user claimed
+    event RewardsClaimed(address indexed user, uint256 amount);
+
+    /// @notice Event is emmited when an admin (`DEFAULT_ADMIN_ROLE` role only) withdraws
+    /// some or all tokens that were supposed to be distrubuted to the stakers as their rewards.
+    /// @param user The admin that withdrawn tokens
+    /// @param withdrawnAmount Withdrawn amount
+    event ExcessiveBalanceWithdrawn(address indexed user, uint256 withdrawnAmount);
+
+    /// @notice Event is emmited when a user requests withdrawal request. Withdrawn tokens are locked for a cooling period.
+    /// @param user A user's address
+    /// @param amount Withdraw amount
+    /// @param withdrawId Withdraw request identifier
+    event WithdrawRequested(address indexed user, uint256 amount, uint256 withdrawId);
+
+    /// @notice Event is emmited when a user finalized his tokens.
+    /// @param user A user's address
+    /// @param amount Finalized amount
+    /// @param withdrawId Withdraw request identifier
+    event WithdrawIdFinalized(address indexed user, uint256 amount, uint256 withdrawId);
+
+    /// @notice Event is emmited when a user canceled his withdrawal request and his tokens were staked back.
+    /// @param user A user's address
+    /// @param amount Amount that was staked back
+    /// @param withdrawId Withdraw request identifier
+    event WithdrawIdCanceled(address indexed user, uint256 amount, uint256 withdrawId);
+
+    /// @notice Event is emmited when a user withdrew his tokens without the cooling period.
+    /// @param user A user's address
+    /// @param amount Withdrawn amount including the penalty
+    /// @param penalty The charged penalty
+    event InstantWithdrawn(address indexed user, uint256 amount, uint256 penalty);
+
+    /// @notice Event is emmited when a user finalized his withdrawal request before the end of its cooling period.
+    /// @param user A user's address
+    /// @param amount Finalized amount including the penalty
+    /// @param penalty The charged penalty
+    /// @param withdrawId Withdraw request identifier
+    event WithdrawIdAccelerated(
+        address indexed user,
+        uint256 amount,
+        uint256 penalty,
+        uint256 withdrawId
+    );
+
+    /// @notice Event is emmited when an admin changes the `earlyWithdrawPenalty` global variable.
+    /// @param oldValue The old value of the `earlyWithdrawPenalty` global variable
+    /// @param newValue The new value of the `earlyWithdrawPenalty` global variable
+    event EarlyWithdrawPenaltyChanged(uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when an admin changes the `isPenaltyProRated` global variable.
+    /// @param newValue The new value of the `isPenaltyProRated` global variable
+    event PenaltyProRatedChanged(bool newValue);
+
+    /// @notice Event is emmited when an admin changes the `penaltyReceiver` global variable.
+    /// @param oldValue The old value of the `penaltyReceiver` global variable
+    /// @param newValue The new value of the `penaltyReceiver` global variable
+    event PenaltyReceiverChanged(address oldValue, address newValue);
+
+    /// @notice Event is emmited when an admin adds a new lock tier.
+    /// @param tierId Id of the added tier
+    /// @param lockPeriod Lock period of the tier
+    /// @param aprMultiplier APR multiplier of the tier
+    event LockTierAdded(uint256 tierId, uint256 lockPeriod, uint256 aprMultiplier);
+
+    /// @notice Event is emmited when an admin changes the APR multiplier of a lock tier.
+    /// @param tierId Id of the tier
+    /// @param oldValue The old APR multiplier
+    /// @param newValue The new APR multiplier
+    event LockTierMultiplierChanged(uint256 tierId, uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when an admin allows or forbids new positions in a lock tier.
+    /// @param tierId Id of the tier
+    /// @param isActive The new value of the `isActive` field
+    event LockTierActiveChanged(uint256 tierId, bool isActive);
+
+    /// @notice Event is emmited when the rate accumulator of a lock tier is changed.
+    /// @param tierId Id of the tier
+    /// @param newRate The new value of the tier's rate accumulator
+    event TierRateUpdated(uint256 indexed tierId, uint256 newRate);
+
+    /// @notice Event is emmited when a user staked the token in a locked position.
+    /// @param user The user that staked the token
+    /// @param amount Staked amount of the token
+    /// @param positionId Id of the created position
+    /// @param tierId Id of the position's lock tier
+    /// @param unlockTimestamp Timestamp from which the position can be withdrawn
+    event TokenLocked(
+        address indexed user,
+        uint256 amount,
+        uint256 positionId,
+        uint256 tierId,
+        uint256 unlockTimestamp
+    );
+
+    /// @notice Event is emmited when a user requested a withdraw of his unlocked position.
+    /// @param user A user's address
+    /// @param positionId Id of the withdrawn position
+    /// @param withdrawId Id of the created withdrawal request
+    event PositionWithdrawRequested(address indexed user, uint256 positionId, uint256 withdrawId);
+
+    /// @notice Event is emmited when a user's rewards were added to his stake instead of being transferred.
+    /// @param user A user's address
+    /// @param amount Amount of the compounded rewards
+    event RewardsCompounded(address indexed user, uint256 amount);
+
+    /// @notice Event is emmited when a user turns on or off the auto-compounding of his rewards.
+    /// @param user A user's address
+    /// @param isAutoCompounding The new value of the `isAutoCompounding` flag
+    event AutoCompoundingChanged(address indexed user, bool isAutoCompounding);
+
+    /// @notice Event is emmited when tokens of the `sender` were staked for the `beneficiary`.
+    /// @param sender Address that paid the tokens
+    /// @param beneficiary Address whose stake was increased
+    /// @param amount Amount of the staked tokens
+    event TokenStakedFor(address indexed sender, address indexed beneficiary, uint256 amount);
+
+    /// @notice Event is emmited when a user approves or revokes an operator.
+    /// @param user A user's address
+    /// @param operator An operator's address
+    /// @param isApproved True if the operator can act on behalf of the user
+    event OperatorChanged(address indexed user, address indexed operator, bool isApproved);
+
+    /// @notice Event is emmited when a user changes the recipient of his payouts.
+    /// @param user A user's address
+    /// @param oldValue Old recipient, zero address means the user himself
+    /// @param newValue New recipient, zero address means the user himself
+    event PayoutRecipientChanged(address indexed user, address oldValue, address newValue);
+
+    /// @notice Event is emmited when an operator claimed rewards of a user.
+    /// @param operator An operator's address
+    /// @param user A user's address
+    event RewardsClaimedByOperator(address indexed operator, address indexed user);
+
+    /// @notice Event is emmited when an operator requested a withdrawal of a user.
+    /// @param operator An operator's address
+    /// @param user A user's address
+    /// @param withdrawId Id of the created request
+    event WithdrawRequestedByOperator(
+        address indexed operator,
+        address indexed user,
+        uint256 withdrawId
+    );
+
+    /// @notice Event is emmited when an operator finalized a withdrawal request of a user.
+    /// @param operator An operator's address
+    /// @param user A user's address
+    /// @param withdrawId Id of the finalized request
+    event WithdrawFinalizedByOperator(
+        address indexed operator,
+        address indexed user,
+        uint256 withdrawId
+    );
+
+    /// @notice Event is emmited when a manager adds a reward campaign.
+    /// @param campaignId Id of the campaign
+    /// @param startTimestamp Start of the campaign
+    /// @param endTimestamp End of the campaign
+    /// @param budget Amount of the token that the campaign distributes
+    event CampaignAdded(
+        uint256 campaignId,
+        uint256 startTimestamp,
+        uint256 endTimestamp,
+        uint256 budget
+    );
+
+    /// @notice Event is emmited when a manager switches the contract from the APR to the campaign reward mode.
+    event CampaignModeEnabled();
+
+    /// @notice Event is emmited when a manager adds an extra reward token.
+    /// @param token The extra reward token
+    /// @param rewardRate Amount of the token that is emitted per second
+    event ExtraRewardTokenAdded(IERC20 indexed token, uint256 rewardRate);
+
+    /// @notice Event is emmited when a manager changes the emission rate of an extra reward token.
+    /// @param token The extra reward token
+    /// @param oldValue Old amount of the token that is emitted per second
+    /// @param newValue New amount of the token that is emitted per second
+    event ExtraRewardRateChanged(IERC20 indexed token, uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when someone donates an extra reward token.
+    /// @param donator Donator's address
+    /// @param token The extra reward token
+    /// @param amount Donated amount of the token
+    event ExtraRewardsDonated(address indexed donator, IERC20 indexed token, uint256 amount);
+
+    /// @notice Event is emmited when a user receives rewards in an extra reward token.
+    /// @param user A user's address
+    /// @param token The extra reward token
+    /// @param amount Amount of the paid rewards
+    event ExtraRewardsClaimed(address indexed user, IERC20 indexed token, uint256 amount);
+
+    /// @notice Event is emmited when an admin withdraws the excessive balance of an extra reward token.
+    /// @param user An admin's address
+    /// @param token The extra reward token
+    /// @param withdrawnAmount Withdrawn amount of the token
+    event ExcessiveExtraRewardsWithdrawn(
+        address indexed user,
+        IERC20 indexed token,
+        uint256 withdrawnAmount
+    );
+
+    /// @notice Event is emmited when a pauser pauses or unpauses an operation.
+    /// @param operation The operation
+    /// @param newValue New value of the `isPaused` flag of the operation
+    event PausedChanged(Operation indexed operation, bool newValue);
+
+    /// @notice Event is emmited when an admin shuts down the contract in an emergency.
+    event EmergencyShutdownEnabled();
+
+    /// @notice Event is emmited when a user takes back his tokens after the emergency shutdown.
+    /// @param user A user's address
+    /// @param amount Amount of the returned tokens
+    event EmergencyWithdrawn(address indexed user, uint256 amount);
+
+    /// @notice Event is emmited when an admin sets the receipt token.
+    /// @param token The receipt token
+    event ReceiptTokenSet(IStakingReceiptToken indexed token);
+
+    /// @notice Event is emmited when a transfer of the receipt token moves a flexible stake.
+    /// @param from The previous owner of the stake
+    /// @param to The new owner of the stake
+    /// @param amount Moved amount
+    event StakeTransferred(address indexed from, address indexed to, uint256 amount);
+
+    /// @notice Event is emmited when an admin proposes a timelocked change.
+    /// @param change The proposed change
+    /// @param params The ABI-encoded arguments of the change's setter
+    /// @param executableTimestamp Timestamp since which the change can be executed
+    event ChangeProposed(Change indexed change, bytes params, uint256 executableTimestamp);
+
+    /// @notice Event is emmited when an admin cancels a proposed change.
+    /// @param change The canceled change
+    event ChangeCanceled(Change indexed change);
+
+    /// @notice Event is emmited when an admin executes a proposed change.
+    /// @param change The executed change
+    /// @param params The ABI-encoded arguments of the change's setter
+    event ChangeExecuted(Change indexed change, bytes params);
+
+    /// @notice Event is emmited when an admin changes the `changeDelay` global variable.
+    /// @param oldValue The old value of the `changeDelay` global variable
+    /// @param newValue The new value of the `changeDelay` global variable
+    event ChangeDelayChanged(uint256 oldValue, uint256 newValue);
+
+    /// @notice Event is emmited when the admin schedules the transfer of `DEFAULT_ADMIN_ROLE`.
+    /// @param newAdmin The new admin, the zero address for the renouncement of the role
+    /// @param acceptableTimestamp Timestamp since which the transfer can be accepted
+    event DefaultAdminTransferScheduled(address indexed newAdmin, uint256 acceptableTimestamp);
+
+    /// @notice Event is emmited when the admin cancels the scheduled transfer of `DEFAULT_ADMIN_ROLE`.
+    event DefaultAdminTransferCanceled();
+
+    /// @notice Event is emmited when an admin changes the `aprGuardrails` global variable.
+    /// @param maxApr The maximum APR, zero means `100_00`
+    /// @param maxAprDelta The maximum difference between the current and the new APR, zero means no limit
+    /// @param minChangeInterval The minimum interval between the changes of the APR
+    /// @param rampDuration The duration of the ramp from the current APR to the new one
+    event AprGuardrailsChanged(
+        uint256 maxApr,
+        uint256 maxAprDelta,
+        uint256 minChangeInterval,
+        uint256 rampDuration
+    );
+
+    /// @notice Event is emmited when an admin changes the parameters of the solvency throttling.
+    /// @param runway The new value of the `solvencyRunway` global variable
+    /// @param buffer The new value of the `solvencyBuffer` global variable
+    event SolvencyParametersChanged(uint256 runway, uint256 buffer);
+
+    /// @notice Event is emmited when the solvency throttling of the APR kicks in or out.
+    /// @param isThrottled True if the APR is scaled down
+    /// @param currentApr The APR that is in effect after the change
+    event SolvencyThrottlingChanged(bool isThrottled, uint256 currentApr);
+
+    /// @notice Event is emmited when an admin allows or disallows the migration to the `target` contract.
+    /// @param target The successor staking contract
+    /// @param isAllowed True if the users can migrate their stakes to the `target`
+    event MigrationTargetChanged(address indexed target, bool isAllowed);
+
+    /// @notice Event is emmited when an admin allows or disallows the migration from the `source` contract.
+    /// @param source The predecessor staking contract
+    /// @param isAllowed True if the `source` can migrate stakes to this contract
+    event MigrationSourceChanged(address indexed source, bool isAllowed);
+
+    /// @notice Event is emmited when a user migrates his stake to the `target` contract.
+    /// @param user A user's address
+    /// @param target The successor staking contract
+    /// @param stakeAmount Migrated amount of the flexible stake, including the compounded rewards
+    /// @param withdrawnAmount Migrated amount of the withdrawal requests
+    event StakeMigrated(
+        address indexed user,
+        address indexed target,
+        uint256 stakeAmount,
+        uint256 withdrawnAmount
+    );
+
+    /// @notice Event is emmited when the `source` contract migrates a stake of the `user` to this contract.
+    /// @param source The predecessor staking contract
+    /// @param user A user's address
+    /// @param amount Migrated amount
+    event StakeMigrationReceived(address indexed source, address indexed user, uint256 amount);
+
+    /* ERRORS */
+
+    /// @notice A transaction reverted with this error when a zero address is passed as an argument to a function.
+    error AddressZero();
+    /// @notice A transaction reverted with this error when a user tries to stake the token, but
+    /// staked amount `suppliedAmount` is less than minimum allowed amount `minStakeAmount`.
+    /// @param suppliedAmount Amount of the token that a user tried to stake
+    /// @param minStakeAmount Minimum amount of the token that are required for a stake
+    error LessThanMinAmount(uint256 suppliedAmount, uint256 minStakeAmount);
+    /// @notice A transaction reverted with this error when an admin tries to change a global variable to the same value.
+    error TheSameValue();
+    /// @notice A transaction reverted with this error when a user passes too big argument.
+    /// @param passedValue The value that the user passed
+    /// @param maxValue The maximum allowed value
+    error TooBigValue(uint256 passedValue, uint256 maxValue);
+    /// @notice A transaction reverted with this error when a user passes zero argument.
+    error ZeroValue();
+    /// @notice A transaction reverted with this error when a user tries to finalize a non-existent withdrawal request.
+    error NoSuchWithdrawId(uint256 withdrawId);
+    /// @notice A transaction reverted with this error when a user tries to finilize not his withdrawal request.
+    error NotAllowedUser(address sender, address allowedUser);
+    /// @notice A transaction reverted with this error when a user tries to finilize not finalizable withdrawal request.
+    error WithdrawIdNotFinalizableYet(uint256 timestampNow, uint256 coolingPeriodEnd);
+    /// @notice A transaction reverted with this error when a non-existent lock tier is passed.
+    error NoSuchLockTier(uint256 tierId);
+    /// @notice A transaction reverted with this error when a user tries to stake in an inactive lock tier.
+    error LockTierIsInactive(uint256 tierId);
+    /// @notice A transaction reverted with this error when a non-existent locked position is passed.
+    error NoSuchPosition(uint256 positionId);
+    /// @notice A transaction reverted with this error when a user tries to withdraw a position that is still locked.
+    error PositionIsLocked(uint256 timestampNow, uint256 unlockTimestamp);
+    /// @notice A transaction reverted with this error when a new campaign starts before `minStartTimestamp`,
+    /// i.e. in the past or before the end of the last campaign.
+    error CampaignStartTooEarly(uint256 startTimestamp, uint256 minStartTimestamp);
+    /// @notice A transaction reverted with this error when there is no campaign with the id `campaignId`.
+    error NoSuchCampaign(uint256 campaignId);
+    /// @notice A transaction reverted with this error when a campaign is added in the APR reward mode.
+    error CampaignModeIsDisabled();
+    /// @notice A transaction reverted with this error when `token` can't be added as an extra reward token,
+    /// i.e. it is the staked token or it is already added.
+    error InvalidExtraRewardToken(IERC20 token);
+    /// @notice A transaction reverted with this error when `token` isn't an extra reward token.
+    error NoSuchExtraRewardToken(IERC20 token);
+    /// @notice A transaction reverted with this error when the `operation` is paused.
+    error OperationIsPaused(Operation operation);
+    /// @notice A transaction reverted with this error when the function is available
+    /// after the emergency shutdown only.
+    error EmergencyShutdownIsDisabled();
+    /// @notice A transaction reverted with this error when the receipt token can't be set,
+    /// i.e. it is already set, some tokens are already staked or `token` belongs to another staking contract.
+    error InvalidReceiptToken(IStakingReceiptToken token);
+    /// @notice A transaction reverted with this error when a signed action is submitted after its deadline.
+    error SignatureExpired(uint256 timestampNow, uint256 deadline);
+    /// @notice A transaction reverted with this error when a signature of an action isn't made by the user.
+    error InvalidSignature();
+    /// @notice A transaction reverted with this error when a timelocked change is made directly
+    /// while `changeDelay` isn't zero. The change should be proposed with `proposeChange`.
+    error ChangeIsTimelocked(Change change);
+    /// @notice A transaction reverted with this error when an admin executes a change that isn't proposed.
+    error NoPendingChange(Change change);
+    /// @notice A transaction reverted with this error when an admin executes a change before its delay passed.
+    error ChangeNotExecutableYet(uint256 timestampNow, uint256 executableTimestamp);
+    /// @notice A transaction reverted with this error when an admin executes a change with other params
+    /// than the proposed ones.
+    error InvalidChangeParams(Change change);
+    /// @notice A transaction reverted with this error when `DEFAULT_ADMIN_ROLE` is granted, revoked
+    /// or renounced directly, bypassing the two-step transfer.
+    error DefaultAdminRoleIsProtected();
+    /// @notice A transaction reverted with this error when the transfer of `DEFAULT_ADMIN_ROLE`
+    /// is accepted before its delay passed.
+    error AdminTransferNotAcceptableYet(uint256 timestampNow, uint256 acceptableTimestamp);
+    /// @notice A transaction reverted with this error when a manager sets the APR above `aprGuardrails.maxApr`.
+    error AprAboveMax(uint256 newApr, uint256 maxApr);
+    /// @notice A transaction reverted with this error when the new APR differs from the current one
+    /// by more than `aprGuardrails.maxAprDelta`.
+    error AprDeltaTooBig(uint256 delta, uint256 maxAprDelta);
+    /// @notice A transaction reverted with this error when a manager changes the APR before
+    /// `aprGuardrails.minChangeInterval` passed since the last change.
+    error AprChangeTooEarly(uint256 timestampNow, uint256 nextChangeTimestamp);
+    /// @notice A transaction reverted with this error when a user migrates to a contract that isn't allowed
+    /// by `isMigrationTarget`.
+    error NotMigrationTarget(address target);
+    /// @notice A transaction reverted with this error when a stake is migrated from a contract that isn't allowed
+    /// by `isMigrationSource`.
+    error NotMigrationSource(address source);
+
+    /* INTERNAL FUNCTIONS */
+
+    function _updateRate() internal {
+        if (isCampaignMode) {
+            _updateCampaignRate();
+            return;
+        }
+
+        if (totalStaked == 0) {
+            lastRateUpdateTimestamp = block.timestamp;
+            return;
+        }
+
+        (uint256 newRatePerStaking, bool needUpdate) = _getNewRatePerStaking();
+        if (needUpdate) {
+            if (solvencyRunway != 0) {
+                // the tier rates are updated together with the flexible rate,
+                // so the funded rewards cap the emission of both
+                (uint256 lockedWeight, ) = LockTiers.weightedRate(_lockTiers);
+                totalUnpaidRewards +=
+                    LockTiers.updateAllRates(_lockTiers, _rateContext()) +
+                    ((totalRewardWeight - lockedWeight) * (newRatePerStaking - _ratePerStaking)) /
+                    (_RATE_PRECISION * _PERCENT_DENOMINATOR);
+            } else {
+                // the flexible stake has the weight `_PERCENT_DENOMINATOR` per token
+                totalUnpaidRewards +=
+                    (totalRewardWeight * (newRatePerStaking - _ratePerStaking)) /
+                    (_RATE_PRECISION * _PERCENT_DENOMINATOR);
+            }
+            _ratePerStaking = newRatePerStaking;
+
+            lastRateUpdateTimestamp = block.timestamp;
+
+            emit RateUpdated(newRatePerStaking);
+        }
+
+        _updateSolvencyThrottling();
+    }
+
+    /// @dev The emission of the campaigns is shared by `totalRewardWeight`.
+    /// The emission is lost while there is no weight.
+    function _updateCampaignRate() internal {
+        if (totalRewardWeight > 0) {
+            (uint256 newRatePerStaking, bool needUpdate) = _getNewRatePerStaking();
+            if (needUpdate) {
+                // the tier rates follow the flexible rate, so the emission is shared by the weights
+                totalUnpaidRewards +=
+                    (totalRewardWeight * (newRatePerStaking - _ratePerStaking)) /
+                    (_RATE_PRECISION * _PERCENT_DENOMINATOR);
+                _ratePerStaking = newRatePerStaking;
+
+                emit RateUpdated(newRatePerStaking);
+            }
+        }
+        lastRateUpdateTimestamp = block.timestamp;
+
+        Campaigns.skipEnded(_campaigns);
+    }
+
+    function _updateSolvencyThrottling() internal {
+        bool isThrottled;
+        uint256 aprMultiplier = _RATE_PRECISION;
+        if (solvencyRunway != 0) {
+            (aprMultiplier, , ) = _solvencyThrottle();
+            isThrottled = aprMultiplier < _RATE_PRECISION;
+        }
+
+        if (isThrottled != isSolvencyThrottled) {
+            isSolvencyThrottled = isThrottled;
+
+            emit SolvencyThrottlingChanged(
+                isThrottled,
+                (AprRamps.aprAt(aprRamp, apr, block.timestamp) * aprMultiplier) / _RATE_PRECISION
+            );
+        }
+    }
+
+    function _updateAllRates() internal {
+        _updateRate();
+        LockTiers.updateAllRates(_lockTiers, _rateContext());
+    }
+
+    /// @dev In the campaign mode tier rates follow the flexible rate, so it is updated first.
+    /// It is updated in the APR mode too, because the reward weights change after the call.
+    function _updatedRateContext() internal returns (LockTiers.RateContext memory context) {
+        _updateRate();
+        return _rateContext();
+    }
+
+    function _checkExtraRewardToken(IERC20 token) internal view {
+        if (_extraRewards.states[token].lastUpdateTimestamp == 0) {
+            revert NoSuchExtraRewardToken(token);
+        }
+    }
+
+    function _getNewRatePerStaking()
+        internal
+        view
+        returns (uint256 newRatePerStaking, bool needUpdate)
+    {
+        uint256 _lastRateUpdateTimestamp = lastRateUpdateTimestamp;
+        if (_lastRateUpdateTimestamp == block.timestamp) {
+            return (_ratePerStaking, false);
+        } else {
+            uint256 oldRatePerStaking = _ratePerStaking;
+            if (isCampaignMode) {
+                // the flexible stake has the weight `_PERCENT_DENOMINATOR` per token
+                uint256 _totalRewardWeight = totalRewardWeight;
+                newRatePerStaking = _totalRewardWeight == 0
+                    ? oldRatePerStaking
+                    : oldRatePerStaking +
+                        (Campaigns.emission(_campaigns, _lastRateUpdateTimestamp) *
+                            _RATE_PRECISION *
+                            _PERCENT_DENOMINATOR) /
+                        _totalRewardWeight;
+            } else {
+                uint256 rateIncrease = (oldRatePerStaking *
+                    AprRamps.aprIntegral(aprRamp, apr, _lastRateUpdateTimestamp)) /
+                    (_ONE_YEAR * _PERCENT_DENOMINATOR);
+                if (solvencyRunway != 0) {
+                    rateIncrease = _throttledRateIncrease(oldRatePerStaking, rateIncrease);
+                }
+                newRatePerStaking = oldRatePerStaking + rateIncrease;
+            }
+            return (newRatePerStaking, true);
+        }
+    }
+
+    /// @dev The emission of the interval is scaled down by the solvency throttling and capped
+    /// by the funded rewards, so the unpaid rewards can't exceed them. The tier rates grow
+    /// by the same fraction of their rates, so the flexible rate gets its share of the funded rewards.
+    function _throttledRateIncrease(
+        uint256 ratePerStaking,
+        uint256 rateIncrease
+    ) internal view returns (uint256) {
+        (uint256 aprMultiplier, uint256 fundedRewards, uint256 weightedRate) = _solvencyThrottle();
+        rateIncrease = (rateIncrease * aprMultiplier) / _RATE_PRECISION;
+
+        if (weightedRate != 0) {
+            uint256 maxRateIncrease = (fundedRewards *
+                _RATE_PRECISION *
+                _PERCENT_DENOMINATOR *
+                ratePerStaking) / weightedRate;
+            if (rateIncrease > maxRateIncrease) {
+                rateIncrease = maxRateIncrease;
+            }
+        }
+        return rateIncrease;
+    }
+
+    /// @dev Returns the multiplier of the APR (with the `_RATE_PRECISION` precision) for the interval
+    /// since `lastRateUpdateTimestamp` with the integral `aprIntegral` of the APR. It is the multiplier
+    /// of the solvency throttling, capped so that the emission of the interval of the flexible
+    /// and the tier rates together doesn't exceed the funded rewards.
+    function _throttledAprMultiplier(
+        uint256 aprIntegral
+    ) internal view returns (uint256 aprMultiplier) {
+        uint256 fundedRewards;
+        uint256 weightedRate;
+        (aprMultiplier, fundedRewards, weightedRate) = _solvencyThrottle();
+
+        uint256 emission = (weightedRate * aprIntegral) /
+            (_ONE_YEAR * _PERCENT_DENOMINATOR * _PERCENT_DENOMINATOR * _RATE_PRECISION);
+        if ((emission * aprMultiplier) / _RATE_PRECISION > fundedRewards) {
+            aprMultiplier = (fundedRewards * _RATE_PRECISION) / emission;
+        }
+    }
+
+    /// @dev Returns the multiplier of the APR (with the `_RATE_PRECISION` precision) that makes
+    /// the funded rewards cover the emission of `solvencyRunway` seconds, the funded rewards,
+    /// i.e. the balance and the `solvencyBuffer` above the staked tokens and the unpaid rewards,
+    /// and the weighted rate of the emission.
+    function _solvencyThrottle()
+        internal
+        view
+        returns (uint256 aprMultiplier, uint256 fundedRewards, uint256 weightedRate)
+    {
+        uint256 assets = TOKEN.balanceOf(address(this)) + solvencyBuffer;
+        uint256 liabilities = totalStaked + totalUnpaidRewards;
+        if (assets > liabilities) {
+            fundedRewards = assets - liabilities;
+        }
+
+        weightedRate = _weightedRate();
+        uint256 runwayEmission = (weightedRate *
+            AprRamps.aprAt(aprRamp, apr, block.timestamp) *
+            solvencyRunway) /
+            (_ONE_YEAR * _PERCENT_DENOMINATOR * _PERCENT_DENOMINATOR * _RATE_PRECISION);
+        if (fundedRewards >= runwayEmission) {
+            return (_RATE_PRECISION, fundedRewards, weightedRate);
+        }
+        return ((fundedRewards * _RATE_PRECISION) / runwayEmission, fundedRewards, weightedRate);
+    }
+
+    /// @dev Returns the reward weights multiplied by their rates (with the `_RATE_PRECISION` precision),
+    /// the emission in the APR mode is proportional to it.
+    function _weightedRate() internal view returns (uint256 weightedRate) {
+        (uint256 lockedWeight, uint256 lockedWeightedRate) = LockTiers.weightedRate(_lockTiers);
+        weightedRate = (totalRewardWeight - lockedWeight) * _ratePerStaking + lockedWeightedRate;
+    }
+
+    function _rateContext() internal view returns (LockTiers.RateContext memory context) {
+        uint256 aprMultiplier = _RATE_PRECISION;
+        if (solvencyRunway != 0 && !isCampaignMode) {
+            aprMultiplier = _throttledAprMultiplier(
+                AprRamps.aprIntegral(aprRamp, apr, lastRateUpdateTimestamp)
+            );
+        }
+
+        return
+            LockTiers.RateContext({
+                isCampaignMode: isCampaignMode,
+                flexibleRate: _ratePerStaking,
+                apr: apr,
+                aprRamp: aprRamp,
+                aprMultiplier: aprMultiplier
+            });
+    }
+}
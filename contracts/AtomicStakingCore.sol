@@ -0,0 +1,1320 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
+
+import {AtomicStakingAdmin} from "./AtomicStakingAdmin.sol";
+import {AtomicStakingBase} from "./AtomicStakingBase.sol";
+import {IAtomicStaking} from "./interface/IAtomicStaking.sol";
+import {IStakingMigrationReceiver} from "./interface/IStakingMigrationReceiver.sol";
+import {IStakingReceiptToken} from "./interface/IStakingReceiptToken.sol";
+import {AprRamps} from "./library/AprRamps.sol";
+import {Campaigns} from "./library/Campaigns.sol";
+import {ExtraRewards} from "./library/ExtraRewards.sol";
+import {LockTiers} from "./library/LockTiers.sol";
+import {Payouts} from "./library/Payouts.sol";
+import {Signatures} from "./library/Signatures.sol";
+import {Withdrawals} from "./library/Withdrawals.sol";
+
+/// @title The functions of the `AtomicStaking` contract and of its upgradeable variant.
+/// @author TepNik
+/// @dev The state is set by `_initialize`, which is called by the constructor of `AtomicStaking`
+/// and by the initializer of `AtomicStakingUpgradeable`.
+abstract contract AtomicStakingCore is AtomicStakingBase, EIP712, IAtomicStaking {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /* PUBLIC STATE VARIABLES */
+
+    /// @inheritdoc IAtomicStaking
+    address public immutable override ADMIN_EXTENSION;
+
+    /* PRIVATE VARIABLES */
+
+    bytes32 private constant _CLAIM_REWARDS_TYPEHASH =
+        keccak256("ClaimRewards(address user,uint256 nonce,uint256 deadline)");
+    bytes32 private constant _REQUEST_WITHDRAW_TYPEHASH =
+        keccak256("RequestWithdraw(address user,uint256 amount,uint256 nonce,uint256 deadline)");
+    bytes32 private constant _FINALIZE_WITHDRAW_TYPEHASH =
+        keccak256(
+            "FinalizeWithdraw(address user,uint256 withdrawId,uint256 nonce,uint256 deadline)"
+        );
+
+    /// @dev The admin extension keeps no state, so the implementation behind a proxy
+    /// can use the extension created by its constructor.
+    constructor() EIP712("AtomicStaking", "1") {
+        ADMIN_EXTENSION = address(new AtomicStakingAdmin());
+    }
+
+    /* USERS' FUNCTIONS */
+
+    /// @inheritdoc IAtomicStaking
+    function stake(uint256 amount) external override nonReentrant {
+        _stake(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function stakeFor(address beneficiary, uint256 amount) external override nonReentrant {
+        if (beneficiary == address(0)) {
+            revert AddressZero();
+        }
+
+        _stake(beneficiary, amount);
+
+        emit TokenStakedFor(msg.sender, beneficiary, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override nonReentrant {
+        // the permit can be front-run, in this case the allowance is already set
+        /* solhint-disable no-empty-blocks */
+        try
+            IERC20Permit(address(TOKEN)).permit({
+                owner: msg.sender,
+                spender: address(this),
+                value: amount,
+                deadline: deadline,
+                v: v,
+                r: r,
+                s: s
+            })
+        {} catch {}
+        /* solhint-enable no-empty-blocks */
+
+        _stake(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function requestWithdraw(
+        uint256 amount
+    ) external override nonReentrant returns (uint256 withdrawId) {
+        return _requestWithdraw(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function requestWithdrawFor(
+        address user,
+        uint256 amount
+    ) external override nonReentrant returns (uint256 withdrawId) {
+        _checkOperator(user);
+
+        withdrawId = _requestWithdraw(user, amount);
+
+        emit WithdrawRequestedByOperator(msg.sender, user, withdrawId);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function requestWithdrawBySig(
+        address user,
+        uint256 amount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant returns (uint256 withdrawId) {
+        _checkNotPaused(Operation.RequestWithdraw);
+        _useSignature({
+            user: user,
+            structHash: keccak256(
+                // solhint-disable-next-line func-named-parameters
+                abi.encode(_REQUEST_WITHDRAW_TYPEHASH, user, amount, nonces[user], deadline)
+            ),
+            deadline: deadline,
+            signature: signature
+        });
+
+        return _requestWithdraw(user, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function finalizeWithdraw(uint256 withdrawId) external override nonReentrant {
+        _transferWithdrawn(msg.sender, _finalizeWithdraw(msg.sender, withdrawId, true));
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function finalizeWithdrawFor(address user, uint256 withdrawId) external override nonReentrant {
+        _checkOperator(user);
+
+        _transferWithdrawn(user, _finalizeWithdraw(user, withdrawId, true));
+
+        emit WithdrawFinalizedByOperator(msg.sender, user, withdrawId);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function finalizeWithdrawBySig(
+        address user,
+        uint256 withdrawId,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant {
+        _checkNotPaused(Operation.FinalizeWithdraw);
+        _useSignature({
+            user: user,
+            structHash: keccak256(
+                // solhint-disable-next-line func-named-parameters
+                abi.encode(_FINALIZE_WITHDRAW_TYPEHASH, user, withdrawId, nonces[user], deadline)
+            ),
+            deadline: deadline,
+            signature: signature
+        });
+
+        _transferWithdrawn(user, _finalizeWithdraw(user, withdrawId, true));
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function finalizeWithdrawals(
+        uint256[] calldata withdrawIds,
+        bool revertIfNotFinalizable
+    ) external override nonReentrant returns (uint256 amount) {
+        uint256 length = withdrawIds.length;
+        for (uint256 i = 0; i < length; ++i) {
+            amount += _finalizeWithdraw(msg.sender, withdrawIds[i], revertIfNotFinalizable);
+        }
+
+        _transferWithdrawn(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function finalizeAllWithdrawals() external override nonReentrant returns (uint256 amount) {
+        amount = _finalizeMaturedWithdrawals(type(uint256).max);
+
+        _transferWithdrawn(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function finalizeMaturedWithdrawals(
+        uint256 maxCount
+    ) external override nonReentrant returns (uint256 amount) {
+        if (maxCount == 0) {
+            revert ZeroValue();
+        }
+
+        amount = _finalizeMaturedWithdrawals(maxCount);
+
+        _transferWithdrawn(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function stakeLocked(
+        uint256 amount,
+        uint256 tierId
+    ) external override nonReentrant returns (uint256 positionId) {
+        _checkNotPaused(Operation.Stake);
+        uint256 _minStakeAmount = minStakeAmount;
+        if (amount < _minStakeAmount) {
+            revert LessThanMinAmount(amount, _minStakeAmount);
+        }
+
+        // the flexible rate grows only while there are staked tokens
+        _updateRate();
+        uint256 unlockTimestamp;
+        uint256 weight;
+        (positionId, unlockTimestamp, weight) = LockTiers.lock({
+            data: _lockTiers,
+            user: msg.sender,
+            tierId: tierId,
+            amount: amount,
+            context: _rateContext()
+        });
+
+        totalStaked += amount;
+        totalRewardWeight += weight;
+
+        TOKEN.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit TokenLocked({
+            user: msg.sender,
+            amount: amount,
+            positionId: positionId,
+            tierId: tierId,
+            unlockTimestamp: unlockTimestamp
+        });
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function claimPositionRewards(uint256 positionId) external override nonReentrant {
+        _checkNotPaused(Operation.Claim);
+
+        _collectPositionRewards(_getSenderPosition(positionId));
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function requestPositionWithdraw(
+        uint256 positionId
+    ) external override nonReentrant returns (uint256 withdrawId) {
+        _checkNotPaused(Operation.RequestWithdraw);
+        LockedPosition storage position = _getSenderPosition(positionId);
+        uint256 unlockTimestamp = position.unlockTimestamp;
+        if (unlockTimestamp > block.timestamp) {
+            revert PositionIsLocked(block.timestamp, unlockTimestamp);
+        }
+
+        _collectPositionRewards(position);
+
+        (uint256 amount, uint256 weight) = LockTiers.unlock(_lockTiers, positionId);
+        totalRewardWeight -= weight;
+
+        withdrawId = _createWithdrawRequest(msg.sender, amount);
+
+        emit PositionWithdrawRequested(msg.sender, positionId, withdrawId);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function instantWithdraw(
+        uint256 amount
+    ) external override nonReentrant returns (uint256 penalty) {
+        _checkNotPaused(Operation.RequestWithdraw);
+        _checkNotPaused(Operation.FinalizeWithdraw);
+        if (amount == 0) {
+            revert ZeroValue();
+        }
+
+        _unstake(msg.sender, amount);
+
+        uint256 _coolingPeriod = coolingPeriod;
+        penalty = _earlyWithdrawPenalty(amount, _coolingPeriod, _coolingPeriod);
+
+        _payOutWithPenalty(msg.sender, amount, penalty);
+
+        emit InstantWithdrawn(msg.sender, amount, penalty);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function accelerateWithdraw(
+        uint256 withdrawId
+    ) external override nonReentrant returns (uint256 penalty) {
+        _checkNotPaused(Operation.FinalizeWithdraw);
+        WithdrawState memory withdrawState = Withdrawals.remove({
+            withdrawStates: _withdrawStates,
+            usersWithdrawIds: _usersWithdrawIds,
+            user: msg.sender,
+            withdrawId: withdrawId
+        });
+
+        uint256 coolingPeriodEnd = withdrawState.withdrawTimestamp + withdrawState.coolingPeriod;
+        if (coolingPeriodEnd > block.timestamp) {
+            penalty = _earlyWithdrawPenalty(
+                withdrawState.amount,
+                coolingPeriodEnd - block.timestamp,
+                withdrawState.coolingPeriod
+            );
+        }
+
+        _payOutWithPenalty(msg.sender, withdrawState.amount, penalty);
+
+        emit WithdrawIdAccelerated(msg.sender, withdrawState.amount, penalty, withdrawId);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function cancelWithdraw(uint256 withdrawId) external override nonReentrant {
+        // the canceled amount is staked again
+        _checkNotPaused(Operation.Stake);
+
+        _collectRewards(msg.sender, isAutoCompounding[msg.sender]);
+
+        _restake(msg.sender, _cancelWithdraw(withdrawId));
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function cancelWithdrawals(uint256[] calldata withdrawIds) external override nonReentrant {
+        _checkNotPaused(Operation.Stake);
+
+        _collectRewards(msg.sender, isAutoCompounding[msg.sender]);
+
+        uint256 amount;
+        uint256 length = withdrawIds.length;
+        for (uint256 i = 0; i < length; ++i) {
+            amount += _cancelWithdraw(withdrawIds[i]);
+        }
+
+        _restake(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function claimRewards() external nonReentrant {
+        _checkNotPaused(Operation.Claim);
+
+        _collectRewards(msg.sender, false);
+        _claimExtraRewards(msg.sender);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function claimRewardsFor(address user) external override nonReentrant {
+        _checkNotPaused(Operation.Claim);
+        _checkOperator(user);
+
+        _collectRewards(user, false);
+        _claimExtraRewards(user);
+
+        emit RewardsClaimedByOperator(msg.sender, user);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function claimRewardsBySig(
+        address user,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override nonReentrant {
+        _checkNotPaused(Operation.Claim);
+        _useSignature({
+            user: user,
+            structHash: keccak256(
+                abi.encode(_CLAIM_REWARDS_TYPEHASH, user, nonces[user], deadline)
+            ),
+            deadline: deadline,
+            signature: signature
+        });
+
+        _collectRewards(user, false);
+        _claimExtraRewards(user);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function compoundRewards() external override nonReentrant {
+        _checkNotPaused(Operation.Claim);
+
+        _collectRewards(msg.sender, true);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setAutoCompounding(bool isEnabled) external override {
+        if (isEnabled == isAutoCompounding[msg.sender]) {
+            revert TheSameValue();
+        }
+
+        isAutoCompounding[msg.sender] = isEnabled;
+
+        emit AutoCompoundingChanged(msg.sender, isEnabled);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setOperator(address operator, bool isApproved) external override {
+        if (operator == address(0)) {
+            revert AddressZero();
+        }
+        if (isApproved == isOperator[msg.sender][operator]) {
+            revert TheSameValue();
+        }
+
+        isOperator[msg.sender][operator] = isApproved;
+
+        emit OperatorChanged(msg.sender, operator, isApproved);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setPayoutRecipient(address recipient) external override {
+        address oldValue = payoutRecipients[msg.sender];
+        if (recipient == oldValue) {
+            revert TheSameValue();
+        }
+
+        payoutRecipients[msg.sender] = recipient;
+
+        emit PayoutRecipientChanged(msg.sender, oldValue, recipient);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function donateTokensToRewards(uint256 amount) external override nonReentrant {
+        TOKEN.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit TokensDonated(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function donateExtraRewards(IERC20 token, uint256 amount) external override nonReentrant {
+        _checkExtraRewardToken(token);
+
+        // the emission stopped while the pool was empty doesn't resume for the past time
+        ExtraRewards.updateRate(_extraRewards, token);
+
+        token.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit ExtraRewardsDonated(msg.sender, token, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function emergencyWithdraw() external override nonReentrant returns (uint256 amount) {
+        if (!isEmergencyShutdown) {
+            revert EmergencyShutdownIsDisabled();
+        }
+
+        // the rewards and the debt are forfeited, so they are no longer unpaid
+        _updateRate();
+        (uint256 forfeitedRewards, ) = _earnedRewards(msg.sender);
+        forfeitedRewards += _stakeStates[msg.sender].contractDeptToUser;
+
+        uint256 stakeAmount = _updateStakeAmount(msg.sender, 0);
+        delete _stakeStates[msg.sender];
+        _updateReceipt(msg.sender, stakeAmount, 0);
+        if (_extraRewards.tokens.length > 0) {
+            ExtraRewards.forfeit(_extraRewards, msg.sender);
+        }
+
+        (uint256 lockedAmount, uint256 lockedWeight, uint256 lockedRewards) = LockTiers.removeAll(
+            _lockTiers,
+            msg.sender,
+            _rateContext()
+        );
+        totalRewardWeight -= lockedWeight;
+        forfeitedRewards += lockedRewards;
+
+        amount =
+            stakeAmount +
+            lockedAmount +
+            Withdrawals.removeAll(_withdrawStates, _usersWithdrawIds, msg.sender);
+        if (amount == 0) {
+            revert ZeroValue();
+        }
+
+        totalStaked -= amount;
+        uint256 _totalUnpaidRewards = totalUnpaidRewards;
+        totalUnpaidRewards = _totalUnpaidRewards > forfeitedRewards
+            ? _totalUnpaidRewards - forfeitedRewards
+            : 0;
+
+        TOKEN.safeTransfer(_payoutRecipient(msg.sender), amount);
+
+        emit EmergencyWithdrawn(msg.sender, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function onReceiptTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) external override nonReentrant {
+        if (msg.sender != address(_receiptToken)) {
+            revert NotAllowedUser(msg.sender, address(_receiptToken));
+        }
+
+        _collectRewards(from, isAutoCompounding[from]);
+        _collectRewards(to, isAutoCompounding[to]);
+
+        // the receipt token has already moved the balances
+        _updateStakeAmount(from, _stakeStates[from].stakeAmount - amount);
+        _updateStakeAmount(to, _stakeStates[to].stakeAmount + amount);
+
+        emit StakeTransferred(from, to, amount);
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function migrate(
+        IStakingMigrationReceiver newStakingContract,
+        bool includeWithdrawals
+    ) external override nonReentrant returns (uint256 amount) {
+        _checkNotPaused(Operation.RequestWithdraw);
+        if (!isMigrationTarget[address(newStakingContract)]) {
+            revert NotMigrationTarget(address(newStakingContract));
+        }
+
+        // the rewards are migrated with the stake
+        _collectRewards(msg.sender, true);
+        _claimExtraRewards(msg.sender);
+
+        uint256 stakeAmount = _stakeStates[msg.sender].stakeAmount;
+        _setStakeAmount(msg.sender, 0);
+
+        uint256 withdrawnAmount;
+        if (includeWithdrawals) {
+            withdrawnAmount = Withdrawals.removeAll(_withdrawStates, _usersWithdrawIds, msg.sender);
+        }
+
+        amount = stakeAmount + withdrawnAmount;
+        if (amount == 0) {
+            revert ZeroValue();
+        }
+
+        totalStaked -= amount;
+
+        // the successor pulls the approved tokens, an allowance that is left over doesn't block the migration
+        TOKEN.safeIncreaseAllowance(address(newStakingContract), amount);
+        newStakingContract.onStakeMigrated(msg.sender, amount);
+
+        emit StakeMigrated(msg.sender, address(newStakingContract), stakeAmount, withdrawnAmount);
+    }
+
+    /// @inheritdoc IStakingMigrationReceiver
+    function onStakeMigrated(address user, uint256 amount) external override nonReentrant {
+        _checkNotPaused(Operation.Stake);
+        if (!isMigrationSource[msg.sender]) {
+            revert NotMigrationSource(msg.sender);
+        }
+        if (amount == 0) {
+            revert ZeroValue();
+        }
+
+        _collectRewards(user, isAutoCompounding[user]);
+
+        _setStakeAmount(user, _stakeStates[user].stakeAmount + amount);
+        totalStaked += amount;
+
+        TOKEN.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit StakeMigrationReceived(msg.sender, user, amount);
+    }
+
+    /* ADMINS' FUNCTIONS */
+
+    /// @inheritdoc IAtomicStaking
+    function setMinStakeAmount(uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setApr(uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function enableCampaignMode() external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function addCampaign(uint256, uint256, uint256) external override returns (uint256) {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function addExtraRewardToken(IERC20, uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setExtraRewardRate(IERC20, uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setCoolingPeriod(uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function addLockTier(uint256, uint256) external override returns (uint256) {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setLockTierMultiplier(uint256, uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setLockTierActive(uint256, bool) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setEarlyWithdrawPenalty(uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setPenaltyProRated(bool) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setPenaltyReceiver(address) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function receiveExcessiveBalance(uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function receiveExcessiveExtraRewards(IERC20, uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setPaused(Operation, bool) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function enableEmergencyShutdown() external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setReceiptToken(IStakingReceiptToken) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setChangeDelay(uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function proposeChange(Change, bytes calldata) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function executeChange(Change, bytes calldata) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function cancelChange(Change) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function beginDefaultAdminTransfer(address) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function cancelDefaultAdminTransfer() external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function acceptDefaultAdminTransfer() external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setAprGuardrails(uint256, uint256, uint256, uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setSolvencyParameters(uint256, uint256) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setMigrationTarget(address, bool) external override {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function setMigrationSource(address, bool) external override {
+        _delegateToAdmin();
+    }
+
+    /// @dev `DEFAULT_ADMIN_ROLE` can't be granted directly.
+    function grantRole(bytes32, address) public override {
+        _delegateToAdmin();
+    }
+
+    /// @dev `DEFAULT_ADMIN_ROLE` can't be revoked directly.
+    function revokeRole(bytes32, address) public override {
+        _delegateToAdmin();
+    }
+
+    /// @dev `DEFAULT_ADMIN_ROLE` can be renounced only after the renouncement
+    /// is scheduled by `beginDefaultAdminTransfer` with the zero address.
+    function renounceRole(bytes32, address) public override {
+        _delegateToAdmin();
+    }
+
+    /* GETTERS */
+
+    /// @inheritdoc IAtomicStaking
+    function effectiveApr() external view override returns (uint256 currentApr) {
+        currentApr = AprRamps.aprAt(aprRamp, apr, block.timestamp);
+        if (solvencyRunway != 0 && !isCampaignMode) {
+            (uint256 aprMultiplier, , ) = _solvencyThrottle();
+            currentApr = (currentApr * aprMultiplier) / _RATE_PRECISION;
+        }
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function availableRewardsToClaim(address user) external view override returns (uint256) {
+        uint256 totalBalance = TOKEN.balanceOf(address(this));
+        uint256 _totalStaked = totalStaked;
+        if (totalBalance <= _totalStaked) {
+            return 0;
+        }
+
+        (uint256 earnedRewards, ) = _earnedRewards(user);
+        uint256 totalRewards = _stakeStates[user].contractDeptToUser + earnedRewards;
+
+        uint256 availableBalance = totalBalance - _totalStaked;
+        if (totalRewards <= availableBalance) {
+            return totalRewards;
+        } else {
+            return availableBalance;
+        }
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function availableExtraRewardsToClaim(
+        IERC20 token,
+        address user
+    ) external view override returns (uint256 rewards) {
+        _checkExtraRewardToken(token);
+        return
+            ExtraRewards.availableRewards({
+                data: _extraRewards,
+                token: token,
+                user: user,
+                stake: _stakeStates[user].stakeAmount
+            });
+    }
+
+    /// @inheritdoc IAtomicStaking
+    /// @dev A separate getter is needed to specify in the interface that
+    /// the struct `StakeState` is the return type, not just the tuple of variables.
+    /// Without this getter the interface should have a tuple of variables as the return type of this function.
+    function stakeStates(
+        address user
+    ) external view override returns (StakeState memory stakeState) {
+        return _stakeStates[user];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    /// @dev A separate getter is needed to specify in the interface that
+    /// the struct `WithdrawState` is the return type, not just the tuple of variables.
+    /// Without this getter the interface should have a tuple of variables as the return type of this function.
+    function withdrawStates(
+        uint256 withdrawId
+    ) external view override returns (WithdrawState memory withdrawState) {
+        return _withdrawStates[withdrawId];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view override returns (bytes32 domainSeparator) {
+        return _domainSeparatorV4();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function lockTiersCount() external view override returns (uint256 count) {
+        return _lockTiers.tiers.length;
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function lockTiers(uint256 tierId) external view override returns (LockTier memory lockTier) {
+        if (tierId >= _lockTiers.tiers.length) {
+            revert NoSuchLockTier(tierId);
+        }
+        return _lockTiers.tiers[tierId];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function tierRates(uint256 tierId) external view override returns (TierRate memory tierRate) {
+        if (tierId >= _lockTiers.tiers.length) {
+            revert NoSuchLockTier(tierId);
+        }
+        return _lockTiers.rates[tierId];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function campaignsCount() external view override returns (uint256 count) {
+        return _campaigns.campaigns.length;
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function receiptToken() external view override returns (IStakingReceiptToken token) {
+        return _receiptToken;
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function campaigns(
+        uint256 campaignId
+    ) external view override returns (Campaign memory campaign) {
+        if (campaignId >= _campaigns.campaigns.length) {
+            revert NoSuchCampaign(campaignId);
+        }
+        return _campaigns.campaigns[campaignId];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function extraRewardTokens() external view override returns (IERC20[] memory tokens) {
+        return _extraRewards.tokens;
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function extraRewardStates(
+        IERC20 token
+    ) external view override returns (ExtraRewardState memory extraRewardState) {
+        _checkExtraRewardToken(token);
+        return _extraRewards.states[token];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function positions(
+        uint256 positionId
+    ) external view override returns (LockedPosition memory position) {
+        return _lockTiers.positions[positionId];
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function usersPositionIds(
+        address user
+    ) external view override returns (uint256[] memory positionIds) {
+        return _lockTiers.usersPositionIds[user].values();
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function positionRewards(uint256 positionId) external view override returns (uint256 rewards) {
+        LockedPosition storage position = _lockTiers.positions[positionId];
+        if (position.amount == 0) {
+            return 0;
+        }
+
+        uint256 allRewards = (position.amount * _getNewTierRate(position.tierId)) / _RATE_PRECISION;
+        if (allRewards > position.claimedAmount) {
+            rewards = allRewards - position.claimedAmount;
+        }
+    }
+
+    /// @inheritdoc IAtomicStaking
+    function usersWithdrawIds(
+        address user
+    ) external view override returns (uint256[] memory withdrawIds) {
+        return _usersWithdrawIds[user].values();
+    }
+
+    /* INTERNAL FUNCTIONS */
+
+    /// @dev The caller will have `DEFAULT_ADMIN_ROLE` role.
+    /// Also, the `_apr` argument can't be bigger than `_PERCENT_DENOMINATOR` to prevent too big values
+    /// and the `_coolingPeriod` argument can't be bigger than `_MAX_COOLING_PERIOD`.
+    function _initialize(
+        IERC20 token,
+        uint256 _minStakeAmount,
+        uint256 _apr,
+        uint256 _coolingPeriod
+    ) internal onlyInitializing {
+        if (address(token) == address(0)) {
+            revert AddressZero();
+        }
+        // apr can't be more than 100% to prevent too big values
+        if (_apr > _PERCENT_DENOMINATOR) {
+            revert TooBigValue(_apr, _PERCENT_DENOMINATOR);
+        }
+        if (_coolingPeriod > _MAX_COOLING_PERIOD) {
+            revert TooBigValue(_coolingPeriod, _MAX_COOLING_PERIOD);
+        }
+
+        TOKEN = token;
+        _ratePerStaking = _RATE_PRECISION;
+
+        if (_apr != 0) {
+            apr = _apr;
+
+            emit AprChanged(0, _apr);
+        }
+
+        if (_minStakeAmount != 0) {
+            minStakeAmount = _minStakeAmount;
+
+            emit MinStakeAmountChanged(0, _minStakeAmount);
+        }
+
+        if (_coolingPeriod != 0) {
+            coolingPeriod = _coolingPeriod;
+
+            emit CoolingPeriodChanged(0, _coolingPeriod);
+        }
+
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        defaultAdmin = msg.sender;
+    }
+
+    /* PRIVATE FUNCTIONS */
+
+    /// @dev Executes the current call in the `ADMIN_EXTENSION` contract and returns its result.
+    function _delegateToAdmin() private {
+        address extension = ADMIN_EXTENSION;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), extension, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            if iszero(success) {
+                revert(0, returndatasize())
+            }
+            return(0, returndatasize())
+        }
+    }
+
+    function _claimExtraRewards(address user) private {
+        if (_extraRewards.tokens.length > 0) {
+            ExtraRewards.claim({
+                data: _extraRewards,
+                user: user,
+                stake: _stakeStates[user].stakeAmount,
+                recipient: _payoutRecipient(user)
+            });
+        }
+    }
+
+    /// @dev Checks that the `user` signed the EIP-712 struct with the hash `structHash` and
+    /// invalidates his current nonce.
+    function _useSignature(
+        address user,
+        bytes32 structHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) private {
+        Signatures.verify({
+            user: user,
+            digest: _hashTypedDataV4(structHash),
+            deadline: deadline,
+            signature: signature
+        });
+
+        ++nonces[user];
+    }
+
+    function _stake(address user, uint256 amount) private {
+        _checkNotPaused(Operation.Stake);
+        uint256 _minStakeAmount = minStakeAmount;
+        if (amount < _minStakeAmount) {
+            revert LessThanMinAmount(amount, _minStakeAmount);
+        }
+
+        _collectRewards(user, isAutoCompounding[user]);
+
+        _setStakeAmount(user, _stakeStates[user].stakeAmount + amount);
+        totalStaked += amount;
+
+        TOKEN.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit TokenStaked(user, amount);
+    }
+
+    function _requestWithdraw(address user, uint256 amount) private returns (uint256 withdrawId) {
+        _checkNotPaused(Operation.RequestWithdraw);
+        if (amount == 0) {
+            revert ZeroValue();
+        }
+
+        _unstake(user, amount);
+
+        return _createWithdrawRequest(user, amount);
+    }
+
+    /// @dev If `compound` is true, the rewards are added to the stake of the `user`.
+    function _collectRewards(address user, bool compound) private {
+        _updateRate();
+
+        (uint256 earnedRewards, uint256 allRewards) = _earnedRewards(user);
+        if (earnedRewards > 0) {
+            _stakeStates[user].claimedAmount = allRewards;
+        }
+
+        _payRewards(user, earnedRewards, compound);
+    }
+
+    /// @dev Pays `earnedRewards` and the debt of the contract to the `user`.
+    /// The part that the contract can't pay becomes the new debt, all of it while claims are paused.
+    function _payRewards(address user, uint256 earnedRewards, bool compound) private {
+        if (earnedRewards == 0 && _stakeStates[user].contractDeptToUser == 0) {
+            return;
+        }
+
+        uint256 availableBalance;
+        uint256 totalBalance = TOKEN.balanceOf(address(this));
+        uint256 _totalStaked = totalStaked;
+        if (totalBalance > _totalStaked && !_isPaused(Operation.Claim)) {
+            availableBalance = totalBalance - _totalStaked;
+        }
+
+        uint256 payment = Payouts.settle({
+            stakeState: _stakeStates[user],
+            user: user,
+            earnedRewards: earnedRewards,
+            availableBalance: availableBalance
+        });
+        if (payment > 0) {
+            // the estimate can be less than the actual rewards
+            uint256 _totalUnpaidRewards = totalUnpaidRewards;
+            totalUnpaidRewards = _totalUnpaidRewards > payment ? _totalUnpaidRewards - payment : 0;
+
+            _sendRewards(user, payment, compound);
+        }
+    }
+
+    /// @dev The flexible rate should be updated before compounding.
+    function _sendRewards(address user, uint256 amount, bool compound) private {
+        if (compound) {
+            _setStakeAmount(user, _stakeStates[user].stakeAmount + amount);
+            totalStaked += amount;
+
+            emit RewardsCompounded(user, amount);
+        } else {
+            TOKEN.safeTransfer(_payoutRecipient(user), amount);
+
+            emit RewardsClaimed(user, amount);
+        }
+    }
+
+    function _updateTierRate(uint256 tierId) private returns (uint256 newRatePerStaking) {
+        return LockTiers.updateRate(_lockTiers, tierId, _updatedRateContext());
+    }
+
+    function _collectPositionRewards(LockedPosition storage position) private {
+        uint256 allRewards = (position.amount * _updateTierRate(position.tierId)) / _RATE_PRECISION;
+
+        uint256 earnedRewards;
+        if (allRewards > position.claimedAmount) {
+            earnedRewards = allRewards - position.claimedAmount;
+            position.claimedAmount = allRewards;
+        }
+
+        // rewards of locked positions are never compounded into the flexible stake
+        _payRewards(position.user, earnedRewards, false);
+    }
+
+    function _createWithdrawRequest(
+        address user,
+        uint256 amount
+    ) private returns (uint256 withdrawId) {
+        withdrawId = ++_lastWithdrawId;
+
+        _withdrawStates[withdrawId].user = user;
+        _withdrawStates[withdrawId].withdrawTimestamp = uint64(block.timestamp);
+        // the request is locked for the cooling period that is in effect right now
+        _withdrawStates[withdrawId].coolingPeriod = uint32(coolingPeriod);
+        _withdrawStates[withdrawId].amount = amount;
+
+        assert(_usersWithdrawIds[user].add(withdrawId));
+
+        emit WithdrawRequested(user, amount, withdrawId);
+    }
+
+    /// @dev Collects rewards of the `user` and decreases his stake by `amount`.
+    /// `totalStaked` isn't changed.
+    function _unstake(address user, uint256 amount) private {
+        uint256 stakeAmount = _stakeStates[user].stakeAmount;
+        if (stakeAmount < amount) {
+            revert TooBigValue(amount, stakeAmount);
+        }
+
+        _collectRewards(user, isAutoCompounding[user]);
+
+        // the stake could grow by the compounded rewards
+        _setStakeAmount(user, _stakeStates[user].stakeAmount - amount);
+    }
+
+    /// @dev Sets the flexible stake of the `user` and updates his receipt balance.
+    /// Rewards of the `user` should be collected before the call.
+    function _setStakeAmount(address user, uint256 newStakeAmount) private {
+        _updateReceipt(user, _updateStakeAmount(user, newStakeAmount), newStakeAmount);
+    }
+
+    /// @dev Sets the flexible stake of the `user` and updates the reward weights.
+    /// Rewards of the `user` should be collected before the call.
+    function _updateStakeAmount(
+        address user,
+        uint256 newStakeAmount
+    ) private returns (uint256 oldStakeAmount) {
+        oldStakeAmount = _stakeStates[user].stakeAmount;
+        _stakeStates[user].stakeAmount = newStakeAmount;
+        _stakeStates[user].claimedAmount = (newStakeAmount * _ratePerStaking) / _RATE_PRECISION;
+
+        totalRewardWeight =
+            totalRewardWeight +
+            newStakeAmount *
+            _PERCENT_DENOMINATOR -
+            oldStakeAmount *
+            _PERCENT_DENOMINATOR;
+
+        if (_extraRewards.tokens.length == 0) {
+            _extraRewards.totalStaked = _extraRewards.totalStaked + newStakeAmount - oldStakeAmount;
+        } else {
+            ExtraRewards.updateStake({
+                data: _extraRewards,
+                user: user,
+                oldStake: oldStakeAmount,
+                newStake: newStakeAmount
+            });
+        }
+    }
+
+    /// @dev Mints or burns the difference of the stakes to keep the receipt balance of the `user`
+    /// equal to his flexible stake.
+    function _updateReceipt(address user, uint256 oldStakeAmount, uint256 newStakeAmount) private {
+        IStakingReceiptToken token = _receiptToken;
+        if (address(token) == address(0)) {
+            return;
+        }
+
+        if (newStakeAmount > oldStakeAmount) {
+            token.mint(user, newStakeAmount - oldStakeAmount);
+        } else if (newStakeAmount < oldStakeAmount) {
+            token.burn(user, oldStakeAmount - newStakeAmount);
+        }
+    }
+
+    /// @dev Deletes the withdrawal request and returns its amount. Returns zero without changes
+    /// when the request isn't finalizable yet and `revertIfNotFinalizable` is false.
+    function _finalizeWithdraw(
+        address user,
+        uint256 withdrawId,
+        bool revertIfNotFinalizable
+    ) private returns (uint256 amount) {
+        _checkNotPaused(Operation.FinalizeWithdraw);
+
+        return
+            Withdrawals.finalize({
+                withdrawStates: _withdrawStates,
+                usersWithdrawIds: _usersWithdrawIds,
+                user: user,
+                withdrawId: withdrawId,
+                revertIfNotFinalizable: revertIfNotFinalizable
+            });
+    }
+
+    /// @dev Finalizes at most `maxCount` matured withdrawal requests of the sender.
+    function _finalizeMaturedWithdrawals(uint256 maxCount) private returns (uint256 amount) {
+        _checkNotPaused(Operation.FinalizeWithdraw);
+
+        return
+            Withdrawals.finalizeMatured({
+                withdrawStates: _withdrawStates,
+                usersWithdrawIds: _usersWithdrawIds,
+                user: msg.sender,
+                maxCount: maxCount
+            });
+    }
+
+    /// @dev Sends `amount - penalty` tokens to the `user`. The penalty goes to the `penaltyReceiver`
+    /// or stays in the contract as rewards.
+    function _payOutWithPenalty(address user, uint256 amount, uint256 penalty) private {
+        totalStaked -= amount;
+
+        TOKEN.safeTransfer(_payoutRecipient(user), amount - penalty);
+
+        if (penalty > 0) {
+            address _penaltyReceiver = penaltyReceiver;
+            if (_penaltyReceiver != address(0)) {
+                TOKEN.safeTransfer(_penaltyReceiver, penalty);
+            } else {
+                emit TokensDonated(user, penalty);
+            }
+        }
+    }
+
+    function _transferWithdrawn(address user, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+
+        totalStaked -= amount;
+
+        TOKEN.safeTransfer(_payoutRecipient(user), amount);
+    }
+
+    function _cancelWithdraw(uint256 withdrawId) private returns (uint256 amount) {
+        amount = Withdrawals
+            .remove({
+                withdrawStates: _withdrawStates,
+                usersWithdrawIds: _usersWithdrawIds,
+                user: msg.sender,
+                withdrawId: withdrawId
+            })
+            .amount;
+
+        emit WithdrawIdCanceled(msg.sender, amount, withdrawId);
+    }
+
+    /// @dev Moves `amount` of already counted in `totalStaked` tokens back to the stake of the `user`.
+    /// Rewards of the `user` should be collected before the call.
+    function _restake(address user, uint256 amount) private {
+        _setStakeAmount(user, _stakeStates[user].stakeAmount + amount);
+    }
+
+    /// @dev `remainingTime` is the part of the `fullCoolingPeriod` that the user skips.
+    function _earlyWithdrawPenalty(
+        uint256 amount,
+        uint256 remainingTime,
+        uint256 fullCoolingPeriod
+    ) private view returns (uint256 penalty) {
+        if (remainingTime == 0) {
+            return 0;
+        }
+
+        penalty = (amount * earlyWithdrawPenalty) / _PERCENT_DENOMINATOR;
+        if (isPenaltyProRated) {
+            penalty = (penalty * remainingTime) / fullCoolingPeriod;
+        }
+    }
+
+    /// @dev The sender can act on behalf of himself and of users that approved him as an operator.
+    function _checkOperator(address user) private view {
+        if (user != msg.sender && !isOperator[user][msg.sender]) {
+            revert NotAllowedUser(msg.sender, user);
+        }
+    }
+
+    function _checkNotPaused(Operation operation) private view {
+        if (_isPaused(operation)) {
+            revert OperationIsPaused(operation);
+        }
+    }
+
+    /// @dev All operations are paused after the emergency shutdown.
+    function _isPaused(Operation operation) private view returns (bool) {
+        return isEmergencyShutdown || isPaused[operation];
+    }
+
+    /// @dev Returns the address that receives tokens paid out to the `user`.
+    function _payoutRecipient(address user) private view returns (address recipient) {
+        recipient = payoutRecipients[user];
+        if (recipient == address(0)) {
+            recipient = user;
+        }
+    }
+
+    function _getSenderPosition(
+        uint256 positionId
+    ) private view returns (LockedPosition storage position) {
+        position = _lockTiers.positions[positionId];
+        if (position.user == address(0)) {
+            revert NoSuchPosition(positionId);
+        }
+        if (position.user != msg.sender) {
+            revert NotAllowedUser(msg.sender, position.user);
+        }
+    }
+
+    function _earnedRewards(
+        address user
+    ) private view returns (uint256 earnedRewards, uint256 allRewards) {
+        uint256 stakeAmount = _stakeStates[user].stakeAmount;
+
+        if (stakeAmount == 0) {
+            return (0, 0);
+        }
+
+        uint256 claimedAmount = _stakeStates[user].claimedAmount;
+        (uint256 ratePerStaking, ) = _getNewRatePerStaking();
+        allRewards = (stakeAmount * ratePerStaking) / _RATE_PRECISION;
+
+        if (allRewards <= claimedAmount) {
+            return (0, allRewards);
+        }
+        return (allRewards - claimedAmount, allRewards);
+    }
+
+    function _getNewTierRate(uint256 tierId) private view returns (uint256 newRatePerStaking) {
+        LockTiers.RateContext memory context = _rateContext();
+        if (context.isCampaignMode) {
+            (context.flexibleRate, ) = _getNewRatePerStaking();
+        }
+        return LockTiers.getNewRate(_lockTiers, tierId, context);
+    }
+}
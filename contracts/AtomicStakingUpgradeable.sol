@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import {AtomicStakingCore} from "./AtomicStakingCore.sol";
+
+/// @title The upgradeable variant of the `AtomicStaking` contract.
+/// @author TepNik
+/// @dev The contract is an implementation behind the OpenZeppelin `TransparentUpgradeableProxy`,
+/// which keeps the upgrade logic out of this contract near the contract size limit.
+/// New versions must keep the storage layout of the previous ones, it is checked by the tests.
+contract AtomicStakingUpgradeable is AtomicStakingCore {
+    /// @dev The implementation itself can't be initialized, only the proxies can.
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes the proxy, the caller will have `DEFAULT_ADMIN_ROLE` role.
+    /// @dev The proxy should be deployed with the call of this function, otherwise anyone can initialize it.
+    /// @param token Address of the staked token
+    /// @param _minStakeAmount The minimum amount of a stake
+    /// @param _apr The APR with the denominator `100_00`, it can't be bigger than `100_00`
+    /// @param _coolingPeriod The cooling period (in seconds) of the withdrawals, it can't be bigger than 365 days
+    function initialize(
+        IERC20 token,
+        uint256 _minStakeAmount,
+        uint256 _apr,
+        uint256 _coolingPeriod
+    ) external initializer {
+        _initialize(token, _minStakeAmount, _apr, _coolingPeriod);
+    }
+}
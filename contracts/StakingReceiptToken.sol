@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+import {ERC20Votes} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+
+import {IAtomicStaking} from "./interface/IAtomicStaking.sol";
+import {IStakingReceiptToken} from "./interface/IStakingReceiptToken.sol";
+
+/// @title The receipt token of the flexible stakes in the `AtomicStaking` contract.
+/// @author TepNik
+/// @dev The balance of a user always equals his flexible stake, locked positions and
+/// withdrawal requests aren't represented by the token.
+/// In the transferable mode a transfer moves the stake, the staking contract settles rewards
+/// of both users before that.
+/// The token keeps `ERC20Votes` checkpoints, so the flexible stakes can be used as the voting power
+/// of an OpenZeppelin `Governor`. Withdrawal requests in the cooling period don't have voting power.
+contract StakingReceiptToken is ERC20Votes, IStakingReceiptToken {
+    /* PUBLIC STATE VARIABLES */
+
+    /// @inheritdoc IStakingReceiptToken
+    IAtomicStaking public immutable override STAKING;
+
+    /// @inheritdoc IStakingReceiptToken
+    bool public immutable override IS_TRANSFERABLE;
+
+    /* PRIVATE VARIABLES */
+
+    uint8 private immutable _DECIMALS;
+
+    /* ERRORS */
+
+    /// @notice A transaction reverted with this error when a zero address is passed as an argument to a function.
+    error AddressZero();
+    /// @notice A transaction reverted with this error when the function is called not by the staking contract.
+    error NotStakingContract(address sender);
+    /// @notice A transaction reverted with this error when a soulbound token is transferred.
+    error TransfersAreDisabled();
+
+    /// @dev The token has the same decimals as the staked token.
+    constructor(
+        IAtomicStaking staking,
+        string memory name,
+        string memory symbol,
+        bool isTransferable
+    ) ERC20(name, symbol) ERC20Permit(name) {
+        if (address(staking) == address(0)) {
+            revert AddressZero();
+        }
+
+        STAKING = staking;
+        IS_TRANSFERABLE = isTransferable;
+        _DECIMALS = IERC20Metadata(address(staking.TOKEN())).decimals();
+    }
+
+    /* STAKING'S FUNCTIONS */
+
+    /// @inheritdoc IStakingReceiptToken
+    function mint(address user, uint256 amount) external override {
+        _checkStaking();
+
+        _mint(user, amount);
+    }
+
+    /// @inheritdoc IStakingReceiptToken
+    function burn(address user, uint256 amount) external override {
+        _checkStaking();
+
+        _burn(user, amount);
+    }
+
+    /* GETTERS */
+
+    /// @inheritdoc ERC20
+    function decimals() public view override(ERC20, IERC20Metadata) returns (uint8 tokenDecimals) {
+        return _DECIMALS;
+    }
+
+    /* PRIVATE FUNCTIONS */
+
+    /// @dev Minting and burning follow the stake, so only transfers are reported to the staking contract.
+    function _afterTokenTransfer(address from, address to, uint256 amount) internal override {
+        super._afterTokenTransfer(from, to, amount);
+
+        if (from != address(0) && to != address(0)) {
+            STAKING.onReceiptTransfer(from, to, amount);
+        }
+    }
+
+    function _beforeTokenTransfer(address from, address to, uint256) internal view override {
+        if (!IS_TRANSFERABLE && from != address(0) && to != address(0)) {
+            revert TransfersAreDisabled();
+        }
+    }
+
+    function _checkStaking() private view {
+        if (msg.sender != address(STAKING)) {
+            revert NotStakingContract(msg.sender);
+        }
+    }
+}
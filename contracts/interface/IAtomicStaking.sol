@@ -4,41 +4,30 @@ pragma solidity >=0.8.0;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
-interface IAtomicStaking {
-    struct StakeState {
-        uint256 stakeAmount;
-        uint256 claimedAmount;
-        uint256 contractDeptToUser;
-    }
-    struct WithdrawState {
-        address user;
-        uint64 withdrawTimestamp;
-        uint256 amount;
-    }
+import {IAtomicStakingBase} from "./IAtomicStakingBase.sol";
+import {IStakingMigrationReceiver} from "./IStakingMigrationReceiver.sol";
+import {IStakingReceiptToken} from "./IStakingReceiptToken.sol";
 
+interface IAtomicStaking is IAtomicStakingBase, IStakingMigrationReceiver {
     /* PUBLIC STATE VARIABLES */
 
-    /// @notice The `MANAGER_ROLE` identifier.
-    /// This role can manage contract (call admins' functions), but can't add or remove other managers.
-    function MANAGER_ROLE() external view returns (bytes32);
+    /// @notice Address of the extension contract that implements the admins' functions.
+    /// @dev The admins' functions are executed by delegatecall in the context of this contract.
+    function ADMIN_EXTENSION() external view returns (address);
 
-    /// @notice Address of the token that the contract is staking.
-    function TOKEN() external view returns (IERC20);
+    /// @notice The EIP-712 domain separator of the signed actions.
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view returns (bytes32 domainSeparator);
 
-    /// @notice Minimum amount of a stake.
-    /// @dev The change of this variable will affect only new stakes.
-    function minStakeAmount() external view returns (uint256);
+    /// @notice Number of the added lock tiers. Tier ids are `0..lockTiersCount() - 1`.
+    function lockTiersCount() external view returns (uint256 count);
 
-    /// @notice The APR of the staking. The denominator is `100_00`.
-    /// @dev In case of chaging of the APR, this change doesn't affect the rewards that the users earned before it.
-    /// It only affects new earnings.
-    function apr() external view returns (uint256);
+    /// @notice Number of the added campaigns. Campaign ids are `0..campaignsCount() - 1`.
+    function campaignsCount() external view returns (uint256 count);
 
-    /// @notice Amount of the tokens that users have staked.
-    function totalStaked() external view returns (uint256);
-
-    /// @notice Timestamp of the contract's last update.
-    function lastRateUpdateTimestamp() external view returns (uint256);
+    /// @notice The receipt token of the flexible stakes, the zero address if there is no receipt token.
+    /// @dev The receipt token is also the voting token of the stakers.
+    function receiptToken() external view returns (IStakingReceiptToken);
 
     /* USERS' FUNCTIONS */
 
@@ -46,47 +35,450 @@ interface IAtomicStaking {
     /// @param amount Amount to stake
     function stake(uint256 amount) external;
 
+    /// @notice Function to stake the sender's tokens for the `beneficiary`.
+    /// @param beneficiary Address whose stake is increased
+    /// @param amount Amount to stake
+    function stakeFor(address beneficiary, uint256 amount) external;
+
+    /// @notice Function for a user to stake his tokens with an EIP-2612 permit instead of a separate approval.
+    /// @dev If the permit fails (e.g. it was already used by a front-runner), the existing allowance is used.
+    /// @param amount Amount to stake, it is also the permitted amount
+    /// @param deadline Deadline of the permit
+    /// @param v Signature component `v` of the permit
+    /// @param r Signature component `r` of the permit
+    /// @param s Signature component `s` of the permit
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
     /// @notice Function for a user to request a withdraw of his tokens. Withdrawn tokens are locked for a cooling period.
     /// @param amount Amount a user wants to withdraw
     /// @return withdrawId Id of a withdrawal request. This id should be used to fully withdraw cooled tokens.
     function requestWithdraw(uint256 amount) external returns (uint256 withdrawId);
 
+    /// @notice Function for an operator to request a withdraw of the `user`'s tokens.
+    /// @param user A user that approved the sender as an operator
+    /// @param amount Amount to withdraw
+    /// @return withdrawId Id of a withdrawal request of the `user`
+    function requestWithdrawFor(address user, uint256 amount) external returns (uint256 withdrawId);
+
+    /// @notice Function for a relayer to request a withdraw of the `user`'s tokens with his EIP-712 signature of
+    /// `RequestWithdraw(address user,uint256 amount,uint256 nonce,uint256 deadline)`.
+    /// @param user A user that signed the action
+    /// @param amount Amount to withdraw
+    /// @param deadline Timestamp after which the signature is invalid
+    /// @param signature Signature of the `user`
+    /// @return withdrawId Id of a withdrawal request of the `user`
+    function requestWithdrawBySig(
+        address user,
+        uint256 amount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 withdrawId);
+
     /// @notice Function for a user to finalize a withdrawn of his tokens.
     /// @param withdrawId A withdraw id that should be finalized
     function finalizeWithdraw(uint256 withdrawId) external;
 
+    /// @notice Function for an operator to finalize a withdrawal request of the `user`.
+    /// @dev Tokens are sent to the payout recipient of the `user`, never to the operator.
+    /// @param user A user that approved the sender as an operator
+    /// @param withdrawId A withdraw id of the `user` that should be finalized
+    function finalizeWithdrawFor(address user, uint256 withdrawId) external;
+
+    /// @notice Function for a relayer to finalize a withdrawal request of the `user` with his EIP-712 signature of
+    /// `FinalizeWithdraw(address user,uint256 withdrawId,uint256 nonce,uint256 deadline)`.
+    /// @dev Tokens are sent to the payout recipient of the `user`.
+    /// @param user A user that signed the action
+    /// @param withdrawId A withdraw id of the `user` that should be finalized
+    /// @param deadline Timestamp after which the signature is invalid
+    /// @param signature Signature of the `user`
+    function finalizeWithdrawBySig(
+        address user,
+        uint256 withdrawId,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /// @notice Function for a user to finalize several withdrawal requests with one token transfer.
+    /// @param withdrawIds Withdraw ids that should be finalized
+    /// @param revertIfNotFinalizable If false, requests that are still in the cooling period are skipped
+    /// @return amount The sum of the finalized requests
+    function finalizeWithdrawals(
+        uint256[] calldata withdrawIds,
+        bool revertIfNotFinalizable
+    ) external returns (uint256 amount);
+
+    /// @notice Function for a user to finalize all his withdrawal requests that passed the cooling period.
+    /// @dev Gas usage grows with the number of the user's requests, use `finalizeMaturedWithdrawals`
+    /// to drain a long queue in chunks.
+    /// @return amount The sum of the finalized requests
+    function finalizeAllWithdrawals() external returns (uint256 amount);
+
+    /// @notice Function for a user to finalize at most `maxCount` of his withdrawal requests that passed
+    /// the cooling period.
+    /// @param maxCount The maximum number of requests to finalize, can't be zero
+    /// @return amount The sum of the finalized requests
+    function finalizeMaturedWithdrawals(uint256 maxCount) external returns (uint256 amount);
+
+    /// @notice Function for a user to withdraw his tokens right away without the cooling period.
+    /// The `earlyWithdrawPenalty` part of the amount is charged as a penalty.
+    /// @param amount Amount a user wants to withdraw
+    /// @return penalty The charged penalty
+    function instantWithdraw(uint256 amount) external returns (uint256 penalty);
+
+    /// @notice Function for a user to finalize his withdrawal request before the end of its cooling period.
+    /// The `earlyWithdrawPenalty` part of the amount is charged as a penalty.
+    /// @dev Matured requests are finalized without a penalty.
+    /// @param withdrawId A withdraw id that should be finalized
+    /// @return penalty The charged penalty
+    function accelerateWithdraw(uint256 withdrawId) external returns (uint256 penalty);
+
+    /// @notice Function for a user to stake his tokens in a locked position of the lock tier `tierId`.
+    /// The position earns `apr * aprMultiplier / 100_00` and can't be withdrawn until the end of the tier's lock period.
+    /// @param amount Amount to stake
+    /// @param tierId Id of an active lock tier
+    /// @return positionId Id of the created position
+    function stakeLocked(uint256 amount, uint256 tierId) external returns (uint256 positionId);
+
+    /// @notice Function for a user to claim the rewards of his locked position.
+    /// @param positionId A position id that the `stakeLocked` function returned
+    function claimPositionRewards(uint256 positionId) external;
+
+    /// @notice Function for a user to request a withdraw of his unlocked position. The position's rewards are
+    /// claimed and the whole amount is locked for a cooling period like in the `requestWithdraw` function.
+    /// @dev The position earns the boosted rewards until this function is called.
+    /// @param positionId A position id that the `stakeLocked` function returned
+    /// @return withdrawId Id of a withdrawal request
+    function requestPositionWithdraw(uint256 positionId) external returns (uint256 withdrawId);
+
+    /// @notice Function for a user to cancel his withdrawal request. The requested tokens are staked back
+    /// and the user's pending rewards are claimed. The `minStakeAmount` limit doesn't apply.
+    /// @param withdrawId A withdraw id that should be canceled
+    function cancelWithdraw(uint256 withdrawId) external;
+
+    /// @notice Function for a user to cancel several withdrawal requests at once.
+    /// @dev Works the same as `cancelWithdraw` for every id, but the rewards are claimed only once.
+    /// @param withdrawIds Withdraw ids that should be canceled
+    function cancelWithdrawals(uint256[] calldata withdrawIds) external;
+
     /// @notice Function for a user to claim his rewards.
+    /// @dev Also pays the rewards in all extra reward tokens.
     function claimRewards() external;
 
+    /// @notice Function for an operator to claim rewards of the `user`.
+    /// @dev Rewards are sent to the payout recipient of the `user`, never to the operator.
+    /// @param user A user that approved the sender as an operator
+    function claimRewardsFor(address user) external;
+
+    /// @notice Function for a relayer to claim rewards of the `user` with his EIP-712 signature of
+    /// `ClaimRewards(address user,uint256 nonce,uint256 deadline)`.
+    /// @dev Rewards are sent to the payout recipient of the `user`.
+    /// @param user A user that signed the action
+    /// @param deadline Timestamp after which the signature is invalid
+    /// @param signature Signature of the `user`
+    function claimRewardsBySig(address user, uint256 deadline, bytes calldata signature) external;
+
+    /// @notice Function for a user to add his rewards to his stake. The `minStakeAmount` limit doesn't apply.
+    /// @dev If the rewards pool is short, only the available part is compounded and the rest becomes the debt.
+    function compoundRewards() external;
+
+    /// @notice Function for a user to turn on or off the auto-compounding of his rewards.
+    /// @param isEnabled New value of the `isAutoCompounding` flag
+    function setAutoCompounding(bool isEnabled) external;
+
+    /// @notice Function for a user to approve or revoke an operator that acts on his behalf.
+    /// @param operator An operator's address
+    /// @param isApproved True to approve the operator, false to revoke
+    function setOperator(address operator, bool isApproved) external;
+
+    /// @notice Function for a user to set the address that receives his rewards and withdrawn tokens.
+    /// @param recipient New recipient, the zero address sends tokens to the user himself
+    function setPayoutRecipient(address recipient) external;
+
     /// @notice Function to donate tokens to this contract.
     /// @dev Open to anyone. Also, the tokens can be transfered to the contract by the ordinary `transfer` function.
     /// The contract looks in the `balanceOf` function.
     /// @param amount Amount of tokens to donate
     function donateTokensToRewards(uint256 amount) external;
 
+    /// @notice Function to donate an extra reward token to this contract.
+    /// @dev Open to anyone. Unlike `donateTokensToRewards`, direct transfers of extra reward tokens
+    /// are counted as well. A direct transfer to the empty pool also pays the emission for the time
+    /// the pool was empty, the donation doesn't.
+    /// @param token An extra reward token
+    /// @param amount Amount of tokens to donate
+    function donateExtraRewards(IERC20 token, uint256 amount) external;
+
+    /// @notice Function for a user to take back his staked tokens, locked positions and withdrawal requests
+    /// right away after the emergency shutdown.
+    /// @dev The rewards and the debt of the contract to the user are forfeited.
+    /// The tokens are transferred to the payout recipient of the user.
+    /// @return amount Amount of the returned tokens
+    function emergencyWithdraw() external returns (uint256 amount);
+
+    /// @notice Function for a user to move his flexible stake with the accrued rewards and, optionally,
+    /// his withdrawal requests to the allow-listed successor `newStakingContract` without the cooling period.
+    /// @dev The rewards are compounded before the migration, the part that the contract can't pay stays
+    /// as the debt of the contract to the user. Extra rewards are claimed.
+    /// Locked positions aren't migrated: they stay in this contract and are withdrawn from it after their
+    /// lock periods end, the user can migrate the withdrawal requests of the positions later.
+    /// The migration is paused together with the withdrawal requests.
+    /// @param newStakingContract The successor staking contract that is allowed by `isMigrationTarget`
+    /// @param includeWithdrawals True to migrate the withdrawal requests as well
+    /// @return amount Migrated amount
+    function migrate(
+        IStakingMigrationReceiver newStakingContract,
+        bool includeWithdrawals
+    ) external returns (uint256 amount);
+
+    /// @notice Hook of the receipt token that moves `amount` of the flexible stake from `from` to `to`.
+    /// @dev The function is available to the `receiptToken` contract only. Rewards of both users
+    /// are collected before the stake is moved.
+    /// @param from The sender of the receipt token
+    /// @param to The recipient of the receipt token
+    /// @param amount Transferred amount
+    function onReceiptTransfer(address from, address to, uint256 amount) external;
+
     /* ADMINS' FUNCTIONS */
 
     /// @notice Admins' function to set the `minStakeAmount` global variable to the new value `newAmount`.
+    /// @dev The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
     /// @param newAmount New value of the `minStakeAmount` global variable
     function setMinStakeAmount(uint256 newAmount) external;
 
     /// @notice Admins' function to set the `apr` global variable to the new value `newValue`.
+    /// The change is limited by the `aprGuardrails`, with a ramp the APR glides to the `newValue`.
     /// @dev The `newValue` argument can't be bigger than `_PERCENT_DENOMINATOR` to prevent too big values.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
     /// @param newValue New value of the `apr` global variable
     function setApr(uint256 newValue) external;
 
+    /// @notice Admins' function to set the `coolingPeriod` global variable to the new value `newValue`.
+    /// @dev The `newValue` argument can't be bigger than `_MAX_COOLING_PERIOD` (365 days).
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param newValue New value of the `coolingPeriod` global variable
+    function setCoolingPeriod(uint256 newValue) external;
+
+    /// @notice Admins' function to set the `earlyWithdrawPenalty` global variable to the new value `newValue`.
+    /// @dev The `newValue` argument can't be bigger than `_PERCENT_DENOMINATOR`.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param newValue New value of the `earlyWithdrawPenalty` global variable
+    function setEarlyWithdrawPenalty(uint256 newValue) external;
+
+    /// @notice Admins' function to set the `isPenaltyProRated` global variable to the new value `newValue`.
+    /// @param newValue New value of the `isPenaltyProRated` global variable
+    function setPenaltyProRated(bool newValue) external;
+
+    /// @notice Admins' function to set the `penaltyReceiver` global variable to the new value `newValue`.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param newValue New value of the `penaltyReceiver` global variable
+    function setPenaltyReceiver(address newValue) external;
+
+    /// @notice Admins' function to add a new lock tier.
+    /// @dev `lockPeriod` can't be bigger than `_MAX_LOCK_PERIOD` (365 days), `aprMultiplier` can't be bigger than
+    /// `_MAX_APR_MULTIPLIER` (5x) and there can't be more than `_MAX_LOCK_TIERS` (16) tiers.
+    /// @param lockPeriod Lock period of new positions in seconds
+    /// @param aprMultiplier APR multiplier of the tier. The denominator is `100_00`.
+    /// @return tierId Id of the added tier
+    function addLockTier(
+        uint256 lockPeriod,
+        uint256 aprMultiplier
+    ) external returns (uint256 tierId);
+
+    /// @notice Admins' function to change the APR multiplier of the lock tier `tierId`.
+    /// The new multiplier applies to the existing positions of the tier as well, which can't be withdrawn
+    /// before their unlock, so the change is announced in advance by the timelock.
+    /// @dev The change doesn't affect the rewards that the positions earned before it.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param tierId Id of a lock tier
+    /// @param newValue New APR multiplier
+    function setLockTierMultiplier(uint256 tierId, uint256 newValue) external;
+
+    /// @notice Admins' function to allow or forbid new positions in the lock tier `tierId`.
+    /// @dev Existing positions of the tier keep earning rewards.
+    /// @param tierId Id of a lock tier
+    /// @param isActive New value of the `isActive` field
+    function setLockTierActive(uint256 tierId, bool isActive) external;
+
+    /// @notice Admins' function to switch the contract from the `apr` to the campaign reward mode.
+    /// @dev Rewards earned before the switch aren't affected. The switch is irreversible.
+    function enableCampaignMode() external;
+
+    /// @notice Admins' function to add a reward campaign that emits `budget` tokens evenly
+    /// from `startTimestamp` to `startTimestamp + duration`.
+    /// @dev The budget is transferred from the sender, so he should approve it first. Campaigns can't overlap,
+    /// `startTimestamp` can't be earlier than now and than the end of the last campaign.
+    /// Available in the campaign mode only.
+    /// @param startTimestamp Start of the campaign
+    /// @param duration Duration of the campaign in seconds
+    /// @param budget Amount of tokens that the campaign distributes
+    /// @return campaignId Id of the added campaign
+    function addCampaign(
+        uint256 startTimestamp,
+        uint256 duration,
+        uint256 budget
+    ) external returns (uint256 campaignId);
+
+    /// @notice Admins' function to add an extra reward token that is emitted with the rate `rewardRate`.
+    /// @dev The emission is shared by the flexible stakes, locked positions don't earn extra reward tokens.
+    /// The emission stops while the pool of the token, i.e. its balance above the owed rewards, is empty.
+    /// There can't be more than `_MAX_EXTRA_REWARD_TOKENS` (8) extra reward tokens and the staked token can't
+    /// be one of them. Every extra token should be a plain ERC20 token, a reverting token blocks `claimRewards`.
+    /// @param token The new extra reward token
+    /// @param rewardRate Amount of the token that is emitted per second
+    function addExtraRewardToken(IERC20 token, uint256 rewardRate) external;
+
+    /// @notice Admins' function to set the emission rate of the extra reward token `token`.
+    /// @dev The change doesn't affect the rewards that the users earned before it.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param token An extra reward token
+    /// @param newValue New amount of the token that is emitted per second
+    function setExtraRewardRate(IERC20 token, uint256 newValue) external;
+
     /// @notice Admins' function to get excessive balance of the contract. Excessive balance is everithing that is bigger than total staked tokens.
     /// @param amount Amount ot withdraw
     /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only. The amount will be ceiled by the available amount to withdraw.
+    /// Not emitted yet budgets of the campaigns and, in the campaign mode, not paid rewards aren't excessive.
+    /// The withdrawal is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
     function receiveExcessiveBalance(uint256 amount) external;
 
+    /// @notice Admins' function to get excessive balance of the extra reward token `token`.
+    /// Excessive balance is everything that isn't owed to the users as already emitted rewards.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only.
+    /// The amount will be ceiled by the available amount to withdraw.
+    /// @param token An extra reward token
+    /// @param amount Amount to withdraw
+    function receiveExcessiveExtraRewards(IERC20 token, uint256 amount) external;
+
+    /// @notice Pauser's function to pause or unpause the `operation`.
+    /// @dev The function is available to the `PAUSER_ROLE` role only.
+    /// @param operation The operation to pause or unpause
+    /// @param newValue New value of the `isPaused` flag of the operation
+    function setPaused(Operation operation, bool newValue) external;
+
+    /// @notice Admins' function to shut down the contract in an emergency.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only. The shutdown is irreversible.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    function enableEmergencyShutdown() external;
+
+    /// @notice Admins' function to set the receipt token of the flexible stakes.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only. The receipt token can be set
+    /// once and before the first stake only, because existing stakes don't have receipts.
+    /// @param token The receipt token which `STAKING` is this contract
+    function setReceiptToken(IStakingReceiptToken token) external;
+
+    /// @notice Admins' function to set the `changeDelay` global variable to the new value `newValue`.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only.
+    /// The `newValue` argument can't be bigger than `_MAX_CHANGE_DELAY` (30 days).
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param newValue New value of the `changeDelay` global variable
+    function setChangeDelay(uint256 newValue) external;
+
+    /// @notice Admins' function to propose the timelocked `change` with the `params`.
+    /// The change can be executed by `executeChange` after `changeDelay` seconds.
+    /// @dev The function is available to the role of the change's setter: `MANAGER_ROLE` for the `apr`,
+    /// the `minStakeAmount`, the `coolingPeriod`, the `earlyWithdrawPenalty`, the rates of the extra
+    /// reward tokens and the multipliers of the lock tiers, `DEFAULT_ADMIN_ROLE` for the rest. A new proposal of the same change replaces
+    /// the pending one, so there is one pending change of every kind.
+    /// @param change The proposed change
+    /// @param params The ABI-encoded arguments of the change's setter, e.g. `abi.encode(newValue)`
+    /// for `setApr` and the empty bytes for `enableEmergencyShutdown`
+    function proposeChange(Change change, bytes calldata params) external;
+
+    /// @notice Admins' function to execute the proposed `change` after its delay passed.
+    /// @dev The function is available to the role of the change's setter. The params are validated
+    /// the same way as in the setter.
+    /// @param change The proposed change
+    /// @param params The proposed params
+    function executeChange(Change change, bytes calldata params) external;
+
+    /// @notice Admins' function to cancel the proposed `change`.
+    /// @dev The function is available to the role of the change's setter.
+    /// @param change The proposed change
+    function cancelChange(Change change) external;
+
+    /// @notice Admins' function to schedule the transfer of `DEFAULT_ADMIN_ROLE` to the `newAdmin`.
+    /// The `newAdmin` can accept the role after `changeDelay` seconds, but not earlier than in 1 day.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only. The zero `newAdmin`
+    /// schedules the renouncement of the role. A new schedule replaces the pending one.
+    /// @param newAdmin The new admin
+    function beginDefaultAdminTransfer(address newAdmin) external;
+
+    /// @notice Admins' function to cancel the scheduled transfer of `DEFAULT_ADMIN_ROLE`.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only.
+    function cancelDefaultAdminTransfer() external;
+
+    /// @notice Function for the new admin to accept the scheduled transfer of `DEFAULT_ADMIN_ROLE`.
+    /// The role is revoked from the current admin.
+    function acceptDefaultAdminTransfer() external;
+
+    /// @notice Admins' function to set the `aprGuardrails` global variable.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only. Zero values disable the limits.
+    /// The `maxApr` argument can't be bigger than `_PERCENT_DENOMINATOR`, the `minChangeInterval`
+    /// and the `rampDuration` arguments can't be bigger than 365 days.
+    /// The new limits apply to the next changes of the `apr`, an ongoing ramp isn't affected.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param maxApr The maximum APR
+    /// @param maxAprDelta The maximum difference between the current and the new APR
+    /// @param minChangeInterval The minimum interval (in seconds) between the changes of the APR
+    /// @param rampDuration The duration (in seconds) of the ramp from the current APR to the new one
+    function setAprGuardrails(
+        uint256 maxApr,
+        uint256 maxAprDelta,
+        uint256 minChangeInterval,
+        uint256 rampDuration
+    ) external;
+
+    /// @notice Admins' function to set the `solvencyRunway` and the `solvencyBuffer` global variables.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only.
+    /// The `runway` argument can't be bigger than 365 days, the zero `runway` disables the throttling.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param runway The runway (in seconds) of the emission that the funded rewards should cover
+    /// @param buffer Amount of the token by which the unpaid rewards can exceed the funded rewards
+    function setSolvencyParameters(uint256 runway, uint256 buffer) external;
+
+    /// @notice Admins' function to allow or disallow the users to migrate their stakes to the `target` contract.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only. The `target` must have the same
+    /// staked token and allow this contract by `isMigrationSource`.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param target The successor staking contract
+    /// @param isAllowed New value of the `isMigrationTarget` flag of the `target`
+    function setMigrationTarget(address target, bool isAllowed) external;
+
+    /// @notice Admins' function to allow or disallow the `source` contract to migrate stakes to this contract.
+    /// @dev The function is available to the `DEFAULT_ADMIN_ROLE` role only.
+    /// The change is timelocked, it is made by `proposeChange` if `changeDelay` isn't zero.
+    /// @param source The predecessor staking contract
+    /// @param isAllowed New value of the `isMigrationSource` flag of the `source`
+    function setMigrationSource(address source, bool isAllowed) external;
+
     /* GETTERS */
 
+    /// @notice Function to get the APR that is in effect right now, it differs from the `apr` during a ramp
+    /// and while the APR is scaled down by the solvency throttling.
+    /// @return currentApr The current APR, the denominator is `100_00`
+    function effectiveApr() external view returns (uint256 currentApr);
+
     /// @notice Function to get amount of tokens that are available to claim right now.
     /// @param user Address of a user
     /// @return rewardsToClaim Amount of tokens that are available to claim right now
     function availableRewardsToClaim(address user) external view returns (uint256 rewardsToClaim);
 
+    /// @notice Function to get amount of the extra reward token `token` that is available to claim right now.
+    /// @param token An extra reward token
+    /// @param user Address of a user
+    /// @return rewards Amount of tokens that are available to claim right now
+    function availableExtraRewardsToClaim(
+        IERC20 token,
+        address user
+    ) external view returns (uint256 rewards);
+
     /// @notice The mapping that connects users' addresses with their stake state.
     /// @param user A user's address
     /// @return stakeState The `StakeState` structure that holds information about the user's stake
@@ -99,6 +491,50 @@ interface IAtomicStaking {
         uint256 withdrawId
     ) external view returns (WithdrawState memory withdrawState);
 
+    /// @notice Function to get a lock tier.
+    /// @param tierId Id of a lock tier
+    /// @return lockTier The `LockTier` structure
+    function lockTiers(uint256 tierId) external view returns (LockTier memory lockTier);
+
+    /// @notice Function to get the rate accumulator of a lock tier.
+    /// @dev The rate is updated lazily, use `positionRewards` to get the up-to-date rewards.
+    /// @param tierId Id of a lock tier
+    /// @return tierRate The `TierRate` structure
+    function tierRates(uint256 tierId) external view returns (TierRate memory tierRate);
+
+    /// @notice Function to get a reward campaign.
+    /// @param campaignId Id of a campaign
+    /// @return campaign The `Campaign` structure
+    function campaigns(uint256 campaignId) external view returns (Campaign memory campaign);
+
+    /// @notice Function to get all extra reward tokens.
+    /// @return tokens An array of the extra reward tokens in the order they were added
+    function extraRewardTokens() external view returns (IERC20[] memory tokens);
+
+    /// @notice Function to get the emission state of an extra reward token.
+    /// @dev The state is updated lazily, use `availableExtraRewardsToClaim` to get the up-to-date rewards.
+    /// @param token An extra reward token
+    /// @return extraRewardState The `ExtraRewardState` structure
+    function extraRewardStates(
+        IERC20 token
+    ) external view returns (ExtraRewardState memory extraRewardState);
+
+    /// @notice The mapping that connects position ids with their state.
+    /// @param positionId A position id that the `stakeLocked` function returned
+    /// @return position The `LockedPosition` structure
+    function positions(uint256 positionId) external view returns (LockedPosition memory position);
+
+    /// @notice The mapping that connects user's address with his locked position ids.
+    /// @param user A user's address
+    /// @return positionIds An array that contains all position ids of a user
+    function usersPositionIds(address user) external view returns (uint256[] memory positionIds);
+
+    /// @notice Function to get not claimed rewards of a locked position.
+    /// @dev Unlike `availableRewardsToClaim`, the result isn't limited by the balance of the contract.
+    /// @param positionId A position id
+    /// @return rewards Earned rewards of the position
+    function positionRewards(uint256 positionId) external view returns (uint256 rewards);
+
     /// @notice The mapping that connects user's address with his withdraw ids.
     /// @param user A user's address
     /// @return withdrawIds An array that contains all withdraw ids of a user
@@ -0,0 +1,246 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity >=0.8.0;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/// @dev Types and public state variables of the `AtomicStaking` contract.
+/// They are shared with the `AtomicStakingAdmin` extension that has the same storage layout.
+interface IAtomicStakingBase {
+    /// @dev Users' operations that can be paused separately.
+    enum Operation {
+        Stake,
+        Claim,
+        RequestWithdraw,
+        FinalizeWithdraw
+    }
+
+    /// @dev Admins' changes that are timelocked by `changeDelay`.
+    enum Change {
+        Apr,
+        MinStakeAmount,
+        ExcessiveBalance,
+        ChangeDelay,
+        CoolingPeriod,
+        EarlyWithdrawPenalty,
+        PenaltyReceiver,
+        ExtraRewardRate,
+        AprGuardrails,
+        SolvencyParameters,
+        MigrationTarget,
+        MigrationSource,
+        EmergencyShutdown,
+        LockTierMultiplier
+    }
+
+    struct StakeState {
+        uint256 stakeAmount;
+        uint256 claimedAmount;
+        uint256 contractDeptToUser;
+    }
+    struct WithdrawState {
+        address user;
+        uint64 withdrawTimestamp;
+        uint32 coolingPeriod;
+        uint256 amount;
+    }
+    struct LockTier {
+        uint32 lockPeriod;
+        uint32 aprMultiplier;
+        bool isActive;
+    }
+    struct TierRate {
+        uint256 ratePerStaking;
+        uint256 lastUpdateTimestamp;
+        uint256 totalLocked;
+        uint256 lastFlexibleRate;
+    }
+    struct LockedPosition {
+        address user;
+        uint32 tierId;
+        uint64 unlockTimestamp;
+        uint256 amount;
+        uint256 claimedAmount;
+    }
+    struct Campaign {
+        uint64 startTimestamp;
+        uint64 endTimestamp;
+        uint256 budget;
+    }
+    struct ExtraRewardState {
+        uint256 rewardRate;
+        uint256 ratePerStaking;
+        uint256 lastUpdateTimestamp;
+        uint256 owedRewards;
+    }
+    struct PendingChange {
+        uint256 value;
+        uint64 executableTimestamp;
+    }
+    struct PendingAdminTransfer {
+        address newAdmin;
+        uint64 acceptableTimestamp;
+    }
+    struct AprGuardrails {
+        uint256 maxApr;
+        uint256 maxAprDelta;
+        uint64 minChangeInterval;
+        uint64 rampDuration;
+    }
+    struct AprRamp {
+        uint256 fromApr;
+        uint64 startTimestamp;
+        uint64 endTimestamp;
+    }
+
+    /* PUBLIC STATE VARIABLES */
+
+    /// @notice The `MANAGER_ROLE` identifier.
+    /// This role can manage contract (call admins' functions), but can't add or remove other managers.
+    function MANAGER_ROLE() external view returns (bytes32);
+
+    /// @notice The `PAUSER_ROLE` identifier.
+    /// This role can pause and unpause the operations of the users.
+    function PAUSER_ROLE() external view returns (bytes32);
+
+    /// @notice Address of the token that the contract is staking.
+    function TOKEN() external view returns (IERC20);
+
+    /// @notice Minimum amount of a stake.
+    /// @dev The change of this variable will affect only new stakes.
+    function minStakeAmount() external view returns (uint256);
+
+    /// @notice The APR of the staking. The denominator is `100_00`.
+    /// While the APR is ramped, it is the target APR, use `effectiveApr` to get the current one.
+    /// @dev In case of chaging of the APR, this change doesn't affect the rewards that the users earned before it.
+    /// It only affects new earnings.
+    function apr() external view returns (uint256);
+
+    /// @notice Amount of the tokens that users have staked.
+    function totalStaked() external view returns (uint256);
+
+    /// @notice Timestamp of the contract's last update.
+    function lastRateUpdateTimestamp() external view returns (uint256);
+
+    /// @notice The cooling period (in seconds) of new withdrawal requests.
+    /// @dev In case of changing of the cooling period, this change doesn't affect already requested withdrawals.
+    /// Every withdrawal request is locked for the cooling period that was in effect when it was requested.
+    function coolingPeriod() external view returns (uint256);
+
+    /// @notice If true, rewards collected by `stake`, `requestWithdraw` and other functions
+    /// that change the stake of the `user` are added to his stake instead of being transferred.
+    /// @dev `claimRewards` always transfers the rewards.
+    function isAutoCompounding(address user) external view returns (bool);
+
+    /// @notice The penalty for withdrawing without waiting the cooling period. The denominator is `100_00`.
+    function earlyWithdrawPenalty() external view returns (uint256);
+
+    /// @notice If true, the early withdraw penalty is proportional to the remaining cooling time.
+    function isPenaltyProRated() external view returns (bool);
+
+    /// @notice Address that receives early withdraw penalties.
+    /// @dev If it is the zero address, penalties stay in the contract and are distributed as rewards.
+    function penaltyReceiver() external view returns (address);
+
+    /// @notice If true, the `operator` can claim rewards and withdraw tokens on behalf of the `user`.
+    function isOperator(address user, address operator) external view returns (bool);
+
+    /// @notice Address that receives rewards and withdrawn tokens of the `user`.
+    /// @dev If it is the zero address, tokens are sent to the `user` himself.
+    function payoutRecipients(address user) external view returns (address);
+
+    /// @notice Current nonce of the `user` for EIP-712 signed actions. Every executed signed action increments it.
+    function nonces(address user) external view returns (uint256);
+
+    /// @notice If true, rewards are emitted by the funded campaigns instead of the `apr`.
+    /// @dev Once enabled, the campaign mode can't be disabled.
+    function isCampaignMode() external view returns (bool);
+
+    /// @notice Total weight that shares the emission of the campaigns.
+    /// @dev A flexibly staked token has the weight `100_00`, a locked token has the APR multiplier of its tier.
+    function totalRewardWeight() external view returns (uint256);
+
+    /// @notice If true, the `operation` is paused.
+    /// @dev While claims are paused, collected rewards are added to the debt of the contract to the users.
+    function isPaused(Operation operation) external view returns (bool);
+
+    /// @notice If true, all operations are paused and the users can only take their principal back
+    /// with the `emergencyWithdraw` function.
+    /// @dev Once enabled, the emergency shutdown can't be disabled.
+    function isEmergencyShutdown() external view returns (bool);
+
+    /// @notice The delay (in seconds) between a proposal of a timelocked change and its execution.
+    /// It is also the delay of the transfer of `DEFAULT_ADMIN_ROLE`, which is at least 1 day.
+    /// @dev If it is zero, timelocked changes can be made directly by their setters.
+    function changeDelay() external view returns (uint256);
+
+    /// @notice The hash of the proposed params of the `change` and the timestamp since which it can be executed.
+    /// @dev `value` is `uint256(keccak256(params))`, the params are emitted in the `ChangeProposed` event.
+    /// `executableTimestamp` is zero if the `change` isn't proposed.
+    function pendingChanges(
+        Change change
+    ) external view returns (uint256 value, uint64 executableTimestamp);
+
+    /// @notice The only holder of `DEFAULT_ADMIN_ROLE`, the zero address if the role was renounced.
+    /// @dev The role can't be granted or revoked directly, it is transferred in two steps
+    /// with `beginDefaultAdminTransfer` and `acceptDefaultAdminTransfer`.
+    function defaultAdmin() external view returns (address);
+
+    /// @notice The scheduled transfer of `DEFAULT_ADMIN_ROLE`: the new admin
+    /// and the timestamp since which he can accept the role.
+    /// @dev `acceptableTimestamp` is zero if no transfer is scheduled. The zero `newAdmin` with
+    /// non-zero `acceptableTimestamp` is a scheduled renouncement.
+    function pendingDefaultAdmin()
+        external
+        view
+        returns (address newAdmin, uint64 acceptableTimestamp);
+
+    /// @notice The limits of the changes of the `apr`: the maximum APR, the maximum difference between
+    /// the current and the new APR, the minimum interval (in seconds) between the changes
+    /// and the duration (in seconds) of the linear ramp from the current APR to the new one.
+    /// @dev Zero values disable the limits, the zero `maxApr` means `100_00`.
+    function aprGuardrails()
+        external
+        view
+        returns (
+            uint256 maxApr,
+            uint256 maxAprDelta,
+            uint64 minChangeInterval,
+            uint64 rampDuration
+        );
+
+    /// @notice The ramp of the last change of the `apr`: the APR glides linearly from `fromApr`
+    /// to the `apr` between `startTimestamp` and `endTimestamp`.
+    /// @dev `startTimestamp` equals `endTimestamp` if the change was made without the ramp.
+    function aprRamp()
+        external
+        view
+        returns (uint256 fromApr, uint64 startTimestamp, uint64 endTimestamp);
+
+    /// @notice The runway (in seconds) of the emission that the funded rewards should cover.
+    /// If the funded rewards don't cover it, the APR is scaled down proportionally.
+    /// @dev If it is zero, the solvency throttling is disabled. It works in the APR mode only,
+    /// the budgets of the campaigns are funded in advance.
+    function solvencyRunway() external view returns (uint256);
+
+    /// @notice Amount of the token by which the unpaid rewards can exceed the balance of the contract
+    /// that isn't staked.
+    function solvencyBuffer() external view returns (uint256);
+
+    /// @notice Estimated amount of the rewards that are accrued, but aren't paid yet,
+    /// including the debt of the contract to the users.
+    /// @dev In the APR mode while the solvency throttling is disabled, the emission of the locked positions
+    /// is estimated by their reward weight and the flexible rate, otherwise the tier rates are used.
+    /// In the campaign mode the emission of the campaigns is accrued.
+    function totalUnpaidRewards() external view returns (uint256);
+
+    /// @notice If true, the APR is scaled down because the funded rewards don't cover `solvencyRunway`.
+    /// @dev The flag is updated with the flexible rate.
+    function isSolvencyThrottled() external view returns (bool);
+
+    /// @notice If true, the users can migrate their stakes to the staking contract `target`.
+    function isMigrationTarget(address target) external view returns (bool);
+
+    /// @notice If true, the staking contract `source` can migrate stakes of its users to this contract.
+    function isMigrationSource(address source) external view returns (bool);
+}
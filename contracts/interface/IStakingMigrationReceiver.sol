@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity >=0.8.0;
+
+/// @dev Implemented by the staking contracts that stakes can be migrated to.
+interface IStakingMigrationReceiver {
+    /* PREDECESSORS' FUNCTIONS */
+
+    /// @notice Hook of a predecessor staking contract that moves `amount` of the token
+    /// to the flexible stake of the `user` in this contract.
+    /// @dev The function is available to the allow-listed predecessors only.
+    /// The tokens are pulled from the predecessor, so it approves them before the call.
+    /// @param user A user's address
+    /// @param amount Migrated amount
+    function onStakeMigrated(address user, uint256 amount) external;
+}
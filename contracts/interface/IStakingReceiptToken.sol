@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity >=0.8.0;
+
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+
+import {IAtomicStaking} from "./IAtomicStaking.sol";
+
+/// @dev The voting power of a delegatee is the sum of the flexible stakes delegated to him.
+interface IStakingReceiptToken is IVotes, IERC20Metadata {
+    /* PUBLIC STATE VARIABLES */
+
+    /// @notice The staking contract that mints and burns the token.
+    function STAKING() external view returns (IAtomicStaking);
+
+    /// @notice If false, the token is soulbound and can't be transferred between users.
+    /// @dev When true, a transfer moves the flexible stake in the staking contract.
+    function IS_TRANSFERABLE() external view returns (bool);
+
+    /* STAKING'S FUNCTIONS */
+
+    /// @notice Function to mint the token when the flexible stake of the `user` grows.
+    /// @dev The function is available to the `STAKING` contract only.
+    /// @param user A user's address
+    /// @param amount Amount to mint
+    function mint(address user, uint256 amount) external;
+
+    /// @notice Function to burn the token when the flexible stake of the `user` decreases.
+    /// @dev The function is available to the `STAKING` contract only.
+    /// @param user A user's address
+    /// @param amount Amount to burn
+    function burn(address user, uint256 amount) external;
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {IAtomicStakingBase} from "../interface/IAtomicStakingBase.sol";
+
+/// @notice The linear ramp of the APR of the `AtomicStaking` contract.
+/// @dev The APR glides linearly from `ramp.fromApr` to the target `apr` between `ramp.startTimestamp`
+/// and `ramp.endTimestamp`. The functions are internal, so they are inlined
+/// into the staking contract and the `LockTiers` library.
+library AprRamps {
+    /// @dev Returns the APR at the `timestamp`.
+    function aprAt(
+        IAtomicStakingBase.AprRamp memory ramp,
+        uint256 apr,
+        uint256 timestamp
+    ) internal pure returns (uint256 currentApr) {
+        uint256 endTimestamp = ramp.endTimestamp;
+        if (timestamp >= endTimestamp) {
+            return apr;
+        }
+        uint256 startTimestamp = ramp.startTimestamp;
+        uint256 fromApr = ramp.fromApr;
+        if (timestamp <= startTimestamp) {
+            return fromApr;
+        }
+
+        uint256 elapsed = timestamp - startTimestamp;
+        uint256 duration = endTimestamp - startTimestamp;
+        if (apr > fromApr) {
+            return fromApr + ((apr - fromApr) * elapsed) / duration;
+        } else {
+            return fromApr - ((fromApr - apr) * elapsed) / duration;
+        }
+    }
+
+    /// @dev Returns the integral of the APR over the time from `fromTimestamp` to the current block.
+    /// The APR is linear on the ramp, so the trapezoidal rule gives the exact value there.
+    function aprIntegral(
+        IAtomicStakingBase.AprRamp memory ramp,
+        uint256 apr,
+        uint256 fromTimestamp
+    ) internal view returns (uint256 integral) {
+        uint256 endTimestamp = ramp.endTimestamp;
+        if (fromTimestamp >= endTimestamp) {
+            return (block.timestamp - fromTimestamp) * apr;
+        }
+
+        uint256 rampEndTimestamp = block.timestamp < endTimestamp ? block.timestamp : endTimestamp;
+        integral =
+            ((rampEndTimestamp - fromTimestamp) *
+                (aprAt(ramp, apr, fromTimestamp) + aprAt(ramp, apr, rampEndTimestamp))) /
+            2 +
+            (block.timestamp - rampEndTimestamp) *
+            apr;
+    }
+}
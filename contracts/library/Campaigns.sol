@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+
+import {IAtomicStakingBase} from "../interface/IAtomicStakingBase.sol";
+
+/// @notice Accounting of the reward campaigns of the `AtomicStaking` contract.
+/// @dev The functions are external to keep the staking contract under the contract size limit,
+/// so the library has to be deployed and linked to the staking contract.
+library Campaigns {
+    struct Data {
+        IAtomicStakingBase.Campaign[] campaigns;
+        // campaigns before this id are ended
+        uint256 firstActiveCampaignId;
+    }
+
+    /// @dev The same errors are declared in the `AtomicStaking` contract to be in its ABI.
+    error ZeroValue();
+    error CampaignStartTooEarly(uint256 startTimestamp, uint256 minStartTimestamp);
+
+    /// @dev Campaigns can't overlap, so the emission never exceeds the funded budgets.
+    function add(
+        Data storage data,
+        uint256 startTimestamp,
+        uint256 duration,
+        uint256 budget
+    ) external returns (uint256 campaignId, uint256 endTimestamp) {
+        if (duration == 0 || budget == 0) {
+            revert ZeroValue();
+        }
+        campaignId = data.campaigns.length;
+        uint256 minStartTimestamp = campaignId == 0
+            ? block.timestamp
+            : Math.max(block.timestamp, data.campaigns[campaignId - 1].endTimestamp);
+        if (startTimestamp < minStartTimestamp) {
+            revert CampaignStartTooEarly(startTimestamp, minStartTimestamp);
+        }
+
+        endTimestamp = startTimestamp + duration;
+        data.campaigns.push(
+            IAtomicStakingBase.Campaign({
+                startTimestamp: uint64(startTimestamp),
+                endTimestamp: uint64(endTimestamp),
+                budget: budget
+            })
+        );
+    }
+
+    /// @dev Skips the ended campaigns, they don't emit anymore.
+    function skipEnded(Data storage data) external {
+        uint256 campaignsLength = data.campaigns.length;
+        uint256 campaignId = data.firstActiveCampaignId;
+        while (
+            campaignId < campaignsLength &&
+            data.campaigns[campaignId].endTimestamp <= block.timestamp
+        ) {
+            ++campaignId;
+        }
+        data.firstActiveCampaignId = campaignId;
+    }
+
+    /// @dev Returns the amount of tokens that the campaigns emitted from `fromTimestamp` till now.
+    function emission(
+        Data storage data,
+        uint256 fromTimestamp
+    ) external view returns (uint256 emittedAmount) {
+        uint256 campaignsLength = data.campaigns.length;
+        for (uint256 i = data.firstActiveCampaignId; i < campaignsLength; ++i) {
+            IAtomicStakingBase.Campaign memory campaign = data.campaigns[i];
+            if (campaign.startTimestamp >= block.timestamp) {
+                break;
+            }
+
+            uint256 start = Math.max(campaign.startTimestamp, fromTimestamp);
+            uint256 end = Math.min(campaign.endTimestamp, block.timestamp);
+            if (start < end) {
+                emittedAmount +=
+                    (campaign.budget * (end - start)) /
+                    (campaign.endTimestamp - campaign.startTimestamp);
+            }
+        }
+    }
+
+    /// @dev Returns the part of the campaigns' budgets that isn't emitted yet.
+    function unemittedBudget(Data storage data) external view returns (uint256 budget) {
+        uint256 campaignsLength = data.campaigns.length;
+        for (uint256 i = data.firstActiveCampaignId; i < campaignsLength; ++i) {
+            IAtomicStakingBase.Campaign memory campaign = data.campaigns[i];
+            if (campaign.endTimestamp <= block.timestamp) {
+                continue;
+            }
+
+            budget += campaign.budget;
+            if (campaign.startTimestamp < block.timestamp) {
+                budget -=
+                    (campaign.budget * (block.timestamp - campaign.startTimestamp)) /
+                    (campaign.endTimestamp - campaign.startTimestamp);
+            }
+        }
+    }
+}
@@ -0,0 +1,195 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import {IAtomicStakingBase} from "../interface/IAtomicStakingBase.sol";
+
+/// @notice Accounting of the extra reward tokens of the `AtomicStaking` contract.
+/// @dev Every extra token is emitted with its own rate among the flexible stakes, locked positions don't earn it.
+/// The emission of a token stops while its pool, i.e. the balance above the owed rewards, is empty.
+/// The functions are external to keep the staking contract under the contract size limit,
+/// so the library has to be deployed and linked to the staking contract.
+library ExtraRewards {
+    using SafeERC20 for IERC20;
+
+    struct UserState {
+        uint256 paidRatePerStaking;
+        uint256 rewards;
+    }
+    struct Data {
+        IERC20[] tokens;
+        mapping(IERC20 => IAtomicStakingBase.ExtraRewardState) states;
+        mapping(IERC20 => mapping(address => UserState)) userStates;
+        // sum of the flexible stakes
+        uint256 totalStaked;
+    }
+
+    uint256 private constant _RATE_PRECISION = 1e18;
+
+    /// @dev The same event is declared in the `AtomicStaking` contract to be in its ABI.
+    event ExtraRewardsClaimed(address indexed user, IERC20 indexed token, uint256 amount);
+
+    /// @dev The caller checks that the `token` isn't added yet.
+    function addToken(Data storage data, IERC20 token, uint256 rewardRate) external {
+        data.tokens.push(token);
+        data.states[token] = IAtomicStakingBase.ExtraRewardState({
+            rewardRate: rewardRate,
+            ratePerStaking: 0,
+            lastUpdateTimestamp: block.timestamp,
+            owedRewards: 0
+        });
+    }
+
+    function setRewardRate(Data storage data, IERC20 token, uint256 newRate) external {
+        _updateRate(data, token);
+        data.states[token].rewardRate = newRate;
+    }
+
+    /// @dev Should be called before the pool of the `token` is funded, so the emission
+    /// doesn't resume for the time the pool was empty.
+    function updateRate(Data storage data, IERC20 token) external {
+        _updateRate(data, token);
+    }
+
+    /// @dev Should be called on every change of the flexible stake of the `user`.
+    function updateStake(
+        Data storage data,
+        address user,
+        uint256 oldStake,
+        uint256 newStake
+    ) external {
+        uint256 tokensLength = data.tokens.length;
+        for (uint256 i = 0; i < tokensLength; ++i) {
+            IERC20 token = data.tokens[i];
+            _updateRate(data, token);
+            _accrueRewards(data, token, user, oldStake);
+        }
+
+        data.totalStaked = data.totalStaked + newStake - oldStake;
+    }
+
+    /// @dev Deletes the accrued rewards of the `user`, they are no longer owed.
+    /// The stake of the `user` should be already removed by `updateStake`.
+    function forfeit(Data storage data, address user) external {
+        uint256 tokensLength = data.tokens.length;
+        for (uint256 i = 0; i < tokensLength; ++i) {
+            IERC20 token = data.tokens[i];
+            data.states[token].owedRewards -= data.userStates[token][user].rewards;
+            delete data.userStates[token][user];
+        }
+    }
+
+    /// @dev Pays the rewards of the `user` that the balances of the tokens allow, the rest stays accrued.
+    function claim(Data storage data, address user, uint256 stake, address recipient) external {
+        uint256 tokensLength = data.tokens.length;
+        for (uint256 i = 0; i < tokensLength; ++i) {
+            IERC20 token = data.tokens[i];
+            _updateRate(data, token);
+            _accrueRewards(data, token, user, stake);
+
+            uint256 rewards = data.userStates[token][user].rewards;
+            uint256 balance = token.balanceOf(address(this));
+            uint256 amount = rewards <= balance ? rewards : balance;
+            if (amount == 0) {
+                continue;
+            }
+
+            data.userStates[token][user].rewards = rewards - amount;
+            data.states[token].owedRewards -= amount;
+
+            token.safeTransfer(recipient, amount);
+
+            emit ExtraRewardsClaimed(user, token, amount);
+        }
+    }
+
+    /// @dev Transfers up to `amount` of the `token` that isn't owed to the stakers. Returns the transferred amount.
+    function withdrawExcess(
+        Data storage data,
+        IERC20 token,
+        uint256 amount,
+        address recipient
+    ) external returns (uint256 withdrawnAmount) {
+        _updateRate(data, token);
+
+        uint256 balance = token.balanceOf(address(this));
+        uint256 owedRewards = data.states[token].owedRewards;
+        if (balance <= owedRewards) {
+            return 0;
+        }
+
+        uint256 possibleToWithdraw = balance - owedRewards;
+        withdrawnAmount = possibleToWithdraw <= amount ? possibleToWithdraw : amount;
+
+        token.safeTransfer(recipient, withdrawnAmount);
+    }
+
+    /// @dev Returns the rewards of the `user` that the balance of the `token` allows to pay right now.
+    function availableRewards(
+        Data storage data,
+        IERC20 token,
+        address user,
+        uint256 stake
+    ) external view returns (uint256 rewards) {
+        (uint256 ratePerStaking, ) = _getNewRatePerStaking(data, token);
+        UserState storage userState = data.userStates[token][user];
+        rewards =
+            userState.rewards +
+            (stake * (ratePerStaking - userState.paidRatePerStaking)) /
+            _RATE_PRECISION;
+
+        uint256 balance = token.balanceOf(address(this));
+        if (rewards > balance) {
+            rewards = balance;
+        }
+    }
+
+    function _updateRate(Data storage data, IERC20 token) private {
+        IAtomicStakingBase.ExtraRewardState storage state = data.states[token];
+        if (state.lastUpdateTimestamp == block.timestamp) {
+            return;
+        }
+
+        (uint256 ratePerStaking, uint256 emission) = _getNewRatePerStaking(data, token);
+        state.ratePerStaking = ratePerStaking;
+        state.owedRewards += emission;
+        state.lastUpdateTimestamp = block.timestamp;
+    }
+
+    /// @dev The rate should be updated before the call.
+    function _accrueRewards(Data storage data, IERC20 token, address user, uint256 stake) private {
+        uint256 ratePerStaking = data.states[token].ratePerStaking;
+        UserState storage userState = data.userStates[token][user];
+        userState.rewards +=
+            (stake * (ratePerStaking - userState.paidRatePerStaking)) /
+            _RATE_PRECISION;
+        userState.paidRatePerStaking = ratePerStaking;
+    }
+
+    /// @dev The emission is lost while there are no flexible stakes.
+    /// It is capped by the pool of the `token`, so the owed rewards never exceed its balance.
+    function _getNewRatePerStaking(
+        Data storage data,
+        IERC20 token
+    ) private view returns (uint256 newRatePerStaking, uint256 emission) {
+        IAtomicStakingBase.ExtraRewardState storage state = data.states[token];
+        newRatePerStaking = state.ratePerStaking;
+
+        uint256 totalStaked = data.totalStaked;
+        if (totalStaked == 0) {
+            return (newRatePerStaking, 0);
+        }
+
+        emission = (block.timestamp - state.lastUpdateTimestamp) * state.rewardRate;
+        uint256 balance = token.balanceOf(address(this));
+        uint256 owedRewards = state.owedRewards;
+        uint256 pool = balance > owedRewards ? balance - owedRewards : 0;
+        if (emission > pool) {
+            emission = pool;
+        }
+        newRatePerStaking += (emission * _RATE_PRECISION) / totalStaked;
+    }
+}
@@ -0,0 +1,310 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+import {IAtomicStakingBase} from "../interface/IAtomicStakingBase.sol";
+import {AprRamps} from "./AprRamps.sol";
+
+/// @notice Accounting of the lock tiers and the locked positions of the `AtomicStaking` contract.
+/// @dev In the APR mode a tier rate grows by the boosted APR, in the campaign mode
+/// it follows the flexible rate multiplied by the APR multiplier of the tier.
+/// The functions are external to keep the staking contract under the contract size limit,
+/// so the library has to be deployed and linked to the staking contract.
+library LockTiers {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    struct Data {
+        IAtomicStakingBase.LockTier[] tiers;
+        mapping(uint256 => IAtomicStakingBase.TierRate) rates;
+        uint256 lastPositionId;
+        mapping(uint256 => IAtomicStakingBase.LockedPosition) positions;
+        mapping(address => EnumerableSet.UintSet) usersPositionIds;
+    }
+
+    /// @dev The flexible rate of the staking contract that the tier rates depend on.
+    /// In the campaign mode `flexibleRate` should be already updated.
+    /// In the APR mode the tier rates follow the ramp of the `apr` scaled by `aprMultiplier`
+    /// (with the `_RATE_PRECISION` precision) of the solvency throttling.
+    struct RateContext {
+        bool isCampaignMode;
+        uint256 flexibleRate;
+        uint256 apr;
+        IAtomicStakingBase.AprRamp aprRamp;
+        uint256 aprMultiplier;
+    }
+
+    uint256 private constant _MAX_LOCK_PERIOD = 365 days;
+    uint256 private constant _ONE_YEAR = (1 days) * 365;
+
+    uint256 private constant _RATE_PRECISION = 1e18;
+    uint256 private constant _PERCENT_DENOMINATOR = 100_00;
+    uint256 private constant _MAX_APR_MULTIPLIER = 5 * _PERCENT_DENOMINATOR;
+    uint256 private constant _MAX_LOCK_TIERS = 16;
+
+    /// @dev The same events and errors are declared in the `AtomicStaking` contract to be in its ABI.
+    event TierRateUpdated(uint256 indexed tierId, uint256 newRate);
+
+    error TheSameValue();
+    error TooBigValue(uint256 passedValue, uint256 maxValue);
+    error ZeroValue();
+    error NoSuchLockTier(uint256 tierId);
+    error LockTierIsInactive(uint256 tierId);
+
+    function add(
+        Data storage data,
+        uint256 lockPeriod,
+        uint256 aprMultiplier,
+        uint256 flexibleRate
+    ) external returns (uint256 tierId) {
+        if (lockPeriod == 0) {
+            revert ZeroValue();
+        }
+        if (lockPeriod > _MAX_LOCK_PERIOD) {
+            revert TooBigValue(lockPeriod, _MAX_LOCK_PERIOD);
+        }
+        if (aprMultiplier > _MAX_APR_MULTIPLIER) {
+            revert TooBigValue(aprMultiplier, _MAX_APR_MULTIPLIER);
+        }
+        tierId = data.tiers.length;
+        if (tierId == _MAX_LOCK_TIERS) {
+            revert TooBigValue(tierId + 1, _MAX_LOCK_TIERS);
+        }
+
+        data.tiers.push(
+            IAtomicStakingBase.LockTier({
+                lockPeriod: uint32(lockPeriod),
+                aprMultiplier: uint32(aprMultiplier),
+                isActive: true
+            })
+        );
+        data.rates[tierId] = IAtomicStakingBase.TierRate({
+            ratePerStaking: _RATE_PRECISION,
+            lastUpdateTimestamp: block.timestamp,
+            totalLocked: 0,
+            lastFlexibleRate: flexibleRate
+        });
+    }
+
+    /// @dev Returns the old multiplier and the locked amount of the tier to update the reward weights.
+    function setMultiplier(
+        Data storage data,
+        uint256 tierId,
+        uint256 newValue,
+        RateContext calldata context
+    ) external returns (uint256 oldValue, uint256 totalLocked) {
+        _checkTier(data, tierId);
+        if (newValue > _MAX_APR_MULTIPLIER) {
+            revert TooBigValue(newValue, _MAX_APR_MULTIPLIER);
+        }
+
+        oldValue = data.tiers[tierId].aprMultiplier;
+        if (newValue == oldValue) {
+            revert TheSameValue();
+        }
+
+        // to calculate previous rewards
+        _updateRate(data, tierId, context);
+
+        data.tiers[tierId].aprMultiplier = uint32(newValue);
+        totalLocked = data.rates[tierId].totalLocked;
+    }
+
+    function setActive(Data storage data, uint256 tierId, bool isActive) external {
+        _checkTier(data, tierId);
+        if (isActive == data.tiers[tierId].isActive) {
+            revert TheSameValue();
+        }
+
+        data.tiers[tierId].isActive = isActive;
+    }
+
+    /// @dev Creates a position of the `user` in the active tier `tierId`.
+    /// Returns the weight of the position to update the reward weights.
+    function lock(
+        Data storage data,
+        address user,
+        uint256 tierId,
+        uint256 amount,
+        RateContext calldata context
+    ) external returns (uint256 positionId, uint256 unlockTimestamp, uint256 weight) {
+        _checkTier(data, tierId);
+        IAtomicStakingBase.LockTier memory lockTier = data.tiers[tierId];
+        if (!lockTier.isActive) {
+            revert LockTierIsInactive(tierId);
+        }
+
+        uint256 tierRate = _updateRate(data, tierId, context);
+        data.rates[tierId].totalLocked += amount;
+
+        positionId = ++data.lastPositionId;
+        unlockTimestamp = block.timestamp + lockTier.lockPeriod;
+
+        data.positions[positionId] = IAtomicStakingBase.LockedPosition({
+            user: user,
+            tierId: uint32(tierId),
+            unlockTimestamp: uint64(unlockTimestamp),
+            amount: amount,
+            claimedAmount: (amount * tierRate) / _RATE_PRECISION
+        });
+        assert(data.usersPositionIds[user].add(positionId));
+
+        weight = amount * lockTier.aprMultiplier;
+    }
+
+    /// @dev Deletes the position, its rewards should be collected before the call.
+    /// Returns the amount and the weight of the position to update the reward weights.
+    function unlock(
+        Data storage data,
+        uint256 positionId
+    ) external returns (uint256 amount, uint256 weight) {
+        IAtomicStakingBase.LockedPosition memory position = data.positions[positionId];
+        amount = position.amount;
+        data.rates[position.tierId].totalLocked -= amount;
+        weight = amount * data.tiers[position.tierId].aprMultiplier;
+
+        delete data.positions[positionId];
+        assert(data.usersPositionIds[position.user].remove(positionId));
+    }
+
+    /// @dev Deletes all positions of the `user` and returns their total amount, their weight
+    /// to update the reward weights and their not claimed rewards, that are forfeited.
+    function removeAll(
+        Data storage data,
+        address user,
+        RateContext calldata context
+    ) external returns (uint256 amount, uint256 weight, uint256 rewards) {
+        EnumerableSet.UintSet storage positionIds = data.usersPositionIds[user];
+        for (uint256 i = positionIds.length(); i > 0; --i) {
+            uint256 positionId = positionIds.at(i - 1);
+            IAtomicStakingBase.LockedPosition memory position = data.positions[positionId];
+
+            uint256 allRewards = (position.amount * _updateRate(data, position.tierId, context)) /
+                _RATE_PRECISION;
+            if (allRewards > position.claimedAmount) {
+                rewards += allRewards - position.claimedAmount;
+            }
+
+            data.rates[position.tierId].totalLocked -= position.amount;
+            amount += position.amount;
+            weight += position.amount * data.tiers[position.tierId].aprMultiplier;
+
+            delete data.positions[positionId];
+            assert(positionIds.remove(positionId));
+        }
+    }
+
+    function updateRate(
+        Data storage data,
+        uint256 tierId,
+        RateContext calldata context
+    ) external returns (uint256 newRatePerStaking) {
+        return _updateRate(data, tierId, context);
+    }
+
+    /// @dev Returns the emission of the tiers since their last updates.
+    function updateAllRates(
+        Data storage data,
+        RateContext calldata context
+    ) external returns (uint256 emission) {
+        uint256 tiersLength = data.tiers.length;
+        for (uint256 i = 0; i < tiersLength; ++i) {
+            IAtomicStakingBase.TierRate storage tierRate = data.rates[i];
+            uint256 oldRatePerStaking = tierRate.ratePerStaking;
+            emission +=
+                (tierRate.totalLocked * (_updateRate(data, i, context) - oldRatePerStaking)) /
+                _RATE_PRECISION;
+        }
+    }
+
+    /// @dev Should be called when the campaign mode is enabled, tier rates follow the flexible rate from now on.
+    function followFlexibleRate(Data storage data, uint256 flexibleRate) external {
+        uint256 tiersLength = data.tiers.length;
+        for (uint256 i = 0; i < tiersLength; ++i) {
+            data.rates[i].lastFlexibleRate = flexibleRate;
+        }
+    }
+
+    function getNewRate(
+        Data storage data,
+        uint256 tierId,
+        RateContext calldata context
+    ) external view returns (uint256 newRatePerStaking) {
+        return _getNewRate(data, tierId, context);
+    }
+
+    /// @dev Returns the reward weight of the locked positions and the sum of the tier weights
+    /// multiplied by the last tier rates, the emission of the tiers is proportional to the latter.
+    function weightedRate(
+        Data storage data
+    ) external view returns (uint256 lockedWeight, uint256 lockedWeightedRate) {
+        uint256 tiersLength = data.tiers.length;
+        for (uint256 i = 0; i < tiersLength; ++i) {
+            uint256 tierWeight = data.rates[i].totalLocked * data.tiers[i].aprMultiplier;
+            lockedWeight += tierWeight;
+            lockedWeightedRate += tierWeight * data.rates[i].ratePerStaking;
+        }
+    }
+
+    function _updateRate(
+        Data storage data,
+        uint256 tierId,
+        RateContext calldata context
+    ) private returns (uint256 newRatePerStaking) {
+        IAtomicStakingBase.TierRate storage tierRate = data.rates[tierId];
+        if (context.isCampaignMode) {
+            newRatePerStaking = _getNewRate(data, tierId, context);
+            tierRate.lastFlexibleRate = context.flexibleRate;
+            tierRate.lastUpdateTimestamp = block.timestamp;
+            if (newRatePerStaking != tierRate.ratePerStaking) {
+                tierRate.ratePerStaking = newRatePerStaking;
+
+                emit TierRateUpdated(tierId, newRatePerStaking);
+            }
+            return newRatePerStaking;
+        }
+
+        if (tierRate.totalLocked == 0) {
+            tierRate.lastUpdateTimestamp = block.timestamp;
+            return tierRate.ratePerStaking;
+        }
+
+        newRatePerStaking = _getNewRate(data, tierId, context);
+        if (tierRate.lastUpdateTimestamp != block.timestamp) {
+            tierRate.ratePerStaking = newRatePerStaking;
+            tierRate.lastUpdateTimestamp = block.timestamp;
+
+            emit TierRateUpdated(tierId, newRatePerStaking);
+        }
+    }
+
+    function _checkTier(Data storage data, uint256 tierId) private view {
+        if (tierId >= data.tiers.length) {
+            revert NoSuchLockTier(tierId);
+        }
+    }
+
+    function _getNewRate(
+        Data storage data,
+        uint256 tierId,
+        RateContext calldata context
+    ) private view returns (uint256 newRatePerStaking) {
+        IAtomicStakingBase.TierRate storage tierRate = data.rates[tierId];
+        uint256 lastUpdateTimestamp = tierRate.lastUpdateTimestamp;
+        newRatePerStaking = tierRate.ratePerStaking;
+        if (context.isCampaignMode) {
+            newRatePerStaking +=
+                ((context.flexibleRate - tierRate.lastFlexibleRate) *
+                    data.tiers[tierId].aprMultiplier) /
+                _PERCENT_DENOMINATOR;
+        } else if (lastUpdateTimestamp != block.timestamp) {
+            newRatePerStaking +=
+                (newRatePerStaking *
+                    AprRamps.aprIntegral(context.aprRamp, context.apr, lastUpdateTimestamp) *
+                    data.tiers[tierId].aprMultiplier *
+                    context.aprMultiplier) /
+                (_ONE_YEAR * _PERCENT_DENOMINATOR * _PERCENT_DENOMINATOR * _RATE_PRECISION);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {IAtomicStakingBase} from "../interface/IAtomicStakingBase.sol";
+
+/// @notice Accounting of the debt of the `AtomicStaking` contract to the users.
+/// @dev The functions are external to keep the staking contract under the contract size limit,
+/// so the library has to be deployed and linked to the staking contract.
+library Payouts {
+    /// @dev The same event is declared in the `AtomicStaking` contract to be in its ABI.
+    event DeptToUserChanged(address indexed user, uint256 oldAmount, uint256 newAmount);
+
+    /// @dev Adds `earnedRewards` to the debt of the contract to the `user` and returns the part
+    /// of the debt that is paid from `availableBalance`. The rest stays as the debt.
+    function settle(
+        IAtomicStakingBase.StakeState storage stakeState,
+        address user,
+        uint256 earnedRewards,
+        uint256 availableBalance
+    ) external returns (uint256 payment) {
+        uint256 contractDeptToUser = stakeState.contractDeptToUser;
+        uint256 totalRewards = earnedRewards + contractDeptToUser;
+
+        payment = totalRewards < availableBalance ? totalRewards : availableBalance;
+        uint256 newContractDeptToUser = totalRewards - payment;
+        if (newContractDeptToUser != contractDeptToUser) {
+            stakeState.contractDeptToUser = newContractDeptToUser;
+
+            emit DeptToUserChanged(user, contractDeptToUser, newContractDeptToUser);
+        }
+    }
+}
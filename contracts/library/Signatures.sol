@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/// @notice Verification of the EIP-712 signed actions of the `AtomicStaking` contract.
+/// @dev The functions are external to keep the staking contract under the contract size limit,
+/// so the library has to be deployed and linked to the staking contract.
+library Signatures {
+    /// @dev The same errors are declared in the `AtomicStaking` contract to be in its ABI.
+    error SignatureExpired(uint256 timestampNow, uint256 deadline);
+    error InvalidSignature();
+
+    /// @dev Checks that the `user` signed the EIP-712 `digest` and the `deadline` hasn't passed.
+    function verify(
+        address user,
+        bytes32 digest,
+        uint256 deadline,
+        bytes calldata signature
+    ) external view {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(block.timestamp, deadline);
+        }
+
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || signer != user) {
+            revert InvalidSignature();
+        }
+    }
+}
@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+import {IAtomicStakingBase} from "../interface/IAtomicStakingBase.sol";
+
+/// @notice Withdrawal requests of the `AtomicStaking` contract.
+/// @dev The functions are external to keep the staking contract under the contract size limit,
+/// so the library has to be deployed and linked to the staking contract.
+/// The storage of the requests stays in the staking contract and is passed to the functions.
+library Withdrawals {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /// @dev The same events and errors are declared in the `AtomicStaking` contract to be in its ABI.
+    event WithdrawIdFinalized(address indexed user, uint256 amount, uint256 withdrawId);
+
+    error NoSuchWithdrawId(uint256 withdrawId);
+    error NotAllowedUser(address sender, address allowedUser);
+    error WithdrawIdNotFinalizableYet(uint256 timestampNow, uint256 coolingPeriodEnd);
+
+    /// @dev Deletes the withdrawal request and returns its amount. Returns zero without changes
+    /// when the request isn't finalizable yet and `revertIfNotFinalizable` is false.
+    function finalize(
+        mapping(uint256 => IAtomicStakingBase.WithdrawState) storage withdrawStates,
+        mapping(address => EnumerableSet.UintSet) storage usersWithdrawIds,
+        address user,
+        uint256 withdrawId,
+        bool revertIfNotFinalizable
+    ) external returns (uint256 amount) {
+        return
+            _finalize({
+                withdrawStates: withdrawStates,
+                usersWithdrawIds: usersWithdrawIds,
+                user: user,
+                withdrawId: withdrawId,
+                revertIfNotFinalizable: revertIfNotFinalizable
+            });
+    }
+
+    /// @dev Finalizes at most `maxCount` matured withdrawal requests of the `user`.
+    function finalizeMatured(
+        mapping(uint256 => IAtomicStakingBase.WithdrawState) storage withdrawStates,
+        mapping(address => EnumerableSet.UintSet) storage usersWithdrawIds,
+        address user,
+        uint256 maxCount
+    ) external returns (uint256 amount) {
+        EnumerableSet.UintSet storage withdrawIds = usersWithdrawIds[user];
+
+        uint256 count;
+        uint256 i;
+        while (i < withdrawIds.length() && count < maxCount) {
+            uint256 withdrawAmount = _finalize({
+                withdrawStates: withdrawStates,
+                usersWithdrawIds: usersWithdrawIds,
+                user: user,
+                withdrawId: withdrawIds.at(i),
+                revertIfNotFinalizable: false
+            });
+            if (withdrawAmount == 0) {
+                ++i;
+            } else {
+                // the last id was moved to the position `i` by the removal
+                amount += withdrawAmount;
+                ++count;
+            }
+        }
+    }
+
+    /// @dev Deletes the withdrawal request of the `user` regardless of its cooling period and returns it.
+    function remove(
+        mapping(uint256 => IAtomicStakingBase.WithdrawState) storage withdrawStates,
+        mapping(address => EnumerableSet.UintSet) storage usersWithdrawIds,
+        address user,
+        uint256 withdrawId
+    ) external returns (IAtomicStakingBase.WithdrawState memory withdrawState) {
+        withdrawState = withdrawStates[withdrawId];
+        _checkRequest(withdrawState, user, withdrawId);
+
+        delete withdrawStates[withdrawId];
+        assert(usersWithdrawIds[user].remove(withdrawId));
+    }
+
+    /// @dev Deletes all withdrawal requests of the `user` and returns their total amount.
+    function removeAll(
+        mapping(uint256 => IAtomicStakingBase.WithdrawState) storage withdrawStates,
+        mapping(address => EnumerableSet.UintSet) storage usersWithdrawIds,
+        address user
+    ) external returns (uint256 amount) {
+        EnumerableSet.UintSet storage withdrawIds = usersWithdrawIds[user];
+        for (uint256 i = withdrawIds.length(); i > 0; --i) {
+            uint256 withdrawId = withdrawIds.at(i - 1);
+            amount += withdrawStates[withdrawId].amount;
+            delete withdrawStates[withdrawId];
+            assert(withdrawIds.remove(withdrawId));
+        }
+    }
+
+    function _finalize(
+        mapping(uint256 => IAtomicStakingBase.WithdrawState) storage withdrawStates,
+        mapping(address => EnumerableSet.UintSet) storage usersWithdrawIds,
+        address user,
+        uint256 withdrawId,
+        bool revertIfNotFinalizable
+    ) private returns (uint256 amount) {
+        IAtomicStakingBase.WithdrawState memory withdrawState = withdrawStates[withdrawId];
+        _checkRequest(withdrawState, user, withdrawId);
+        uint256 coolingPeriodEnd = withdrawState.withdrawTimestamp + withdrawState.coolingPeriod;
+        if (coolingPeriodEnd > block.timestamp) {
+            if (revertIfNotFinalizable) {
+                revert WithdrawIdNotFinalizableYet(block.timestamp, coolingPeriodEnd);
+            }
+            return 0;
+        }
+
+        delete withdrawStates[withdrawId];
+        assert(usersWithdrawIds[user].remove(withdrawId));
+
+        emit WithdrawIdFinalized(user, withdrawState.amount, withdrawId);
+
+        return withdrawState.amount;
+    }
+
+    function _checkRequest(
+        IAtomicStakingBase.WithdrawState memory withdrawState,
+        address user,
+        uint256 withdrawId
+    ) private pure {
+        if (withdrawState.withdrawTimestamp == 0) {
+            revert NoSuchWithdrawId(withdrawId);
+        }
+        if (withdrawState.user != user) {
+            revert NotAllowedUser(user, withdrawState.user);
+        }
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {AtomicStakingUpgradeable} from "../AtomicStakingUpgradeable.sol";
+
+contract AtomicStakingUpgradeableV2Test is AtomicStakingUpgradeable {
+    uint256 public newVariable;
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+
+    function setNewVariable(uint256 value) external {
+        newVariable = value;
+    }
+}
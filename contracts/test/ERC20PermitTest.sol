@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: UNLICENSED
+
+pragma solidity 0.8.19;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+
+contract ERC20PermitTest is ERC20("Name", "Symbol"), ERC20Permit("Name") {
+    function mint(uint256 amount) external {
+        _mint(msg.sender, amount);
+    }
+}
@@ -12,6 +12,8 @@ import "hardhat-tracer";
 import "solidity-docgen";
 import "@typechain/hardhat";
 
+import "./tasks/staking";
+
 import { config } from "./config";
 
 module.exports = {
@@ -77,7 +79,16 @@ module.exports = {
                 settings: {
                     optimizer: {
                         enabled: true,
-                        runs: 999999,
+                        // AtomicStakingUpgradeable exceeds the 24 KiB runtime limit (EIP-170) from 200 runs
+                        // and the 48 KiB initcode limit (EIP-3860) from 10000 runs, while 999999 runs save
+                        // only 0.2-0.5% of gas of the user calls
+                        runs: 50,
+                    },
+                    // for the storage layout checks of the upgradeable staking
+                    outputSelection: {
+                        "*": {
+                            "*": ["storageLayout"],
+                        },
                     },
                 },
             },
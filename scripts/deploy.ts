@@ -1,22 +1,16 @@
-import { ethers, network } from "hardhat";
+import hre from "hardhat";
 
 import { config } from "../config";
-import { deployAndVerify } from "./utils";
+import { deploymentPath } from "./deployments";
+import { deployStaking } from "./deployPipeline";
 
 async function main() {
-    const [deployer] = await ethers.getSigners();
+    const [deployer] = await hre.ethers.getSigners();
     console.log("Deployer address:", deployer.address);
 
-    if (!ethers.utils.isAddress(config.deploy.token[network.name])) {
-        console.log("No token address in the config");
-        return;
-    }
-
-    await deployAndVerify("AtomicStaking", [
-        config.deploy.token[network.name],
-        config.deploy.minStakeAmount,
-        config.deploy.apr,
-    ]);
+    const { staking } = await deployStaking(hre, config.deploy);
+    console.log("AtomicStaking:", staking.address);
+    console.log("Deployment is saved to", deploymentPath(hre.network.name));
 }
 
 main()
@@ -0,0 +1,638 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Libraries } from "@nomiclabs/hardhat-ethers/types";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+    BigNumber,
+    BigNumberish,
+    Contract,
+    ContractReceipt,
+    ContractTransaction,
+    constants,
+    utils,
+} from "ethers";
+
+import type { config } from "../config";
+import type { AtomicStaking, ProxyAdmin, TimelockController } from "../typechain-types";
+import {
+    DEPLOYMENTS_DIR,
+    DeployedContract,
+    Deployment,
+    readDeployment,
+    writeDeployment,
+} from "./deployments";
+import { compareStorageLayouts, getStorageLayout } from "./storageLayout";
+
+export type DeployConfig = typeof config.deploy;
+
+/**
+ * Post-deploy action of `config.deploy.actions`. Done actions are recorded
+ * in the deployments file by their keys and aren't repeated.
+ */
+export type DeployAction =
+    | { type: "grantRole"; role: "MANAGER_ROLE" | "PAUSER_ROLE"; account: string }
+    | { type: "donate"; amount: BigNumberish }
+    // the new admin accepts the role by `acceptDefaultAdminTransfer` after the change delay
+    | { type: "transferAdmin"; account: string }
+    // schedules the renouncement first, it is finished by the next run after the change delay
+    | { type: "renounceAdmin" };
+
+export interface DeployOptions {
+    deploymentsDir?: string;
+    /** Verifies the contracts on the explorer, it is never done on the Hardhat network. */
+    verify?: boolean;
+    verifyAttempts?: number;
+    /** Delay (in milliseconds) before the second attempt, it is doubled for every next one. */
+    verifyDelay?: number;
+}
+
+export interface StakingDeployment {
+    deployment: Deployment;
+    staking: AtomicStaking;
+}
+
+interface PipelineContext {
+    hre: HardhatRuntimeEnvironment;
+    deployer: SignerWithAddress;
+    deployment: Deployment;
+    deploymentsDir: string;
+    shouldVerify: boolean;
+    verifyAttempts: number;
+    verifyDelay: number;
+}
+
+const LIBRARY_NAMES = [
+    "Campaigns",
+    "ExtraRewards",
+    "LockTiers",
+    "Payouts",
+    "Signatures",
+    "Withdrawals",
+];
+
+/** Keys of the done steps of the transfer to the timelock in the deployment actions. */
+const TIMELOCK_STEPS = {
+    beginAdminTransfer: "TimelockController:beginDefaultAdminTransfer",
+    scheduleBatch: "TimelockController:scheduleBatch",
+    executeBatch: "TimelockController:executeBatch",
+    handOver: "TimelockController:handOver",
+};
+
+/**
+ * Deploys the staking with its libraries and runs the configured setup, recording
+ * everything to `deployments/<network>.json`. It is idempotent: the contracts
+ * whose bytecode, ABI and arguments didn't change aren't redeployed and
+ * the setup steps which are already applied are skipped.
+ */
+export async function deployStaking(
+    hre: HardhatRuntimeEnvironment,
+    deployConfig: DeployConfig,
+    options: DeployOptions = {}
+): Promise<StakingDeployment> {
+    const networkName = hre.network.name;
+    const token = (deployConfig.token as Record<string, string>)[networkName];
+    if (token === undefined || !utils.isAddress(token)) {
+        throw new Error(`No token address in the config for ${networkName}`);
+    }
+
+    const context = await createContext(hre, options);
+    const { deployment } = context;
+
+    const libraries = await deployLibraries(context);
+    const previousStaking = deployment.contracts.AtomicStaking?.address;
+    const stakingArgs = [
+        token,
+        deployConfig.minStakeAmount,
+        deployConfig.apr,
+        deployConfig.coolingPeriod,
+    ];
+    const staking = deployConfig.isUpgradeable
+        ? await deployStakingProxy(context, stakingArgs, libraries)
+        : ((await deployContract(
+              context,
+              "AtomicStaking",
+              stakingArgs,
+              libraries
+          )) as AtomicStaking);
+    if (staking.address != previousStaking) {
+        // the actions were done to the previous staking
+        deployment.actions = {};
+        writeDeployment(deployment, context.deploymentsDir);
+    }
+
+    await setUpStaking(context, staking, deployConfig);
+    for (const action of deployConfig.actions) {
+        await runAction(context, staking, action);
+    }
+    if (deployConfig.timelock.isEnabled) {
+        await transferAdminToTimelock(context, staking, deployConfig);
+    }
+
+    return { deployment, staking };
+}
+
+/**
+ * Upgrades the proxy of `AtomicStakingUpgradeable` to the new implementation `contractName`.
+ * The storage layout of the new implementation is checked against the current one before
+ * the deployment. The upgrade is sent by the deployer, the owner of the `ProxyAdmin`.
+ */
+export async function upgradeStaking(
+    hre: HardhatRuntimeEnvironment,
+    contractName = "AtomicStakingUpgradeable",
+    options: DeployOptions = {}
+): Promise<StakingDeployment> {
+    const context = await createContext(hre, options);
+    const { deployment } = context;
+    const proxyRecord = deployment.contracts.AtomicStaking;
+    const implementationRecord = deployment.contracts.AtomicStakingUpgradeable;
+    if (proxyRecord?.artifactName != "TransparentUpgradeableProxy" || !implementationRecord) {
+        throw new Error(`AtomicStaking of ${deployment.network} isn't deployed behind a proxy`);
+    }
+
+    const storageLayout = await getStorageLayout(hre, contractName);
+    const errors = compareStorageLayouts(implementationRecord.storageLayout!, storageLayout);
+    if (errors.length != 0) {
+        throw new Error(`Storage layout of ${contractName} is incompatible:\n${errors.join("\n")}`);
+    }
+
+    const libraries = await deployLibraries(context);
+    const implementation = await deployImplementation(context, contractName, libraries);
+    const staking = (await hre.ethers.getContractAt(
+        "AtomicStaking",
+        proxyRecord.address
+    )) as AtomicStaking;
+    const proxyAdmin = (await hre.ethers.getContractAt(
+        "ProxyAdmin",
+        deployment.contracts.ProxyAdmin.address
+    )) as ProxyAdmin;
+    if ((await proxyAdmin.getProxyImplementation(staking.address)) == implementation.address) {
+        console.log("AtomicStaking is up to date");
+        return { deployment, staking };
+    }
+
+    await waitFor(proxyAdmin.upgrade(staking.address, implementation.address));
+    console.log(`AtomicStaking is upgraded to ${contractName} at ${implementation.address}`);
+
+    return { deployment, staking };
+}
+
+async function createContext(
+    hre: HardhatRuntimeEnvironment,
+    options: DeployOptions
+): Promise<PipelineContext> {
+    const networkName = hre.network.name;
+    const deploymentsDir = options.deploymentsDir ?? DEPLOYMENTS_DIR;
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const deployment = readDeployment(networkName, deploymentsDir) ?? {
+        network: networkName,
+        chainId,
+        contracts: {},
+        actions: {},
+    };
+    if (deployment.chainId != chainId) {
+        throw new Error(
+            `Deployments file of ${networkName} is for the chain ${deployment.chainId}`
+        );
+    }
+
+    const [deployer] = await hre.ethers.getSigners();
+    return {
+        hre,
+        deployer,
+        deployment,
+        deploymentsDir,
+        shouldVerify: (options.verify ?? true) && networkName != "hardhat",
+        verifyAttempts: options.verifyAttempts ?? 5,
+        verifyDelay: options.verifyDelay ?? 10_000,
+    };
+}
+
+async function deployLibraries(context: PipelineContext): Promise<Libraries> {
+    const libraries: Libraries = {};
+    for (const libraryName of LIBRARY_NAMES) {
+        libraries[libraryName] = (await deployContract(context, libraryName, [])).address;
+    }
+    return libraries;
+}
+
+/**
+ * Deploys `AtomicStakingUpgradeable` behind the `TransparentUpgradeableProxy` which is
+ * recorded as `AtomicStaking`. The existing proxy is kept, it is changed by `upgradeStaking` only.
+ */
+async function deployStakingProxy(
+    context: PipelineContext,
+    args: unknown[],
+    libraries: Libraries
+): Promise<AtomicStaking> {
+    const { hre, deployment } = context;
+    const proxyRecord = deployment.contracts.AtomicStaking;
+    if (
+        proxyRecord?.artifactName == "TransparentUpgradeableProxy" &&
+        (await hre.ethers.provider.getCode(proxyRecord.address)) != "0x"
+    ) {
+        console.log(`AtomicStaking proxy is deployed at ${proxyRecord.address}`);
+        return (await hre.ethers.getContractAt(
+            "AtomicStaking",
+            proxyRecord.address
+        )) as AtomicStaking;
+    }
+
+    const implementation = await deployImplementation(
+        context,
+        "AtomicStakingUpgradeable",
+        libraries
+    );
+    const proxyAdmin = await deployContract(context, "ProxyAdmin", []);
+    const initData = implementation.interface.encodeFunctionData("initialize", args);
+    const proxy = await deployContract(
+        context,
+        "TransparentUpgradeableProxy",
+        [implementation.address, proxyAdmin.address, initData],
+        {},
+        "AtomicStaking"
+    );
+
+    return (await hre.ethers.getContractAt("AtomicStaking", proxy.address)) as AtomicStaking;
+}
+
+/** Deploys the implementation as `AtomicStakingUpgradeable` and records its storage layout. */
+async function deployImplementation(
+    context: PipelineContext,
+    contractName: string,
+    libraries: Libraries
+): Promise<Contract> {
+    const implementation = await deployContract(
+        context,
+        contractName,
+        [],
+        libraries,
+        "AtomicStakingUpgradeable"
+    );
+    saveContract(context, "AtomicStakingUpgradeable", {
+        ...context.deployment.contracts.AtomicStakingUpgradeable,
+        storageLayout: await getStorageLayout(context.hre, contractName),
+    });
+    return implementation;
+}
+
+/**
+ * Deploys the contract unless the deployments file has the same one, then verifies it.
+ * The record is saved right after the deployment, so a failed run can be repeated.
+ */
+async function deployContract(
+    context: PipelineContext,
+    contractName: string,
+    args: unknown[],
+    libraries: Libraries = {},
+    recordName = contractName
+): Promise<Contract> {
+    const { hre, deployment } = context;
+    const factory = await hre.ethers.getContractFactory(contractName, {
+        signer: context.deployer,
+        libraries,
+    });
+    const abiHash = utils.id(factory.interface.format(utils.FormatTypes.json) as string);
+    const bytecodeHash = utils.keccak256(factory.bytecode);
+    const serializedArgs = serializeArgs(args);
+
+    let record = deployment.contracts[recordName];
+    if (
+        record === undefined ||
+        record.abiHash != abiHash ||
+        record.bytecodeHash != bytecodeHash ||
+        JSON.stringify(record.args) != JSON.stringify(serializedArgs) ||
+        (await hre.ethers.provider.getCode(record.address)) == "0x"
+    ) {
+        console.log(`Deploying ${contractName}...`);
+        const contract = await factory.deploy(...args);
+        const receipt = await contract.deployTransaction.wait();
+        console.log(`${contractName} deployed to: ${contract.address}`);
+
+        record = {
+            address: contract.address,
+            transactionHash: receipt.transactionHash,
+            blockNumber: receipt.blockNumber,
+            args: serializedArgs,
+            libraries: { ...libraries } as Record<string, string>,
+            abiHash,
+            bytecodeHash,
+            isVerified: false,
+            ...(recordName != contractName && { artifactName: contractName }),
+        };
+        saveContract(context, recordName, record);
+    } else {
+        console.log(`${contractName} is up to date at ${record.address}`);
+    }
+
+    if (context.shouldVerify && !record.isVerified) {
+        await verifyContract(context, record);
+        saveContract(context, recordName, { ...record, isVerified: true });
+    }
+
+    return factory.attach(record.address);
+}
+
+/**
+ * Calls `fn` until it succeeds, waiting `delay` milliseconds before the second attempt
+ * and twice as long before every next one. The error of the last attempt is rethrown.
+ */
+export async function retryWithBackoff<T>(
+    fn: () => Promise<T>,
+    attempts: number,
+    delay: number
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (attempt >= attempts) {
+                throw error;
+            }
+            const retryDelay = delay * 2 ** (attempt - 1);
+            const message = error instanceof Error ? error.message : String(error);
+            console.log(`Attempt ${attempt} failed: ${message}`);
+            console.log(`Retrying in ${retryDelay / 1000}s...`);
+            await new Promise((resolve) => setTimeout(resolve, retryDelay));
+        }
+    }
+}
+
+async function verifyContract(context: PipelineContext, record: DeployedContract) {
+    console.log(`Verifying ${record.address}...`);
+    await retryWithBackoff(
+        async () => {
+            try {
+                await context.hre.run("verify:verify", {
+                    address: record.address,
+                    constructorArguments: record.args,
+                    libraries: record.libraries,
+                });
+            } catch (error) {
+                if (!(error instanceof Error && /already verified/i.test(error.message))) {
+                    throw error;
+                }
+            }
+        },
+        context.verifyAttempts,
+        context.verifyDelay
+    );
+    console.log("Contract is verified");
+}
+
+/** Applies the parameters of the config which differ from the current ones. */
+async function setUpStaking(
+    context: PipelineContext,
+    staking: AtomicStaking,
+    deployConfig: DeployConfig
+) {
+    const { receiptToken } = deployConfig;
+    if (receiptToken.isEnabled && (await staking.receiptToken()) == constants.AddressZero) {
+        // the receipt token can be set only before the first stake
+        const receipt = await deployContract(context, "StakingReceiptToken", [
+            staking.address,
+            receiptToken.name,
+            receiptToken.symbol,
+            receiptToken.isTransferable,
+        ]);
+        await waitFor(staking.setReceiptToken(receipt.address));
+        console.log(
+            `Receipt token is set, ${receiptToken.isTransferable ? "transferable" : "soulbound"}`
+        );
+    }
+
+    // with a non-zero change delay the parameters are changed by proposeChange
+    const changeDelay = await staking.changeDelay();
+    const { aprGuardrails } = deployConfig;
+    const currentGuardrails = await staking.aprGuardrails();
+    if (
+        !currentGuardrails.maxApr.eq(aprGuardrails.maxApr) ||
+        !currentGuardrails.maxAprDelta.eq(aprGuardrails.maxAprDelta) ||
+        !currentGuardrails.minChangeInterval.eq(aprGuardrails.minChangeInterval) ||
+        !currentGuardrails.rampDuration.eq(aprGuardrails.rampDuration)
+    ) {
+        if (changeDelay.isZero()) {
+            await waitFor(
+                staking.setAprGuardrails(
+                    aprGuardrails.maxApr,
+                    aprGuardrails.maxAprDelta,
+                    aprGuardrails.minChangeInterval,
+                    aprGuardrails.rampDuration
+                )
+            );
+            console.log("APR guardrails are set");
+        } else {
+            console.log("APR guardrails are timelocked, change them by proposeChange");
+        }
+    }
+
+    const { solvency } = deployConfig;
+    const [runway, buffer] = await Promise.all([
+        staking.solvencyRunway(),
+        staking.solvencyBuffer(),
+    ]);
+    if (!runway.eq(solvency.runway) || !buffer.eq(solvency.buffer)) {
+        if (changeDelay.isZero()) {
+            await waitFor(staking.setSolvencyParameters(solvency.runway, solvency.buffer));
+            console.log("Solvency parameters are set");
+        } else {
+            console.log("Solvency parameters are timelocked, change them by proposeChange");
+        }
+    }
+
+    // with the timelock the delay is set by the timelock itself
+    if (!deployConfig.timelock.isEnabled && !changeDelay.eq(deployConfig.changeDelay)) {
+        if (changeDelay.isZero()) {
+            await waitFor(staking.setChangeDelay(deployConfig.changeDelay));
+            console.log("Change delay is set");
+        } else {
+            console.log("Change delay is timelocked, change it by proposeChange");
+        }
+    }
+}
+
+async function runAction(context: PipelineContext, staking: AtomicStaking, action: DeployAction) {
+    const { deployment } = context;
+    const key = JSON.stringify(serializeArgs([action])[0]);
+    if (deployment.actions[key] !== undefined) {
+        return;
+    }
+
+    let tx: ContractTransaction;
+    if (action.type == "grantRole") {
+        tx = await staking.grantRole(await staking[action.role](), action.account);
+    } else if (action.type == "donate") {
+        const token = await context.hre.ethers.getContractAt("IERC20", await staking.TOKEN());
+        await waitFor(token.approve(staking.address, action.amount));
+        tx = await staking.donateTokensToRewards(action.amount);
+    } else if (action.type == "transferAdmin") {
+        tx = await staking.beginDefaultAdminTransfer(action.account);
+    } else {
+        const { newAdmin, acceptableTimestamp } = await staking.pendingDefaultAdmin();
+        if (newAdmin != constants.AddressZero || acceptableTimestamp.isZero()) {
+            await waitFor(staking.beginDefaultAdminTransfer(constants.AddressZero));
+        }
+        const block = await context.hre.ethers.provider.getBlock("latest");
+        const renounceTimestamp = (
+            await staking.pendingDefaultAdmin()
+        ).acceptableTimestamp.toNumber();
+        if (block.timestamp < renounceTimestamp) {
+            console.log(
+                "Admin renouncement is scheduled, run the deployment again after",
+                new Date(renounceTimestamp * 1000).toISOString()
+            );
+            return;
+        }
+        tx = await staking.renounceRole(
+            await staking.DEFAULT_ADMIN_ROLE(),
+            context.deployer.address
+        );
+    }
+
+    const receipt = await tx.wait();
+    deployment.actions[key] = receipt.transactionHash;
+    writeDeployment(deployment, context.deploymentsDir);
+    console.log(`Action ${key} is done`);
+}
+
+/**
+ * Deploys the TimelockController and makes it the admin of the staking.
+ * The timelock is deployed without the delay and with the deployer as the only proposer,
+ * so it accepts the admin role and sets the delays in one batch. The admin transfer takes
+ * at least a day, so the batch is made by the next run after it. Then the deployer
+ * hands the timelock over to the configured proposers and executors.
+ * The done steps are recorded as the actions of the deployment, the batch is scheduled
+ * and executed only if the timelock doesn't have it yet, so a failed run can be repeated.
+ */
+async function transferAdminToTimelock(
+    context: PipelineContext,
+    staking: AtomicStaking,
+    deployConfig: DeployConfig
+) {
+    const { deployer, deployment } = context;
+    const { changeDelay, timelock: timelockConfig } = deployConfig;
+    const timelock = (await deployContract(context, "TimelockController", [
+        0,
+        [deployer.address],
+        [deployer.address],
+        deployer.address,
+    ])) as TimelockController;
+    if (deployment.actions[TIMELOCK_STEPS.handOver] !== undefined) {
+        return;
+    }
+
+    if ((await staking.defaultAdmin()) != timelock.address) {
+        if ((await staking.pendingDefaultAdmin()).newAdmin != timelock.address) {
+            const receipt = await waitFor(staking.beginDefaultAdminTransfer(timelock.address));
+            saveAction(context, TIMELOCK_STEPS.beginAdminTransfer, receipt);
+        }
+        const block = await context.hre.ethers.provider.getBlock("latest");
+        const acceptableTimestamp = (
+            await staking.pendingDefaultAdmin()
+        ).acceptableTimestamp.toNumber();
+        if (block.timestamp < acceptableTimestamp) {
+            console.log(
+                "Admin transfer to the TimelockController is scheduled, run the deployment again after",
+                new Date(acceptableTimestamp * 1000).toISOString()
+            );
+            return;
+        }
+
+        const targets = [staking.address];
+        const payloads = [staking.interface.encodeFunctionData("acceptDefaultAdminTransfer")];
+        if (changeDelay != 0) {
+            targets.push(staking.address);
+            payloads.push(staking.interface.encodeFunctionData("setChangeDelay", [changeDelay]));
+        }
+        targets.push(timelock.address);
+        payloads.push(
+            timelock.interface.encodeFunctionData("updateDelay", [timelockConfig.minDelay])
+        );
+        const values = targets.map(() => 0);
+        const predecessor = constants.HashZero;
+        const salt = constants.HashZero;
+        const operationId = await timelock.hashOperationBatch(
+            targets,
+            values,
+            payloads,
+            predecessor,
+            salt
+        );
+
+        if (!(await timelock.isOperation(operationId))) {
+            const receipt = await waitFor(
+                timelock.scheduleBatch(targets, values, payloads, predecessor, salt, 0)
+            );
+            saveAction(context, TIMELOCK_STEPS.scheduleBatch, receipt);
+        }
+        if (!(await timelock.isOperationDone(operationId))) {
+            const receipt = await waitFor(
+                timelock.executeBatch(targets, values, payloads, predecessor, salt)
+            );
+            saveAction(context, TIMELOCK_STEPS.executeBatch, receipt);
+        }
+    }
+
+    const [proposerRole, cancellerRole, executorRole, adminRole] = await Promise.all([
+        timelock.PROPOSER_ROLE(),
+        timelock.CANCELLER_ROLE(),
+        timelock.EXECUTOR_ROLE(),
+        timelock.TIMELOCK_ADMIN_ROLE(),
+    ]);
+    const grantRole = async (role: string, account: string) => {
+        if (!(await timelock.hasRole(role, account))) {
+            await waitFor(timelock.grantRole(role, account));
+        }
+    };
+    const renounceRole = async (role: string) => {
+        if (await timelock.hasRole(role, deployer.address)) {
+            return waitFor(timelock.renounceRole(role, deployer.address));
+        }
+        return undefined;
+    };
+    for (const proposer of timelockConfig.proposers) {
+        await grantRole(proposerRole, proposer);
+        await grantRole(cancellerRole, proposer);
+    }
+    for (const executor of timelockConfig.executors) {
+        await grantRole(executorRole, executor);
+    }
+    for (const role of [proposerRole, cancellerRole, executorRole]) {
+        await renounceRole(role);
+    }
+    saveAction(context, TIMELOCK_STEPS.handOver, await renounceRole(adminRole));
+
+    console.log("TimelockController is the admin of the staking");
+}
+
+/** Records the done step, `receipt` is `undefined` if the step was done before. */
+function saveAction(context: PipelineContext, key: string, receipt: ContractReceipt | undefined) {
+    context.deployment.actions[key] = receipt?.transactionHash ?? "";
+    writeDeployment(context.deployment, context.deploymentsDir);
+}
+
+function saveContract(context: PipelineContext, contractName: string, record: DeployedContract) {
+    context.deployment.contracts[contractName] = record;
+    writeDeployment(context.deployment, context.deploymentsDir);
+}
+
+async function waitFor(tx: Promise<ContractTransaction>) {
+    return (await tx).wait();
+}
+
+/** Converts big numbers to decimal strings, so the values can be stored and compared as JSON. */
+function serializeArgs(args: unknown[]): unknown[] {
+    return args.map((arg) => {
+        if (BigNumber.isBigNumber(arg)) {
+            return arg.toString();
+        }
+        if (Array.isArray(arg)) {
+            return serializeArgs(arg);
+        }
+        if (typeof arg == "object" && arg !== null) {
+            const entries = Object.entries(arg);
+            return Object.fromEntries(
+                entries.map(([key, value]) => [key, serializeArgs([value])[0]])
+            );
+        }
+        return arg;
+    });
+}
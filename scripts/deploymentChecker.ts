@@ -0,0 +1,274 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BigNumber, BigNumberish, Event, constants } from "ethers";
+
+import type { AtomicStaking } from "../typechain-types";
+import type { DeployConfig } from "./deployPipeline";
+import { Deployment } from "./deployments";
+
+export type RoleName = "DEFAULT_ADMIN_ROLE" | "MANAGER_ROLE" | "PAUSER_ROLE";
+
+export type ParameterName =
+    | "apr"
+    | "minStakeAmount"
+    | "coolingPeriod"
+    | "changeDelay"
+    | "maxApr"
+    | "maxAprDelta"
+    | "minChangeInterval"
+    | "rampDuration"
+    | "solvencyRunway"
+    | "solvencyBuffer";
+
+/** The state which the deployed staking should have. */
+export interface ExpectedState {
+    token: string;
+    tokenDecimals: number;
+    parameters: Record<ParameterName, BigNumberish>;
+    /** `undefined` if the staking shouldn't have the receipt token. */
+    receiptToken?: { isTransferable: boolean };
+    /** Exact members of the roles. */
+    roles: Record<RoleName, string[]>;
+    /** Accounts which must not hold `DEFAULT_ADMIN_ROLE`, e.g. the deployer. */
+    forbiddenAdmins: string[];
+}
+
+export interface CheckResult {
+    name: string;
+    isPassed: boolean;
+    expected: string;
+    actual: string;
+}
+
+const ROLE_NAMES: RoleName[] = ["DEFAULT_ADMIN_ROLE", "MANAGER_ROLE", "PAUSER_ROLE"];
+
+const PARAMETER_GETTERS: Record<ParameterName, (staking: AtomicStaking) => Promise<BigNumber>> = {
+    apr: (staking) => staking.apr(),
+    minStakeAmount: (staking) => staking.minStakeAmount(),
+    coolingPeriod: (staking) => staking.coolingPeriod(),
+    changeDelay: (staking) => staking.changeDelay(),
+    maxApr: async (staking) => (await staking.aprGuardrails()).maxApr,
+    maxAprDelta: async (staking) => (await staking.aprGuardrails()).maxAprDelta,
+    minChangeInterval: async (staking) => (await staking.aprGuardrails()).minChangeInterval,
+    rampDuration: async (staking) => (await staking.aprGuardrails()).rampDuration,
+    solvencyRunway: (staking) => staking.solvencyRunway(),
+    solvencyBuffer: (staking) => staking.solvencyBuffer(),
+};
+
+/**
+ * Derives the expected state from the config which the staking was deployed with.
+ * The admin is the TimelockController, the account of the last admin action
+ * or the deployer, the other roles are held by the accounts of the `grantRole` actions.
+ */
+export function expectedStateFromConfig(
+    deployConfig: DeployConfig,
+    deployment: Deployment,
+    deployer: string
+): ExpectedState {
+    const roles: Record<RoleName, string[]> = {
+        DEFAULT_ADMIN_ROLE: [deployer],
+        MANAGER_ROLE: [],
+        PAUSER_ROLE: [],
+    };
+    for (const action of deployConfig.actions) {
+        if (action.type == "grantRole") {
+            roles[action.role].push(action.account);
+        } else if (action.type == "transferAdmin") {
+            roles.DEFAULT_ADMIN_ROLE = [action.account];
+        } else if (action.type == "renounceAdmin") {
+            roles.DEFAULT_ADMIN_ROLE = [];
+        }
+    }
+    if (deployConfig.timelock.isEnabled) {
+        const timelock = deployment.contracts.TimelockController;
+        roles.DEFAULT_ADMIN_ROLE = timelock === undefined ? [] : [timelock.address];
+    }
+
+    const { aprGuardrails, solvency, receiptToken } = deployConfig;
+    return {
+        token: (deployConfig.token as Record<string, string>)[deployment.network],
+        tokenDecimals: deployConfig.tokenDecimals,
+        parameters: {
+            apr: deployConfig.apr,
+            minStakeAmount: deployConfig.minStakeAmount,
+            coolingPeriod: deployConfig.coolingPeriod,
+            changeDelay: deployConfig.changeDelay,
+            ...aprGuardrails,
+            solvencyRunway: solvency.runway,
+            solvencyBuffer: solvency.buffer,
+        },
+        receiptToken: receiptToken.isEnabled
+            ? { isTransferable: receiptToken.isTransferable }
+            : undefined,
+        roles,
+        forbiddenAdmins: deployConfig.isDeployerAdminAllowed ? [] : [deployer],
+    };
+}
+
+/**
+ * Compares the deployed staking with the `expected` state. Role members are reconstructed
+ * from `RoleGranted` and `RoleRevoked` events, the on-chain bytecode of the contracts
+ * of the `deployment` is compared with the compiled artifacts.
+ */
+export async function checkDeployment(
+    hre: HardhatRuntimeEnvironment,
+    deployment: Deployment,
+    expected: ExpectedState
+): Promise<CheckResult[]> {
+    const stakingRecord = deployment.contracts.AtomicStaking;
+    const staking = (await hre.ethers.getContractAt(
+        "AtomicStaking",
+        stakingRecord.address
+    )) as AtomicStaking;
+    const results: CheckResult[] = [];
+
+    const token = await staking.TOKEN();
+    results.push(compare("TOKEN", expected.token, token));
+    const decimals = await (await hre.ethers.getContractAt("IERC20Metadata", token)).decimals();
+    results.push(compare("token decimals", expected.tokenDecimals, decimals));
+
+    for (const [name, getter] of Object.entries(PARAMETER_GETTERS)) {
+        const expectedValue = expected.parameters[name as ParameterName];
+        results.push(compare(name, BigNumber.from(expectedValue), await getter(staking)));
+    }
+
+    const receiptToken = await staking.receiptToken();
+    if (expected.receiptToken === undefined) {
+        results.push(compare("receiptToken", constants.AddressZero, receiptToken));
+    } else if (receiptToken == constants.AddressZero) {
+        results.push(compare("receiptToken", "set", "not set"));
+    } else {
+        const receipt = await hre.ethers.getContractAt("StakingReceiptToken", receiptToken);
+        const isTransferable = await receipt.IS_TRANSFERABLE();
+        results.push(
+            compare("receipt IS_TRANSFERABLE", expected.receiptToken.isTransferable, isTransferable)
+        );
+    }
+
+    const members = await getRoleMembers(staking, stakingRecord.blockNumber ?? 0);
+    for (const roleName of ROLE_NAMES) {
+        const role = await staking[roleName]();
+        const roleMembers = members.get(role) ?? [];
+        results.push(
+            compare(
+                `${roleName} members`,
+                formatAccounts(expected.roles[roleName]),
+                formatAccounts(roleMembers)
+            )
+        );
+    }
+    for (const account of expected.forbiddenAdmins) {
+        const isAdmin = await staking.hasRole(await staking.DEFAULT_ADMIN_ROLE(), account);
+        results.push(compare(`${account} isn't admin`, false, isAdmin));
+    }
+
+    for (const [contractName, record] of Object.entries(deployment.contracts)) {
+        results.push(
+            await compareBytecode(hre, record.artifactName ?? contractName, record.address)
+        );
+    }
+    results.push(await compareBytecode(hre, "AtomicStakingAdmin", await staking.ADMIN_EXTENSION()));
+
+    return results;
+}
+
+/** Replays `RoleGranted` and `RoleRevoked` events and returns the members by the roles. */
+export async function getRoleMembers(
+    staking: AtomicStaking,
+    fromBlock: number
+): Promise<Map<string, string[]>> {
+    const events: Event[] = [
+        ...(await staking.queryFilter(staking.filters.RoleGranted(), fromBlock)),
+        ...(await staking.queryFilter(staking.filters.RoleRevoked(), fromBlock)),
+    ];
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    const members = new Map<string, Set<string>>();
+    for (const event of events) {
+        const { role, account } = event.args!;
+        const roleMembers = members.get(role) ?? new Set<string>();
+        if (event.event == "RoleGranted") {
+            roleMembers.add(account);
+        } else {
+            roleMembers.delete(account);
+        }
+        members.set(role, roleMembers);
+    }
+
+    return new Map([...members].map(([role, accounts]) => [role, [...accounts]]));
+}
+
+export function formatReport(results: CheckResult[]): string {
+    const lines = results.map((result) =>
+        result.isPassed
+            ? `PASS  ${result.name}: ${result.actual}`
+            : `FAIL  ${result.name}: expected ${result.expected}, got ${result.actual}`
+    );
+    const failedCount = results.filter((result) => !result.isPassed).length;
+    lines.push(`${results.length - failedCount} passed, ${failedCount} failed`);
+    return lines.join("\n");
+}
+
+/**
+ * Compares the on-chain runtime bytecode with the compiled one. Immutables, linked libraries
+ * and the address which a library embeds into its code are set at deployment, so they are masked.
+ */
+async function compareBytecode(
+    hre: HardhatRuntimeEnvironment,
+    contractName: string,
+    address: string
+): Promise<CheckResult> {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+    const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+    if (buildInfo === undefined) {
+        return compare(`${contractName} bytecode`, "compiled", "no build info");
+    }
+    const { deployedBytecode } =
+        buildInfo.output.contracts[artifact.sourceName][artifact.contractName].evm;
+
+    const masks: { start: number; length: number }[] = [
+        ...Object.values(deployedBytecode.immutableReferences ?? {}).flat(),
+        ...Object.values(deployedBytecode.linkReferences)
+            .flatMap((libraries) => Object.values(libraries))
+            .flat(),
+    ];
+    // libraries start with PUSH20 of their own address
+    if (/^73(00){20}/.test(deployedBytecode.object)) {
+        masks.push({ start: 1, length: 20 });
+    }
+    const mask = (code: string) =>
+        masks.reduce(
+            (masked, { start, length }) =>
+                masked.slice(0, start * 2) +
+                "00".repeat(length) +
+                masked.slice((start + length) * 2),
+            code.toLowerCase()
+        );
+
+    const onChainCode = (await hre.ethers.provider.getCode(address)).slice(2);
+    const isMatched = mask(onChainCode) == mask(deployedBytecode.object);
+    return {
+        name: `${contractName} bytecode at ${address}`,
+        isPassed: isMatched,
+        expected: "compiled artifact",
+        actual: isMatched ? "matches" : "differs",
+    };
+}
+
+function compare(name: string, expected: unknown, actual: unknown): CheckResult {
+    const expectedString = String(expected);
+    const actualString = String(actual);
+    return {
+        name,
+        isPassed: expectedString.toLowerCase() == actualString.toLowerCase(),
+        expected: expectedString,
+        actual: actualString,
+    };
+}
+
+function formatAccounts(accounts: string[]): string {
+    return `[${accounts
+        .map((account) => account.toLowerCase())
+        .sort()
+        .join(", ")}]`;
+}
@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+
+import type { StorageLayout } from "./storageLayout";
+
+export const DEPLOYMENTS_DIR = "deployments";
+
+export interface DeployedContract {
+    address: string;
+    transactionHash: string;
+    blockNumber: number;
+    /** Constructor arguments, big numbers are stored as decimal strings. */
+    args: unknown[];
+    libraries: Record<string, string>;
+    /** Hashes of the ABI and of the linked creation bytecode, a change of them causes a redeploy. */
+    abiHash: string;
+    bytecodeHash: string;
+    isVerified: boolean;
+    /** Name of the artifact if it differs from the name of the record, e.g. for a proxy. */
+    artifactName?: string;
+    /** Storage layout of an upgradeable implementation, new versions are checked against it. */
+    storageLayout?: StorageLayout;
+}
+
+/** Contracts deployed to one network, stored in `deployments/<network>.json`. */
+export interface Deployment {
+    network: string;
+    chainId: number;
+    contracts: Record<string, DeployedContract>;
+    /** Transaction hashes of the done post-deploy actions and timelock steps by their keys. */
+    actions: Record<string, string>;
+}
+
+export function deploymentPath(networkName: string, deploymentsDir = DEPLOYMENTS_DIR): string {
+    return path.join(deploymentsDir, `${networkName}.json`);
+}
+
+/** Reads the deployments file of the network, returns `undefined` if there is no file. */
+export function readDeployment(
+    networkName: string,
+    deploymentsDir = DEPLOYMENTS_DIR
+): Deployment | undefined {
+    const filePath = deploymentPath(networkName, deploymentsDir);
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as Deployment;
+}
+
+export function writeDeployment(deployment: Deployment, deploymentsDir = DEPLOYMENTS_DIR) {
+    fs.mkdirSync(deploymentsDir, { recursive: true });
+    fs.writeFileSync(
+        deploymentPath(deployment.network, deploymentsDir),
+        JSON.stringify(deployment, null, 4) + "\n"
+    );
+}
+
+/** Returns the address of the `contractName` deployed to the network or throws if it isn't deployed. */
+export function getDeployedAddress(
+    networkName: string,
+    contractName: string,
+    deploymentsDir = DEPLOYMENTS_DIR
+): string {
+    const address = readDeployment(networkName, deploymentsDir)?.contracts[contractName]?.address;
+    if (address === undefined) {
+        throw new Error(
+            `No ${contractName} in ${deploymentPath(networkName, deploymentsDir)}, deploy it first`
+        );
+    }
+    return address;
+}
@@ -0,0 +1,49 @@
+import { ethers, network } from "hardhat";
+
+import { StakingIndexer } from "./stakingIndexer";
+
+// Usage: STAKING_ADDRESS=0x... FROM_BLOCK=123 npx hardhat run scripts/indexer.ts --network <network>
+async function main() {
+    const stakingAddress = process.env.STAKING_ADDRESS ?? "";
+    if (!ethers.utils.isAddress(stakingAddress)) {
+        console.log("No staking address in the STAKING_ADDRESS environment variable");
+        return;
+    }
+
+    const fromBlock = Number(process.env.FROM_BLOCK ?? 0);
+    const dbPath = process.env.INDEXER_DB ?? `./data/indexer/${network.name}.sqlite`;
+
+    const staking = await ethers.getContractAt("AtomicStaking", stakingAddress);
+    const indexer = await StakingIndexer.open(staking, {
+        fromBlock,
+        dbPath,
+        confirmations: Number(process.env.CONFIRMATIONS ?? 0),
+    });
+
+    try {
+        const lastIndexedBlock = await indexer.sync();
+        console.log("Indexed up to block:", lastIndexedBlock);
+        console.log("Stakers:", indexer.users().length);
+        console.log("Total staked:", indexer.totalStaked().toString());
+
+        const report = await indexer.checkConsistency();
+        if (report.isConsistent) {
+            console.log("Indexed state matches the contract at block", report.blockNumber);
+        } else {
+            console.log("Indexed state doesn't match the contract at block", report.blockNumber);
+            for (const mismatch of report.mismatches) {
+                console.log("  -", mismatch);
+            }
+            process.exitCode = 1;
+        }
+    } finally {
+        indexer.close();
+    }
+}
+
+main()
+    .then(() => process.exit())
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,991 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import { AtomicStaking, IERC20__factory } from "../typechain-types";
+
+export const ONE_DAY = 86400;
+export const ONE_YEAR = ONE_DAY * 365;
+
+export const RATE_PRECISION = BigNumber.from(10).pow(18);
+export const PERCENT_DENOMINATOR = 100_00;
+
+export interface ModelStakeState {
+    stakeAmount: BigNumber;
+    claimedAmount: BigNumber;
+    contractDeptToUser: BigNumber;
+}
+
+export interface ModelLockTier {
+    lockPeriod: number;
+    aprMultiplier: BigNumber;
+    ratePerStaking: BigNumber;
+    lastRateUpdateTimestamp: number;
+    totalLocked: BigNumber;
+    /** The flexible rate at the last update of the tier rate in the campaign mode. */
+    lastFlexibleRate: BigNumber;
+}
+
+/** The linear ramp of the APR from `fromApr` to `apr` that `setApr` starts. */
+export interface ModelAprRamp {
+    fromApr: BigNumber;
+    startTimestamp: number;
+    endTimestamp: number;
+}
+
+export interface ModelCampaign {
+    startTimestamp: number;
+    endTimestamp: number;
+    budget: BigNumber;
+}
+
+export interface ModelPosition {
+    user: string;
+    tierId: number;
+    unlockTimestamp: number;
+    amount: BigNumber;
+    claimedAmount: BigNumber;
+}
+
+export interface ModelState {
+    apr: BigNumber;
+    aprRamp: ModelAprRamp;
+    /** `rampDuration` of the APR guardrails, the duration of the ramps of the next APR changes. */
+    rampDuration: number;
+    totalStaked: BigNumber;
+    lastRateUpdateTimestamp: number;
+    ratePerStaking: BigNumber;
+    /** Token balance of the staking contract. */
+    balance: BigNumber;
+    stakeStates: Map<string, ModelStakeState>;
+    /** Users with the `isAutoCompounding` flag. */
+    autoCompoundingUsers: Set<string>;
+    lockTiers: ModelLockTier[];
+    positions: Map<number, ModelPosition>;
+    isCampaignMode: boolean;
+    totalRewardWeight: BigNumber;
+    campaigns: ModelCampaign[];
+    solvencyRunway: number;
+    solvencyBuffer: BigNumber;
+    totalUnpaidRewards: BigNumber;
+}
+
+/** The result of `_solvencyThrottle` of the `AtomicStaking` contract. */
+export interface ModelSolvencyThrottle {
+    aprMultiplier: BigNumber;
+    fundedRewards: BigNumber;
+    weightedRate: BigNumber;
+}
+
+/**
+ * Mirrors `Campaigns.emission`: the amount of tokens that the `campaigns` emit
+ * from `fromTimestamp` to `timestamp`.
+ */
+export function getCampaignsEmission(
+    campaigns: ModelCampaign[],
+    fromTimestamp: number,
+    timestamp: number
+): BigNumber {
+    return campaigns.reduce((emission, campaign) => {
+        const start = Math.max(campaign.startTimestamp, fromTimestamp);
+        const end = Math.min(campaign.endTimestamp, timestamp);
+        if (start >= end) {
+            return emission;
+        }
+        return emission.add(
+            campaign.budget.mul(end - start).div(campaign.endTimestamp - campaign.startTimestamp)
+        );
+    }, BigNumber.from(0));
+}
+
+/** Mirrors `AprRamps.aprAt`: the APR at the timestamp `timestamp`. */
+export function getAprAt(ramp: ModelAprRamp, apr: BigNumber, timestamp: number): BigNumber {
+    if (timestamp >= ramp.endTimestamp) {
+        return apr;
+    }
+    if (timestamp <= ramp.startTimestamp) {
+        return ramp.fromApr;
+    }
+
+    const elapsed = timestamp - ramp.startTimestamp;
+    const duration = ramp.endTimestamp - ramp.startTimestamp;
+    if (apr.gt(ramp.fromApr)) {
+        return ramp.fromApr.add(apr.sub(ramp.fromApr).mul(elapsed).div(duration));
+    }
+    return ramp.fromApr.sub(ramp.fromApr.sub(apr).mul(elapsed).div(duration));
+}
+
+/** Mirrors `AprRamps.aprIntegral`: the integral of the APR from `fromTimestamp` to `timestamp`. */
+export function getAprIntegral(
+    ramp: ModelAprRamp,
+    apr: BigNumber,
+    fromTimestamp: number,
+    timestamp: number
+): BigNumber {
+    if (fromTimestamp >= ramp.endTimestamp) {
+        return apr.mul(timestamp - fromTimestamp);
+    }
+
+    const rampEndTimestamp = Math.min(timestamp, ramp.endTimestamp);
+    return getAprAt(ramp, apr, fromTimestamp)
+        .add(getAprAt(ramp, apr, rampEndTimestamp))
+        .mul(rampEndTimestamp - fromTimestamp)
+        .div(2)
+        .add(apr.mul(timestamp - rampEndTimestamp));
+}
+
+/** Mirrors `_weightedRate` of the `AtomicStaking` contract: the reward weights multiplied by their rates. */
+export function getWeightedRate(
+    state: Pick<ModelState, "ratePerStaking" | "lockTiers" | "totalRewardWeight">
+): BigNumber {
+    let lockedWeight = BigNumber.from(0);
+    let lockedWeightedRate = BigNumber.from(0);
+    for (const tier of state.lockTiers) {
+        const tierWeight = tier.totalLocked.mul(tier.aprMultiplier);
+        lockedWeight = lockedWeight.add(tierWeight);
+        lockedWeightedRate = lockedWeightedRate.add(tierWeight.mul(tier.ratePerStaking));
+    }
+    return state.totalRewardWeight
+        .sub(lockedWeight)
+        .mul(state.ratePerStaking)
+        .add(lockedWeightedRate);
+}
+
+/** Mirrors `_solvencyThrottle` of the `AtomicStaking` contract at the timestamp `timestamp`. */
+export function getSolvencyThrottle(state: ModelState, timestamp: number): ModelSolvencyThrottle {
+    const assets = state.balance.add(state.solvencyBuffer);
+    const liabilities = state.totalStaked.add(state.totalUnpaidRewards);
+    const fundedRewards = assets.gt(liabilities) ? assets.sub(liabilities) : BigNumber.from(0);
+
+    const weightedRate = getWeightedRate(state);
+    const runwayEmission = weightedRate
+        .mul(getAprAt(state.aprRamp, state.apr, timestamp))
+        .mul(state.solvencyRunway)
+        .div(
+            BigNumber.from(ONE_YEAR)
+                .mul(PERCENT_DENOMINATOR)
+                .mul(PERCENT_DENOMINATOR)
+                .mul(RATE_PRECISION)
+        );
+    if (fundedRewards.gte(runwayEmission)) {
+        return { aprMultiplier: RATE_PRECISION, fundedRewards, weightedRate };
+    }
+    return {
+        aprMultiplier: fundedRewards.mul(RATE_PRECISION).div(runwayEmission),
+        fundedRewards,
+        weightedRate,
+    };
+}
+
+/**
+ * Mirrors the `aprMultiplier` of `_rateContext` of the `AtomicStaking` contract:
+ * the multiplier of the APR of the tier rates, capped by the funded rewards.
+ */
+export function getRateAprMultiplier(state: ModelState, timestamp: number): BigNumber {
+    if (state.solvencyRunway == 0 || state.isCampaignMode) {
+        return RATE_PRECISION;
+    }
+
+    const { aprMultiplier, fundedRewards, weightedRate } = getSolvencyThrottle(state, timestamp);
+    const emission = weightedRate
+        .mul(getAprIntegral(state.aprRamp, state.apr, state.lastRateUpdateTimestamp, timestamp))
+        .div(
+            BigNumber.from(ONE_YEAR)
+                .mul(PERCENT_DENOMINATOR)
+                .mul(PERCENT_DENOMINATOR)
+                .mul(RATE_PRECISION)
+        );
+    if (emission.mul(aprMultiplier).div(RATE_PRECISION).gt(fundedRewards)) {
+        return fundedRewards.mul(RATE_PRECISION).div(emission);
+    }
+    return aprMultiplier;
+}
+
+/** Mirrors `_getNewRatePerStaking` of the `AtomicStaking` contract at the timestamp `timestamp`. */
+export function getNewRatePerStaking(state: ModelState, timestamp: number): BigNumber {
+    if (state.lastRateUpdateTimestamp == timestamp) {
+        return state.ratePerStaking;
+    }
+    if (state.isCampaignMode) {
+        if (state.totalRewardWeight.eq(0)) {
+            return state.ratePerStaking;
+        }
+        return state.ratePerStaking.add(
+            getCampaignsEmission(state.campaigns, state.lastRateUpdateTimestamp, timestamp)
+                .mul(RATE_PRECISION)
+                .mul(PERCENT_DENOMINATOR)
+                .div(state.totalRewardWeight)
+        );
+    }
+    let rateIncrease = state.ratePerStaking
+        .mul(getAprIntegral(state.aprRamp, state.apr, state.lastRateUpdateTimestamp, timestamp))
+        .div(BigNumber.from(ONE_YEAR).mul(PERCENT_DENOMINATOR));
+    if (state.solvencyRunway != 0) {
+        // mirrors `_throttledRateIncrease`
+        const { aprMultiplier, fundedRewards, weightedRate } = getSolvencyThrottle(
+            state,
+            timestamp
+        );
+        rateIncrease = rateIncrease.mul(aprMultiplier).div(RATE_PRECISION);
+        if (!weightedRate.eq(0)) {
+            const maxRateIncrease = fundedRewards
+                .mul(RATE_PRECISION)
+                .mul(PERCENT_DENOMINATOR)
+                .mul(state.ratePerStaking)
+                .div(weightedRate);
+            if (rateIncrease.gt(maxRateIncrease)) {
+                rateIncrease = maxRateIncrease;
+            }
+        }
+    }
+    return state.ratePerStaking.add(rateIncrease);
+}
+
+/**
+ * Mirrors `_getNewTierRate` of the `AtomicStaking` contract in the campaign mode,
+ * `ratePerStaking` is the up-to-date flexible rate.
+ */
+export function getNewCampaignTierRate(tier: ModelLockTier, ratePerStaking: BigNumber): BigNumber {
+    return tier.ratePerStaking.add(
+        ratePerStaking.sub(tier.lastFlexibleRate).mul(tier.aprMultiplier).div(PERCENT_DENOMINATOR)
+    );
+}
+
+/**
+ * Mirrors `_getNewTierRate` of the `AtomicStaking` contract at the timestamp `timestamp`,
+ * `aprMultiplier` is the result of `getRateAprMultiplier`.
+ */
+export function getNewTierRate(
+    state: Pick<ModelState, "apr" | "aprRamp">,
+    tier: ModelLockTier,
+    timestamp: number,
+    aprMultiplier: BigNumber = RATE_PRECISION
+): BigNumber {
+    if (tier.lastRateUpdateTimestamp == timestamp) {
+        return tier.ratePerStaking;
+    }
+    return tier.ratePerStaking.add(
+        tier.ratePerStaking
+            .mul(getAprIntegral(state.aprRamp, state.apr, tier.lastRateUpdateTimestamp, timestamp))
+            .mul(tier.aprMultiplier)
+            .mul(aprMultiplier)
+            .div(
+                BigNumber.from(ONE_YEAR)
+                    .mul(PERCENT_DENOMINATOR)
+                    .mul(PERCENT_DENOMINATOR)
+                    .mul(RATE_PRECISION)
+            )
+    );
+}
+
+/**
+ * Off-chain replica of the reward accounting of the `AtomicStaking` contract.
+ *
+ * Every operation takes the timestamp of the block it is executed in and updates the state
+ * exactly like the contract does. The projection functions don't change the state and
+ * assume that nobody interacts with the contract until the projected timestamp.
+ */
+export class StakingModel {
+    constructor(readonly state: ModelState) {}
+
+    static empty(apr: BigNumberish, timestamp = 0, rampDuration = 0): StakingModel {
+        return new StakingModel({
+            apr: BigNumber.from(apr),
+            aprRamp: { fromApr: BigNumber.from(0), startTimestamp: 0, endTimestamp: 0 },
+            rampDuration,
+            totalStaked: BigNumber.from(0),
+            lastRateUpdateTimestamp: timestamp,
+            ratePerStaking: RATE_PRECISION,
+            balance: BigNumber.from(0),
+            stakeStates: new Map(),
+            autoCompoundingUsers: new Set(),
+            lockTiers: [],
+            positions: new Map(),
+            isCampaignMode: false,
+            totalRewardWeight: BigNumber.from(0),
+            campaigns: [],
+            solvencyRunway: 0,
+            solvencyBuffer: BigNumber.from(0),
+            totalUnpaidRewards: BigNumber.from(0),
+        });
+    }
+
+    stakeState(user: string): ModelStakeState {
+        let stakeState = this.state.stakeStates.get(user);
+        if (stakeState === undefined) {
+            stakeState = {
+                stakeAmount: BigNumber.from(0),
+                claimedAmount: BigNumber.from(0),
+                contractDeptToUser: BigNumber.from(0),
+            };
+            this.state.stakeStates.set(user, stakeState);
+        }
+        return stakeState;
+    }
+
+    users(): string[] {
+        return [...this.state.stakeStates.keys()];
+    }
+
+    /* OPERATIONS */
+
+    /** Returns the amount of the paid rewards, they are compounded for auto-compounding users. */
+    stake(user: string, amount: BigNumberish, timestamp: number): BigNumber {
+        const paidRewards = this.collectRewards(user, timestamp);
+
+        const stakeState = this.stakeState(user);
+        stakeState.stakeAmount = stakeState.stakeAmount.add(amount);
+        stakeState.claimedAmount = stakeState.stakeAmount
+            .mul(this.state.ratePerStaking)
+            .div(RATE_PRECISION);
+
+        this.state.totalStaked = this.state.totalStaked.add(amount);
+        this.state.totalRewardWeight = this.state.totalRewardWeight.add(
+            BigNumber.from(amount).mul(PERCENT_DENOMINATOR)
+        );
+        this.state.balance = this.state.balance.add(amount);
+
+        return paidRewards;
+    }
+
+    /** Returns the amount of the paid rewards, they are compounded for auto-compounding users. */
+    requestWithdraw(user: string, amount: BigNumberish, timestamp: number): BigNumber {
+        const paidRewards = this.collectRewards(user, timestamp);
+
+        const stakeState = this.stakeState(user);
+        stakeState.stakeAmount = stakeState.stakeAmount.sub(amount);
+        stakeState.claimedAmount = stakeState.stakeAmount
+            .mul(this.state.ratePerStaking)
+            .div(RATE_PRECISION);
+
+        this.state.totalRewardWeight = this.state.totalRewardWeight.sub(
+            BigNumber.from(amount).mul(PERCENT_DENOMINATOR)
+        );
+
+        return paidRewards;
+    }
+
+    finalizeWithdraw(amount: BigNumberish) {
+        this.state.totalStaked = this.state.totalStaked.sub(amount);
+        this.state.balance = this.state.balance.sub(amount);
+    }
+
+    /**
+     * `keptPenalty` is the early withdraw penalty that stays in the contract as rewards,
+     * it is zero when the penalty goes to the penalty receiver.
+     * Returns the amount of the paid rewards.
+     */
+    instantWithdraw(
+        user: string,
+        amount: BigNumberish,
+        keptPenalty: BigNumberish,
+        timestamp: number
+    ): BigNumber {
+        const paidRewards = this.requestWithdraw(user, amount, timestamp);
+        this.accelerateWithdraw(amount, keptPenalty);
+        return paidRewards;
+    }
+
+    /** `keptPenalty` is the early withdraw penalty that stays in the contract as rewards. */
+    accelerateWithdraw(amount: BigNumberish, keptPenalty: BigNumberish) {
+        this.finalizeWithdraw(amount);
+        this.state.balance = this.state.balance.add(keptPenalty);
+    }
+
+    /** `amount` is the sum of the canceled requests. Returns the amount of the paid rewards. */
+    cancelWithdraw(user: string, amount: BigNumberish, timestamp: number): BigNumber {
+        const paidRewards = this.collectRewards(user, timestamp);
+
+        const stakeState = this.stakeState(user);
+        stakeState.stakeAmount = stakeState.stakeAmount.add(amount);
+        stakeState.claimedAmount = stakeState.stakeAmount
+            .mul(this.state.ratePerStaking)
+            .div(RATE_PRECISION);
+
+        this.state.totalRewardWeight = this.state.totalRewardWeight.add(
+            BigNumber.from(amount).mul(PERCENT_DENOMINATOR)
+        );
+
+        return paidRewards;
+    }
+
+    /** Returns the amount of the transferred rewards. */
+    claimRewards(user: string, timestamp: number): BigNumber {
+        return this.collectRewards(user, timestamp, false);
+    }
+
+    /** Returns the amount of the compounded rewards. */
+    compoundRewards(user: string, timestamp: number): BigNumber {
+        return this.collectRewards(user, timestamp, true);
+    }
+
+    setAutoCompounding(user: string, isEnabled: boolean) {
+        if (isEnabled) {
+            this.state.autoCompoundingUsers.add(user);
+        } else {
+            this.state.autoCompoundingUsers.delete(user);
+        }
+    }
+
+    donateTokensToRewards(amount: BigNumberish) {
+        this.state.balance = this.state.balance.add(amount);
+    }
+
+    /** Returns the withdrawn amount. */
+    receiveExcessiveBalance(amount: BigNumberish, timestamp: number): BigNumber {
+        let reserved = this.state.totalStaked.add(this.unemittedCampaignsBudget(timestamp));
+        if (this.state.isCampaignMode) {
+            this.updateRate(timestamp);
+            reserved = reserved.add(this.state.totalUnpaidRewards);
+        }
+        if (this.state.balance.lte(reserved)) {
+            return BigNumber.from(0);
+        }
+
+        const possibleToWithdraw = this.state.balance.sub(reserved);
+        const toWithdraw = possibleToWithdraw.lte(amount)
+            ? possibleToWithdraw
+            : BigNumber.from(amount);
+        this.state.balance = this.state.balance.sub(toWithdraw);
+        return toWithdraw;
+    }
+
+    /** The APR glides from the current one to `newValue` for `rampDuration` seconds. */
+    setApr(newValue: BigNumberish, timestamp: number) {
+        this.updateAllRates(timestamp);
+        this.state.aprRamp = {
+            fromApr: getAprAt(this.state.aprRamp, this.state.apr, timestamp),
+            startTimestamp: timestamp,
+            endTimestamp: timestamp + this.state.rampDuration,
+        };
+        this.state.apr = BigNumber.from(newValue);
+    }
+
+    setSolvencyParameters(runway: number, buffer: BigNumberish, timestamp: number) {
+        this.updateAllRates(timestamp);
+        this.state.solvencyRunway = runway;
+        this.state.solvencyBuffer = BigNumber.from(buffer);
+    }
+
+    enableCampaignMode(timestamp: number) {
+        this.updateAllRates(timestamp);
+        this.state.isCampaignMode = true;
+        for (const tier of this.state.lockTiers) {
+            tier.lastFlexibleRate = this.state.ratePerStaking;
+        }
+    }
+
+    /** Returns the id of the added campaign. */
+    addCampaign(startTimestamp: number, duration: number, budget: BigNumberish): number {
+        this.state.campaigns.push({
+            startTimestamp,
+            endTimestamp: startTimestamp + duration,
+            budget: BigNumber.from(budget),
+        });
+        this.state.balance = this.state.balance.add(budget);
+        return this.state.campaigns.length - 1;
+    }
+
+    /** Returns the id of the added tier. */
+    addLockTier(lockPeriod: number, aprMultiplier: BigNumberish, timestamp: number): number {
+        this.state.lockTiers.push({
+            lockPeriod,
+            aprMultiplier: BigNumber.from(aprMultiplier),
+            ratePerStaking: RATE_PRECISION,
+            lastRateUpdateTimestamp: timestamp,
+            totalLocked: BigNumber.from(0),
+            lastFlexibleRate: this.state.ratePerStaking,
+        });
+        return this.state.lockTiers.length - 1;
+    }
+
+    setLockTierMultiplier(tierId: number, newValue: BigNumberish, timestamp: number) {
+        this.updateTierRate(tierId, timestamp);
+        const tier = this.state.lockTiers[tierId];
+        this.state.totalRewardWeight = this.state.totalRewardWeight
+            .add(tier.totalLocked.mul(newValue))
+            .sub(tier.totalLocked.mul(tier.aprMultiplier));
+        tier.aprMultiplier = BigNumber.from(newValue);
+    }
+
+    /** `positionId` is the id that the contract assigned to the position. */
+    stakeLocked(
+        positionId: number,
+        user: string,
+        amount: BigNumberish,
+        tierId: number,
+        timestamp: number
+    ) {
+        this.updateRate(timestamp);
+        const tierRate = this.updateTierRate(tierId, timestamp);
+
+        this.stakeState(user);
+        const tier = this.state.lockTiers[tierId];
+        this.state.positions.set(positionId, {
+            user,
+            tierId,
+            unlockTimestamp: timestamp + tier.lockPeriod,
+            amount: BigNumber.from(amount),
+            claimedAmount: BigNumber.from(amount).mul(tierRate).div(RATE_PRECISION),
+        });
+
+        tier.totalLocked = tier.totalLocked.add(amount);
+        this.state.totalStaked = this.state.totalStaked.add(amount);
+        this.state.totalRewardWeight = this.state.totalRewardWeight.add(
+            tier.aprMultiplier.mul(amount)
+        );
+        this.state.balance = this.state.balance.add(amount);
+    }
+
+    /** Returns the amount of the transferred rewards. */
+    claimPositionRewards(positionId: number, timestamp: number): BigNumber {
+        const position = this.position(positionId);
+        const allRewards = position.amount
+            .mul(this.updateTierRate(position.tierId, timestamp))
+            .div(RATE_PRECISION);
+
+        let earnedRewards = BigNumber.from(0);
+        if (allRewards.gt(position.claimedAmount)) {
+            earnedRewards = allRewards.sub(position.claimedAmount);
+            position.claimedAmount = allRewards;
+        }
+
+        return this.payRewards(position.user, earnedRewards, false);
+    }
+
+    /**
+     * The position's amount moves to a withdrawal request, finalize it with `finalizeWithdraw`.
+     * Returns the amount of the transferred rewards.
+     */
+    requestPositionWithdraw(positionId: number, timestamp: number): BigNumber {
+        const paidRewards = this.claimPositionRewards(positionId, timestamp);
+
+        const position = this.position(positionId);
+        const tier = this.state.lockTiers[position.tierId];
+        tier.totalLocked = tier.totalLocked.sub(position.amount);
+        this.state.totalRewardWeight = this.state.totalRewardWeight.sub(
+            tier.aprMultiplier.mul(position.amount)
+        );
+        this.state.positions.delete(positionId);
+
+        return paidRewards;
+    }
+
+    /* PROJECTIONS */
+
+    /** Mirrors `_earnedRewards` of the contract at the timestamp `timestamp`. */
+    earnedRewards(user: string, timestamp: number): [BigNumber, BigNumber] {
+        const stakeState = this.stakeState(user);
+        if (stakeState.stakeAmount.eq(0)) {
+            return [BigNumber.from(0), BigNumber.from(0)];
+        }
+
+        const allRewards = stakeState.stakeAmount
+            .mul(getNewRatePerStaking(this.state, timestamp))
+            .div(RATE_PRECISION);
+        if (allRewards.lte(stakeState.claimedAmount)) {
+            return [BigNumber.from(0), allRewards];
+        }
+        return [allRewards.sub(stakeState.claimedAmount), allRewards];
+    }
+
+    /** Mirrors `positionRewards` of the contract at the timestamp `timestamp`. */
+    positionRewards(positionId: number, timestamp: number): BigNumber {
+        const position = this.position(positionId);
+        const tier = this.state.lockTiers[position.tierId];
+        const allRewards = position.amount
+            .mul(tier.totalLocked.eq(0) ? tier.ratePerStaking : this.newTierRate(tier, timestamp))
+            .div(RATE_PRECISION);
+        return allRewards.gt(position.claimedAmount)
+            ? allRewards.sub(position.claimedAmount)
+            : BigNumber.from(0);
+    }
+
+    /** Rewards that `user` will be owed at `timestamp` regardless of the contract's balance. */
+    projectUserRewards(user: string, timestamp: number): BigNumber {
+        const [earnedRewards] = this.earnedRewards(user, timestamp);
+        return earnedRewards.add(this.stakeState(user).contractDeptToUser);
+    }
+
+    /** Mirrors `availableRewardsToClaim` of the contract at the timestamp `timestamp`. */
+    availableRewardsToClaim(user: string, timestamp: number): BigNumber {
+        const rewardsPool = this.rewardsPool();
+        if (rewardsPool.lte(0)) {
+            return BigNumber.from(0);
+        }
+
+        const totalRewards = this.projectUserRewards(user, timestamp);
+        return totalRewards.lte(rewardsPool) ? totalRewards : rewardsPool;
+    }
+
+    /** Sum of the rewards that all stakers will be owed at `timestamp`, locked positions included. */
+    projectLiabilities(timestamp: number): BigNumber {
+        const flexibleLiabilities = this.users().reduce(
+            (sum, user) => sum.add(this.projectUserRewards(user, timestamp)),
+            BigNumber.from(0)
+        );
+        return [...this.state.positions.keys()].reduce(
+            (sum, positionId) => sum.add(this.positionRewards(positionId, timestamp)),
+            flexibleLiabilities
+        );
+    }
+
+    /** `TOKEN.balanceOf(staking) - totalStaked`. Can be negative. */
+    rewardsPool(): BigNumber {
+        return this.state.balance.sub(this.state.totalStaked);
+    }
+
+    /**
+     * Returns the first timestamp starting from `fromTimestamp` at which the liabilities
+     * exceed the rewards pool, or `undefined` if it doesn't happen in `maxHorizon` seconds.
+     */
+    findRunway(fromTimestamp: number, maxHorizon = ONE_YEAR * 100): number | undefined {
+        const rewardsPool = this.rewardsPool();
+        const isDry = (timestamp: number) => this.projectLiabilities(timestamp).gt(rewardsPool);
+
+        if (isDry(fromTimestamp)) {
+            return fromTimestamp;
+        }
+
+        let low = fromTimestamp;
+        let step = ONE_DAY;
+        let high = fromTimestamp + step;
+        while (!isDry(high)) {
+            if (high - fromTimestamp >= maxHorizon) {
+                return undefined;
+            }
+            low = high;
+            step *= 2;
+            high = Math.min(fromTimestamp + maxHorizon, high + step);
+        }
+
+        // isDry(low) == false, isDry(high) == true
+        while (high - low > 1) {
+            const middle = Math.floor((low + high) / 2);
+            if (isDry(middle)) {
+                high = middle;
+            } else {
+                low = middle;
+            }
+        }
+        return high;
+    }
+
+    /* PRIVATE FUNCTIONS */
+
+    private position(positionId: number): ModelPosition {
+        const position = this.state.positions.get(positionId);
+        if (position === undefined) {
+            throw new Error(`No position ${positionId} in the model`);
+        }
+        return position;
+    }
+
+    /** Mirrors `_getNewTierRate` of the contract in both reward modes. */
+    private newTierRate(tier: ModelLockTier, timestamp: number): BigNumber {
+        return this.state.isCampaignMode
+            ? getNewCampaignTierRate(tier, getNewRatePerStaking(this.state, timestamp))
+            : getNewTierRate(
+                  this.state,
+                  tier,
+                  timestamp,
+                  getRateAprMultiplier(this.state, timestamp)
+              );
+    }
+
+    /** Mirrors the part of the campaigns' budgets that `receiveExcessiveBalance` reserves. */
+    private unemittedCampaignsBudget(timestamp: number): BigNumber {
+        return this.state.campaigns.reduce((budget, campaign) => {
+            if (campaign.endTimestamp <= timestamp) {
+                return budget;
+            }
+            if (campaign.startTimestamp >= timestamp) {
+                return budget.add(campaign.budget);
+            }
+            return budget
+                .add(campaign.budget)
+                .sub(
+                    campaign.budget
+                        .mul(timestamp - campaign.startTimestamp)
+                        .div(campaign.endTimestamp - campaign.startTimestamp)
+                );
+        }, BigNumber.from(0));
+    }
+
+    private updateAllRates(timestamp: number) {
+        this.updateRate(timestamp);
+        this.state.lockTiers.forEach((_, tierId) => this.updateTierRate(tierId, timestamp));
+    }
+
+    /** Mirrors `_updateTierRate` of the contract, the flexible rate is updated first in both modes. */
+    private updateTierRate(tierId: number, timestamp: number): BigNumber {
+        this.updateRate(timestamp);
+        return this.updateTierRateWith(
+            tierId,
+            timestamp,
+            getRateAprMultiplier(this.state, timestamp)
+        );
+    }
+
+    /** Mirrors `LockTiers._updateRate`, `aprMultiplier` is the result of `getRateAprMultiplier`. */
+    private updateTierRateWith(
+        tierId: number,
+        timestamp: number,
+        aprMultiplier: BigNumber
+    ): BigNumber {
+        const tier = this.state.lockTiers[tierId];
+        if (this.state.isCampaignMode) {
+            tier.ratePerStaking = getNewCampaignTierRate(tier, this.state.ratePerStaking);
+            tier.lastFlexibleRate = this.state.ratePerStaking;
+            tier.lastRateUpdateTimestamp = timestamp;
+            return tier.ratePerStaking;
+        }
+
+        if (tier.totalLocked.gt(0) && tier.lastRateUpdateTimestamp != timestamp) {
+            tier.ratePerStaking = getNewTierRate(this.state, tier, timestamp, aprMultiplier);
+        }
+        tier.lastRateUpdateTimestamp = timestamp;
+        return tier.ratePerStaking;
+    }
+
+    /**
+     * Unlike the contract, the model doesn't skip ended campaigns,
+     * they don't emit anything after the last rate update anyway.
+     */
+    private updateRate(timestamp: number) {
+        if (
+            this.state.isCampaignMode
+                ? this.state.totalRewardWeight.eq(0)
+                : this.state.totalStaked.eq(0)
+        ) {
+            this.state.lastRateUpdateTimestamp = timestamp;
+            return;
+        }
+
+        if (this.state.lastRateUpdateTimestamp != timestamp) {
+            const newRatePerStaking = getNewRatePerStaking(this.state, timestamp);
+            this.accrueUnpaidRewards(newRatePerStaking, timestamp);
+            this.state.ratePerStaking = newRatePerStaking;
+            this.state.lastRateUpdateTimestamp = timestamp;
+        }
+    }
+
+    /**
+     * Mirrors the estimate of `totalUnpaidRewards` of `_updateRate` of the contract.
+     * While the solvency throttling is enabled in the APR mode, the tier rates are updated
+     * together with the flexible rate.
+     */
+    private accrueUnpaidRewards(newRatePerStaking: BigNumber, timestamp: number) {
+        const rateIncrease = newRatePerStaking.sub(this.state.ratePerStaking);
+        let flexibleWeight = this.state.totalRewardWeight;
+        let emission = BigNumber.from(0);
+        if (this.state.solvencyRunway != 0 && !this.state.isCampaignMode) {
+            const aprMultiplier = getRateAprMultiplier(this.state, timestamp);
+            this.state.lockTiers.forEach((tier, tierId) => {
+                flexibleWeight = flexibleWeight.sub(tier.totalLocked.mul(tier.aprMultiplier));
+                const oldRatePerStaking = tier.ratePerStaking;
+                const newTierRate = this.updateTierRateWith(tierId, timestamp, aprMultiplier);
+                emission = emission.add(
+                    tier.totalLocked.mul(newTierRate.sub(oldRatePerStaking)).div(RATE_PRECISION)
+                );
+            });
+        }
+
+        this.state.totalUnpaidRewards = this.state.totalUnpaidRewards
+            .add(emission)
+            .add(flexibleWeight.mul(rateIncrease).div(RATE_PRECISION.mul(PERCENT_DENOMINATOR)));
+    }
+
+    private collectRewards(
+        user: string,
+        timestamp: number,
+        compound = this.state.autoCompoundingUsers.has(user)
+    ): BigNumber {
+        this.updateRate(timestamp);
+
+        const [earnedRewards, allRewards] = this.earnedRewards(user, timestamp);
+        if (earnedRewards.gt(0)) {
+            this.stakeState(user).claimedAmount = allRewards;
+        }
+
+        return this.payRewards(user, earnedRewards, compound);
+    }
+
+    /** Mirrors `_payRewards` of the contract. */
+    private payRewards(user: string, earnedRewards: BigNumber, compound: boolean): BigNumber {
+        const stakeState = this.stakeState(user);
+        const totalRewards = earnedRewards.add(stakeState.contractDeptToUser);
+        if (totalRewards.eq(0)) {
+            return BigNumber.from(0);
+        }
+
+        const rewardsPool = this.rewardsPool();
+        if (rewardsPool.lte(0)) {
+            stakeState.contractDeptToUser = totalRewards;
+            return BigNumber.from(0);
+        }
+
+        const paidRewards = rewardsPool.lt(totalRewards) ? rewardsPool : totalRewards;
+        stakeState.contractDeptToUser = totalRewards.sub(paidRewards);
+        // the estimate can be less than the actual rewards
+        this.state.totalUnpaidRewards = this.state.totalUnpaidRewards.gt(paidRewards)
+            ? this.state.totalUnpaidRewards.sub(paidRewards)
+            : BigNumber.from(0);
+        if (compound) {
+            stakeState.stakeAmount = stakeState.stakeAmount.add(paidRewards);
+            stakeState.claimedAmount = stakeState.stakeAmount
+                .mul(this.state.ratePerStaking)
+                .div(RATE_PRECISION);
+            this.state.totalStaked = this.state.totalStaked.add(paidRewards);
+            this.state.totalRewardWeight = this.state.totalRewardWeight.add(
+                paidRewards.mul(PERCENT_DENOMINATOR)
+            );
+        } else {
+            this.state.balance = this.state.balance.sub(paidRewards);
+        }
+        return paidRewards;
+    }
+}
+
+/**
+ * Builds a `StakingModel` from the live state of a deployed contract.
+ * The private `_ratePerStaking` is recovered from the last `RateUpdated` event, so `fromBlock`
+ * should not be later than the deployment block. Stakers are collected from the `TokenStaked`,
+ * `StakeTransferred`, `StakeMigrationReceived` and `TokenLocked` events unless `users` is passed.
+ */
+export async function loadStakingModel(
+    staking: AtomicStaking,
+    options: { fromBlock?: number; users?: string[] } = {}
+): Promise<StakingModel> {
+    const fromBlock = options.fromBlock ?? 0;
+
+    const [
+        apr,
+        aprRamp,
+        aprGuardrails,
+        totalStaked,
+        lastRateUpdateTimestamp,
+        tokenAddress,
+        rateEvents,
+        isCampaignMode,
+        totalRewardWeight,
+        campaignsCount,
+        solvencyRunway,
+        solvencyBuffer,
+        totalUnpaidRewards,
+    ] = await Promise.all([
+        staking.apr(),
+        staking.aprRamp(),
+        staking.aprGuardrails(),
+        staking.totalStaked(),
+        staking.lastRateUpdateTimestamp(),
+        staking.TOKEN(),
+        staking.queryFilter(staking.filters.RateUpdated(), fromBlock),
+        staking.isCampaignMode(),
+        staking.totalRewardWeight(),
+        staking.campaignsCount(),
+        staking.solvencyRunway(),
+        staking.solvencyBuffer(),
+        staking.totalUnpaidRewards(),
+    ]);
+    const balance = await IERC20__factory.connect(tokenAddress, staking.provider).balanceOf(
+        staking.address
+    );
+
+    let users = options.users;
+    if (users === undefined) {
+        // the stakes are also received by the receipt token transfers and the migrations
+        const [stakeEvents, transferEvents, migrationEvents] = await Promise.all([
+            staking.queryFilter(staking.filters.TokenStaked(), fromBlock),
+            staking.queryFilter(staking.filters.StakeTransferred(), fromBlock),
+            staking.queryFilter(staking.filters.StakeMigrationReceived(), fromBlock),
+        ]);
+        users = [
+            ...new Set([
+                ...stakeEvents.map((event) => event.args.user),
+                ...transferEvents.map((event) => event.args.to),
+                ...migrationEvents.map((event) => event.args.user),
+            ]),
+        ];
+    }
+
+    const positions = new Map<number, ModelPosition>();
+    const lockEvents = await staking.queryFilter(staking.filters.TokenLocked(), fromBlock);
+    for (const event of lockEvents) {
+        const positionId = event.args.positionId.toNumber();
+        const position = await staking.positions(positionId);
+        if (position.amount.eq(0)) {
+            continue;
+        }
+        positions.set(positionId, {
+            user: position.user,
+            tierId: position.tierId,
+            unlockTimestamp: position.unlockTimestamp.toNumber(),
+            amount: position.amount,
+            claimedAmount: position.claimedAmount,
+        });
+        if (options.users === undefined && !users.includes(position.user)) {
+            users.push(position.user);
+        }
+    }
+
+    const lockTiers: ModelLockTier[] = [];
+    const lockTiersCount = (await staking.lockTiersCount()).toNumber();
+    for (let tierId = 0; tierId < lockTiersCount; ++tierId) {
+        const [lockTier, tierRate] = await Promise.all([
+            staking.lockTiers(tierId),
+            staking.tierRates(tierId),
+        ]);
+        lockTiers.push({
+            lockPeriod: lockTier.lockPeriod,
+            aprMultiplier: BigNumber.from(lockTier.aprMultiplier),
+            ratePerStaking: tierRate.ratePerStaking,
+            lastRateUpdateTimestamp: tierRate.lastUpdateTimestamp.toNumber(),
+            totalLocked: tierRate.totalLocked,
+            lastFlexibleRate: tierRate.lastFlexibleRate,
+        });
+    }
+
+    const campaigns: ModelCampaign[] = [];
+    for (let campaignId = 0; campaignId < campaignsCount.toNumber(); ++campaignId) {
+        const campaign = await staking.campaigns(campaignId);
+        campaigns.push({
+            startTimestamp: campaign.startTimestamp.toNumber(),
+            endTimestamp: campaign.endTimestamp.toNumber(),
+            budget: campaign.budget,
+        });
+    }
+
+    const stakeStates = new Map<string, ModelStakeState>();
+    const autoCompoundingUsers = new Set<string>();
+    for (const user of users) {
+        const { stakeAmount, claimedAmount, contractDeptToUser } = await staking.stakeStates(user);
+        stakeStates.set(user, { stakeAmount, claimedAmount, contractDeptToUser });
+        if (await staking.isAutoCompounding(user)) {
+            autoCompoundingUsers.add(user);
+        }
+    }
+
+    return new StakingModel({
+        apr,
+        aprRamp: {
+            fromApr: aprRamp.fromApr,
+            startTimestamp: aprRamp.startTimestamp.toNumber(),
+            endTimestamp: aprRamp.endTimestamp.toNumber(),
+        },
+        rampDuration: aprGuardrails.rampDuration.toNumber(),
+        totalStaked,
+        lastRateUpdateTimestamp: lastRateUpdateTimestamp.toNumber(),
+        ratePerStaking:
+            rateEvents.length > 0 ? rateEvents[rateEvents.length - 1].args.newRate : RATE_PRECISION,
+        balance,
+        stakeStates,
+        autoCompoundingUsers,
+        lockTiers,
+        positions,
+        isCampaignMode,
+        totalRewardWeight,
+        campaigns,
+        solvencyRunway: solvencyRunway.toNumber(),
+        solvencyBuffer,
+        totalUnpaidRewards,
+    });
+}
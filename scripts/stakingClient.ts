@@ -0,0 +1,414 @@
+import { TypedDataSigner } from "@ethersproject/abstract-signer";
+import { BigNumber, BigNumberish, ContractReceipt, Signer, providers, utils } from "ethers";
+
+import { AtomicStaking, AtomicStaking__factory, IERC20, IERC20__factory } from "../typechain-types";
+import { signPermit } from "./stakingSignatures";
+
+/** Names of the custom errors of the `AtomicStaking` contract. */
+export const STAKING_ERROR_NAMES = [
+    "AddressZero",
+    "LessThanMinAmount",
+    "TheSameValue",
+    "TooBigValue",
+    "ZeroValue",
+    "NoSuchWithdrawId",
+    "NotAllowedUser",
+    "WithdrawIdNotFinalizableYet",
+    "NoSuchLockTier",
+    "LockTierIsInactive",
+    "NoSuchPosition",
+    "PositionIsLocked",
+    "CampaignStartTooEarly",
+    "NoSuchCampaign",
+    "CampaignModeIsDisabled",
+    "InvalidExtraRewardToken",
+    "NoSuchExtraRewardToken",
+    "OperationIsPaused",
+    "EmergencyShutdownIsDisabled",
+    "InvalidReceiptToken",
+    "SignatureExpired",
+    "InvalidSignature",
+    "ChangeIsTimelocked",
+    "NoPendingChange",
+    "ChangeNotExecutableYet",
+    "InvalidChangeParams",
+    "DefaultAdminRoleIsProtected",
+    "AdminTransferNotAcceptableYet",
+    "AprAboveMax",
+    "AprDeltaTooBig",
+    "AprChangeTooEarly",
+    "NotMigrationTarget",
+    "NotMigrationSource",
+] as const;
+
+export type StakingErrorName = (typeof STAKING_ERROR_NAMES)[number];
+
+/** An error decoded from one of the custom errors of the `AtomicStaking` contract. */
+export class StakingContractError extends Error {
+    constructor(
+        readonly errorName: StakingErrorName,
+        readonly args: utils.Result,
+        readonly cause: unknown
+    ) {
+        super(`AtomicStaking reverted with ${errorName}(${args.map(String).join(", ")})`);
+        this.name = "StakingContractError";
+    }
+}
+
+export interface PendingWithdrawal {
+    withdrawId: BigNumber;
+    amount: BigNumber;
+    requestTimestamp: number;
+    unlockTimestamp: number;
+    isReady: boolean;
+}
+
+export interface StakeLockedResult {
+    positionId: BigNumber;
+    receipt: ContractReceipt;
+}
+
+export interface RequestWithdrawResult {
+    withdrawId: BigNumber;
+    receipt: ContractReceipt;
+}
+
+const stakingInterface = AtomicStaking__factory.createInterface();
+
+/** Returns `true` if `error` is a `StakingContractError` with the name `errorName`. */
+export function isStakingError(
+    error: unknown,
+    errorName?: StakingErrorName
+): error is StakingContractError {
+    return (
+        error instanceof StakingContractError &&
+        (errorName === undefined || error.errorName === errorName)
+    );
+}
+
+/**
+ * Tries to decode a custom error of the `AtomicStaking` contract from an error thrown by ethers.
+ * Returns `undefined` if the error doesn't contain a known revert reason.
+ */
+export function decodeStakingError(error: unknown): StakingContractError | undefined {
+    const revertData = findRevertData(error);
+    if (revertData === undefined) {
+        return undefined;
+    }
+
+    try {
+        const description = stakingInterface.parseError(revertData);
+        return new StakingContractError(
+            description.name as StakingErrorName,
+            description.args,
+            error
+        );
+    } catch {
+        return undefined;
+    }
+}
+
+function findRevertData(error: unknown, depth = 0): string | undefined {
+    if (depth > 5 || typeof error !== "object" || error === null) {
+        return undefined;
+    }
+
+    const { data } = error as { data?: unknown };
+    if (typeof data === "string" && utils.isHexString(data) && data.length >= 10) {
+        return data;
+    }
+
+    return (
+        findRevertData(data, depth + 1) ??
+        findRevertData((error as { error?: unknown }).error, depth + 1)
+    );
+}
+
+function parseWithdrawId(receipt: ContractReceipt): BigNumber {
+    const event = receipt.events?.find((event) => event.event === "WithdrawRequested");
+    if (event?.args === undefined) {
+        throw new Error("No WithdrawRequested event in the transaction receipt");
+    }
+    return event.args.withdrawId as BigNumber;
+}
+
+async function withDecodedErrors<T>(action: () => Promise<T>): Promise<T> {
+    try {
+        return await action();
+    } catch (error) {
+        throw decodeStakingError(error) ?? error;
+    }
+}
+
+/** High-level client over the `AtomicStaking` contract that wraps the common user flows. */
+export class StakingClient {
+    private _token?: IERC20;
+
+    constructor(readonly staking: AtomicStaking) {}
+
+    static connect(address: string, signerOrProvider: Signer | providers.Provider) {
+        return new StakingClient(AtomicStaking__factory.connect(address, signerOrProvider));
+    }
+
+    get provider(): providers.Provider {
+        return this.staking.provider;
+    }
+
+    async token(): Promise<IERC20> {
+        if (this._token === undefined) {
+            const tokenAddress = await this.staking.TOKEN();
+            this._token = IERC20__factory.connect(
+                tokenAddress,
+                this.staking.signer ?? this.staking.provider
+            );
+        }
+        return this._token;
+    }
+
+    /**
+     * Approves the staking contract to spend `amount` tokens (if the current allowance is
+     * not enough) and stakes them.
+     */
+    async stakeWithApproval(amount: BigNumberish): Promise<ContractReceipt> {
+        return withDecodedErrors(async () => {
+            await this.approveIfNeeded(amount);
+
+            return (await this.staking.stake(amount)).wait();
+        });
+    }
+
+    /** Stakes `amount` tokens with an EIP-2612 permit signed by the signer instead of an approval. */
+    async stakeWithPermit(amount: BigNumberish, deadline: BigNumberish): Promise<ContractReceipt> {
+        return withDecodedErrors(async () => {
+            const token = await this.token();
+            const { v, r, s } = await signPermit(
+                this.typedDataSigner(),
+                token.address,
+                this.staking.address,
+                amount,
+                deadline
+            );
+
+            return (await this.staking.stakeWithPermit(amount, deadline, v, r, s)).wait();
+        });
+    }
+
+    /** Approves the staking contract to spend `amount` tokens (if needed) and stakes them for `beneficiary`. */
+    async stakeForWithApproval(
+        beneficiary: string,
+        amount: BigNumberish
+    ): Promise<ContractReceipt> {
+        return withDecodedErrors(async () => {
+            await this.approveIfNeeded(amount);
+
+            return (await this.staking.stakeFor(beneficiary, amount)).wait();
+        });
+    }
+
+    /**
+     * Approves the staking contract to spend `amount` tokens (if needed) and locks them in
+     * the lock tier `tierId`. Returns the id of the created position.
+     */
+    async stakeLockedWithApproval(
+        amount: BigNumberish,
+        tierId: BigNumberish
+    ): Promise<StakeLockedResult> {
+        return withDecodedErrors(async () => {
+            await this.approveIfNeeded(amount);
+
+            const receipt = await (await this.staking.stakeLocked(amount, tierId)).wait();
+
+            const event = receipt.events?.find((event) => event.event === "TokenLocked");
+            if (event?.args === undefined) {
+                throw new Error("No TokenLocked event in the transaction receipt");
+            }
+
+            return { positionId: event.args.positionId as BigNumber, receipt };
+        });
+    }
+
+    async claimPositionRewards(positionId: BigNumberish): Promise<ContractReceipt> {
+        return withDecodedErrors(async () =>
+            (await this.staking.claimPositionRewards(positionId)).wait()
+        );
+    }
+
+    /** Requests a withdrawal of the unlocked position and returns the id of the created request. */
+    async requestPositionWithdraw(positionId: BigNumberish): Promise<RequestWithdrawResult> {
+        return withDecodedErrors(async () => {
+            const receipt = await (await this.staking.requestPositionWithdraw(positionId)).wait();
+
+            return { withdrawId: parseWithdrawId(receipt), receipt };
+        });
+    }
+
+    /** Requests a withdrawal of `amount` tokens and returns the id of the created request. */
+    async requestWithdraw(amount: BigNumberish): Promise<RequestWithdrawResult> {
+        return withDecodedErrors(async () => {
+            const receipt = await (await this.staking.requestWithdraw(amount)).wait();
+
+            return { withdrawId: parseWithdrawId(receipt), receipt };
+        });
+    }
+
+    /** Requests a withdrawal of `user`'s tokens as his operator. Returns the id of the created request. */
+    async requestWithdrawFor(user: string, amount: BigNumberish): Promise<RequestWithdrawResult> {
+        return withDecodedErrors(async () => {
+            const receipt = await (await this.staking.requestWithdrawFor(user, amount)).wait();
+
+            return { withdrawId: parseWithdrawId(receipt), receipt };
+        });
+    }
+
+    async finalizeWithdraw(withdrawId: BigNumberish): Promise<ContractReceipt> {
+        return withDecodedErrors(async () =>
+            (await this.staking.finalizeWithdraw(withdrawId)).wait()
+        );
+    }
+
+    /** Withdraws `amount` tokens without the cooling period paying the early withdraw penalty. */
+    async instantWithdraw(amount: BigNumberish): Promise<ContractReceipt> {
+        return withDecodedErrors(async () => (await this.staking.instantWithdraw(amount)).wait());
+    }
+
+    /** Finalizes the request `withdrawId` before its unlock time paying the early withdraw penalty. */
+    async accelerateWithdraw(withdrawId: BigNumberish): Promise<ContractReceipt> {
+        return withDecodedErrors(async () =>
+            (await this.staking.accelerateWithdraw(withdrawId)).wait()
+        );
+    }
+
+    /** Cancels withdrawal requests of the signer and restakes their amounts. */
+    async cancelWithdrawals(withdrawIds: BigNumberish[]): Promise<ContractReceipt> {
+        return withDecodedErrors(async () =>
+            withdrawIds.length == 1
+                ? (await this.staking.cancelWithdraw(withdrawIds[0])).wait()
+                : (await this.staking.cancelWithdrawals(withdrawIds)).wait()
+        );
+    }
+
+    async claimRewards(): Promise<ContractReceipt> {
+        return withDecodedErrors(async () => (await this.staking.claimRewards()).wait());
+    }
+
+    /** Approves or revokes `operator` that claims and withdraws on behalf of the signer. */
+    async setOperator(operator: string, isApproved: boolean): Promise<ContractReceipt> {
+        return withDecodedErrors(async () =>
+            (await this.staking.setOperator(operator, isApproved)).wait()
+        );
+    }
+
+    /** Adds the rewards of the signer to his stake instead of transferring them. */
+    async compoundRewards(): Promise<ContractReceipt> {
+        return withDecodedErrors(async () => (await this.staking.compoundRewards()).wait());
+    }
+
+    /** Turns on or off the auto-compounding of the signer's rewards. */
+    async setAutoCompounding(isEnabled: boolean): Promise<ContractReceipt> {
+        return withDecodedErrors(async () =>
+            (await this.staking.setAutoCompounding(isEnabled)).wait()
+        );
+    }
+
+    /**
+     * Returns all withdrawal requests of `user` with their unlock timestamps.
+     * A request is ready when the latest block timestamp is past the end of the cooling period.
+     */
+    async pendingWithdrawals(user?: string): Promise<PendingWithdrawal[]> {
+        const account = user ?? (await this.signerAddress());
+
+        const [withdrawIds, latestBlock] = await Promise.all([
+            this.staking.usersWithdrawIds(account),
+            this.provider.getBlock("latest"),
+        ]);
+        const withdrawStates = await Promise.all(
+            withdrawIds.map((withdrawId) => this.staking.withdrawStates(withdrawId))
+        );
+
+        return withdrawIds.map((withdrawId, i) => {
+            const requestTimestamp = withdrawStates[i].withdrawTimestamp.toNumber();
+            const unlockTimestamp = requestTimestamp + withdrawStates[i].coolingPeriod;
+            return {
+                withdrawId,
+                amount: withdrawStates[i].amount,
+                requestTimestamp,
+                unlockTimestamp,
+                isReady: unlockTimestamp <= latestBlock.timestamp,
+            };
+        });
+    }
+
+    /**
+     * Finalizes every withdrawal request of the signer that has passed the cooling period
+     * in one transaction. Returns `undefined` when no request is ready.
+     */
+    async finalizeAllReady(): Promise<ContractReceipt | undefined> {
+        const readyIds = (await this.pendingWithdrawals())
+            .filter((pendingWithdrawal) => pendingWithdrawal.isReady)
+            .map((pendingWithdrawal) => pendingWithdrawal.withdrawId);
+        if (readyIds.length == 0) {
+            return undefined;
+        }
+
+        return withDecodedErrors(async () =>
+            (await this.staking.finalizeWithdrawals(readyIds, false)).wait()
+        );
+    }
+
+    /** Polls the withdrawal request `withdrawId` until its cooling period is over. */
+    async waitUntilFinalizable(
+        withdrawId: BigNumberish,
+        pollIntervalMs = 60_000
+    ): Promise<PendingWithdrawal> {
+        for (;;) {
+            const withdrawState = await this.staking.withdrawStates(withdrawId);
+            if (withdrawState.withdrawTimestamp.eq(0)) {
+                throw new StakingContractError(
+                    "NoSuchWithdrawId",
+                    [BigNumber.from(withdrawId)],
+                    undefined
+                );
+            }
+
+            const requestTimestamp = withdrawState.withdrawTimestamp.toNumber();
+            const unlockTimestamp = requestTimestamp + withdrawState.coolingPeriod;
+            const latestBlock = await this.provider.getBlock("latest");
+            if (unlockTimestamp <= latestBlock.timestamp) {
+                return {
+                    withdrawId: BigNumber.from(withdrawId),
+                    amount: withdrawState.amount,
+                    requestTimestamp,
+                    unlockTimestamp,
+                    isReady: true,
+                };
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        }
+    }
+
+    private async signerAddress(): Promise<string> {
+        if (!this.staking.signer) {
+            throw new Error("StakingClient needs a signer for this operation");
+        }
+        return this.staking.signer.getAddress();
+    }
+
+    private typedDataSigner(): Signer & TypedDataSigner {
+        const signer = this.staking.signer as (Signer & Partial<TypedDataSigner>) | undefined;
+        if (signer?._signTypedData === undefined) {
+            throw new Error("StakingClient needs a signer of typed data for this operation");
+        }
+        return signer as Signer & TypedDataSigner;
+    }
+
+    private async approveIfNeeded(amount: BigNumberish) {
+        const token = await this.token();
+        const owner = await this.signerAddress();
+
+        const allowance = await token.allowance(owner, this.staking.address);
+        if (allowance.lt(amount)) {
+            await (await token.approve(this.staking.address, amount)).wait();
+        }
+    }
+}
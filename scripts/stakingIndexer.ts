@@ -0,0 +1,764 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { BigNumber, providers, utils } from "ethers";
+
+import { AtomicStaking } from "../typechain-types";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS user_states (
+    user TEXT PRIMARY KEY,
+    stake_amount TEXT NOT NULL,
+    contract_dept_to_user TEXT NOT NULL,
+    claimed_rewards TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS withdrawals (
+    withdraw_id INTEGER PRIMARY KEY,
+    user TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    request_block INTEGER NOT NULL,
+    request_timestamp INTEGER NOT NULL,
+    unlock_timestamp INTEGER NOT NULL,
+    finalized_block INTEGER
+);
+CREATE TABLE IF NOT EXISTS positions (
+    position_id INTEGER PRIMARY KEY,
+    user TEXT NOT NULL,
+    tier_id INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    lock_block INTEGER NOT NULL,
+    unlock_timestamp INTEGER NOT NULL,
+    withdraw_id INTEGER
+);
+CREATE TABLE IF NOT EXISTS lock_tiers (
+    tier_id INTEGER PRIMARY KEY,
+    lock_period INTEGER NOT NULL,
+    apr_multiplier TEXT NOT NULL,
+    is_active INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS rate_history (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    rate TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS apr_history (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    old_value TEXT NOT NULL,
+    new_value TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+`;
+
+const DERIVED_TABLES = [
+    "user_states",
+    "withdrawals",
+    "positions",
+    "lock_tiers",
+    "rate_history",
+    "apr_history",
+];
+
+export interface IndexerOptions {
+    /** The deployment block of the staking contract. */
+    fromBlock: number;
+    /** Path of the SQLite database file. The database is kept in memory if it is not set. */
+    dbPath?: string;
+    /** Amount of blocks requested in one `eth_getLogs` call. */
+    batchSize?: number;
+    /** Amount of the latest blocks that are not indexed yet. */
+    confirmations?: number;
+}
+
+export interface IndexedWithdrawal {
+    withdrawId: number;
+    user: string;
+    amount: BigNumber;
+    requestBlock: number;
+    requestTimestamp: number;
+    unlockTimestamp: number;
+}
+
+export interface IndexedPosition {
+    positionId: number;
+    user: string;
+    tierId: number;
+    amount: BigNumber;
+    lockBlock: number;
+    unlockTimestamp: number;
+}
+
+export interface IndexedLockTier {
+    tierId: number;
+    lockPeriod: number;
+    aprMultiplier: BigNumber;
+    isActive: boolean;
+}
+
+export interface IndexedUserState {
+    user: string;
+    stakeAmount: BigNumber;
+    contractDeptToUser: BigNumber;
+    claimedRewards: BigNumber;
+}
+
+export interface RateHistoryEntry {
+    blockNumber: number;
+    timestamp: number;
+    rate: BigNumber;
+}
+
+export interface AprHistoryEntry {
+    blockNumber: number;
+    timestamp: number;
+    oldValue: BigNumber;
+    newValue: BigNumber;
+}
+
+export interface ConsistencyReport {
+    blockNumber: number;
+    isConsistent: boolean;
+    mismatches: string[];
+}
+
+interface StoredEvent {
+    blockNumber: number;
+    logIndex: number;
+    txHash: string;
+    timestamp: number;
+    name: string;
+    args: Record<string, string>;
+}
+
+/**
+ * Rebuilds the state of the `AtomicStaking` contract from its events into a SQLite database.
+ *
+ * The raw events are stored in the `events` table and the derived state is applied on top of them.
+ * The hashes of the indexed blocks are kept to detect chain reorganizations: on a reorg everything
+ * after the fork point is removed and the derived state is replayed from the remaining events.
+ */
+export class StakingIndexer {
+    private constructor(
+        readonly staking: AtomicStaking,
+        private readonly db: Database,
+        private readonly options: Required<Omit<IndexerOptions, "dbPath">> &
+            Pick<IndexerOptions, "dbPath">
+    ) {}
+
+    static async open(staking: AtomicStaking, options: IndexerOptions): Promise<StakingIndexer> {
+        const SQL = await initSqlJs();
+        const db =
+            options.dbPath !== undefined && fs.existsSync(options.dbPath)
+                ? new SQL.Database(fs.readFileSync(options.dbPath))
+                : new SQL.Database();
+        db.exec(SCHEMA);
+
+        const indexer = new StakingIndexer(staking, db, {
+            batchSize: 2000,
+            confirmations: 0,
+            ...options,
+        });
+
+        const indexedAddress = indexer.getMeta("staking");
+        if (indexedAddress === undefined) {
+            indexer.setMeta("staking", staking.address);
+        } else if (indexedAddress != staking.address) {
+            db.close();
+            throw new Error(
+                `Database ${options.dbPath} belongs to ${indexedAddress}, not to ${staking.address}`
+            );
+        }
+
+        return indexer;
+    }
+
+    get provider(): providers.Provider {
+        return this.staking.provider;
+    }
+
+    /** Indexes all new blocks up to `toBlock` (or the latest confirmed block). */
+    async sync(toBlock?: number): Promise<number | undefined> {
+        await this.handleReorg();
+
+        // `getBlockNumber` of ethers never goes backwards, so it can't be used after a reorg
+        const headBlock =
+            toBlock ?? (await this.provider.getBlock("latest")).number - this.options.confirmations;
+        const lastIndexedBlock = this.lastIndexedBlock();
+        const startBlock =
+            lastIndexedBlock !== undefined ? lastIndexedBlock + 1 : this.options.fromBlock;
+
+        for (let from = startBlock; from <= headBlock; from += this.options.batchSize) {
+            const to = Math.min(from + this.options.batchSize - 1, headBlock);
+            await this.indexRange(from, to);
+        }
+
+        return this.lastIndexedBlock();
+    }
+
+    lastIndexedBlock(): number | undefined {
+        const [row] = this.query("SELECT MAX(number) AS number FROM blocks");
+        return row.number === null ? undefined : Number(row.number);
+    }
+
+    users(): string[] {
+        return this.query("SELECT user FROM user_states ORDER BY user").map((row) =>
+            String(row.user)
+        );
+    }
+
+    userState(user: string): IndexedUserState {
+        const [row] = this.query("SELECT * FROM user_states WHERE user = ?", [user]);
+        return {
+            user,
+            stakeAmount: BigNumber.from(row?.stake_amount ?? 0),
+            contractDeptToUser: BigNumber.from(row?.contract_dept_to_user ?? 0),
+            claimedRewards: BigNumber.from(row?.claimed_rewards ?? 0),
+        };
+    }
+
+    /** Withdrawal requests of `user` (or all users) that are not finalized yet. */
+    pendingWithdrawals(user?: string): IndexedWithdrawal[] {
+        const rows =
+            user === undefined
+                ? this.query(
+                      "SELECT * FROM withdrawals WHERE finalized_block IS NULL ORDER BY withdraw_id"
+                  )
+                : this.query(
+                      "SELECT * FROM withdrawals WHERE finalized_block IS NULL AND user = ? " +
+                          "ORDER BY withdraw_id",
+                      [user]
+                  );
+        return rows.map((row) => ({
+            withdrawId: Number(row.withdraw_id),
+            user: String(row.user),
+            amount: BigNumber.from(row.amount),
+            requestBlock: Number(row.request_block),
+            requestTimestamp: Number(row.request_timestamp),
+            unlockTimestamp: Number(row.unlock_timestamp),
+        }));
+    }
+
+    /** Locked positions of `user` (or all users) that are not withdrawn yet. */
+    positions(user?: string): IndexedPosition[] {
+        const rows =
+            user === undefined
+                ? this.query(
+                      "SELECT * FROM positions WHERE withdraw_id IS NULL ORDER BY position_id"
+                  )
+                : this.query(
+                      "SELECT * FROM positions WHERE withdraw_id IS NULL AND user = ? " +
+                          "ORDER BY position_id",
+                      [user]
+                  );
+        return rows.map((row) => ({
+            positionId: Number(row.position_id),
+            user: String(row.user),
+            tierId: Number(row.tier_id),
+            amount: BigNumber.from(row.amount),
+            lockBlock: Number(row.lock_block),
+            unlockTimestamp: Number(row.unlock_timestamp),
+        }));
+    }
+
+    lockTiers(): IndexedLockTier[] {
+        return this.query("SELECT * FROM lock_tiers ORDER BY tier_id").map((row) => ({
+            tierId: Number(row.tier_id),
+            lockPeriod: Number(row.lock_period),
+            aprMultiplier: BigNumber.from(row.apr_multiplier),
+            isActive: Boolean(row.is_active),
+        }));
+    }
+
+    /**
+     * Mirrors `totalStaked` of the contract: stakes, locked positions and not finalized
+     * withdrawal requests.
+     */
+    totalStaked(): BigNumber {
+        const staked = this.users().reduce(
+            (sum, user) => sum.add(this.userState(user).stakeAmount),
+            BigNumber.from(0)
+        );
+        const locked = this.positions().reduce((sum, position) => sum.add(position.amount), staked);
+        return this.pendingWithdrawals().reduce(
+            (sum, withdrawal) => sum.add(withdrawal.amount),
+            locked
+        );
+    }
+
+    rateHistory(): RateHistoryEntry[] {
+        return this.query("SELECT * FROM rate_history ORDER BY block_number, log_index").map(
+            (row) => ({
+                blockNumber: Number(row.block_number),
+                timestamp: Number(row.timestamp),
+                rate: BigNumber.from(row.rate),
+            })
+        );
+    }
+
+    aprHistory(): AprHistoryEntry[] {
+        return this.query("SELECT * FROM apr_history ORDER BY block_number, log_index").map(
+            (row) => ({
+                blockNumber: Number(row.block_number),
+                timestamp: Number(row.timestamp),
+                oldValue: BigNumber.from(row.old_value),
+                newValue: BigNumber.from(row.new_value),
+            })
+        );
+    }
+
+    /** Compares the reconstructed state with the contract's state at the last indexed block. */
+    async checkConsistency(): Promise<ConsistencyReport> {
+        const blockNumber = this.lastIndexedBlock();
+        if (blockNumber === undefined) {
+            throw new Error("Nothing is indexed yet");
+        }
+        const overrides = { blockTag: blockNumber };
+
+        const mismatches: string[] = [];
+        const compare = (what: string, indexed: unknown, onChain: unknown) => {
+            if (String(indexed) != String(onChain)) {
+                mismatches.push(`${what}: indexed ${indexed}, on-chain ${onChain}`);
+            }
+        };
+
+        compare("totalStaked", this.totalStaked(), await this.staking.totalStaked(overrides));
+
+        for (const user of this.users()) {
+            const indexed = this.userState(user);
+            const onChain = await this.staking.stakeStates(user, overrides);
+            compare(`stakeAmount of ${user}`, indexed.stakeAmount, onChain.stakeAmount);
+            compare(
+                `contractDeptToUser of ${user}`,
+                indexed.contractDeptToUser,
+                onChain.contractDeptToUser
+            );
+
+            const indexedIds = this.pendingWithdrawals(user).map((withdrawal) =>
+                withdrawal.withdrawId.toString()
+            );
+            const onChainIds = (await this.staking.usersWithdrawIds(user, overrides)).map((id) =>
+                id.toString()
+            );
+            compare(`withdraw ids of ${user}`, [...indexedIds].sort(), [...onChainIds].sort());
+
+            const indexedPositionIds = this.positions(user).map((position) =>
+                position.positionId.toString()
+            );
+            const onChainPositionIds = (await this.staking.usersPositionIds(user, overrides)).map(
+                (id) => id.toString()
+            );
+            compare(
+                `position ids of ${user}`,
+                [...indexedPositionIds].sort(),
+                [...onChainPositionIds].sort()
+            );
+        }
+
+        for (const position of this.positions()) {
+            const onChain = await this.staking.positions(position.positionId, overrides);
+            compare(`amount of position ${position.positionId}`, position.amount, onChain.amount);
+            compare(
+                `unlock timestamp of position ${position.positionId}`,
+                position.unlockTimestamp,
+                onChain.unlockTimestamp
+            );
+        }
+
+        for (const withdrawal of this.pendingWithdrawals()) {
+            const onChain = await this.staking.withdrawStates(withdrawal.withdrawId, overrides);
+            compare(`user of withdraw id ${withdrawal.withdrawId}`, withdrawal.user, onChain.user);
+            compare(
+                `amount of withdraw id ${withdrawal.withdrawId}`,
+                withdrawal.amount,
+                onChain.amount
+            );
+            compare(
+                `timestamp of withdraw id ${withdrawal.withdrawId}`,
+                withdrawal.requestTimestamp,
+                onChain.withdrawTimestamp
+            );
+            compare(
+                `unlock timestamp of withdraw id ${withdrawal.withdrawId}`,
+                withdrawal.unlockTimestamp,
+                onChain.withdrawTimestamp.add(onChain.coolingPeriod)
+            );
+        }
+
+        return { blockNumber, isConsistent: mismatches.length == 0, mismatches };
+    }
+
+    close() {
+        this.db.close();
+    }
+
+    /* PRIVATE FUNCTIONS */
+
+    private async indexRange(from: number, to: number) {
+        const logs = await this.provider.getLogs({
+            address: this.staking.address,
+            fromBlock: from,
+            toBlock: to,
+        });
+
+        const blockNumbers = [...new Set([...logs.map((log) => log.blockNumber), to])];
+        const blocks = new Map<number, providers.Block>();
+        for (const blockNumber of blockNumbers) {
+            blocks.set(blockNumber, await this.provider.getBlock(blockNumber));
+        }
+
+        const events: StoredEvent[] = [];
+        for (const log of logs) {
+            const block = blocks.get(log.blockNumber)!;
+            if (block.hash != log.blockHash) {
+                throw new Error(`Block ${log.blockNumber} was reorganized while indexing`);
+            }
+
+            let description: utils.LogDescription;
+            try {
+                description = this.staking.interface.parseLog(log);
+            } catch {
+                continue;
+            }
+
+            const args: Record<string, string> = {};
+            for (const input of description.eventFragment.inputs) {
+                args[input.name] = description.args[input.name].toString();
+            }
+            if (description.name == "WithdrawRequested") {
+                // the request keeps the cooling period that was in effect at its creation
+                const withdrawState = await this.staking.withdrawStates(args.withdrawId, {
+                    blockTag: log.blockNumber,
+                });
+                args.coolingPeriod = withdrawState.coolingPeriod.toString();
+            }
+
+            events.push({
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+                txHash: log.transactionHash,
+                timestamp: block.timestamp,
+                name: description.name,
+                args,
+            });
+        }
+
+        this.db.run("BEGIN");
+        try {
+            for (const event of events) {
+                this.db.run(
+                    "INSERT INTO events (block_number, log_index, tx_hash, name, args) " +
+                        "VALUES (?, ?, ?, ?, ?)",
+                    [
+                        event.blockNumber,
+                        event.logIndex,
+                        event.txHash,
+                        event.name,
+                        JSON.stringify(event.args),
+                    ]
+                );
+                this.applyEvent(event);
+            }
+            for (const block of blocks.values()) {
+                this.db.run(
+                    "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)",
+                    [block.number, block.hash, block.timestamp]
+                );
+            }
+            this.db.run("COMMIT");
+        } catch (error) {
+            this.db.run("ROLLBACK");
+            throw error;
+        }
+
+        this.persist();
+    }
+
+    private async handleReorg() {
+        const lastIndexedBlock = this.lastIndexedBlock();
+        if (lastIndexedBlock === undefined) {
+            return;
+        }
+
+        let forkBlock: number | undefined;
+        const indexedBlocks = this.query("SELECT number, hash FROM blocks ORDER BY number DESC");
+        for (const row of indexedBlocks) {
+            const block = await this.provider.getBlock(Number(row.number));
+            if (block !== null && block.hash == row.hash) {
+                forkBlock = Number(row.number);
+                break;
+            }
+        }
+
+        if (forkBlock === lastIndexedBlock) {
+            return;
+        }
+
+        this.rollback(forkBlock ?? this.options.fromBlock - 1);
+    }
+
+    private rollback(blockNumber: number) {
+        this.db.run("BEGIN");
+        this.db.run("DELETE FROM events WHERE block_number > ?", [blockNumber]);
+        this.db.run("DELETE FROM blocks WHERE number > ?", [blockNumber]);
+        for (const table of DERIVED_TABLES) {
+            this.db.run(`DELETE FROM ${table}`);
+        }
+
+        const events = this.query(
+            "SELECT events.*, blocks.timestamp FROM events " +
+                "JOIN blocks ON blocks.number = events.block_number " +
+                "ORDER BY block_number, log_index"
+        );
+        for (const row of events) {
+            this.applyEvent({
+                blockNumber: Number(row.block_number),
+                logIndex: Number(row.log_index),
+                txHash: String(row.tx_hash),
+                timestamp: Number(row.timestamp),
+                name: String(row.name),
+                args: JSON.parse(String(row.args)),
+            });
+        }
+        this.db.run("COMMIT");
+
+        this.persist();
+    }
+
+    private applyEvent(event: StoredEvent) {
+        const { args } = event;
+        switch (event.name) {
+            case "TokenStaked":
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.add(args.amount);
+                });
+                break;
+            case "StakeTransferred":
+                // a transfer of the receipt token moves the flexible stake
+                this.updateUserState(args.from, (state) => {
+                    state.stakeAmount = state.stakeAmount.sub(args.amount);
+                });
+                this.updateUserState(args.to, (state) => {
+                    state.stakeAmount = state.stakeAmount.add(args.amount);
+                });
+                break;
+            case "WithdrawRequested":
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.sub(args.amount);
+                });
+                this.db.run(
+                    "INSERT INTO withdrawals (withdraw_id, user, amount, request_block, " +
+                        "request_timestamp, unlock_timestamp) VALUES (?, ?, ?, ?, ?, ?)",
+                    [
+                        args.withdrawId,
+                        args.user,
+                        args.amount,
+                        event.blockNumber,
+                        event.timestamp,
+                        event.timestamp + Number(args.coolingPeriod),
+                    ]
+                );
+                break;
+            case "InstantWithdrawn":
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.sub(args.amount);
+                });
+                break;
+            case "WithdrawIdFinalized":
+            case "WithdrawIdAccelerated":
+                this.db.run("UPDATE withdrawals SET finalized_block = ? WHERE withdraw_id = ?", [
+                    event.blockNumber,
+                    args.withdrawId,
+                ]);
+                break;
+            case "WithdrawIdCanceled":
+                // the contract restakes the amount and deletes the request
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.add(args.amount);
+                });
+                this.db.run("DELETE FROM withdrawals WHERE withdraw_id = ?", [args.withdrawId]);
+                break;
+            case "TokenLocked":
+                // registers the user
+                this.updateUserState(args.user, () => undefined);
+                this.db.run(
+                    "INSERT INTO positions (position_id, user, tier_id, amount, lock_block, " +
+                        "unlock_timestamp) VALUES (?, ?, ?, ?, ?, ?)",
+                    [
+                        args.positionId,
+                        args.user,
+                        args.tierId,
+                        args.amount,
+                        event.blockNumber,
+                        args.unlockTimestamp,
+                    ]
+                );
+                break;
+            case "PositionWithdrawRequested": {
+                // the preceding `WithdrawRequested` event is taken from the position, not the stake
+                const [position] = this.query(
+                    "SELECT amount FROM positions WHERE position_id = ?",
+                    [args.positionId]
+                );
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.add(String(position.amount));
+                });
+                this.db.run("UPDATE positions SET withdraw_id = ? WHERE position_id = ?", [
+                    args.withdrawId,
+                    args.positionId,
+                ]);
+                break;
+            }
+            case "EmergencyWithdrawn":
+                // the contract deletes the stake state, the positions and the requests of the user
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = BigNumber.from(0);
+                    state.contractDeptToUser = BigNumber.from(0);
+                });
+                this.db.run("DELETE FROM positions WHERE user = ? AND withdraw_id IS NULL", [
+                    args.user,
+                ]);
+                this.db.run("DELETE FROM withdrawals WHERE user = ? AND finalized_block IS NULL", [
+                    args.user,
+                ]);
+                break;
+            case "StakeMigrated":
+                // the rewards are compounded before, so the whole flexible stake leaves
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.sub(args.stakeAmount);
+                });
+                if (!BigNumber.from(args.withdrawnAmount).isZero()) {
+                    this.db.run(
+                        "DELETE FROM withdrawals WHERE user = ? AND finalized_block IS NULL",
+                        [args.user]
+                    );
+                }
+                break;
+            case "StakeMigrationReceived":
+                // the predecessor's stake is credited without the `TokenStaked` event
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.add(args.amount);
+                });
+                break;
+            case "LockTierAdded":
+                this.db.run(
+                    "INSERT INTO lock_tiers (tier_id, lock_period, apr_multiplier, is_active) " +
+                        "VALUES (?, ?, ?, 1)",
+                    [args.tierId, args.lockPeriod, args.aprMultiplier]
+                );
+                break;
+            case "LockTierMultiplierChanged":
+                this.db.run("UPDATE lock_tiers SET apr_multiplier = ? WHERE tier_id = ?", [
+                    args.newValue,
+                    args.tierId,
+                ]);
+                break;
+            case "LockTierActiveChanged":
+                this.db.run("UPDATE lock_tiers SET is_active = ? WHERE tier_id = ?", [
+                    args.isActive == "true" ? 1 : 0,
+                    args.tierId,
+                ]);
+                break;
+            case "RewardsClaimed":
+                this.updateUserState(args.user, (state) => {
+                    state.claimedRewards = state.claimedRewards.add(args.amount);
+                });
+                break;
+            case "RewardsCompounded":
+                // compounded rewards are paid to the user's stake instead of his wallet
+                this.updateUserState(args.user, (state) => {
+                    state.stakeAmount = state.stakeAmount.add(args.amount);
+                    state.claimedRewards = state.claimedRewards.add(args.amount);
+                });
+                break;
+            case "DeptToUserChanged":
+                this.updateUserState(args.user, (state) => {
+                    state.contractDeptToUser = BigNumber.from(args.newAmount);
+                });
+                break;
+            case "RateUpdated":
+                this.db.run(
+                    "INSERT INTO rate_history (block_number, log_index, timestamp, rate) " +
+                        "VALUES (?, ?, ?, ?)",
+                    [event.blockNumber, event.logIndex, event.timestamp, args.newRate]
+                );
+                break;
+            case "AprChanged":
+                this.db.run(
+                    "INSERT INTO apr_history " +
+                        "(block_number, log_index, timestamp, old_value, new_value) " +
+                        "VALUES (?, ?, ?, ?, ?)",
+                    [
+                        event.blockNumber,
+                        event.logIndex,
+                        event.timestamp,
+                        args.oldValue,
+                        args.newValue,
+                    ]
+                );
+                break;
+        }
+    }
+
+    private updateUserState(user: string, update: (state: IndexedUserState) => void) {
+        const state = this.userState(user);
+        update(state);
+        this.db.run(
+            "INSERT OR REPLACE INTO user_states " +
+                "(user, stake_amount, contract_dept_to_user, claimed_rewards) VALUES (?, ?, ?, ?)",
+            [
+                user,
+                state.stakeAmount.toString(),
+                state.contractDeptToUser.toString(),
+                state.claimedRewards.toString(),
+            ]
+        );
+    }
+
+    private getMeta(key: string): string | undefined {
+        const [row] = this.query("SELECT value FROM meta WHERE key = ?", [key]);
+        return row === undefined ? undefined : String(row.value);
+    }
+
+    private setMeta(key: string, value: string) {
+        this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)", [key, value]);
+        this.persist();
+    }
+
+    private query(sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+        const statement = this.db.prepare(sql, params);
+        const rows: Record<string, SqlValue>[] = [];
+        while (statement.step()) {
+            rows.push(statement.getAsObject());
+        }
+        statement.free();
+        return rows;
+    }
+
+    private persist() {
+        if (this.options.dbPath === undefined) {
+            return;
+        }
+        fs.mkdirSync(path.dirname(this.options.dbPath), { recursive: true });
+        fs.writeFileSync(this.options.dbPath, Buffer.from(this.db.export()));
+    }
+}
@@ -0,0 +1,156 @@
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from "@ethersproject/abstract-signer";
+import { BigNumberish, Signature, Signer, utils } from "ethers";
+
+import { AtomicStaking, IERC20Metadata__factory, IERC20Permit__factory } from "../typechain-types";
+
+type TypedSigner = Signer & TypedDataSigner;
+
+export type StakingActionType = "ClaimRewards" | "RequestWithdraw" | "FinalizeWithdraw";
+
+/** EIP-712 types of the actions that a relayer can submit on behalf of a user. */
+export const STAKING_ACTION_TYPES: Record<StakingActionType, TypedDataField[]> = {
+    ClaimRewards: [
+        { name: "user", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+    RequestWithdraw: [
+        { name: "user", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+    FinalizeWithdraw: [
+        { name: "user", type: "address" },
+        { name: "withdrawId", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+const DELEGATION_TYPES: Record<string, TypedDataField[]> = {
+    Delegation: [
+        { name: "delegatee", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+    ],
+};
+
+/** Returns the EIP-712 domain of the signed actions of the `staking` contract. */
+export async function stakingDomain(staking: AtomicStaking): Promise<TypedDataDomain> {
+    const { chainId } = await staking.provider.getNetwork();
+    return { name: "AtomicStaking", version: "1", chainId, verifyingContract: staking.address };
+}
+
+/**
+ * Signs an action of the `signer` for the `staking` contract. `nonce` defaults to the current
+ * on-chain nonce of the signer, so only one signature per nonce can be used.
+ */
+async function signAction(
+    signer: TypedSigner,
+    staking: AtomicStaking,
+    primaryType: StakingActionType,
+    message: Record<string, BigNumberish>,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+): Promise<string> {
+    const user = await signer.getAddress();
+    return signer._signTypedData(
+        await stakingDomain(staking),
+        { [primaryType]: STAKING_ACTION_TYPES[primaryType] },
+        { user, ...message, nonce: nonce ?? (await staking.nonces(user)), deadline }
+    );
+}
+
+/** Signs `claimRewardsBySig` of the `signer`. */
+export async function signClaimRewards(
+    signer: TypedSigner,
+    staking: AtomicStaking,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+): Promise<string> {
+    return signAction(signer, staking, "ClaimRewards", {}, deadline, nonce);
+}
+
+/** Signs `requestWithdrawBySig` of the `signer` for `amount` tokens. */
+export async function signRequestWithdraw(
+    signer: TypedSigner,
+    staking: AtomicStaking,
+    amount: BigNumberish,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+): Promise<string> {
+    return signAction(signer, staking, "RequestWithdraw", { amount }, deadline, nonce);
+}
+
+/** Signs `finalizeWithdrawBySig` of the `signer` for the request `withdrawId`. */
+export async function signFinalizeWithdraw(
+    signer: TypedSigner,
+    staking: AtomicStaking,
+    withdrawId: BigNumberish,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+): Promise<string> {
+    return signAction(signer, staking, "FinalizeWithdraw", { withdrawId }, deadline, nonce);
+}
+
+/**
+ * Signs an EIP-2612 permit of the `signer` for the `spender`.
+ * The token is expected to use its name and the version "1" in its EIP-712 domain.
+ */
+export async function signPermit(
+    signer: TypedSigner,
+    tokenAddress: string,
+    spender: string,
+    value: BigNumberish,
+    deadline: BigNumberish
+): Promise<Signature> {
+    const owner = await signer.getAddress();
+    const [name, nonce, { chainId }] = await Promise.all([
+        IERC20Metadata__factory.connect(tokenAddress, signer).name(),
+        IERC20Permit__factory.connect(tokenAddress, signer).nonces(owner),
+        signer.provider!.getNetwork(),
+    ]);
+
+    const signature = await signer._signTypedData(
+        { name, version: "1", chainId, verifyingContract: tokenAddress },
+        PERMIT_TYPES,
+        { owner, spender, value, nonce, deadline }
+    );
+    return utils.splitSignature(signature);
+}
+
+/**
+ * Signs a delegation of the voting power of the `signer` to the `delegatee` for `delegateBySig`
+ * of the receipt token. The receipt token uses its name and the version "1" in its EIP-712 domain.
+ */
+export async function signDelegation(
+    signer: TypedSigner,
+    receiptTokenAddress: string,
+    delegatee: string,
+    expiry: BigNumberish
+): Promise<Signature> {
+    const owner = await signer.getAddress();
+    const [name, nonce, { chainId }] = await Promise.all([
+        IERC20Metadata__factory.connect(receiptTokenAddress, signer).name(),
+        IERC20Permit__factory.connect(receiptTokenAddress, signer).nonces(owner),
+        signer.provider!.getNetwork(),
+    ]);
+
+    const signature = await signer._signTypedData(
+        { name, version: "1", chainId, verifyingContract: receiptTokenAddress },
+        DELEGATION_TYPES,
+        { delegatee, nonce, expiry }
+    );
+    return utils.splitSignature(signature);
+}
@@ -0,0 +1,132 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export interface StorageVariable {
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+}
+
+export interface StorageType {
+    label: string;
+    numberOfBytes: string;
+    encoding: string;
+    members?: StorageVariable[];
+    key?: string;
+    value?: string;
+    base?: string;
+}
+
+/** Storage layout of the solc output without the AST ids, so it can be compared between compilations. */
+export interface StorageLayout {
+    storage: StorageVariable[];
+    types: Record<string, StorageType>;
+}
+
+/** Returns the storage layout of the compiled contract. */
+export async function getStorageLayout(
+    hre: HardhatRuntimeEnvironment,
+    contractName: string
+): Promise<StorageLayout> {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(
+        `${artifact.sourceName}:${artifact.contractName}`
+    );
+    const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as
+        | { storageLayout?: StorageLayout }
+        | undefined;
+    if (output?.storageLayout === undefined) {
+        throw new Error(
+            `No storage layout of ${contractName}, compile it with storageLayout output`
+        );
+    }
+
+    return normalizeLayout(output.storageLayout);
+}
+
+/**
+ * Returns the incompatibilities of the `newLayout` with the `oldLayout`: every variable
+ * of the old layout must stay in the same slot, at the same offset and with the same type,
+ * including the members of the structs. New variables can be appended only.
+ */
+export function compareStorageLayouts(
+    oldLayout: StorageLayout,
+    newLayout: StorageLayout
+): string[] {
+    const errors: string[] = [];
+    for (const oldVariable of oldLayout.storage) {
+        const newVariable = newLayout.storage.find(
+            (variable) => variable.label == oldVariable.label
+        );
+        if (newVariable === undefined) {
+            errors.push(`${oldVariable.label} is removed`);
+            continue;
+        }
+        if (newVariable.slot != oldVariable.slot || newVariable.offset != oldVariable.offset) {
+            errors.push(
+                `${oldVariable.label} is moved from slot ${oldVariable.slot} (offset ${oldVariable.offset})` +
+                    ` to slot ${newVariable.slot} (offset ${newVariable.offset})`
+            );
+            continue;
+        }
+        const oldType = describeType(oldLayout, oldVariable.type);
+        const newType = describeType(newLayout, newVariable.type);
+        if (oldType != newType) {
+            errors.push(`${oldVariable.label} type is changed from ${oldType} to ${newType}`);
+        }
+    }
+
+    return errors;
+}
+
+/** Describes the type with the layout of its members, keys, values and elements. */
+function describeType(layout: StorageLayout, typeId: string): string {
+    const type = layout.types[typeId];
+    if (type === undefined) {
+        return typeId;
+    }
+    if (type.members !== undefined) {
+        const members = type.members.map(
+            (member) =>
+                `${member.slot}:${member.offset} ${member.label} ${describeType(
+                    layout,
+                    member.type
+                )}`
+        );
+        return `${type.label} { ${members.join("; ")} }`;
+    }
+    if (type.key !== undefined && type.value !== undefined) {
+        return `mapping(${describeType(layout, type.key)} => ${describeType(layout, type.value)})`;
+    }
+    if (type.base !== undefined) {
+        return `${type.label} of ${describeType(layout, type.base)}`;
+    }
+    return `${type.label} (${type.numberOfBytes} bytes)`;
+}
+
+/** Drops the AST ids, e.g. `t_struct(StakeState)1234_storage` becomes `t_struct(StakeState)_storage`. */
+function normalizeLayout(layout: StorageLayout): StorageLayout {
+    const normalizeTypeId = (typeId: string) =>
+        typeId.replace(/(t_(?:struct|enum|contract|userDefinedValueType)\([\w$]+\))\d+/g, "$1");
+    const normalizeVariable = ({ label, slot, offset, type }: StorageVariable) => ({
+        label,
+        slot,
+        offset,
+        type: normalizeTypeId(type),
+    });
+
+    const types: Record<string, StorageType> = {};
+    for (const [typeId, type] of Object.entries(layout.types ?? {})) {
+        types[normalizeTypeId(typeId)] = {
+            label: type.label,
+            numberOfBytes: type.numberOfBytes,
+            encoding: type.encoding,
+            ...(type.members && { members: type.members.map(normalizeVariable) }),
+            ...(type.key && { key: normalizeTypeId(type.key) }),
+            ...(type.value && { value: normalizeTypeId(type.value) }),
+            ...(type.base && { base: normalizeTypeId(type.base) }),
+        };
+    }
+
+    return { storage: layout.storage.map(normalizeVariable), types };
+}
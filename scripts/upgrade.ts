@@ -0,0 +1,23 @@
+import hre from "hardhat";
+
+import { deploymentPath } from "./deployments";
+import { upgradeStaking } from "./deployPipeline";
+
+// the new implementation, it must keep the storage layout of AtomicStakingUpgradeable
+const CONTRACT_NAME = process.env.CONTRACT_NAME ?? "AtomicStakingUpgradeable";
+
+async function main() {
+    const [deployer] = await hre.ethers.getSigners();
+    console.log("Deployer address:", deployer.address);
+
+    const { staking } = await upgradeStaking(hre, CONTRACT_NAME);
+    console.log("AtomicStaking:", staking.address);
+    console.log("Deployment is saved to", deploymentPath(hre.network.name));
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -0,0 +1,518 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BigNumber, BigNumberish, ContractReceipt, ContractTransaction, utils } from "ethers";
+
+import type { AtomicStaking, IERC20Metadata } from "../typechain-types";
+import { config } from "../config";
+import {
+    DEPLOYMENTS_DIR,
+    deploymentPath,
+    getDeployedAddress,
+    readDeployment,
+} from "../scripts/deployments";
+import {
+    CheckResult,
+    checkDeployment,
+    expectedStateFromConfig,
+    formatReport,
+} from "../scripts/deploymentChecker";
+
+// Usage: npx hardhat staking:<task> --network <network> [--dry-run]
+// The address of the staking is read from deployments/<network>.json unless --staking is passed.
+// With a non-zero changeDelay, set-apr, set-min-stake and withdraw-excess propose the change,
+// the same task run again after the delay executes it.
+
+const ONE_DAY = 86400;
+const ONE_YEAR = ONE_DAY * 365;
+const PERCENT_DENOMINATOR = 100_00;
+// DEFAULT_ADMIN_ROLE is transferred only by beginDefaultAdminTransfer and acceptDefaultAdminTransfer
+const ROLE_NAMES = ["MANAGER_ROLE", "PAUSER_ROLE"] as const;
+// in the order of the `Change` enum of the contract
+const CHANGE_NAMES = [
+    "Apr",
+    "MinStakeAmount",
+    "ExcessiveBalance",
+    "ChangeDelay",
+    "CoolingPeriod",
+    "EarlyWithdrawPenalty",
+    "PenaltyReceiver",
+    "ExtraRewardRate",
+    "AprGuardrails",
+    "SolvencyParameters",
+    "MigrationTarget",
+    "MigrationSource",
+    "EmergencyShutdown",
+    "LockTierMultiplier",
+] as const;
+
+interface StakingArgs {
+    staking?: string;
+    deploymentsDir: string;
+}
+
+interface TransactionArgs extends StakingArgs {
+    dryRun: boolean;
+}
+
+interface StakingContext {
+    staking: AtomicStaking;
+    token: IERC20Metadata;
+    decimals: number;
+    symbol: string;
+}
+
+export interface StakingStatus {
+    apr: BigNumber;
+    effectiveApr: BigNumber;
+    minStakeAmount: BigNumber;
+    totalStaked: BigNumber;
+    poolBalance: BigNumber;
+    unpaidRewards: BigNumber;
+    /** Days that the pool covers the emission, `undefined` if nothing is emitted in the APR mode. */
+    runwayDays?: number;
+}
+
+export interface UserWithdrawal {
+    withdrawId: BigNumber;
+    amount: BigNumber;
+    unlockTimestamp: number;
+    isReady: boolean;
+}
+
+export interface UserStatus {
+    stakeAmount: BigNumber;
+    debt: BigNumber;
+    rewardsToClaim: BigNumber;
+    withdrawals: UserWithdrawal[];
+}
+
+async function connectStaking(
+    hre: HardhatRuntimeEnvironment,
+    args: StakingArgs
+): Promise<StakingContext> {
+    const address =
+        args.staking ?? getDeployedAddress(hre.network.name, "AtomicStaking", args.deploymentsDir);
+    const staking = (await hre.ethers.getContractAt("AtomicStaking", address)) as AtomicStaking;
+    const token = (await hre.ethers.getContractAt(
+        "IERC20Metadata",
+        await staking.TOKEN()
+    )) as IERC20Metadata;
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()]);
+
+    return { staking, token, decimals, symbol };
+}
+
+function formatAmount(context: StakingContext, amount: BigNumberish): string {
+    return `${utils.formatUnits(amount, context.decimals)} ${context.symbol}`;
+}
+
+function formatApr(apr: BigNumberish): string {
+    return `${utils.formatUnits(apr, 2)}%`;
+}
+
+function formatTimestamp(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString();
+}
+
+/** Parses the APR in percent, e.g. "12.5", into the value with the denominator `100_00`. */
+function parseApr(apr: string): BigNumber {
+    return utils.parseUnits(apr, 2);
+}
+
+async function resolveRole(staking: AtomicStaking, role: string): Promise<string> {
+    if (utils.isHexString(role, 32)) {
+        if (role == (await staking.DEFAULT_ADMIN_ROLE())) {
+            throw new Error(
+                "DEFAULT_ADMIN_ROLE is transferred by beginDefaultAdminTransfer and acceptDefaultAdminTransfer"
+            );
+        }
+        return role;
+    }
+    const roleName = ROLE_NAMES.find((name) => name == role);
+    if (roleName === undefined) {
+        throw new Error(`Unknown role ${role}, expected one of ${ROLE_NAMES.join(", ")} or a hash`);
+    }
+    return staking[roleName]();
+}
+
+/**
+ * Sends the transaction or, in the dry run, simulates it with `callStatic`.
+ * Custom errors of the staking are decoded in both cases.
+ */
+async function execute(
+    description: string,
+    dryRun: boolean,
+    simulate: () => Promise<unknown>,
+    send: () => Promise<ContractTransaction>
+): Promise<ContractReceipt | undefined> {
+    try {
+        if (dryRun) {
+            await simulate();
+            console.log(`Dry run: ${description} would succeed`);
+            return undefined;
+        }
+
+        const tx = await send();
+        console.log(`${description}: ${tx.hash}`);
+        const receipt = await tx.wait();
+        console.log("Confirmed in block", receipt.blockNumber);
+        return receipt;
+    } catch (error) {
+        // the client is loaded lazily, it needs the compiled typechain types
+        const { decodeStakingError } = await import("../scripts/stakingClient");
+        throw decodeStakingError(error) ?? error;
+    }
+}
+
+/**
+ * Makes the timelocked `change` by its direct setter if `changeDelay` is zero. Otherwise proposes
+ * the `value`, and executes it when the same value is proposed and its delay passed,
+ * so the same task is run twice: to propose the change and to execute it.
+ * The contract stores the hash of the params, so the proposed value is compared by its hash.
+ */
+async function executeTimelocked(
+    staking: AtomicStaking,
+    change: (typeof CHANGE_NAMES)[number],
+    value: BigNumber,
+    dryRun: boolean,
+    setter: {
+        description: string;
+        simulate: () => Promise<unknown>;
+        send: () => Promise<ContractTransaction>;
+    }
+): Promise<ContractReceipt | undefined> {
+    if ((await staking.changeDelay()).isZero()) {
+        return execute(setter.description, dryRun, setter.simulate, setter.send);
+    }
+
+    const changeId = CHANGE_NAMES.indexOf(change);
+    const params = utils.defaultAbiCoder.encode(["uint256"], [value]);
+    const pendingChange = await staking.pendingChanges(changeId);
+    const executableTimestamp = BigNumber.from(pendingChange.executableTimestamp).toNumber();
+    if (executableTimestamp != 0 && pendingChange.value.eq(utils.keccak256(params))) {
+        const latestBlock = await staking.provider.getBlock("latest");
+        if (latestBlock.timestamp < executableTimestamp) {
+            console.log(
+                `${change} change to ${value} is proposed, it is executable at`,
+                formatTimestamp(executableTimestamp)
+            );
+            return undefined;
+        }
+
+        return execute(
+            `executeChange(${change})`,
+            dryRun,
+            () => staking.callStatic.executeChange(changeId, params),
+            () => staking.executeChange(changeId, params)
+        );
+    }
+
+    if (executableTimestamp != 0) {
+        console.log(`The proposal replaces the pending ${change} change with other params`);
+    }
+    return execute(
+        `proposeChange(${change}, ${value})`,
+        dryRun,
+        () => staking.callStatic.proposeChange(changeId, params),
+        () => staking.proposeChange(changeId, params)
+    );
+}
+
+function stakingTask(name: string, description: string) {
+    return task(name, description)
+        .addOptionalParam(
+            "staking",
+            "Address of the staking contract, it is read from the deployments file by default"
+        )
+        .addOptionalParam(
+            "deploymentsDir",
+            "Directory of the deployments files",
+            DEPLOYMENTS_DIR,
+            types.string
+        );
+}
+
+function transactionTask(name: string, description: string) {
+    return stakingTask(name, description).addFlag(
+        "dryRun",
+        "Simulate the transaction with callStatic instead of sending it"
+    );
+}
+
+stakingTask("staking:status", "Prints the parameters and the reward pool of the staking").setAction(
+    async (args: StakingArgs, hre): Promise<StakingStatus> => {
+        const context = await connectStaking(hre, args);
+        const { staking, token } = context;
+
+        const [
+            apr,
+            effectiveApr,
+            minStakeAmount,
+            totalStaked,
+            balance,
+            unpaidRewards,
+            totalRewardWeight,
+            isCampaignMode,
+            isEmergencyShutdown,
+        ] = await Promise.all([
+            staking.apr(),
+            staking.effectiveApr(),
+            staking.minStakeAmount(),
+            staking.totalStaked(),
+            token.balanceOf(staking.address),
+            staking.totalUnpaidRewards(),
+            staking.totalRewardWeight(),
+            staking.isCampaignMode(),
+            staking.isEmergencyShutdown(),
+        ]);
+        const poolBalance = balance.gt(totalStaked) ? balance.sub(totalStaked) : BigNumber.from(0);
+        const fundedRewards = poolBalance.gt(unpaidRewards)
+            ? poolBalance.sub(unpaidRewards)
+            : BigNumber.from(0);
+        const dailyEmission = totalRewardWeight
+            .mul(effectiveApr)
+            .mul(ONE_DAY)
+            .div(ONE_YEAR * PERCENT_DENOMINATOR * PERCENT_DENOMINATOR);
+        const runwayDays =
+            isCampaignMode || dailyEmission.isZero()
+                ? undefined
+                : fundedRewards.mul(100).div(dailyEmission).toNumber() / 100;
+
+        console.log("Staking:", staking.address);
+        console.log("Token:", token.address);
+        console.log("Mode:", isCampaignMode ? "campaigns" : "APR");
+        if (isEmergencyShutdown) {
+            console.log("The contract is shut down in an emergency");
+        }
+        console.log("APR:", formatApr(apr));
+        console.log("Effective APR:", formatApr(effectiveApr));
+        console.log("Min stake amount:", formatAmount(context, minStakeAmount));
+        console.log("Total staked:", formatAmount(context, totalStaked));
+        console.log("Pool balance:", formatAmount(context, poolBalance));
+        console.log("Unpaid rewards:", formatAmount(context, unpaidRewards));
+        console.log("Runway:", runwayDays === undefined ? "-" : `${runwayDays} days`);
+
+        return {
+            apr,
+            effectiveApr,
+            minStakeAmount,
+            totalStaked,
+            poolBalance,
+            unpaidRewards,
+            runwayDays,
+        };
+    }
+);
+
+transactionTask("staking:set-apr", "Sets the APR of the staking")
+    .addParam("apr", "The new APR in percent, e.g. 12.5")
+    .setAction(async (args: TransactionArgs & { apr: string }, hre) => {
+        const { staking } = await connectStaking(hre, args);
+        const apr = parseApr(args.apr);
+
+        console.log("APR:", formatApr(await staking.apr()), "->", formatApr(apr));
+        return executeTimelocked(staking, "Apr", apr, args.dryRun, {
+            description: `setApr(${apr})`,
+            simulate: () => staking.callStatic.setApr(apr),
+            send: () => staking.setApr(apr),
+        });
+    });
+
+transactionTask("staking:set-min-stake", "Sets the minimum amount of a stake")
+    .addParam("amount", "The new minimum amount in tokens, e.g. 50.5")
+    .setAction(async (args: TransactionArgs & { amount: string }, hre) => {
+        const context = await connectStaking(hre, args);
+        const { staking } = context;
+        const amount = utils.parseUnits(args.amount, context.decimals);
+
+        console.log(
+            "Min stake amount:",
+            formatAmount(context, await staking.minStakeAmount()),
+            "->",
+            formatAmount(context, amount)
+        );
+        return executeTimelocked(staking, "MinStakeAmount", amount, args.dryRun, {
+            description: `setMinStakeAmount(${amount})`,
+            simulate: () => staking.callStatic.setMinStakeAmount(amount),
+            send: () => staking.setMinStakeAmount(amount),
+        });
+    });
+
+transactionTask("staking:donate", "Donates tokens to the reward pool, approves them if needed")
+    .addParam("amount", "Amount in tokens, e.g. 1000")
+    .setAction(async (args: TransactionArgs & { amount: string }, hre) => {
+        const context = await connectStaking(hre, args);
+        const { staking, token } = context;
+        const amount = utils.parseUnits(args.amount, context.decimals);
+
+        const [signer] = await hre.ethers.getSigners();
+        const allowance = await token.allowance(signer.address, staking.address);
+        if (allowance.lt(amount)) {
+            if (args.dryRun) {
+                // the donation can't be simulated without the allowance
+                console.log(`Dry run: ${formatAmount(context, amount)} would be approved first`);
+                await token.callStatic.approve(staking.address, amount);
+                return undefined;
+            }
+            await (await token.approve(staking.address, amount)).wait();
+        }
+
+        console.log("Donating", formatAmount(context, amount));
+        return execute(
+            `donateTokensToRewards(${amount})`,
+            args.dryRun,
+            () => staking.callStatic.donateTokensToRewards(amount),
+            () => staking.donateTokensToRewards(amount)
+        );
+    });
+
+transactionTask(
+    "staking:withdraw-excess",
+    "Withdraws the balance that isn't reserved for the stakes"
+)
+    .addParam("amount", "Amount in tokens, e.g. 1000")
+    .setAction(async (args: TransactionArgs & { amount: string }, hre) => {
+        const context = await connectStaking(hre, args);
+        const { staking } = context;
+        const amount = utils.parseUnits(args.amount, context.decimals);
+
+        console.log("Withdrawing up to", formatAmount(context, amount));
+        return executeTimelocked(staking, "ExcessiveBalance", amount, args.dryRun, {
+            description: `receiveExcessiveBalance(${amount})`,
+            simulate: () => staking.callStatic.receiveExcessiveBalance(amount),
+            send: () => staking.receiveExcessiveBalance(amount),
+        });
+    });
+
+transactionTask("staking:cancel-change", "Cancels a pending timelocked change")
+    .addParam("change", CHANGE_NAMES.join(", "))
+    .setAction(async (args: TransactionArgs & { change: string }, hre) => {
+        const { staking } = await connectStaking(hre, args);
+        const changeId = CHANGE_NAMES.findIndex((name) => name == args.change);
+        if (changeId == -1) {
+            throw new Error(
+                `Unknown change ${args.change}, expected one of ${CHANGE_NAMES.join(", ")}`
+            );
+        }
+
+        return execute(
+            `cancelChange(${args.change})`,
+            args.dryRun,
+            () => staking.callStatic.cancelChange(changeId),
+            () => staking.cancelChange(changeId)
+        );
+    });
+
+transactionTask("staking:grant-role", "Grants a role of the staking")
+    .addParam("role", `${ROLE_NAMES.join(", ")} or the role hash`)
+    .addParam("account", "Address of the account")
+    .setAction(async (args: TransactionArgs & { role: string; account: string }, hre) => {
+        const { staking } = await connectStaking(hre, args);
+        const role = await resolveRole(staking, args.role);
+
+        return execute(
+            `grantRole(${args.role}, ${args.account})`,
+            args.dryRun,
+            () => staking.callStatic.grantRole(role, args.account),
+            () => staking.grantRole(role, args.account)
+        );
+    });
+
+transactionTask("staking:revoke-role", "Revokes a role of the staking")
+    .addParam("role", `${ROLE_NAMES.join(", ")} or the role hash`)
+    .addParam("account", "Address of the account")
+    .setAction(async (args: TransactionArgs & { role: string; account: string }, hre) => {
+        const { staking } = await connectStaking(hre, args);
+        const role = await resolveRole(staking, args.role);
+
+        return execute(
+            `revokeRole(${args.role}, ${args.account})`,
+            args.dryRun,
+            () => staking.callStatic.revokeRole(role, args.account),
+            () => staking.revokeRole(role, args.account)
+        );
+    });
+
+stakingTask("staking:user", "Prints the stake, the debt and the withdrawal requests of a user")
+    .addPositionalParam("user", "Address of the user")
+    .setAction(async (args: StakingArgs & { user: string }, hre): Promise<UserStatus> => {
+        const context = await connectStaking(hre, args);
+        const { staking } = context;
+
+        const [stakeState, rewardsToClaim, withdrawIds, latestBlock] = await Promise.all([
+            staking.stakeStates(args.user),
+            staking.availableRewardsToClaim(args.user),
+            staking.usersWithdrawIds(args.user),
+            hre.ethers.provider.getBlock("latest"),
+        ]);
+        const withdrawStates = await Promise.all(
+            withdrawIds.map((withdrawId) => staking.withdrawStates(withdrawId))
+        );
+        const withdrawals = withdrawIds.map((withdrawId, i) => {
+            const unlockTimestamp =
+                withdrawStates[i].withdrawTimestamp.toNumber() + withdrawStates[i].coolingPeriod;
+            return {
+                withdrawId,
+                amount: withdrawStates[i].amount,
+                unlockTimestamp,
+                isReady: unlockTimestamp <= latestBlock.timestamp,
+            };
+        });
+
+        console.log("User:", args.user);
+        console.log("Stake:", formatAmount(context, stakeState.stakeAmount));
+        console.log("Rewards to claim:", formatAmount(context, rewardsToClaim));
+        console.log("Debt of the contract:", formatAmount(context, stakeState.contractDeptToUser));
+        console.log("Withdrawal requests:", withdrawals.length == 0 ? "-" : "");
+        for (const withdrawal of withdrawals) {
+            console.log(
+                `  #${withdrawal.withdrawId}: ${formatAmount(context, withdrawal.amount)},`,
+                withdrawal.isReady
+                    ? "ready"
+                    : `unlocks at ${formatTimestamp(withdrawal.unlockTimestamp)}`
+            );
+        }
+
+        return {
+            stakeAmount: stakeState.stakeAmount,
+            debt: stakeState.contractDeptToUser,
+            rewardsToClaim,
+            withdrawals,
+        };
+    });
+
+task("staking:check", "Checks the deployed contracts against config.deploy, fails on any mismatch")
+    .addOptionalParam(
+        "deploymentsDir",
+        "Directory of the deployments files",
+        DEPLOYMENTS_DIR,
+        types.string
+    )
+    .addFlag("json", "Print the results as JSON")
+    .setAction(
+        async (args: { deploymentsDir: string; json: boolean }, hre): Promise<CheckResult[]> => {
+            const deployment = readDeployment(hre.network.name, args.deploymentsDir);
+            const stakingRecord = deployment?.contracts.AtomicStaking;
+            if (deployment === undefined || stakingRecord === undefined) {
+                throw new Error(
+                    `No AtomicStaking in ${deploymentPath(
+                        hre.network.name,
+                        args.deploymentsDir
+                    )}, deploy it first`
+                );
+            }
+
+            const deployTx = await hre.ethers.provider.getTransaction(
+                stakingRecord.transactionHash
+            );
+            const expected = expectedStateFromConfig(config.deploy, deployment, deployTx.from);
+            const results = await checkDeployment(hre, deployment, expected);
+            console.log(args.json ? JSON.stringify(results, null, 4) : formatReport(results));
+
+            const failedCount = results.filter((result) => !result.isPassed).length;
+            if (failedCount != 0) {
+                throw new Error(`Deployment check failed: ${failedCount} mismatches`);
+            }
+            return results;
+        }
+    );
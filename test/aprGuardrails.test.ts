@@ -0,0 +1,326 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithAliceStake } from "./helpers";
+import { ONE_DAY, ONE_YEAR, RATE_PRECISION, PERCENT_DENOMINATOR } from "./constants";
+
+const MAX_APR_CHANGE_INTERVAL = ONE_DAY * 365;
+const MAX_APR_RAMP_DURATION = ONE_DAY * 365;
+
+function getNewRate(rate: BigNumber, aprIntegral: number) {
+    return rate.add(rate.mul(aprIntegral).div(ONE_YEAR * PERCENT_DENOMINATOR));
+}
+
+function getNewTierRate(rate: BigNumber, aprIntegral: number, aprMultiplier: number) {
+    return rate.add(
+        rate
+            .mul(aprIntegral)
+            .mul(aprMultiplier)
+            .div(ONE_YEAR * PERCENT_DENOMINATOR * PERCENT_DENOMINATOR)
+    );
+}
+
+async function prepareEnvWithGuardrails() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    const guardrails = {
+        maxApr: 30_00,
+        maxAprDelta: 5_00,
+        minChangeInterval: ONE_DAY * 7,
+        rampDuration: 0,
+    };
+    await env.stakingInst.setAprGuardrails(
+        guardrails.maxApr,
+        guardrails.maxAprDelta,
+        guardrails.minChangeInterval,
+        guardrails.rampDuration
+    );
+
+    return {
+        ...env,
+        guardrails,
+    };
+}
+
+async function prepareEnvWithRamp() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    const aprMultiplier = 200_00;
+    await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, aprMultiplier);
+    const bobAmountToLock = env.oneToken.mul(1000);
+    await env.erc20Inst.connect(env.bob).mint(bobAmountToLock);
+    await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, bobAmountToLock);
+    // the flexible rate is updated on locking
+    const bobLockTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+    await time.setNextBlockTimestamp(bobLockTimestamp);
+    await env.stakingInst.connect(env.bob).stakeLocked(bobAmountToLock, 0);
+
+    const rampDuration = ONE_DAY * 10;
+    await env.stakingInst.setAprGuardrails(0, 0, 0, rampDuration);
+
+    const newApr = 30_00;
+    const rampStartTimestamp = bobLockTimestamp + ONE_DAY;
+    await time.setNextBlockTimestamp(rampStartTimestamp);
+    await env.stakingInst.connect(env.manager).setApr(newApr);
+
+    const flexibleRate = getNewRate(
+        getNewRate(RATE_PRECISION, (bobLockTimestamp - env.aliceStakeTimestamp) * env.apr),
+        (rampStartTimestamp - bobLockTimestamp) * env.apr
+    );
+    const tierRate = getNewTierRate(
+        RATE_PRECISION,
+        (rampStartTimestamp - bobLockTimestamp) * env.apr,
+        aprMultiplier
+    );
+
+    return {
+        ...env,
+        aprMultiplier,
+        bobAmountToLock,
+        rampDuration,
+        newApr,
+        rampStartTimestamp,
+        rampEndTimestamp: rampStartTimestamp + rampDuration,
+        flexibleRate,
+        tierRate,
+    };
+}
+
+describe("APR guardrails", () => {
+    describe("{setAprGuardrails} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await expect(env.stakingInst.setAprGuardrails(30_00, 5_00, ONE_DAY, ONE_DAY * 2))
+                .emit(env.stakingInst, "AprGuardrailsChanged")
+                .withArgs(30_00, 5_00, ONE_DAY, ONE_DAY * 2);
+
+            const guardrails = await env.stakingInst.aprGuardrails();
+            expect(guardrails.maxApr).equals(30_00);
+            expect(guardrails.maxAprDelta).equals(5_00);
+            expect(guardrails.minChangeInterval).equals(ONE_DAY);
+            expect(guardrails.rampDuration).equals(ONE_DAY * 2);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setAprGuardrails(30_00, 0, 0, 0)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when values are too big", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(env.stakingInst.setAprGuardrails(PERCENT_DENOMINATOR + 1, 0, 0, 0))
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(PERCENT_DENOMINATOR + 1, PERCENT_DENOMINATOR);
+                await expect(env.stakingInst.setAprGuardrails(0, 0, MAX_APR_CHANGE_INTERVAL + 1, 0))
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(MAX_APR_CHANGE_INTERVAL + 1, MAX_APR_CHANGE_INTERVAL);
+                await expect(env.stakingInst.setAprGuardrails(0, 0, 0, MAX_APR_RAMP_DURATION + 1))
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(MAX_APR_RAMP_DURATION + 1, MAX_APR_RAMP_DURATION);
+            });
+
+            it("Should revert when values are the same", async () => {
+                const env = await loadFixture(prepareEnvWithGuardrails);
+
+                await expect(
+                    env.stakingInst.setAprGuardrails(
+                        env.guardrails.maxApr,
+                        env.guardrails.maxAprDelta,
+                        env.guardrails.minChangeInterval,
+                        env.guardrails.rampDuration
+                    )
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{setApr} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithGuardrails);
+
+            const newApr = env.apr + env.guardrails.maxAprDelta;
+            await expect(env.stakingInst.connect(env.manager).setApr(newApr))
+                .emit(env.stakingInst, "AprChanged")
+                .withArgs(env.apr, newApr);
+            expect(await env.stakingInst.effectiveApr()).equals(newApr);
+
+            // the next change is allowed after the interval
+            const aprRamp = await env.stakingInst.aprRamp();
+            await time.setNextBlockTimestamp(
+                aprRamp.startTimestamp.add(env.guardrails.minChangeInterval)
+            );
+            await expect(env.stakingInst.connect(env.manager).setApr(env.apr))
+                .emit(env.stakingInst, "AprChanged")
+                .withArgs(newApr, env.apr);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the APR is above the maximum", async () => {
+                const env = await loadFixture(prepareEnvWithGuardrails);
+
+                await expect(env.stakingInst.connect(env.manager).setApr(env.guardrails.maxApr + 1))
+                    .revertedWithCustomError(env.stakingInst, "AprAboveMax")
+                    .withArgs(env.guardrails.maxApr + 1, env.guardrails.maxApr);
+            });
+
+            it("Should revert when the change is too big", async () => {
+                const env = await loadFixture(prepareEnvWithGuardrails);
+
+                const delta = env.guardrails.maxAprDelta + 1;
+                await expect(env.stakingInst.connect(env.manager).setApr(env.apr + delta))
+                    .revertedWithCustomError(env.stakingInst, "AprDeltaTooBig")
+                    .withArgs(delta, env.guardrails.maxAprDelta);
+                await expect(env.stakingInst.connect(env.manager).setApr(env.apr - delta))
+                    .revertedWithCustomError(env.stakingInst, "AprDeltaTooBig")
+                    .withArgs(delta, env.guardrails.maxAprDelta);
+            });
+
+            it("Should revert when the change is too early", async () => {
+                const env = await loadFixture(prepareEnvWithGuardrails);
+
+                await env.stakingInst.connect(env.manager).setApr(env.apr + 1);
+                const nextChangeTimestamp = (await env.stakingInst.aprRamp()).startTimestamp.add(
+                    env.guardrails.minChangeInterval
+                );
+
+                await time.setNextBlockTimestamp(nextChangeTimestamp.sub(1));
+                await expect(env.stakingInst.connect(env.manager).setApr(env.apr))
+                    .revertedWithCustomError(env.stakingInst, "AprChangeTooEarly")
+                    .withArgs(nextChangeTimestamp.sub(1), nextChangeTimestamp);
+            });
+
+            it("Should revert when the executed change breaks the guardrails", async () => {
+                const env = await loadFixture(prepareEnvWithGuardrails);
+
+                const params = ethers.utils.defaultAbiCoder.encode(
+                    ["uint256"],
+                    [env.guardrails.maxApr + 1]
+                );
+                await env.stakingInst.setChangeDelay(ONE_DAY);
+                await env.stakingInst.connect(env.manager).proposeChange(0, params);
+                await time.increase(ONE_DAY);
+
+                await expect(env.stakingInst.connect(env.manager).executeChange(0, params))
+                    .revertedWithCustomError(env.stakingInst, "AprAboveMax")
+                    .withArgs(env.guardrails.maxApr + 1, env.guardrails.maxApr);
+            });
+        });
+    });
+
+    describe("APR ramp", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithRamp);
+
+            const aprRamp = await env.stakingInst.aprRamp();
+            expect(aprRamp.fromApr).equals(env.apr);
+            expect(aprRamp.startTimestamp).equals(env.rampStartTimestamp);
+            expect(aprRamp.endTimestamp).equals(env.rampEndTimestamp);
+            expect(await env.stakingInst.apr()).equals(env.newApr);
+            expect(await env.stakingInst.effectiveApr()).equals(env.apr);
+
+            await time.increaseTo(env.rampStartTimestamp + env.rampDuration / 2);
+            expect(await env.stakingInst.effectiveApr()).equals((env.apr + env.newApr) / 2);
+
+            await time.increaseTo(env.rampEndTimestamp);
+            expect(await env.stakingInst.effectiveApr()).equals(env.newApr);
+        });
+
+        it("Flexible rewards follow the ramp", async () => {
+            const env = await loadFixture(prepareEnvWithRamp);
+
+            const claimTimestamp = env.rampStartTimestamp + env.rampDuration / 2;
+            const middleApr = (env.apr + env.newApr) / 2;
+            const newRate = getNewRate(
+                env.flexibleRate,
+                ((claimTimestamp - env.rampStartTimestamp) * (env.apr + middleApr)) / 2
+            );
+            const rewards = env.aliceAmountToStake
+                .mul(newRate)
+                .div(RATE_PRECISION)
+                .sub(env.aliceAmountToStake);
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            await expect(env.stakingInst.connect(env.alice).claimRewards())
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.alice.address, rewards);
+        });
+
+        it("Flexible rewards after the end of the ramp", async () => {
+            const env = await loadFixture(prepareEnvWithRamp);
+
+            const claimTimestamp = env.rampEndTimestamp + ONE_DAY * 5;
+            const newRate = getNewRate(
+                env.flexibleRate,
+                (env.rampDuration * (env.apr + env.newApr)) / 2 +
+                    (claimTimestamp - env.rampEndTimestamp) * env.newApr
+            );
+            const rewards = env.aliceAmountToStake
+                .mul(newRate)
+                .div(RATE_PRECISION)
+                .sub(env.aliceAmountToStake);
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            await expect(env.stakingInst.connect(env.alice).claimRewards())
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.alice.address, rewards);
+        });
+
+        it("Locked positions follow the ramp", async () => {
+            const env = await loadFixture(prepareEnvWithRamp);
+
+            const claimTimestamp = env.rampStartTimestamp + env.rampDuration / 2;
+            const middleApr = (env.apr + env.newApr) / 2;
+            const newTierRate = getNewTierRate(
+                env.tierRate,
+                ((claimTimestamp - env.rampStartTimestamp) * (env.apr + middleApr)) / 2,
+                env.aprMultiplier
+            );
+            const rewards = env.bobAmountToLock
+                .mul(newTierRate)
+                .div(RATE_PRECISION)
+                .sub(env.bobAmountToLock);
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            await expect(env.stakingInst.connect(env.bob).claimPositionRewards(1))
+                .emit(env.stakingInst, "TierRateUpdated")
+                .withArgs(0, newTierRate)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.bob.address, rewards);
+        });
+
+        it("A change during the ramp starts from the current APR", async () => {
+            const env = await loadFixture(prepareEnvWithRamp);
+
+            await env.stakingInst.setAprGuardrails(0, 5_00, 0, env.rampDuration);
+
+            const changeTimestamp = env.rampStartTimestamp + env.rampDuration / 2;
+            const currentApr = (env.apr + env.newApr) / 2;
+            const minApr = currentApr - 5_00;
+            await time.setNextBlockTimestamp(changeTimestamp);
+            await expect(env.stakingInst.connect(env.manager).setApr(minApr - 1))
+                .revertedWithCustomError(env.stakingInst, "AprDeltaTooBig")
+                .withArgs(5_01, 5_00);
+
+            await time.setNextBlockTimestamp(changeTimestamp);
+            await env.stakingInst.connect(env.manager).setApr(minApr);
+
+            const aprRamp = await env.stakingInst.aprRamp();
+            expect(aprRamp.fromApr).equals(currentApr);
+            expect(aprRamp.startTimestamp).equals(changeTimestamp);
+            expect(aprRamp.endTimestamp).equals(changeTimestamp + env.rampDuration);
+        });
+    });
+});
@@ -0,0 +1,364 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnv, prepareEnvWithAliceStake, prepareEnvWithoutDonation } from "./helpers";
+import { ONE_DAY, ONE_YEAR, RATE_PRECISION, PERCENT_DENOMINATOR } from "./constants";
+
+async function prepareEnvWithCampaignMode() {
+    const env = await loadFixture(prepareEnvWithoutDonation);
+
+    await env.stakingInst.connect(env.manager).enableCampaignMode();
+
+    const budget = env.oneToken.mul(1000);
+    await env.erc20Inst.connect(env.manager).mint(budget);
+    await env.erc20Inst.connect(env.manager).approve(env.stakingInst.address, budget);
+
+    return {
+        ...env,
+        budget,
+    };
+}
+
+async function prepareEnvWithCampaign() {
+    const env = await loadFixture(prepareEnvWithCampaignMode);
+
+    const aliceAmountToStake = env.oneToken.mul(100);
+    await env.erc20Inst.connect(env.alice).mint(aliceAmountToStake);
+    await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, aliceAmountToStake);
+    await env.stakingInst.connect(env.alice).stake(aliceAmountToStake);
+
+    const campaignStart = (await time.latest()) + ONE_DAY;
+    const campaignDuration = ONE_DAY * 10;
+    await env.stakingInst
+        .connect(env.manager)
+        .addCampaign(campaignStart, campaignDuration, env.budget);
+
+    return {
+        ...env,
+        aliceAmountToStake,
+        campaignStart,
+        campaignEnd: campaignStart + campaignDuration,
+    };
+}
+
+describe("Reward campaigns", () => {
+    describe("{enableCampaignMode} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const switchTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            const newRatePerStaking = RATE_PRECISION.add(
+                RATE_PRECISION.mul(ONE_DAY)
+                    .mul(env.apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+            const aprRewards = env.aliceAmountToStake
+                .mul(newRatePerStaking)
+                .div(RATE_PRECISION)
+                .sub(env.aliceAmountToStake);
+
+            await time.setNextBlockTimestamp(switchTimestamp);
+            await expect(env.stakingInst.connect(env.manager).enableCampaignMode())
+                .emit(env.stakingInst, "RateUpdated")
+                .withArgs(newRatePerStaking)
+                .emit(env.stakingInst, "CampaignModeEnabled");
+            expect(await env.stakingInst.isCampaignMode()).true;
+            expect(await env.stakingInst.totalRewardWeight()).equals(
+                env.aliceAmountToStake.mul(PERCENT_DENOMINATOR)
+            );
+
+            // without campaigns nothing accrues anymore
+            await time.increase(ONE_DAY * 30);
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(
+                aprRewards
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(env.stakingInst.connect(env.alice).enableCampaignMode()).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+
+            it("Should revert when the mode is already enabled", async () => {
+                const env = await loadFixture(prepareEnvWithCampaignMode);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).enableCampaignMode()
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{addCampaign} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithCampaignMode);
+
+            const startTimestamp = (await time.latest()) + ONE_DAY;
+            const tx = env.stakingInst
+                .connect(env.manager)
+                .addCampaign(startTimestamp, ONE_DAY * 10, env.budget);
+            await expect(tx)
+                .emit(env.stakingInst, "CampaignAdded")
+                .withArgs(0, startTimestamp, startTimestamp + ONE_DAY * 10, env.budget);
+            await expect(tx).changeTokenBalances(
+                env.erc20Inst,
+                [env.manager, env.stakingInst],
+                [env.budget.mul(-1), env.budget]
+            );
+
+            expect(await env.stakingInst.campaignsCount()).equals(1);
+            const campaign = await env.stakingInst.campaigns(0);
+            expect(campaign.startTimestamp).equals(startTimestamp);
+            expect(campaign.endTimestamp).equals(startTimestamp + ONE_DAY * 10);
+            expect(campaign.budget).equals(env.budget);
+        });
+
+        it("Queues campaigns one after another", async () => {
+            const env = await loadFixture(prepareEnvWithCampaign);
+
+            await env.erc20Inst.connect(env.manager).mint(env.budget);
+            await env.erc20Inst.connect(env.manager).approve(env.stakingInst.address, env.budget);
+            await env.stakingInst
+                .connect(env.manager)
+                .addCampaign(env.campaignEnd, ONE_DAY * 10, env.budget);
+
+            // both budgets go to the only staker
+            await time.increaseTo(env.campaignEnd + ONE_DAY * 10);
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(
+                env.budget.mul(2)
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithCampaignMode);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .addCampaign(await time.latest(), ONE_DAY, env.budget)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+
+            it("Should revert in the APR mode", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .addCampaign(await time.latest(), ONE_DAY, env.oneToken)
+                ).revertedWithCustomError(env.stakingInst, "CampaignModeIsDisabled");
+            });
+
+            it("Should revert when duration or budget is zero", async () => {
+                const env = await loadFixture(prepareEnvWithCampaignMode);
+
+                const startTimestamp = (await time.latest()) + ONE_DAY;
+                await expect(
+                    env.stakingInst.connect(env.manager).addCampaign(startTimestamp, 0, env.budget)
+                ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+                await expect(
+                    env.stakingInst.connect(env.manager).addCampaign(startTimestamp, ONE_DAY, 0)
+                ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+            });
+
+            it("Should revert when the campaign starts in the past", async () => {
+                const env = await loadFixture(prepareEnvWithCampaignMode);
+
+                const now = (await time.latest()) + 1;
+                await time.setNextBlockTimestamp(now);
+                await expect(
+                    env.stakingInst.connect(env.manager).addCampaign(now - 1, ONE_DAY, env.budget)
+                )
+                    .revertedWithCustomError(env.stakingInst, "CampaignStartTooEarly")
+                    .withArgs(now - 1, now);
+            });
+
+            it("Should revert when the campaign overlaps the last one", async () => {
+                const env = await loadFixture(prepareEnvWithCampaign);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .addCampaign(env.campaignEnd - 1, ONE_DAY, env.budget)
+                )
+                    .revertedWithCustomError(env.stakingInst, "CampaignStartTooEarly")
+                    .withArgs(env.campaignEnd - 1, env.campaignEnd);
+            });
+        });
+    });
+
+    describe("Emission", () => {
+        it("Distributes the budget evenly over the campaign", async () => {
+            const env = await loadFixture(prepareEnvWithCampaign);
+
+            // half of the campaign
+            const claimTimestamp = env.campaignStart + ONE_DAY * 5;
+            const rewards = env.budget.div(2);
+            const newRatePerStaking = RATE_PRECISION.add(
+                rewards.mul(RATE_PRECISION).div(env.aliceAmountToStake)
+            );
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            const tx = env.stakingInst.connect(env.alice).claimRewards();
+            await expect(tx)
+                .emit(env.stakingInst, "RateUpdated")
+                .withArgs(newRatePerStaking)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.alice.address, rewards);
+            await expect(tx).changeTokenBalance(env.erc20Inst, env.alice, rewards);
+
+            // nothing is emitted after the end of the campaign
+            await time.increaseTo(env.campaignEnd + ONE_DAY * 30);
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(
+                env.budget.sub(rewards)
+            );
+            await env.stakingInst.connect(env.alice).claimRewards();
+
+            expect(await env.erc20Inst.balanceOf(env.stakingInst.address)).equals(
+                env.aliceAmountToStake
+            );
+            expect(
+                (await env.stakingInst.stakeStates(env.alice.address)).contractDeptToUser
+            ).equals(0);
+        });
+
+        it("Splits the emission by the reward weight", async () => {
+            const env = await loadFixture(prepareEnvWithCampaign);
+
+            const aprMultiplier = 200_00;
+            await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, aprMultiplier);
+
+            const bobAmountToLock = env.oneToken.mul(100);
+            await env.erc20Inst.connect(env.bob).mint(bobAmountToLock);
+            await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, bobAmountToLock);
+            await env.stakingInst.connect(env.bob).stakeLocked(bobAmountToLock, 0);
+
+            expect(await env.stakingInst.totalRewardWeight()).equals(
+                env.aliceAmountToStake
+                    .mul(PERCENT_DENOMINATOR)
+                    .add(bobAmountToLock.mul(aprMultiplier))
+            );
+
+            await time.increaseTo(env.campaignEnd);
+
+            // alice has the weight 1, bob has the weight 2
+            const rateIncrease = env.budget
+                .mul(RATE_PRECISION)
+                .mul(PERCENT_DENOMINATOR)
+                .div(await env.stakingInst.totalRewardWeight());
+            const tierRateIncrease = rateIncrease.mul(aprMultiplier).div(PERCENT_DENOMINATOR);
+            const aliceRewards = env.aliceAmountToStake.mul(rateIncrease).div(RATE_PRECISION);
+            const bobRewards = bobAmountToLock.mul(tierRateIncrease).div(RATE_PRECISION);
+            expect(aliceRewards.mul(2)).closeTo(bobRewards, 2);
+            expect(aliceRewards.add(bobRewards)).lessThanOrEqual(env.budget);
+
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(
+                aliceRewards
+            );
+            expect(await env.stakingInst.positionRewards(1)).equals(bobRewards);
+        });
+
+        it("Emission is lost while there is no weight", async () => {
+            const env = await loadFixture(prepareEnvWithCampaign);
+
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+            expect(await env.stakingInst.totalRewardWeight()).equals(0);
+
+            // alice returns her stake in the middle of the campaign
+            await time.setNextBlockTimestamp(env.campaignStart + ONE_DAY * 5);
+            await env.stakingInst.connect(env.alice).cancelWithdraw(1);
+
+            await time.setNextBlockTimestamp(env.campaignEnd);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.erc20Inst,
+                env.alice,
+                env.budget.div(2)
+            );
+
+            // the lost half is excessive now
+            await expect(env.stakingInst.receiveExcessiveBalance(env.budget)).changeTokenBalance(
+                env.erc20Inst,
+                env.deployer,
+                env.budget.div(2)
+            );
+        });
+    });
+
+    describe("{receiveExcessiveBalance} function", () => {
+        it("Reserves the budget that isn't emitted yet", async () => {
+            const env = await loadFixture(prepareEnvWithCampaign);
+
+            const donatedTokens = env.oneToken.mul(10);
+            await env.erc20Inst.mint(donatedTokens);
+            await env.erc20Inst.approve(env.stakingInst.address, donatedTokens);
+            await env.stakingInst.donateTokensToRewards(donatedTokens);
+
+            // a queued campaign is reserved completely
+            await expect(env.stakingInst.receiveExcessiveBalance(env.budget)).changeTokenBalance(
+                env.erc20Inst,
+                env.deployer,
+                donatedTokens
+            );
+
+            // a running campaign is reserved partially
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+            await time.setNextBlockTimestamp(env.campaignStart + ONE_DAY * 4);
+            await expect(env.stakingInst.receiveExcessiveBalance(env.budget)).changeTokenBalance(
+                env.erc20Inst,
+                env.deployer,
+                env.budget.mul(4).div(10)
+            );
+        });
+        it("Reserves the emitted rewards until they are paid", async () => {
+            const env = await loadFixture(prepareEnvWithCampaign);
+
+            const donatedTokens = env.oneToken.mul(10);
+            await env.erc20Inst.mint(donatedTokens);
+            await env.erc20Inst.approve(env.stakingInst.address, donatedTokens);
+            await env.stakingInst.donateTokensToRewards(donatedTokens);
+
+            // the emitted part of the running campaign isn't claimed yet
+            const rewards = env.budget.mul(4).div(10);
+            await time.setNextBlockTimestamp(env.campaignStart + ONE_DAY * 4);
+            await expect(env.stakingInst.receiveExcessiveBalance(env.budget)).changeTokenBalance(
+                env.erc20Inst,
+                env.deployer,
+                donatedTokens
+            );
+            expect(await env.stakingInst.totalUnpaidRewards()).equals(rewards);
+
+            await time.setNextBlockTimestamp(env.campaignStart + ONE_DAY * 4);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.erc20Inst,
+                env.alice,
+                rewards
+            );
+            expect(await env.stakingInst.totalUnpaidRewards()).equals(0);
+        });
+    });
+
+    describe("{campaigns} function", () => {
+        describe("Reverts", () => {
+            it("Should revert when the campaign doesn't exist", async () => {
+                const env = await loadFixture(prepareEnvWithCampaign);
+
+                await expect(env.stakingInst.campaigns(1))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchCampaign")
+                    .withArgs(1);
+            });
+        });
+    });
+});
@@ -2,7 +2,8 @@ import { ethers } from "hardhat";
 
 export const ONE_DAY = 86400;
 export const ONE_YEAR = ONE_DAY * 365;
-export const COOLING_PERIOD = ONE_DAY * 10;
+export const MAX_COOLING_PERIOD = ONE_DAY * 365;
+export const MAX_LOCK_PERIOD = ONE_DAY * 365;
 
 export const Ten = ethers.BigNumber.from(10);
 export const RATE_PRECISION = Ten.pow(18);
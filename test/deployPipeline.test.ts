@@ -0,0 +1,299 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { config } from "../config";
+import { readDeployment } from "../scripts/deployments";
+import {
+    DeployAction,
+    DeployConfig,
+    deployStaking,
+    retryWithBackoff,
+} from "../scripts/deployPipeline";
+import { ONE_DAY } from "./constants";
+
+async function prepareEnv() {
+    const [deployer, manager, multisig] = await ethers.getSigners();
+
+    const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+    const erc20Inst = await ERC20TestFactory.deploy();
+    const donatedTokens = ethers.utils.parseUnits("1000", await erc20Inst.decimals());
+    await erc20Inst.mint(donatedTokens);
+
+    const actions: DeployAction[] = [
+        { type: "grantRole", role: "MANAGER_ROLE", account: manager.address },
+        { type: "donate", amount: donatedTokens },
+        { type: "transferAdmin", account: multisig.address },
+    ];
+    const deployConfig: DeployConfig = {
+        ...config.deploy,
+        token: { ...config.deploy.token, [hre.network.name]: erc20Inst.address },
+        timelock: { ...config.deploy.timelock, isEnabled: false },
+        actions,
+    };
+
+    return {
+        deployer,
+        manager,
+        multisig,
+        erc20Inst,
+        donatedTokens,
+        deployConfig,
+    };
+}
+
+function makeOptions() {
+    return { deploymentsDir: fs.mkdtempSync(path.join(os.tmpdir(), "deployments-")) };
+}
+
+describe("Deployment pipeline", () => {
+    const log = console.log;
+
+    before(() => {
+        console.log = () => undefined;
+    });
+
+    after(() => {
+        console.log = log;
+    });
+
+    describe("{deployStaking} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+            const options = makeOptions();
+
+            const { staking } = await deployStaking(hre, env.deployConfig, options);
+
+            const deployment = readDeployment(hre.network.name, options.deploymentsDir);
+            expect(deployment?.chainId).equals(hre.network.config.chainId);
+            const record = deployment?.contracts.AtomicStaking;
+            expect(record?.address).equals(staking.address);
+            expect(record?.args).deep.equals([
+                env.erc20Inst.address,
+                env.deployConfig.minStakeAmount.toString(),
+                env.deployConfig.apr,
+                env.deployConfig.coolingPeriod,
+            ]);
+            expect(record?.libraries.LockTiers).equals(deployment?.contracts.LockTiers.address);
+            const receipt = await ethers.provider.getTransactionReceipt(record!.transactionHash);
+            expect(receipt.contractAddress).equals(staking.address);
+            expect(receipt.blockNumber).equals(record?.blockNumber);
+            expect(await staking.receiptToken()).equals(
+                deployment?.contracts.StakingReceiptToken.address
+            );
+
+            // the setup and the actions
+            expect(await staking.changeDelay()).equals(env.deployConfig.changeDelay);
+            expect(await staking.solvencyRunway()).equals(env.deployConfig.solvency.runway);
+            expect(await staking.hasRole(await staking.MANAGER_ROLE(), env.manager.address)).true;
+            expect(await env.erc20Inst.balanceOf(staking.address)).equals(env.donatedTokens);
+            expect((await staking.pendingDefaultAdmin()).newAdmin).equals(env.multisig.address);
+            expect(Object.keys(deployment?.actions ?? {})).lengthOf(3);
+        });
+
+        it("Should skip the deployment when nothing changed", async () => {
+            const env = await loadFixture(prepareEnv);
+            const options = makeOptions();
+
+            const { staking } = await deployStaking(hre, env.deployConfig, options);
+            const blockNumber = await ethers.provider.getBlockNumber();
+
+            const { staking: stakingAfterRerun } = await deployStaking(
+                hre,
+                env.deployConfig,
+                options
+            );
+            expect(stakingAfterRerun.address).equals(staking.address);
+            expect(await ethers.provider.getBlockNumber()).equals(blockNumber);
+        });
+
+        it("Should redeploy only the changed contracts", async () => {
+            const env = await loadFixture(prepareEnv);
+            const options = makeOptions();
+
+            await deployStaking(hre, env.deployConfig, options);
+            const deployment = readDeployment(hre.network.name, options.deploymentsDir);
+
+            // the actions are done again for the new staking
+            await env.erc20Inst.mint(env.donatedTokens);
+            const newApr = env.deployConfig.apr + 1;
+            const { staking } = await deployStaking(
+                hre,
+                { ...env.deployConfig, apr: newApr },
+                options
+            );
+            const newDeployment = readDeployment(hre.network.name, options.deploymentsDir);
+            expect(staking.address).not.equals(deployment?.contracts.AtomicStaking.address);
+            expect(await staking.apr()).equals(newApr);
+            expect(await staking.hasRole(await staking.MANAGER_ROLE(), env.manager.address)).true;
+            expect(newDeployment?.contracts.LockTiers).deep.equals(deployment?.contracts.LockTiers);
+            // the receipt token is bound to the staking
+            expect(newDeployment?.contracts.StakingReceiptToken.address).not.equals(
+                deployment?.contracts.StakingReceiptToken.address
+            );
+        });
+
+        it("Should finish the admin renouncement after the change delay", async () => {
+            const env = await loadFixture(prepareEnv);
+            const options = makeOptions();
+
+            const deployConfig: DeployConfig = {
+                ...env.deployConfig,
+                actions: [{ type: "renounceAdmin" }],
+            };
+            const { staking } = await deployStaking(hre, deployConfig, options);
+            expect(await staking.defaultAdmin()).equals(env.deployer.address);
+            expect(readDeployment(hre.network.name, options.deploymentsDir)?.actions).deep.equals(
+                {}
+            );
+
+            await time.increase(deployConfig.changeDelay);
+            await deployStaking(hre, deployConfig, options);
+            expect(await staking.defaultAdmin()).equals(ethers.constants.AddressZero);
+        });
+
+        it("Should make the TimelockController the admin", async () => {
+            const env = await loadFixture(prepareEnv);
+            const options = makeOptions();
+
+            const deployConfig: DeployConfig = {
+                ...env.deployConfig,
+                timelock: { ...env.deployConfig.timelock, isEnabled: true },
+                actions: [],
+            };
+            const { staking, deployment } = await deployStaking(hre, deployConfig, options);
+            const timelockAddress = deployment.contracts.TimelockController.address;
+            // the transfer of the admin role takes at least a day
+            expect(await staking.defaultAdmin()).equals(env.deployer.address);
+            expect((await staking.pendingDefaultAdmin()).newAdmin).equals(timelockAddress);
+
+            await time.increase(ONE_DAY);
+            await deployStaking(hre, deployConfig, options);
+            expect(await staking.defaultAdmin()).equals(timelockAddress);
+            expect(await staking.changeDelay()).equals(deployConfig.changeDelay);
+
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await deployStaking(hre, deployConfig, options);
+            expect(await ethers.provider.getBlockNumber()).equals(blockNumber);
+        });
+
+        it("Should finish the transfer to the TimelockController after a failure", async () => {
+            const env = await loadFixture(prepareEnv);
+            const options = makeOptions();
+
+            const deployConfig: DeployConfig = {
+                ...env.deployConfig,
+                timelock: { ...env.deployConfig.timelock, isEnabled: true },
+                actions: [],
+            };
+            await deployStaking(hre, deployConfig, options);
+            await time.increase(ONE_DAY);
+
+            // the batch is scheduled, but its execution fails
+            const TimelockFactory = await ethers.getContractFactory("TimelockController");
+            const executeBatchSighash = TimelockFactory.interface.getSighash("executeBatch");
+            const provider = hre.network.provider;
+            const send = provider.send;
+            provider.send = (method: string, params?: Array<{ data?: string }>) => {
+                if (
+                    method == "eth_sendTransaction" &&
+                    params?.[0].data?.startsWith(executeBatchSighash)
+                ) {
+                    return Promise.reject(new Error("executeBatch failed"));
+                }
+                return send.call(provider, method, params);
+            };
+            const error = await deployStaking(hre, deployConfig, options)
+                .catch((error: unknown) => error)
+                .finally(() => {
+                    provider.send = send;
+                });
+            if (!(error instanceof Error)) {
+                expect.fail("deployStaking didn't fail");
+            }
+            expect(error.message).equals("executeBatch failed");
+
+            const failed = readDeployment(hre.network.name, options.deploymentsDir);
+            expect(failed?.actions).have.property("TimelockController:scheduleBatch");
+            expect(failed?.actions).not.have.property("TimelockController:executeBatch");
+
+            const { staking, deployment } = await deployStaking(hre, deployConfig, options);
+            const timelock = await ethers.getContractAt(
+                "TimelockController",
+                deployment.contracts.TimelockController.address
+            );
+            expect(await staking.defaultAdmin()).equals(timelock.address);
+            expect(await staking.changeDelay()).equals(deployConfig.changeDelay);
+            expect(await timelock.getMinDelay()).equals(deployConfig.timelock.minDelay);
+            expect(
+                await timelock.hasRole(await timelock.TIMELOCK_ADMIN_ROLE(), env.deployer.address)
+            ).false;
+            expect(deployment.actions).have.property("TimelockController:executeBatch");
+            expect(deployment.actions).have.property("TimelockController:handOver");
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when there is no token address", async () => {
+                const env = await loadFixture(prepareEnv);
+                const options = makeOptions();
+
+                const deployConfig = { ...env.deployConfig, token: config.deploy.token };
+                const error = await deployStaking(hre, deployConfig, options).catch(
+                    (error) => error
+                );
+                expect(error.message).equals(
+                    `No token address in the config for ${hre.network.name}`
+                );
+            });
+
+            it("Should revert when the deployments file is for another chain", async () => {
+                const env = await loadFixture(prepareEnv);
+                const options = makeOptions();
+
+                fs.writeFileSync(
+                    path.join(options.deploymentsDir, `${hre.network.name}.json`),
+                    JSON.stringify({ network: hre.network.name, chainId: 1, contracts: {} })
+                );
+                const error = await deployStaking(hre, env.deployConfig, options).catch(
+                    (error) => error
+                );
+                expect(error.message).contains("is for the chain 1");
+            });
+        });
+    });
+
+    describe("{retryWithBackoff} function", () => {
+        it("Test", async () => {
+            let calls = 0;
+            const result = await retryWithBackoff(
+                async () => {
+                    calls++;
+                    if (calls < 3) {
+                        throw new Error("Not indexed yet");
+                    }
+                    return calls;
+                },
+                3,
+                1
+            );
+            expect(result).equals(3);
+        });
+
+        it("Should rethrow the error of the last attempt", async () => {
+            let calls = 0;
+            const error = await retryWithBackoff(
+                async () => {
+                    calls++;
+                    throw new Error(`Attempt ${calls}`);
+                },
+                2,
+                1
+            ).catch((error) => error);
+            expect(error.message).equals("Attempt 2");
+            expect(calls).equals(2);
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { config } from "../config";
+import { DeployConfig, deployStaking } from "../scripts/deployPipeline";
+import {
+    checkDeployment,
+    expectedStateFromConfig,
+    formatReport,
+    getRoleMembers,
+} from "../scripts/deploymentChecker";
+
+async function prepareEnv() {
+    const [deployer, manager, multisig, bob] = await ethers.getSigners();
+
+    const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+    const erc20Inst = await ERC20TestFactory.deploy();
+
+    const deployConfig: DeployConfig = {
+        ...config.deploy,
+        token: { ...config.deploy.token, [hre.network.name]: erc20Inst.address },
+        tokenDecimals: await erc20Inst.decimals(),
+        timelock: { ...config.deploy.timelock, isEnabled: false },
+        actions: [{ type: "grantRole", role: "MANAGER_ROLE", account: manager.address }],
+    };
+    const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+
+    console.log = () => undefined;
+    const { deployment, staking } = await deployStaking(hre, deployConfig, { deploymentsDir });
+    console.log = log;
+
+    return {
+        deployer,
+        manager,
+        multisig,
+        bob,
+        erc20Inst,
+        deployConfig,
+        deploymentsDir,
+        deployment,
+        staking,
+        expected: expectedStateFromConfig(deployConfig, deployment, deployer.address),
+    };
+}
+
+const log = console.log;
+
+describe("Deployment checker", () => {
+    describe("{checkDeployment} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const results = await checkDeployment(hre, env.deployment, env.expected);
+            expect(results.filter((result) => !result.isPassed)).deep.equals([]);
+            expect(results.map((result) => result.name)).includes("apr");
+            expect(results.map((result) => result.name)).includes("MANAGER_ROLE members");
+            expect(
+                results.filter((result) =>
+                    result.name.endsWith("bytecode at " + env.staking.address)
+                )
+            ).lengthOf(1);
+        });
+
+        it("Should check the staking behind a proxy", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const deployConfig = { ...env.deployConfig, isUpgradeable: true };
+            const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+            console.log = () => undefined;
+            const { deployment } = await deployStaking(hre, deployConfig, { deploymentsDir });
+            console.log = log;
+
+            const expected = expectedStateFromConfig(
+                deployConfig,
+                deployment,
+                env.deployer.address
+            );
+            const results = await checkDeployment(hre, deployment, expected);
+            expect(results.filter((result) => !result.isPassed)).deep.equals([]);
+            expect(results.map((result) => result.name)).includes(
+                `TransparentUpgradeableProxy bytecode at ${deployment.contracts.AtomicStaking.address}`
+            );
+        });
+
+        it("Should fail when a parameter differs", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const results = await checkDeployment(hre, env.deployment, {
+                ...env.expected,
+                parameters: { ...env.expected.parameters, apr: env.deployConfig.apr + 1 },
+            });
+            const aprResult = results.find((result) => result.name == "apr");
+            expect(aprResult?.isPassed).false;
+            expect(aprResult?.actual).equals(env.deployConfig.apr.toString());
+        });
+
+        it("Should fail when the token differs", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const results = await checkDeployment(hre, env.deployment, {
+                ...env.expected,
+                token: env.bob.address,
+                tokenDecimals: 6,
+            });
+            const failedNames = results
+                .filter((result) => !result.isPassed)
+                .map((result) => result.name);
+            expect(failedNames).deep.equals(["TOKEN", "token decimals"]);
+        });
+
+        it("Should fail when an unexpected account holds a role", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            await env.staking.grantRole(await env.staking.MANAGER_ROLE(), env.bob.address);
+
+            const results = await checkDeployment(hre, env.deployment, env.expected);
+            const managerResult = results.find((result) => result.name == "MANAGER_ROLE members");
+            expect(managerResult?.isPassed).false;
+        });
+
+        it("Should fail when the deployer is still the admin", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const deployConfig = { ...env.deployConfig, isDeployerAdminAllowed: false };
+            const expected = expectedStateFromConfig(
+                deployConfig,
+                env.deployment,
+                env.deployer.address
+            );
+            const results = await checkDeployment(hre, env.deployment, expected);
+            const failedNames = results
+                .filter((result) => !result.isPassed)
+                .map((result) => result.name);
+            expect(failedNames).deep.equals([`${env.deployer.address} isn't admin`]);
+        });
+
+        it("Should fail when the bytecode differs", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const deployment = {
+                ...env.deployment,
+                contracts: {
+                    ...env.deployment.contracts,
+                    Payouts: env.deployment.contracts.Withdrawals,
+                },
+            };
+            const results = await checkDeployment(hre, deployment, env.expected);
+            const failedNames = results
+                .filter((result) => !result.isPassed)
+                .map((result) => result.name);
+            expect(failedNames).deep.equals([
+                `Payouts bytecode at ${env.deployment.contracts.Withdrawals.address}`,
+            ]);
+        });
+    });
+
+    describe("{getRoleMembers} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const PAUSER_ROLE = await env.staking.PAUSER_ROLE();
+            await env.staking.grantRole(PAUSER_ROLE, env.bob.address);
+            await env.staking.grantRole(PAUSER_ROLE, env.multisig.address);
+            await env.staking.revokeRole(PAUSER_ROLE, env.bob.address);
+
+            const members = await getRoleMembers(env.staking, 0);
+            expect(members.get(PAUSER_ROLE)).deep.equals([env.multisig.address]);
+            expect(members.get(await env.staking.DEFAULT_ADMIN_ROLE())).deep.equals([
+                env.deployer.address,
+            ]);
+        });
+    });
+
+    describe("{formatReport} function", () => {
+        it("Test", async () => {
+            const report = formatReport([
+                { name: "apr", isPassed: true, expected: "2000", actual: "2000" },
+                { name: "TOKEN", isPassed: false, expected: "0x01", actual: "0x02" },
+            ]);
+            expect(report).equals(
+                "PASS  apr: 2000\nFAIL  TOKEN: expected 0x01, got 0x02\n1 passed, 1 failed"
+            );
+        });
+    });
+
+    describe("{staking:check} task", () => {
+        it("Should throw when the check fails", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            // the config has no token for the Hardhat network
+            console.log = () => undefined;
+            const error = await hre
+                .run("staking:check", { deploymentsDir: env.deploymentsDir })
+                .catch((error) => error);
+            console.log = log;
+            expect(error.message).contains("Deployment check failed");
+        });
+    });
+});
@@ -0,0 +1,443 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnv, prepareEnvWithAliceStake } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+const MAX_EXTRA_REWARD_TOKENS = 8;
+
+async function prepareEnvWithExtraToken() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+    const extraTokenInst = await ERC20TestFactory.deploy();
+
+    // 0.1 token per second
+    const extraRewardRate = env.oneToken.div(10);
+    await env.stakingInst
+        .connect(env.manager)
+        .addExtraRewardToken(extraTokenInst.address, extraRewardRate);
+
+    const donatedExtraTokens = env.oneToken.mul(100_000);
+    await extraTokenInst.mint(donatedExtraTokens);
+    await extraTokenInst.approve(env.stakingInst.address, donatedExtraTokens);
+    const tx = await env.stakingInst.donateExtraRewards(extraTokenInst.address, donatedExtraTokens);
+    // the emission starts when the pool is funded
+    const fundTimestamp = (await ethers.provider.getBlock((await tx.wait()).blockNumber)).timestamp;
+
+    return {
+        ...env,
+        extraTokenInst,
+        extraRewardRate,
+        fundTimestamp,
+        donatedExtraTokens,
+    };
+}
+
+describe("Extra reward tokens", () => {
+    describe("{addExtraRewardToken} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+            const extraTokenInst = await ERC20TestFactory.deploy();
+
+            const rewardRate = env.oneToken;
+            await expect(
+                env.stakingInst
+                    .connect(env.manager)
+                    .addExtraRewardToken(extraTokenInst.address, rewardRate)
+            )
+                .emit(env.stakingInst, "ExtraRewardTokenAdded")
+                .withArgs(extraTokenInst.address, rewardRate);
+
+            expect(await env.stakingInst.extraRewardTokens()).deep.equal([extraTokenInst.address]);
+            const state = await env.stakingInst.extraRewardStates(extraTokenInst.address);
+            expect(state.rewardRate).equals(rewardRate);
+            expect(state.ratePerStaking).equals(0);
+            expect(state.lastUpdateTimestamp).equals(await time.latest());
+            expect(state.owedRewards).equals(0);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .addExtraRewardToken(env.erc20Inst.address, env.oneToken)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+
+            it("Should revert when token is zero address", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .addExtraRewardToken(ethers.constants.AddressZero, env.oneToken)
+                ).revertedWithCustomError(env.stakingInst, "AddressZero");
+            });
+
+            it("Should revert when token is the staked token or already added", async () => {
+                const env = await loadFixture(prepareEnvWithExtraToken);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .addExtraRewardToken(env.erc20Inst.address, env.oneToken)
+                )
+                    .revertedWithCustomError(env.stakingInst, "InvalidExtraRewardToken")
+                    .withArgs(env.erc20Inst.address);
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .addExtraRewardToken(env.extraTokenInst.address, env.oneToken)
+                )
+                    .revertedWithCustomError(env.stakingInst, "InvalidExtraRewardToken")
+                    .withArgs(env.extraTokenInst.address);
+            });
+
+            it("Should revert when there are too many tokens", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+                for (let i = 0; i < MAX_EXTRA_REWARD_TOKENS; ++i) {
+                    const extraTokenInst = await ERC20TestFactory.deploy();
+                    await env.stakingInst
+                        .connect(env.manager)
+                        .addExtraRewardToken(extraTokenInst.address, env.oneToken);
+                }
+
+                const extraTokenInst = await ERC20TestFactory.deploy();
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .addExtraRewardToken(extraTokenInst.address, env.oneToken)
+                )
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(MAX_EXTRA_REWARD_TOKENS + 1, MAX_EXTRA_REWARD_TOKENS);
+            });
+        });
+    });
+
+    describe("{setExtraRewardRate} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            const changeTimestamp = env.fundTimestamp + ONE_DAY;
+            const newRate = env.extraRewardRate.mul(2);
+            await time.setNextBlockTimestamp(changeTimestamp);
+            await expect(
+                env.stakingInst
+                    .connect(env.manager)
+                    .setExtraRewardRate(env.extraTokenInst.address, newRate)
+            )
+                .emit(env.stakingInst, "ExtraRewardRateChanged")
+                .withArgs(env.extraTokenInst.address, env.extraRewardRate, newRate);
+
+            // alice is the only flexible staker
+            await time.setNextBlockTimestamp(changeTimestamp + ONE_DAY);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.alice,
+                env.extraRewardRate.mul(ONE_DAY).add(newRate.mul(ONE_DAY))
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithExtraToken);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .setExtraRewardRate(env.extraTokenInst.address, 0)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+
+            it("Should revert when token isn't added", async () => {
+                const env = await loadFixture(prepareEnvWithExtraToken);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .setExtraRewardRate(env.erc20Inst.address, 0)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NoSuchExtraRewardToken")
+                    .withArgs(env.erc20Inst.address);
+            });
+
+            it("Should revert when value is the same", async () => {
+                const env = await loadFixture(prepareEnvWithExtraToken);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .setExtraRewardRate(env.extraTokenInst.address, env.extraRewardRate)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{donateExtraRewards} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            const amount = env.oneToken.mul(10);
+            await env.extraTokenInst.connect(env.bob).mint(amount);
+            await env.extraTokenInst.connect(env.bob).approve(env.stakingInst.address, amount);
+
+            const tx = env.stakingInst
+                .connect(env.bob)
+                .donateExtraRewards(env.extraTokenInst.address, amount);
+            await expect(tx)
+                .emit(env.stakingInst, "ExtraRewardsDonated")
+                .withArgs(env.bob.address, env.extraTokenInst.address, amount);
+            await expect(tx).changeTokenBalances(
+                env.extraTokenInst,
+                [env.bob, env.stakingInst],
+                [amount.mul(-1), amount]
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when token isn't added", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst.donateExtraRewards(env.erc20Inst.address, env.oneToken)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NoSuchExtraRewardToken")
+                    .withArgs(env.erc20Inst.address);
+            });
+        });
+    });
+
+    describe("{claimRewards} function", () => {
+        it("Pays the staked and the extra reward tokens", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            const extraRewards = env.extraRewardRate.mul(ONE_DAY);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            await mine();
+            expect(
+                await env.stakingInst.availableExtraRewardsToClaim(
+                    env.extraTokenInst.address,
+                    env.alice.address
+                )
+            ).equals(extraRewards);
+
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            const tx = env.stakingInst.connect(env.alice).claimRewards();
+            await expect(tx)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .emit(env.stakingInst, "ExtraRewardsClaimed")
+                .withArgs(env.alice.address, env.extraTokenInst.address, extraRewards);
+            await expect(tx).changeTokenBalance(env.extraTokenInst, env.alice, extraRewards);
+
+            expect(
+                await env.stakingInst.availableExtraRewardsToClaim(
+                    env.extraTokenInst.address,
+                    env.alice.address
+                )
+            ).equals(0);
+        });
+
+        it("Splits the emission between the flexible stakes", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            // bob stakes 3 times more than alice
+            const bobAmountToStake = env.aliceAmountToStake.mul(3);
+            await env.erc20Inst.connect(env.bob).mint(bobAmountToStake);
+            await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, bobAmountToStake);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            await env.stakingInst.connect(env.bob).stake(bobAmountToStake);
+
+            // a locked position doesn't earn extra rewards
+            await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY, 200_00);
+            await env.erc20Inst.connect(env.deployer).mint(env.aliceAmountToStake);
+            await env.erc20Inst.approve(env.stakingInst.address, env.aliceAmountToStake);
+            await env.stakingInst.stakeLocked(env.aliceAmountToStake, 0);
+
+            const emission = env.extraRewardRate.mul(ONE_DAY);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY * 2);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.alice,
+                emission.add(emission.div(4))
+            );
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY * 2 + 1);
+            await expect(env.stakingInst.connect(env.bob).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.bob,
+                emission.mul(3).div(4).add(env.extraRewardRate.mul(3).div(4))
+            );
+        });
+
+        it("Rewards go to the payout recipient", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            await env.stakingInst.connect(env.alice).setPayoutRecipient(env.bob.address);
+            await time.increase(ONE_DAY);
+
+            await env.stakingInst.connect(env.alice).claimRewards();
+            expect(await env.extraTokenInst.balanceOf(env.alice.address)).equals(0);
+            expect(await env.extraTokenInst.balanceOf(env.bob.address)).greaterThan(0);
+        });
+
+        it("Stops the emission when the pool is empty", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            // only the emitted rewards are left in the pool
+            const owedRewards = env.extraRewardRate.mul(ONE_DAY);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            await env.stakingInst.receiveExcessiveExtraRewards(
+                env.extraTokenInst.address,
+                ethers.constants.MaxUint256
+            );
+            expect(await env.extraTokenInst.balanceOf(env.stakingInst.address)).equals(owedRewards);
+
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY * 2);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.alice,
+                owedRewards
+            );
+            const state = await env.stakingInst.extraRewardStates(env.extraTokenInst.address);
+            expect(state.owedRewards).equals(0);
+
+            // the emission resumes from the donation
+            const donation = env.extraRewardRate.mul(ONE_DAY);
+            await env.extraTokenInst.mint(donation);
+            await env.extraTokenInst.approve(env.stakingInst.address, donation);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY * 3);
+            await env.stakingInst.donateExtraRewards(env.extraTokenInst.address, donation);
+
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY * 3 + 100);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.alice,
+                env.extraRewardRate.mul(100)
+            );
+        });
+
+        it("Caps the emission by the pool", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            const pool = env.extraRewardRate.mul(ONE_DAY);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            await env.stakingInst.receiveExcessiveExtraRewards(
+                env.extraTokenInst.address,
+                env.donatedExtraTokens.sub(pool.mul(2))
+            );
+
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY * 10);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.alice,
+                pool.mul(2)
+            );
+            expect(await env.extraTokenInst.balanceOf(env.stakingInst.address)).equals(0);
+            const state = await env.stakingInst.extraRewardStates(env.extraTokenInst.address);
+            expect(state.owedRewards).equals(0);
+        });
+    });
+
+    describe("{receiveExcessiveExtraRewards} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            const owedRewards = env.extraRewardRate.mul(ONE_DAY);
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            const tx = env.stakingInst.receiveExcessiveExtraRewards(
+                env.extraTokenInst.address,
+                ethers.constants.MaxUint256
+            );
+            await expect(tx)
+                .emit(env.stakingInst, "ExcessiveExtraRewardsWithdrawn")
+                .withArgs(
+                    env.deployer.address,
+                    env.extraTokenInst.address,
+                    env.donatedExtraTokens.sub(owedRewards)
+                );
+            await expect(tx).changeTokenBalance(
+                env.extraTokenInst,
+                env.deployer,
+                env.donatedExtraTokens.sub(owedRewards)
+            );
+
+            // the owed rewards are still claimable
+            await time.setNextBlockTimestamp(env.fundTimestamp + ONE_DAY);
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).changeTokenBalance(
+                env.extraTokenInst,
+                env.alice,
+                owedRewards
+            );
+        });
+
+        it("Doesn't affect the excessive balance of the staked token", async () => {
+            const env = await loadFixture(prepareEnvWithExtraToken);
+
+            const totalBalance = await env.erc20Inst.balanceOf(env.stakingInst.address);
+            const totalStaked = await env.stakingInst.totalStaked();
+            await expect(
+                env.stakingInst.receiveExcessiveBalance(ethers.constants.MaxUint256)
+            ).changeTokenBalance(env.erc20Inst, env.deployer, totalBalance.sub(totalStaked));
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithExtraToken);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .receiveExcessiveExtraRewards(env.extraTokenInst.address, 1)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when token isn't added", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(env.stakingInst.receiveExcessiveExtraRewards(env.erc20Inst.address, 1))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchExtraRewardToken")
+                    .withArgs(env.erc20Inst.address);
+            });
+        });
+    });
+
+    describe("{availableExtraRewardsToClaim} function", () => {
+        describe("Reverts", () => {
+            it("Should revert when token isn't added", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst.availableExtraRewardsToClaim(
+                        env.erc20Inst.address,
+                        env.alice.address
+                    )
+                )
+                    .revertedWithCustomError(env.stakingInst, "NoSuchExtraRewardToken")
+                    .withArgs(env.erc20Inst.address);
+            });
+        });
+    });
+});
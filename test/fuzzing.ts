@@ -0,0 +1,502 @@
+import { BigNumber, ContractReceipt, ContractTransaction, constants, utils } from "ethers";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithoutDonation } from "./helpers";
+import { ONE_DAY, PERCENT_DENOMINATOR } from "./constants";
+
+import { StakingModel, loadStakingModel } from "../scripts/rewardProjection";
+
+/**
+ * A step of a fuzzed sequence. Amounts are in whole tokens, so a printed sequence
+ * can be read and pasted back as it is.
+ */
+export type FuzzAction =
+    | { type: "stake"; actor: number; amount: string }
+    | { type: "requestWithdraw"; actor: number; amount: string }
+    /** `index` is taken modulo the number of the pending requests of the actor */
+    | { type: "finalizeWithdraw"; actor: number; index: number }
+    | { type: "claimRewards"; actor: number }
+    | { type: "donateTokensToRewards"; amount: string }
+    | { type: "setApr"; apr: number }
+    | { type: "receiveExcessiveBalance"; amount: string }
+    | { type: "wait"; seconds: number };
+
+export interface PendingWithdrawal {
+    withdrawId: BigNumber;
+    amount: BigNumber;
+    unlockTimestamp: number;
+}
+
+/** The off-chain expectation of the run, it is updated only by successful transactions. */
+export interface FuzzState {
+    model: StakingModel;
+    users: string[];
+    now: number;
+    /** Pending withdrawal requests of the actors in the order of their creation */
+    withdrawals: PendingWithdrawal[][];
+    /** Rewards transferred to the actors according to the `RewardsClaimed` events */
+    paidRewards: BigNumber[];
+    /** Rewards transferred to the actors according to the model */
+    modelPaidRewards: BigNumber[];
+}
+
+/** The on-chain state which the invariants are checked against after every step. */
+export interface FuzzSnapshot {
+    balance: BigNumber;
+    totalStaked: BigNumber;
+    stakeAmounts: BigNumber[];
+    contractDeptsToUsers: BigNumber[];
+    queuedWithdrawals: BigNumber[];
+}
+
+export interface Invariant {
+    name: string;
+    /** Returns the description of the violation or `undefined` if the invariant holds. */
+    check(snapshot: FuzzSnapshot, state: FuzzState): string | undefined;
+}
+
+export class InvariantViolation extends Error {
+    constructor(readonly invariant: string, readonly step: number, readonly details: string) {
+        super(`Invariant "${invariant}" is violated at step ${step}: ${details}`);
+        this.name = "InvariantViolation";
+    }
+}
+
+export type FuzzEnv = Awaited<ReturnType<typeof prepareFuzzEnv>>;
+
+export const ACTORS_COUNT = 3;
+
+// checked inside of the `receiveExcessiveBalance` step, as it needs the state before the call
+const PRINCIPAL_INVARIANT = "receiveExcessiveBalance never touches the principal";
+// a transaction reverted or succeeded against the prediction of the model
+const MODEL_INVARIANT = "transactions follow the model";
+
+export const INVARIANTS: Invariant[] = [
+    {
+        name: "balance covers totalStaked",
+        check: (snapshot) =>
+            snapshot.balance.lt(snapshot.totalStaked)
+                ? `balance ${snapshot.balance} < totalStaked ${snapshot.totalStaked}`
+                : undefined,
+    },
+    {
+        name: "totalStaked is the sum of stakes and queued withdrawals",
+        check: (snapshot) => {
+            const sum = [...snapshot.stakeAmounts, ...snapshot.queuedWithdrawals].reduce(
+                (sum, amount) => sum.add(amount),
+                BigNumber.from(0)
+            );
+            return sum.eq(snapshot.totalStaked)
+                ? undefined
+                : `totalStaked ${snapshot.totalStaked} != sum ${sum}`;
+        },
+    },
+    {
+        name: "state follows the model",
+        check: (snapshot, state) => {
+            const model = state.model.state;
+            if (!snapshot.totalStaked.eq(model.totalStaked)) {
+                return `totalStaked ${snapshot.totalStaked} != model ${model.totalStaked}`;
+            }
+            if (!snapshot.balance.eq(model.balance)) {
+                return `balance ${snapshot.balance} != model ${model.balance}`;
+            }
+            return undefined;
+        },
+    },
+    {
+        name: "paid rewards and debt follow the model",
+        check: (snapshot, state) => {
+            for (let actor = 0; actor < snapshot.stakeAmounts.length; ++actor) {
+                const user = state.users[actor];
+                const actual = state.paidRewards[actor].add(snapshot.contractDeptsToUsers[actor]);
+                const expected = state.modelPaidRewards[actor].add(
+                    state.model.stakeState(user).contractDeptToUser
+                );
+                if (!actual.eq(expected)) {
+                    return `actor ${actor}: paid + debt ${actual} != model ${expected}`;
+                }
+            }
+            return undefined;
+        },
+    },
+];
+
+/** Actors and the deployer have unlimited tokens and allowances, so transfers never fail. */
+export async function prepareFuzzEnv() {
+    const prevEnv = await loadFixture(prepareEnvWithoutDonation);
+
+    const signers = await ethers.getSigners();
+    const actors = [prevEnv.alice, prevEnv.bob, signers[4]].slice(0, ACTORS_COUNT);
+    const supply = prevEnv.oneToken.mul(1_000_000_000);
+    for (const account of [...actors, prevEnv.deployer]) {
+        await prevEnv.erc20Inst.connect(account).mint(supply);
+        await prevEnv.erc20Inst
+            .connect(account)
+            .approve(prevEnv.stakingInst.address, constants.MaxUint256);
+    }
+
+    return {
+        ...prevEnv,
+
+        actors,
+        decimals: await prevEnv.erc20Inst.decimals(),
+    };
+}
+
+// Deterministic PRNG to make failing sequences reproducible
+export function mulberry32(seed: number) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Amounts and periods are picked around the minimum stake and the cooling period. */
+export function generateSequence(random: () => number, length: number): FuzzAction[] {
+    const randomInt = (max: number) => Math.floor(random() * max);
+    const randomAmount = (maxTokens: number) =>
+        random() < 0.2
+            ? `${randomInt(maxTokens)}.${String(randomInt(1_000_000)).padStart(6, "0")}`
+            : String(1 + randomInt(maxTokens));
+
+    const actions: FuzzAction[] = [];
+    for (let i = 0; i < length; ++i) {
+        const actor = randomInt(ACTORS_COUNT);
+        const operation = random();
+
+        if (operation < 0.2) {
+            actions.push({ type: "stake", actor, amount: randomAmount(1_000) });
+        } else if (operation < 0.33) {
+            actions.push({ type: "requestWithdraw", actor, amount: randomAmount(600) });
+        } else if (operation < 0.46) {
+            actions.push({ type: "finalizeWithdraw", actor, index: randomInt(4) });
+        } else if (operation < 0.56) {
+            actions.push({ type: "claimRewards", actor });
+        } else if (operation < 0.64) {
+            actions.push({ type: "donateTokensToRewards", amount: randomAmount(200) });
+        } else if (operation < 0.7) {
+            actions.push({ type: "setApr", apr: randomInt(PERCENT_DENOMINATOR * 1.1) });
+        } else if (operation < 0.77) {
+            actions.push({ type: "receiveExcessiveBalance", amount: randomAmount(300) });
+        } else {
+            const maxPeriod =
+                random() < 0.5 ? ONE_DAY : random() < 0.7 ? ONE_DAY * 15 : ONE_DAY * 120;
+            actions.push({ type: "wait", seconds: 1 + randomInt(maxPeriod) });
+        }
+    }
+    return actions;
+}
+
+/**
+ * Runs the `actions` on a fresh staking and checks the `invariants` after every step.
+ * Returns the first violation, a revert that the model doesn't expect is a violation too.
+ */
+export async function runSequence(
+    actions: FuzzAction[],
+    invariants: Invariant[] = INVARIANTS
+): Promise<InvariantViolation | undefined> {
+    const env = await loadFixture(prepareFuzzEnv);
+    const users = env.actors.map((actor) => actor.address);
+    const state: FuzzState = {
+        model: await loadStakingModel(env.stakingInst, { users }),
+        users,
+        now: await time.latest(),
+        withdrawals: users.map(() => []),
+        paidRewards: users.map(() => BigNumber.from(0)),
+        modelPaidRewards: users.map(() => BigNumber.from(0)),
+    };
+
+    for (let step = 0; step < actions.length; ++step) {
+        try {
+            await executeAction(env, state, actions[step], step);
+
+            const snapshot = await takeSnapshot(env);
+            for (const invariant of invariants) {
+                const details = invariant.check(snapshot, state);
+                if (details !== undefined) {
+                    throw new InvariantViolation(invariant.name, step, details);
+                }
+            }
+        } catch (error) {
+            if (error instanceof InvariantViolation) {
+                return error;
+            }
+            throw error;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Looks for a shorter sequence with simpler values that still violates the same invariant:
+ * drops the steps after the violation, then chunks and single steps, then halves the values.
+ * `run` is called at most `maxRuns` times.
+ */
+export async function shrinkSequence(
+    actions: FuzzAction[],
+    violation: InvariantViolation,
+    run: (actions: FuzzAction[]) => Promise<InvariantViolation | undefined> = runSequence,
+    maxRuns = 150
+): Promise<{ actions: FuzzAction[]; violation: InvariantViolation }> {
+    let runsCount = 0;
+    let result = { actions: actions.slice(0, violation.step + 1), violation };
+
+    const tryCandidate = async (candidate: FuzzAction[]) => {
+        if (runsCount >= maxRuns) {
+            return false;
+        }
+        ++runsCount;
+        const candidateViolation = await run(candidate);
+        if (candidateViolation?.invariant != violation.invariant) {
+            return false;
+        }
+        result = {
+            actions: candidate.slice(0, candidateViolation.step + 1),
+            violation: candidateViolation,
+        };
+        return true;
+    };
+
+    for (
+        let chunk = Math.floor(result.actions.length / 2);
+        chunk >= 1;
+        chunk = Math.floor(chunk / 2)
+    ) {
+        for (let i = 0; i < result.actions.length; ) {
+            const candidate = [...result.actions.slice(0, i), ...result.actions.slice(i + chunk)];
+            if (candidate.length == 0 || !(await tryCandidate(candidate))) {
+                i += chunk;
+            }
+        }
+    }
+
+    let isShrunk = true;
+    while (isShrunk && runsCount < maxRuns) {
+        isShrunk = false;
+        for (let i = 0; i < result.actions.length; ++i) {
+            for (const simplified of simplifyAction(result.actions[i])) {
+                const candidate = [...result.actions];
+                candidate[i] = simplified;
+                if (await tryCandidate(candidate)) {
+                    isShrunk = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    return result;
+}
+
+/** Formats the `actions` as a JSON array, one action per line. */
+export function formatSequence(actions: FuzzAction[]): string {
+    return `[\n${actions.map((action) => `    ${JSON.stringify(action)}`).join(",\n")}\n]`;
+}
+
+export function formatReplay(
+    seed: number,
+    originalLength: number,
+    shrunk: { actions: FuzzAction[]; violation: InvariantViolation }
+): string {
+    return [
+        shrunk.violation.message,
+        `Seed ${seed}, rerun it with FUZZ_SEED=${seed} FUZZ_RUNS=1.`,
+        `Shrunk from ${originalLength} to ${shrunk.actions.length} actions, ` +
+            "replay them by adding to REGRESSIONS of test/invariants.test.ts:",
+        formatSequence(shrunk.actions),
+    ].join("\n");
+}
+
+async function executeAction(
+    env: FuzzEnv,
+    state: FuzzState,
+    action: FuzzAction,
+    step: number
+): Promise<void> {
+    if (action.type == "wait") {
+        state.now += action.seconds;
+        return;
+    }
+
+    const timestamp = state.now + 1;
+    const send = async (
+        expectedError: string | undefined,
+        transaction: () => Promise<ContractTransaction>
+    ): Promise<ContractReceipt | undefined> => {
+        await time.setNextBlockTimestamp(timestamp);
+        const result = await transaction()
+            .then((tx) => tx.wait())
+            .catch((error: Error) => error);
+
+        if (result instanceof Error) {
+            if (expectedError === undefined || !result.message.includes(expectedError)) {
+                throw new InvariantViolation(
+                    MODEL_INVARIANT,
+                    step,
+                    `${action.type} expected ${expectedError ?? "success"}, got ${result.message}`
+                );
+            }
+            return undefined;
+        }
+        if (expectedError !== undefined) {
+            throw new InvariantViolation(
+                MODEL_INVARIANT,
+                step,
+                `${action.type} expected ${expectedError}, got success`
+            );
+        }
+
+        state.now = timestamp;
+        for (const event of result.events ?? []) {
+            if (event.event == "RewardsClaimed") {
+                const actor = env.actors.findIndex((actor) => actor.address == event.args?.user);
+                state.paidRewards[actor] = state.paidRewards[actor].add(event.args?.amount);
+            }
+        }
+        return result;
+    };
+    const payModelRewards = (actor: number, amount: BigNumber) => {
+        state.modelPaidRewards[actor] = state.modelPaidRewards[actor].add(amount);
+    };
+
+    const { model } = state;
+    const staking = env.stakingInst;
+    const amount = "amount" in action ? utils.parseUnits(action.amount, env.decimals) : undefined;
+
+    if (action.type == "stake") {
+        const signer = env.actors[action.actor];
+        const error = amount!.lt(env.minStakeAmount) ? "LessThanMinAmount" : undefined;
+        if (await send(error, () => staking.connect(signer).stake(amount!))) {
+            payModelRewards(action.actor, model.stake(signer.address, amount!, timestamp));
+        }
+    } else if (action.type == "requestWithdraw") {
+        const signer = env.actors[action.actor];
+        const stakeAmount = model.stakeState(signer.address).stakeAmount;
+        const error = amount!.eq(0)
+            ? "ZeroValue"
+            : stakeAmount.lt(amount!)
+            ? "TooBigValue"
+            : undefined;
+        const receipt = await send(error, () => staking.connect(signer).requestWithdraw(amount!));
+        if (receipt) {
+            payModelRewards(
+                action.actor,
+                model.requestWithdraw(signer.address, amount!, timestamp)
+            );
+            const event = receipt.events?.find((event) => event.event == "WithdrawRequested");
+            state.withdrawals[action.actor].push({
+                withdrawId: event?.args?.withdrawId,
+                amount: amount!,
+                unlockTimestamp: timestamp + env.coolingPeriod,
+            });
+        }
+    } else if (action.type == "finalizeWithdraw") {
+        const withdrawals = state.withdrawals[action.actor];
+        if (withdrawals.length == 0) {
+            return;
+        }
+        const index = action.index % withdrawals.length;
+        const withdrawal = withdrawals[index];
+        const error =
+            withdrawal.unlockTimestamp > timestamp ? "WithdrawIdNotFinalizableYet" : undefined;
+        const signer = env.actors[action.actor];
+        if (
+            await send(error, () => staking.connect(signer).finalizeWithdraw(withdrawal.withdrawId))
+        ) {
+            model.finalizeWithdraw(withdrawal.amount);
+            withdrawals.splice(index, 1);
+        }
+    } else if (action.type == "claimRewards") {
+        const signer = env.actors[action.actor];
+        if (await send(undefined, () => staking.connect(signer).claimRewards())) {
+            payModelRewards(action.actor, model.claimRewards(signer.address, timestamp));
+        }
+    } else if (action.type == "donateTokensToRewards") {
+        if (await send(undefined, () => staking.donateTokensToRewards(amount!))) {
+            model.donateTokensToRewards(amount!);
+        }
+    } else if (action.type == "setApr") {
+        const error =
+            action.apr > PERCENT_DENOMINATOR
+                ? "TooBigValue"
+                : model.state.apr.eq(action.apr)
+                ? "TheSameValue"
+                : undefined;
+        if (await send(error, () => staking.connect(env.manager).setApr(action.apr))) {
+            model.setApr(action.apr, timestamp);
+        }
+    } else {
+        const totalStakedBefore = await staking.totalStaked();
+        const balanceBefore = await env.erc20Inst.balanceOf(staking.address);
+        await send(undefined, () => staking.receiveExcessiveBalance(amount!));
+        const expectedWithdrawn = model.receiveExcessiveBalance(amount!, timestamp);
+
+        const totalStaked = await staking.totalStaked();
+        const withdrawn = balanceBefore.sub(await env.erc20Inst.balanceOf(staking.address));
+        const excess = balanceBefore.gt(totalStakedBefore)
+            ? balanceBefore.sub(totalStakedBefore)
+            : BigNumber.from(0);
+        if (!totalStaked.eq(totalStakedBefore) || withdrawn.gt(excess)) {
+            throw new InvariantViolation(
+                PRINCIPAL_INVARIANT,
+                step,
+                `withdrawn ${withdrawn} with the excess ${excess}, ` +
+                    `totalStaked ${totalStakedBefore} -> ${totalStaked}`
+            );
+        }
+        if (!withdrawn.eq(expectedWithdrawn)) {
+            throw new InvariantViolation(
+                MODEL_INVARIANT,
+                step,
+                `receiveExcessiveBalance withdrew ${withdrawn}, model ${expectedWithdrawn}`
+            );
+        }
+    }
+}
+
+async function takeSnapshot(env: FuzzEnv): Promise<FuzzSnapshot> {
+    const staking = env.stakingInst;
+    const snapshot: FuzzSnapshot = {
+        balance: await env.erc20Inst.balanceOf(staking.address),
+        totalStaked: await staking.totalStaked(),
+        stakeAmounts: [],
+        contractDeptsToUsers: [],
+        queuedWithdrawals: [],
+    };
+
+    for (const actor of env.actors) {
+        const stakeState = await staking.stakeStates(actor.address);
+        snapshot.stakeAmounts.push(stakeState.stakeAmount);
+        snapshot.contractDeptsToUsers.push(stakeState.contractDeptToUser);
+
+        let queued = BigNumber.from(0);
+        for (const withdrawId of await staking.usersWithdrawIds(actor.address)) {
+            queued = queued.add((await staking.withdrawStates(withdrawId)).amount);
+        }
+        snapshot.queuedWithdrawals.push(queued);
+    }
+
+    return snapshot;
+}
+
+/** Simpler variants of the `action`, the simplest first. */
+function simplifyAction(action: FuzzAction): FuzzAction[] {
+    if ("amount" in action) {
+        const amount = Number(action.amount);
+        return [Math.floor(amount / 2), Math.floor(amount)]
+            .filter((simplified) => simplified > 0 && simplified < amount)
+            .map((simplified) => ({ ...action, amount: String(simplified) }));
+    }
+    if (action.type == "wait" && action.seconds > 1) {
+        return [{ ...action, seconds: Math.floor(action.seconds / 2) }];
+    }
+    if (action.type == "finalizeWithdraw" && action.index > 0) {
+        return [{ ...action, index: 0 }];
+    }
+    return [];
+}
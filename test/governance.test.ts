@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { deployReceiptToken, prepareEnv } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+import { signDelegation } from "../scripts/stakingSignatures";
+
+const VOTING_DELAY = 1;
+const VOTING_PERIOD = 10;
+
+const ProposalState = {
+    Active: 1,
+    Succeeded: 4,
+    Executed: 7,
+};
+
+async function prepareEnvWithVotes() {
+    const env = await loadFixture(prepareEnv);
+
+    const receiptInst = await deployReceiptToken(env.stakingInst.address, true);
+    await env.stakingInst.setReceiptToken(receiptInst.address);
+
+    const GovernorFactory = await ethers.getContractFactory("GovernorTest");
+    const governorInst = await GovernorFactory.deploy(receiptInst.address);
+    await env.stakingInst.grantRole(env.MANAGER_ROLE, governorInst.address);
+
+    // alice and bob vote with their own stakes
+    const aliceAmountToStake = env.oneToken.mul(100);
+    const bobAmountToStake = env.oneToken.mul(60);
+    for (const [user, amount] of [
+        [env.alice, aliceAmountToStake],
+        [env.bob, bobAmountToStake],
+    ] as const) {
+        await env.erc20Inst.connect(user).mint(amount);
+        await env.erc20Inst.connect(user).approve(env.stakingInst.address, amount);
+        await env.stakingInst.connect(user).stake(amount);
+        await receiptInst.connect(user).delegate(user.address);
+    }
+
+    return {
+        ...env,
+        receiptInst,
+        governorInst,
+        aliceAmountToStake,
+        bobAmountToStake,
+    };
+}
+
+describe("Governance", () => {
+    describe("Voting power", () => {
+        it("Follows the flexible stake", async () => {
+            const env = await loadFixture(prepareEnvWithVotes);
+
+            expect(await env.receiptInst.delegates(env.alice.address)).equals(env.alice.address);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(
+                env.aliceAmountToStake
+            );
+
+            const stakeBlock = await time.latestBlock();
+            await env.erc20Inst.connect(env.alice).mint(env.minStakeAmount);
+            await env.erc20Inst
+                .connect(env.alice)
+                .approve(env.stakingInst.address, env.minStakeAmount);
+            await env.stakingInst.connect(env.alice).stake(env.minStakeAmount);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(
+                env.aliceAmountToStake.add(env.minStakeAmount)
+            );
+
+            // amounts in the cooling period don't have voting power
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.minStakeAmount);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(
+                env.aliceAmountToStake
+            );
+
+            // a canceled request restakes the amount
+            await env.stakingInst.connect(env.alice).cancelWithdraw(1);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(
+                env.aliceAmountToStake.add(env.minStakeAmount)
+            );
+
+            await mine();
+            expect(await env.receiptInst.getPastVotes(env.alice.address, stakeBlock)).equals(
+                env.aliceAmountToStake
+            );
+            expect(await env.receiptInst.getPastTotalSupply(stakeBlock)).equals(
+                env.aliceAmountToStake.add(env.bobAmountToStake)
+            );
+        });
+
+        it("Compounded rewards add voting power", async () => {
+            const env = await loadFixture(prepareEnvWithVotes);
+
+            await time.increase(ONE_DAY);
+            await env.stakingInst.connect(env.alice).compoundRewards();
+
+            const stakeAmount = (await env.stakingInst.stakeStates(env.alice.address)).stakeAmount;
+            expect(stakeAmount).greaterThan(env.aliceAmountToStake);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(stakeAmount);
+        });
+
+        it("Moves with the delegation and the transfers", async () => {
+            const env = await loadFixture(prepareEnvWithVotes);
+
+            await env.receiptInst.connect(env.alice).delegate(env.bob.address);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(0);
+            expect(await env.receiptInst.getVotes(env.bob.address)).equals(
+                env.aliceAmountToStake.add(env.bobAmountToStake)
+            );
+
+            await env.receiptInst.connect(env.bob).transfer(env.alice.address, env.minStakeAmount);
+            expect(await env.receiptInst.getVotes(env.bob.address)).equals(
+                env.aliceAmountToStake.add(env.bobAmountToStake)
+            );
+
+            await env.receiptInst.connect(env.alice).delegate(env.alice.address);
+            expect(await env.receiptInst.getVotes(env.alice.address)).equals(
+                env.aliceAmountToStake.add(env.minStakeAmount)
+            );
+            expect(await env.receiptInst.getVotes(env.bob.address)).equals(
+                env.bobAmountToStake.sub(env.minStakeAmount)
+            );
+        });
+
+        it("Can be delegated by a signature", async () => {
+            const env = await loadFixture(prepareEnvWithVotes);
+
+            const expiry = (await time.latest()) + ONE_DAY;
+            const { v, r, s } = await signDelegation(
+                env.alice,
+                env.receiptInst.address,
+                env.bob.address,
+                expiry
+            );
+            await env.receiptInst
+                .connect(env.bob)
+                .delegateBySig(env.bob.address, 0, expiry, v, r, s);
+
+            expect(await env.receiptInst.delegates(env.alice.address)).equals(env.bob.address);
+            expect(await env.receiptInst.getVotes(env.bob.address)).equals(
+                env.aliceAmountToStake.add(env.bobAmountToStake)
+            );
+        });
+    });
+
+    describe("Governor", () => {
+        it("Executes a proposal of the stakers", async () => {
+            const env = await loadFixture(prepareEnvWithVotes);
+
+            const newApr = env.apr * 2;
+            const targets = [env.stakingInst.address];
+            const values = [0];
+            const calldatas = [env.stakingInst.interface.encodeFunctionData("setApr", [newApr])];
+            const description = "Double the APR";
+            const descriptionHash = ethers.utils.id(description);
+
+            await env.governorInst
+                .connect(env.alice)
+                .propose(targets, values, calldatas, description);
+            const proposalId = await env.governorInst.hashProposal(
+                targets,
+                values,
+                calldatas,
+                descriptionHash
+            );
+
+            await mine(VOTING_DELAY + 1);
+            expect(await env.governorInst.state(proposalId)).equals(ProposalState.Active);
+
+            // alice votes for, bob votes against with a smaller stake
+            await env.governorInst.connect(env.alice).castVote(proposalId, 1);
+            await env.governorInst.connect(env.bob).castVote(proposalId, 0);
+            const proposalVotes = await env.governorInst.proposalVotes(proposalId);
+            expect(proposalVotes.forVotes).equals(env.aliceAmountToStake);
+            expect(proposalVotes.againstVotes).equals(env.bobAmountToStake);
+
+            await mine(VOTING_PERIOD);
+            expect(await env.governorInst.state(proposalId)).equals(ProposalState.Succeeded);
+
+            await expect(env.governorInst.execute(targets, values, calldatas, descriptionHash))
+                .emit(env.stakingInst, "AprChanged")
+                .withArgs(env.apr, newApr);
+            expect(await env.governorInst.state(proposalId)).equals(ProposalState.Executed);
+            expect(await env.stakingInst.apr()).equals(newApr);
+        });
+
+        it("Stakes in the cooling period don't vote", async () => {
+            const env = await loadFixture(prepareEnvWithVotes);
+
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+
+            const targets = [env.stakingInst.address];
+            const values = [0];
+            const calldatas = [
+                env.stakingInst.interface.encodeFunctionData("setApr", [env.apr * 2]),
+            ];
+            await env.governorInst.connect(env.bob).propose(targets, values, calldatas, "");
+            const proposalId = await env.governorInst.hashProposal(
+                targets,
+                values,
+                calldatas,
+                ethers.utils.id("")
+            );
+
+            await mine(VOTING_DELAY + 1);
+            await env.governorInst.connect(env.alice).castVote(proposalId, 0);
+            expect((await env.governorInst.proposalVotes(proposalId)).againstVotes).equals(0);
+        });
+    });
+});
@@ -4,7 +4,12 @@ import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import "../typechain-types";
 
 import { config } from "../config";
-import { Ten, ONE_DAY } from "./constants";
+import { Ten, ONE_DAY, MAX_COOLING_PERIOD } from "./constants";
+
+export async function deployReceiptToken(stakingAddress: string, isTransferable: boolean) {
+    const ReceiptTokenFactory = await ethers.getContractFactory("StakingReceiptToken");
+    return ReceiptTokenFactory.deploy(stakingAddress, "Staked Token", "stToken", isTransferable);
+}
 
 export async function prepareEnvWithAliceStakeWithoutDonation() {
     const prevEnv = await loadFixture(prepareEnvWithoutDonation);
@@ -66,7 +71,8 @@ export async function prepareEnvWithoutDonation() {
     const stakingInst = await prevEnv.StakingFactory.deploy(
         prevEnv.erc20Inst.address,
         prevEnv.minStakeAmount,
-        prevEnv.apr
+        prevEnv.apr,
+        prevEnv.coolingPeriod
     );
     const deployBlockNumber = stakingInst.deployTransaction.blockNumber;
     const deployBlock = await ethers.provider.getBlock(deployBlockNumber ?? "latest");
@@ -102,7 +108,31 @@ export async function prepareEnvWithoutStakingDeployment() {
     const apr = config.deploy.apr;
     expect(apr).lessThanOrEqual(100_00, "Too big APR");
 
-    const StakingFactory = await ethers.getContractFactory("AtomicStaking");
+    const coolingPeriod = config.deploy.coolingPeriod;
+    expect(coolingPeriod).lessThanOrEqual(MAX_COOLING_PERIOD, "Too big cooling period");
+
+    const CampaignsFactory = await ethers.getContractFactory("Campaigns");
+    const campaignsInst = await CampaignsFactory.deploy();
+    const ExtraRewardsFactory = await ethers.getContractFactory("ExtraRewards");
+    const extraRewardsInst = await ExtraRewardsFactory.deploy();
+    const LockTiersFactory = await ethers.getContractFactory("LockTiers");
+    const lockTiersInst = await LockTiersFactory.deploy();
+    const PayoutsFactory = await ethers.getContractFactory("Payouts");
+    const payoutsInst = await PayoutsFactory.deploy();
+    const SignaturesFactory = await ethers.getContractFactory("Signatures");
+    const signaturesInst = await SignaturesFactory.deploy();
+    const WithdrawalsFactory = await ethers.getContractFactory("Withdrawals");
+    const withdrawalsInst = await WithdrawalsFactory.deploy();
+    const StakingFactory = await ethers.getContractFactory("AtomicStaking", {
+        libraries: {
+            Campaigns: campaignsInst.address,
+            ExtraRewards: extraRewardsInst.address,
+            LockTiers: lockTiersInst.address,
+            Payouts: payoutsInst.address,
+            Signatures: signaturesInst.address,
+            Withdrawals: withdrawalsInst.address,
+        },
+    });
 
     return {
         deployer,
@@ -114,6 +144,7 @@ export async function prepareEnvWithoutStakingDeployment() {
         oneToken,
         minStakeAmount,
         apr,
+        coolingPeriod,
 
         StakingFactory,
     };
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+
+import { ONE_DAY } from "./constants";
+import {
+    FuzzAction,
+    INVARIANTS,
+    Invariant,
+    formatReplay,
+    formatSequence,
+    generateSequence,
+    mulberry32,
+    runSequence,
+    shrinkSequence,
+} from "./fuzzing";
+
+// the default campaign is short to keep the test run fast, longer ones are run with the env variables
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS ?? 4);
+const FUZZ_DEPTH = Number(process.env.FUZZ_DEPTH ?? 40);
+const FUZZ_SEED = Number(process.env.FUZZ_SEED ?? 1);
+
+// shrunk sequences of the fixed failures, they are replayed on every run
+const REGRESSIONS: { name: string; actions: FuzzAction[] }[] = [
+    {
+        name: "The debt is paid after the pool runs dry",
+        actions: [
+            { type: "stake", actor: 0, amount: "1000" },
+            { type: "wait", seconds: ONE_DAY * 30 },
+            { type: "claimRewards", actor: 0 },
+            { type: "receiveExcessiveBalance", amount: "10" },
+            { type: "donateTokensToRewards", amount: "5" },
+            { type: "claimRewards", actor: 0 },
+            { type: "requestWithdraw", actor: 0, amount: "1000" },
+            { type: "wait", seconds: ONE_DAY * 10 },
+            { type: "finalizeWithdraw", actor: 0, index: 0 },
+            { type: "donateTokensToRewards", amount: "100" },
+            { type: "receiveExcessiveBalance", amount: "100" },
+            { type: "claimRewards", actor: 0 },
+        ],
+    },
+    {
+        name: "The excess is withdrawn while a withdrawal is queued",
+        actions: [
+            { type: "stake", actor: 1, amount: "500.5" },
+            { type: "donateTokensToRewards", amount: "50" },
+            { type: "requestWithdraw", actor: 1, amount: "200" },
+            { type: "receiveExcessiveBalance", amount: "1000" },
+            { type: "wait", seconds: ONE_DAY * 10 },
+            { type: "finalizeWithdraw", actor: 1, index: 0 },
+            { type: "setApr", apr: 0 },
+            { type: "claimRewards", actor: 1 },
+        ],
+    },
+];
+
+describe("Invariants of the reward accounting", () => {
+    describe("Random sequences", () => {
+        for (let seed = FUZZ_SEED; seed < FUZZ_SEED + FUZZ_RUNS; ++seed) {
+            it(`Seed ${seed}`, async () => {
+                const actions = generateSequence(mulberry32(seed), FUZZ_DEPTH);
+
+                const violation = await runSequence(actions);
+                if (violation !== undefined) {
+                    const shrunk = await shrinkSequence(actions, violation);
+                    expect.fail(formatReplay(seed, actions.length, shrunk));
+                }
+            });
+        }
+    });
+
+    describe("Regressions", () => {
+        for (const { name, actions } of REGRESSIONS) {
+            it(name, async () => {
+                const violation = await runSequence(actions);
+                expect(violation?.message).undefined;
+            });
+        }
+    });
+
+    describe("{shrinkSequence} function", () => {
+        // an invariant that doesn't hold, to get a failing sequence
+        const totalStakedLimit: Invariant = {
+            name: "totalStaked is at most 150 tokens",
+            check: (snapshot) =>
+                snapshot.totalStaked.gt(utils.parseEther("150"))
+                    ? `totalStaked ${snapshot.totalStaked}`
+                    : undefined,
+        };
+
+        it("Test", async () => {
+            const actions: FuzzAction[] = [
+                { type: "wait", seconds: ONE_DAY },
+                { type: "stake", actor: 0, amount: "100" },
+                { type: "claimRewards", actor: 0 },
+                { type: "donateTokensToRewards", amount: "10" },
+                { type: "stake", actor: 1, amount: "60.5" },
+                { type: "setApr", apr: 5_00 },
+                { type: "wait", seconds: ONE_DAY * 3 },
+                { type: "requestWithdraw", actor: 0, amount: "10" },
+                { type: "stake", actor: 2, amount: "70" },
+            ];
+            const invariants = [...INVARIANTS, totalStakedLimit];
+            const run = (actions: FuzzAction[]) => runSequence(actions, invariants);
+
+            const violation = await run(actions);
+            expect(violation?.invariant).equals(totalStakedLimit.name);
+            expect(violation?.step).equals(4);
+
+            const shrunk = await shrinkSequence(actions, violation!, run);
+            expect(shrunk.actions).deep.equals([
+                { type: "stake", actor: 0, amount: "100" },
+                { type: "stake", actor: 1, amount: "60" },
+            ]);
+            expect(shrunk.violation.invariant).equals(totalStakedLimit.name);
+
+            // the printed sequence replays the violation
+            const replay = formatReplay(1, actions.length, shrunk);
+            expect(replay).contains(formatSequence(shrunk.actions));
+            expect(replay).contains("Shrunk from 9 to 2 actions");
+            const replayed = await run(JSON.parse(formatSequence(shrunk.actions)));
+            expect(replayed?.message).equals(shrunk.violation.message);
+        });
+
+        it("Should stop after the max number of runs", async () => {
+            const actions: FuzzAction[] = [
+                { type: "stake", actor: 0, amount: "100" },
+                { type: "stake", actor: 1, amount: "100" },
+                { type: "wait", seconds: ONE_DAY },
+            ];
+            const run = (actions: FuzzAction[]) =>
+                runSequence(actions, [...INVARIANTS, totalStakedLimit]);
+
+            const violation = await run(actions);
+            const shrunk = await shrinkSequence(actions, violation!, run, 0);
+            expect(shrunk.actions).deep.equals(actions.slice(0, 2));
+        });
+    });
+});
@@ -0,0 +1,441 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnv, prepareEnvWithAliceStake } from "./helpers";
+import {
+    ONE_DAY,
+    ONE_YEAR,
+    RATE_PRECISION,
+    PERCENT_DENOMINATOR,
+    MAX_LOCK_PERIOD,
+} from "./constants";
+
+const MAX_APR_MULTIPLIER = 5 * PERCENT_DENOMINATOR;
+const MAX_LOCK_TIERS = 16;
+
+function getNewTierRate(rate: BigNumber, seconds: number, apr: number, aprMultiplier: number) {
+    return rate.add(
+        rate
+            .mul(seconds)
+            .mul(apr)
+            .mul(aprMultiplier)
+            .div(ONE_YEAR * PERCENT_DENOMINATOR * PERCENT_DENOMINATOR)
+    );
+}
+
+async function prepareEnvWithTiers() {
+    const env = await loadFixture(prepareEnv);
+
+    const tiers = [
+        { lockPeriod: ONE_DAY * 30, aprMultiplier: 120_00 },
+        { lockPeriod: ONE_DAY * 90, aprMultiplier: 150_00 },
+        { lockPeriod: ONE_DAY * 365, aprMultiplier: 200_00 },
+    ];
+    for (const tier of tiers) {
+        await env.stakingInst.connect(env.manager).addLockTier(tier.lockPeriod, tier.aprMultiplier);
+    }
+
+    const bobAmountToLock = env.oneToken.mul(1000);
+    await env.erc20Inst.connect(env.bob).mint(bobAmountToLock);
+    await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, bobAmountToLock);
+
+    return {
+        ...env,
+        tiers,
+        bobAmountToLock,
+    };
+}
+
+async function prepareEnvWithBobPosition() {
+    const env = await loadFixture(prepareEnvWithTiers);
+
+    const tierId = 1;
+    const bobLockTimestamp = env.deployTimestamp + ONE_DAY;
+    await time.setNextBlockTimestamp(bobLockTimestamp);
+    await env.stakingInst.connect(env.bob).stakeLocked(env.bobAmountToLock, tierId);
+
+    return {
+        ...env,
+        tierId,
+        bobLockTimestamp,
+        bobUnlockTimestamp: bobLockTimestamp + env.tiers[tierId].lockPeriod,
+    };
+}
+
+describe("Tests of the lock tiers of the AtomicStaking contract", () => {
+    describe("{stakeLocked} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithTiers);
+
+            const tierId = 2;
+            const totalStakedBefore = await env.stakingInst.totalStaked();
+            const lockTimestamp = (await time.latest()) + ONE_DAY;
+            const unlockTimestamp = lockTimestamp + env.tiers[tierId].lockPeriod;
+
+            await time.setNextBlockTimestamp(lockTimestamp);
+            await expect(env.stakingInst.connect(env.bob).stakeLocked(env.bobAmountToLock, tierId))
+                .emit(env.stakingInst, "TokenLocked")
+                .withArgs(env.bob.address, env.bobAmountToLock, 1, tierId, unlockTimestamp)
+                .changeTokenBalances(
+                    env.erc20Inst,
+                    [env.bob, env.stakingInst],
+                    [env.bobAmountToLock.mul(-1), env.bobAmountToLock]
+                );
+
+            expect(await env.stakingInst.totalStaked()).equals(
+                totalStakedBefore.add(env.bobAmountToLock)
+            );
+
+            const position = await env.stakingInst.positions(1);
+            expect(position.user).equals(env.bob.address);
+            expect(position.tierId).equals(tierId);
+            expect(position.unlockTimestamp).equals(unlockTimestamp);
+            expect(position.amount).equals(env.bobAmountToLock);
+            expect(position.claimedAmount).equals(env.bobAmountToLock);
+
+            expect(await env.stakingInst.usersPositionIds(env.bob.address)).deep.equal([1]);
+
+            // the flexible stake isn't touched
+            const stakeState = await env.stakingInst.stakeStates(env.bob.address);
+            expect(stakeState.stakeAmount).equals(0);
+        });
+
+        describe("Revert", () => {
+            it("Should revert when less than minimum amount", async () => {
+                const env = await loadFixture(prepareEnvWithTiers);
+
+                await expect(
+                    env.stakingInst.connect(env.bob).stakeLocked(env.minStakeAmount.sub(1), 0)
+                )
+                    .revertedWithCustomError(env.stakingInst, "LessThanMinAmount")
+                    .withArgs(env.minStakeAmount.sub(1), env.minStakeAmount);
+            });
+
+            it("Should revert when the tier doesn't exist", async () => {
+                const env = await loadFixture(prepareEnvWithTiers);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .stakeLocked(env.bobAmountToLock, env.tiers.length)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NoSuchLockTier")
+                    .withArgs(env.tiers.length);
+            });
+
+            it("Should revert when the tier is inactive", async () => {
+                const env = await loadFixture(prepareEnvWithTiers);
+
+                await env.stakingInst.connect(env.manager).setLockTierActive(0, false);
+
+                await expect(env.stakingInst.connect(env.bob).stakeLocked(env.bobAmountToLock, 0))
+                    .revertedWithCustomError(env.stakingInst, "LockTierIsInactive")
+                    .withArgs(0);
+            });
+        });
+    });
+
+    describe("{claimPositionRewards} function", () => {
+        it("Position earns the boosted APR", async () => {
+            const env = await loadFixture(prepareEnvWithBobPosition);
+
+            const claimTimestamp = env.bobLockTimestamp + ONE_DAY * 30;
+            const newTierRate = getNewTierRate(
+                RATE_PRECISION,
+                claimTimestamp - env.bobLockTimestamp,
+                env.apr,
+                env.tiers[env.tierId].aprMultiplier
+            );
+            const rewards = env.bobAmountToLock
+                .mul(newTierRate)
+                .div(RATE_PRECISION)
+                .sub(env.bobAmountToLock);
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            await expect(env.stakingInst.connect(env.bob).claimPositionRewards(1))
+                .emit(env.stakingInst, "TierRateUpdated")
+                .withArgs(env.tierId, newTierRate)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.bob.address, rewards)
+                .changeTokenBalance(env.erc20Inst, env.bob, rewards);
+
+            const position = await env.stakingInst.positions(1);
+            expect(position.claimedAmount).equals(env.bobAmountToLock.add(rewards));
+            expect(await env.stakingInst.positionRewards(1)).equals(0);
+        });
+
+        it("Flexible stakes keep the global APR", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, 300_00);
+
+            const bobAmountToLock = env.oneToken.mul(1000);
+            await env.erc20Inst.connect(env.bob).mint(bobAmountToLock);
+            await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, bobAmountToLock);
+            // the global rate is updated on locking
+            const lockTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            await time.setNextBlockTimestamp(lockTimestamp);
+            await env.stakingInst.connect(env.bob).stakeLocked(bobAmountToLock, 0);
+            let newRatePerStaking = RATE_PRECISION.add(
+                RATE_PRECISION.mul(lockTimestamp - env.aliceStakeTimestamp)
+                    .mul(env.apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+
+            const claimTimestamp = env.aliceStakeTimestamp + ONE_DAY * 10;
+            newRatePerStaking = newRatePerStaking.add(
+                newRatePerStaking
+                    .mul(claimTimestamp - lockTimestamp)
+                    .mul(env.apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+            const rewards = env.aliceAmountToStake
+                .mul(newRatePerStaking)
+                .div(RATE_PRECISION)
+                .sub(env.aliceAmountToStake);
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            await expect(env.stakingInst.connect(env.alice).claimRewards())
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.alice.address, rewards);
+        });
+
+        it("APR and multiplier changes don't affect earned rewards", async () => {
+            const env = await loadFixture(prepareEnvWithBobPosition);
+            const aprMultiplier = env.tiers[env.tierId].aprMultiplier;
+
+            const aprChangeTimestamp = env.bobLockTimestamp + ONE_DAY * 10;
+            await time.setNextBlockTimestamp(aprChangeTimestamp);
+            await env.stakingInst.connect(env.manager).setApr(env.apr * 2);
+            let tierRate = getNewTierRate(
+                RATE_PRECISION,
+                aprChangeTimestamp - env.bobLockTimestamp,
+                env.apr,
+                aprMultiplier
+            );
+
+            const multiplierChangeTimestamp = aprChangeTimestamp + ONE_DAY * 10;
+            await time.setNextBlockTimestamp(multiplierChangeTimestamp);
+            await expect(
+                env.stakingInst
+                    .connect(env.manager)
+                    .setLockTierMultiplier(env.tierId, aprMultiplier * 2)
+            )
+                .emit(env.stakingInst, "LockTierMultiplierChanged")
+                .withArgs(env.tierId, aprMultiplier, aprMultiplier * 2);
+            tierRate = getNewTierRate(
+                tierRate,
+                multiplierChangeTimestamp - aprChangeTimestamp,
+                env.apr * 2,
+                aprMultiplier
+            );
+
+            const claimTimestamp = multiplierChangeTimestamp + ONE_DAY * 10;
+            tierRate = getNewTierRate(
+                tierRate,
+                claimTimestamp - multiplierChangeTimestamp,
+                env.apr * 2,
+                aprMultiplier * 2
+            );
+
+            await time.setNextBlockTimestamp(claimTimestamp);
+            await expect(env.stakingInst.connect(env.bob).claimPositionRewards(1))
+                .emit(env.stakingInst, "TierRateUpdated")
+                .withArgs(env.tierId, tierRate);
+        });
+
+        describe("Revert", () => {
+            it("Should revert when the position doesn't exist", async () => {
+                const env = await loadFixture(prepareEnvWithBobPosition);
+
+                await expect(env.stakingInst.connect(env.bob).claimPositionRewards(10))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchPosition")
+                    .withArgs(10);
+            });
+
+            it("Should revert when not allowed user", async () => {
+                const env = await loadFixture(prepareEnvWithBobPosition);
+
+                await expect(env.stakingInst.connect(env.alice).claimPositionRewards(1))
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.alice.address, env.bob.address);
+            });
+        });
+    });
+
+    describe("{requestPositionWithdraw} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithBobPosition);
+
+            const totalStakedBefore = await env.stakingInst.totalStaked();
+
+            await time.setNextBlockTimestamp(env.bobUnlockTimestamp);
+            await expect(env.stakingInst.connect(env.bob).requestPositionWithdraw(1))
+                .emit(env.stakingInst, "WithdrawRequested")
+                .withArgs(env.bob.address, env.bobAmountToLock, 1)
+                .emit(env.stakingInst, "PositionWithdrawRequested")
+                .withArgs(env.bob.address, 1, 1)
+                .emit(env.stakingInst, "RewardsClaimed");
+
+            expect(await env.stakingInst.totalStaked()).equals(totalStakedBefore);
+            expect(await env.stakingInst.usersPositionIds(env.bob.address)).deep.equal([]);
+            expect((await env.stakingInst.positions(1)).amount).equals(0);
+
+            const withdrawState = await env.stakingInst.withdrawStates(1);
+            expect(withdrawState.user).equals(env.bob.address);
+            expect(withdrawState.amount).equals(env.bobAmountToLock);
+
+            await time.increase(env.coolingPeriod);
+            await expect(env.stakingInst.connect(env.bob).finalizeWithdraw(1)).changeTokenBalance(
+                env.erc20Inst,
+                env.bob,
+                env.bobAmountToLock
+            );
+        });
+
+        describe("Revert", () => {
+            it("Should revert when the position is locked", async () => {
+                const env = await loadFixture(prepareEnvWithBobPosition);
+
+                await time.setNextBlockTimestamp(env.bobUnlockTimestamp - 1);
+                await expect(env.stakingInst.connect(env.bob).requestPositionWithdraw(1))
+                    .revertedWithCustomError(env.stakingInst, "PositionIsLocked")
+                    .withArgs(env.bobUnlockTimestamp - 1, env.bobUnlockTimestamp);
+            });
+
+            it("Should revert when not allowed user", async () => {
+                const env = await loadFixture(prepareEnvWithBobPosition);
+
+                await time.setNextBlockTimestamp(env.bobUnlockTimestamp);
+                await expect(env.stakingInst.connect(env.alice).requestPositionWithdraw(1))
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.alice.address, env.bob.address);
+            });
+        });
+    });
+
+    describe("Admins' functions", () => {
+        describe("{addLockTier} function", () => {
+            it("Test", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, 150_00))
+                    .emit(env.stakingInst, "LockTierAdded")
+                    .withArgs(0, ONE_DAY * 30, 150_00);
+
+                expect(await env.stakingInst.lockTiersCount()).equals(1);
+                const lockTier = await env.stakingInst.lockTiers(0);
+                expect(lockTier.lockPeriod).equals(ONE_DAY * 30);
+                expect(lockTier.aprMultiplier).equals(150_00);
+                expect(lockTier.isActive).true;
+            });
+
+            describe("Reverts", () => {
+                it("Should revert when a wrong user calls", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).addLockTier(ONE_DAY, 100_00)
+                    ).revertedWith(
+                        "AccessControl: account " +
+                            env.alice.address.toLocaleLowerCase() +
+                            " is missing role " +
+                            env.MANAGER_ROLE
+                    );
+                });
+
+                it("Should revert when wrong values", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.manager).addLockTier(0, 100_00)
+                    ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+                    await expect(
+                        env.stakingInst
+                            .connect(env.manager)
+                            .addLockTier(MAX_LOCK_PERIOD + 1, 100_00)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                        .withArgs(MAX_LOCK_PERIOD + 1, MAX_LOCK_PERIOD);
+                    await expect(
+                        env.stakingInst
+                            .connect(env.manager)
+                            .addLockTier(ONE_DAY, MAX_APR_MULTIPLIER + 1)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                        .withArgs(MAX_APR_MULTIPLIER + 1, MAX_APR_MULTIPLIER);
+                });
+
+                it("Should revert when too many tiers", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    for (let i = 0; i < MAX_LOCK_TIERS; ++i) {
+                        await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY, 100_00);
+                    }
+
+                    await expect(env.stakingInst.connect(env.manager).addLockTier(ONE_DAY, 100_00))
+                        .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                        .withArgs(MAX_LOCK_TIERS + 1, MAX_LOCK_TIERS);
+                });
+            });
+        });
+
+        describe("{setLockTierMultiplier} function", () => {
+            it("Should revert when wrong arguments", async () => {
+                const env = await loadFixture(prepareEnvWithTiers);
+
+                await expect(env.stakingInst.connect(env.manager).setLockTierMultiplier(10, 100_00))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchLockTier")
+                    .withArgs(10);
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .setLockTierMultiplier(0, env.tiers[0].aprMultiplier)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .setLockTierMultiplier(0, MAX_APR_MULTIPLIER + 1)
+                )
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(MAX_APR_MULTIPLIER + 1, MAX_APR_MULTIPLIER);
+                await expect(
+                    env.stakingInst.connect(env.alice).setLockTierMultiplier(0, 100_00)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+        });
+
+        describe("{setLockTierActive} function", () => {
+            it("Test", async () => {
+                const env = await loadFixture(prepareEnvWithBobPosition);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setLockTierActive(env.tierId, false)
+                )
+                    .emit(env.stakingInst, "LockTierActiveChanged")
+                    .withArgs(env.tierId, false);
+                expect((await env.stakingInst.lockTiers(env.tierId)).isActive).false;
+
+                // existing positions keep earning
+                await time.increase(ONE_DAY);
+                expect(await env.stakingInst.positionRewards(1)).greaterThan(0);
+            });
+
+            it("Should revert when wrong arguments", async () => {
+                const env = await loadFixture(prepareEnvWithTiers);
+
+                await expect(env.stakingInst.connect(env.manager).setLockTierActive(10, false))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchLockTier")
+                    .withArgs(10);
+                await expect(
+                    env.stakingInst.connect(env.manager).setLockTierActive(0, true)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+});
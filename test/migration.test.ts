@@ -0,0 +1,371 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithAliceStake, prepareEnvWithAliceStakeWithoutDonation } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+const Operation = {
+    Stake: 0,
+};
+
+async function deployNewStaking(
+    env: Awaited<ReturnType<typeof prepareEnvWithAliceStakeWithoutDonation>>
+) {
+    const newStakingInst = await env.StakingFactory.deploy(
+        env.erc20Inst.address,
+        env.minStakeAmount,
+        env.apr,
+        env.coolingPeriod
+    );
+
+    await env.stakingInst.setMigrationTarget(newStakingInst.address, true);
+    await newStakingInst.setMigrationSource(env.stakingInst.address, true);
+    await time.increase(ONE_DAY * 30);
+
+    return {
+        ...env,
+        newStakingInst,
+    };
+}
+
+async function prepareEnvWithNewStaking() {
+    return deployNewStaking(await loadFixture(prepareEnvWithAliceStake));
+}
+
+async function prepareEnvWithNewStakingWithoutDonation() {
+    return deployNewStaking(await loadFixture(prepareEnvWithAliceStakeWithoutDonation));
+}
+
+describe("Migration", () => {
+    describe("{setMigrationTarget} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await expect(env.stakingInst.setMigrationTarget(env.bob.address, true))
+                .emit(env.stakingInst, "MigrationTargetChanged")
+                .withArgs(env.bob.address, true);
+            expect(await env.stakingInst.isMigrationTarget(env.bob.address)).true;
+
+            await expect(env.stakingInst.setMigrationTarget(env.bob.address, false))
+                .emit(env.stakingInst, "MigrationTargetChanged")
+                .withArgs(env.bob.address, false);
+            expect(await env.stakingInst.isMigrationTarget(env.bob.address)).false;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setMigrationTarget(env.bob.address, true)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when passing zero address", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.setMigrationTarget(ethers.constants.AddressZero, true)
+                ).revertedWithCustomError(env.stakingInst, "AddressZero");
+            });
+
+            it("Should revert when the value is the same", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.setMigrationTarget(env.bob.address, false)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{setMigrationSource} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await expect(env.stakingInst.setMigrationSource(env.bob.address, true))
+                .emit(env.stakingInst, "MigrationSourceChanged")
+                .withArgs(env.bob.address, true);
+            expect(await env.stakingInst.isMigrationSource(env.bob.address)).true;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setMigrationSource(env.bob.address, true)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when the value is the same", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.setMigrationSource(env.bob.address, false)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{migrate} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithNewStaking);
+
+            const totalStakedBefore = await env.stakingInst.totalStaked();
+            const balanceBefore = await env.erc20Inst.balanceOf(env.stakingInst.address);
+
+            const tx = await env.stakingInst
+                .connect(env.alice)
+                .migrate(env.newStakingInst.address, false);
+            const receipt = await tx.wait();
+            const compoundedEvent = receipt.events?.find(
+                (event) => event.event == "RewardsCompounded"
+            );
+            const compoundedRewards = compoundedEvent?.args?.amount;
+            expect(compoundedRewards).greaterThan(0);
+            const amount = env.aliceAmountToStake.add(compoundedRewards);
+
+            await expect(tx)
+                .emit(env.stakingInst, "StakeMigrated")
+                .withArgs(env.alice.address, env.newStakingInst.address, amount, 0);
+            await expect(tx)
+                .emit(env.newStakingInst, "StakeMigrationReceived")
+                .withArgs(env.stakingInst.address, env.alice.address, amount);
+
+            // the old contract pays the rewards and gives up the principal
+            const oldStakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(oldStakeState.stakeAmount).equals(0);
+            expect(oldStakeState.contractDeptToUser).equals(0);
+            expect(await env.stakingInst.totalStaked()).equals(
+                totalStakedBefore.sub(env.aliceAmountToStake)
+            );
+            expect(await env.erc20Inst.balanceOf(env.stakingInst.address)).equals(
+                balanceBefore.sub(amount)
+            );
+            expect(
+                await env.erc20Inst.allowance(env.stakingInst.address, env.newStakingInst.address)
+            ).equals(0);
+
+            // the new contract has the stake without the cooling period
+            const newStakeState = await env.newStakingInst.stakeStates(env.alice.address);
+            expect(newStakeState.stakeAmount).equals(amount);
+            expect(await env.newStakingInst.totalStaked()).equals(amount);
+            expect(await env.erc20Inst.balanceOf(env.newStakingInst.address)).equals(amount);
+            expect(await env.newStakingInst.usersWithdrawIds(env.alice.address)).deep.equals([]);
+        });
+
+        it("Should migrate withdrawal requests", async () => {
+            const env = await loadFixture(prepareEnvWithNewStaking);
+
+            const withdrawnAmount = env.aliceAmountToStake.div(4);
+            await env.stakingInst.connect(env.alice).requestWithdraw(withdrawnAmount);
+            await env.stakingInst.connect(env.alice).requestWithdraw(withdrawnAmount);
+            const stakeAmount = (await env.stakingInst.stakeStates(env.alice.address)).stakeAmount;
+
+            await expect(
+                env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, true)
+            )
+                .emit(env.stakingInst, "StakeMigrated")
+                .withArgs(
+                    env.alice.address,
+                    env.newStakingInst.address,
+                    stakeAmount,
+                    withdrawnAmount.mul(2)
+                );
+
+            expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equals([]);
+            expect(await env.stakingInst.totalStaked()).equals(0);
+            expect((await env.newStakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                stakeAmount.add(withdrawnAmount.mul(2))
+            );
+            expect(await env.newStakingInst.totalStaked()).equals(
+                stakeAmount.add(withdrawnAmount.mul(2))
+            );
+        });
+
+        it("Should keep withdrawal requests", async () => {
+            const env = await loadFixture(prepareEnvWithNewStaking);
+
+            const withdrawnAmount = env.aliceAmountToStake.div(4);
+            await env.stakingInst.connect(env.alice).requestWithdraw(withdrawnAmount);
+            const withdrawIds = await env.stakingInst.usersWithdrawIds(env.alice.address);
+
+            await env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, false);
+
+            expect(await env.stakingInst.totalStaked()).equals(withdrawnAmount);
+            await time.increase(env.coolingPeriod);
+            await expect(
+                env.stakingInst.connect(env.alice).finalizeWithdraw(withdrawIds[0])
+            ).changeTokenBalance(env.erc20Inst, env.alice, withdrawnAmount);
+        });
+
+        it("Should keep the unpaid rewards as the debt", async () => {
+            const env = await loadFixture(prepareEnvWithNewStakingWithoutDonation);
+
+            await expect(
+                env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, false)
+            )
+                .emit(env.stakingInst, "StakeMigrated")
+                .withArgs(env.alice.address, env.newStakingInst.address, env.aliceAmountToStake, 0);
+
+            const oldStakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(oldStakeState.contractDeptToUser).greaterThan(0);
+            expect(await env.stakingInst.totalStaked()).equals(0);
+            expect((await env.newStakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake
+            );
+        });
+
+        it("Should add to the existing stake", async () => {
+            const env = await loadFixture(prepareEnvWithNewStaking);
+
+            await env.erc20Inst.connect(env.alice).mint(env.minStakeAmount);
+            await env.erc20Inst
+                .connect(env.alice)
+                .approve(env.newStakingInst.address, env.minStakeAmount);
+            await env.newStakingInst.connect(env.alice).stake(env.minStakeAmount);
+
+            const tx = await env.stakingInst
+                .connect(env.alice)
+                .migrate(env.newStakingInst.address, false);
+            const receipt = await tx.wait();
+            const migratedEvent = receipt.events?.find((event) => event.event == "StakeMigrated");
+            const amount = migratedEvent?.args?.stakeAmount;
+
+            expect((await env.newStakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.minStakeAmount.add(amount)
+            );
+            expect(await env.newStakingInst.totalStaked()).equals(env.minStakeAmount.add(amount));
+        });
+
+        it("Should migrate when an allowance is left over", async () => {
+            const env = await loadFixture(prepareEnvWithNewStaking);
+
+            const leftover = 1;
+            await setBalance(env.stakingInst.address, ethers.utils.parseEther("1"));
+            const stakingSigner = await ethers.getImpersonatedSigner(env.stakingInst.address);
+            await env.erc20Inst
+                .connect(stakingSigner)
+                .approve(env.newStakingInst.address, leftover);
+
+            await expect(
+                env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, false)
+            ).emit(env.newStakingInst, "StakeMigrationReceived");
+
+            expect(
+                await env.erc20Inst.allowance(env.stakingInst.address, env.newStakingInst.address)
+            ).equals(leftover);
+        });
+
+        it("Should keep locked positions", async () => {
+            const env = await loadFixture(prepareEnvWithNewStaking);
+
+            const lockPeriod = ONE_DAY * 30;
+            await env.stakingInst.connect(env.manager).addLockTier(lockPeriod, 120_00);
+            const amountToLock = env.minStakeAmount;
+            await env.erc20Inst.connect(env.alice).mint(amountToLock);
+            await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, amountToLock);
+            await env.stakingInst.connect(env.alice).stakeLocked(amountToLock, 0);
+
+            const tx = await env.stakingInst
+                .connect(env.alice)
+                .migrate(env.newStakingInst.address, false);
+            const receipt = await tx.wait();
+            const migratedEvent = receipt.events?.find((event) => event.event == "StakeMigrated");
+            const amount = migratedEvent?.args?.stakeAmount;
+
+            // only the flexible stake moves, the position stays until it unlocks
+            expect(await env.stakingInst.totalStaked()).equals(amountToLock);
+            expect((await env.newStakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                amount
+            );
+
+            await time.increase(lockPeriod);
+            await env.stakingInst.connect(env.alice).requestPositionWithdraw(1);
+            await expect(
+                env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, true)
+            )
+                .emit(env.stakingInst, "StakeMigrated")
+                .withArgs(env.alice.address, env.newStakingInst.address, 0, amountToLock);
+            expect(await env.stakingInst.totalStaked()).equals(0);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the target isn't allowed", async () => {
+                const env = await loadFixture(prepareEnvWithNewStaking);
+
+                await env.stakingInst.setMigrationTarget(env.newStakingInst.address, false);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, false)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NotMigrationTarget")
+                    .withArgs(env.newStakingInst.address);
+            });
+
+            it("Should revert when the target doesn't allow the source", async () => {
+                const env = await loadFixture(prepareEnvWithNewStaking);
+
+                await env.newStakingInst.setMigrationSource(env.stakingInst.address, false);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, false)
+                )
+                    .revertedWithCustomError(env.newStakingInst, "NotMigrationSource")
+                    .withArgs(env.stakingInst.address);
+            });
+
+            it("Should revert when there is nothing to migrate", async () => {
+                const env = await loadFixture(prepareEnvWithNewStaking);
+
+                await expect(
+                    env.stakingInst.connect(env.bob).migrate(env.newStakingInst.address, true)
+                ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+            });
+
+            it("Should revert when staking to the target is paused", async () => {
+                const env = await loadFixture(prepareEnvWithNewStaking);
+
+                await env.newStakingInst.grantRole(
+                    await env.newStakingInst.PAUSER_ROLE(),
+                    env.deployer.address
+                );
+                await env.newStakingInst.setPaused(Operation.Stake, true);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).migrate(env.newStakingInst.address, false)
+                )
+                    .revertedWithCustomError(env.newStakingInst, "OperationIsPaused")
+                    .withArgs(Operation.Stake);
+            });
+        });
+    });
+
+    describe("{onStakeMigrated} function", () => {
+        describe("Reverts", () => {
+            it("Should revert when the sender isn't allowed", async () => {
+                const env = await loadFixture(prepareEnvWithNewStaking);
+
+                await expect(
+                    env.newStakingInst
+                        .connect(env.alice)
+                        .onStakeMigrated(env.alice.address, env.minStakeAmount)
+                )
+                    .revertedWithCustomError(env.newStakingInst, "NotMigrationSource")
+                    .withArgs(env.alice.address);
+            });
+        });
+    });
+});
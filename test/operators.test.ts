@@ -0,0 +1,306 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnv, prepareEnvWithAliceStake } from "./helpers";
+import { ONE_DAY, ONE_YEAR, RATE_PRECISION, PERCENT_DENOMINATOR } from "./constants";
+
+async function prepareEnvWithOperator() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    // bob is the operator of alice
+    await env.stakingInst.connect(env.alice).setOperator(env.bob.address, true);
+
+    return env;
+}
+
+describe("Acting on behalf of users", () => {
+    describe("{stakeFor} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const amount = env.oneToken.mul(100);
+            await env.erc20Inst.connect(env.bob).mint(amount);
+            await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, amount);
+
+            const tx = env.stakingInst.connect(env.bob).stakeFor(env.alice.address, amount);
+            await expect(tx)
+                .emit(env.stakingInst, "TokenStaked")
+                .withArgs(env.alice.address, amount)
+                .emit(env.stakingInst, "TokenStakedFor")
+                .withArgs(env.bob.address, env.alice.address, amount);
+            await expect(tx).changeTokenBalances(
+                env.erc20Inst,
+                [env.bob, env.stakingInst],
+                [amount.mul(-1), amount]
+            );
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                amount
+            );
+            expect((await env.stakingInst.stakeStates(env.bob.address)).stakeAmount).equals(0);
+            expect(await env.stakingInst.totalStaked()).equals(amount);
+        });
+
+        it("Collects rewards of the beneficiary", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const amount = env.oneToken.mul(100);
+            await env.erc20Inst.connect(env.bob).mint(amount);
+            await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, amount);
+
+            const stakeTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            const newRatePerStaking = RATE_PRECISION.add(
+                RATE_PRECISION.mul(ONE_DAY)
+                    .mul(env.apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+            const rewards = env.aliceAmountToStake
+                .mul(newRatePerStaking)
+                .div(RATE_PRECISION)
+                .sub(env.aliceAmountToStake);
+
+            await time.setNextBlockTimestamp(stakeTimestamp);
+            await expect(
+                env.stakingInst.connect(env.bob).stakeFor(env.alice.address, amount)
+            ).changeTokenBalance(env.erc20Inst, env.alice, rewards);
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake.add(amount)
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when beneficiary is zero address", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .stakeFor(ethers.constants.AddressZero, env.minStakeAmount)
+                ).revertedWithCustomError(env.stakingInst, "AddressZero");
+            });
+
+            it("Should revert when amount is less than {minStakeAmount}", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const amount = env.minStakeAmount.sub(1);
+                await expect(env.stakingInst.connect(env.bob).stakeFor(env.alice.address, amount))
+                    .revertedWithCustomError(env.stakingInst, "LessThanMinAmount")
+                    .withArgs(amount, env.minStakeAmount);
+            });
+        });
+    });
+
+    describe("{setOperator} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            await expect(env.stakingInst.connect(env.alice).setOperator(env.bob.address, true))
+                .emit(env.stakingInst, "OperatorChanged")
+                .withArgs(env.alice.address, env.bob.address, true);
+            expect(await env.stakingInst.isOperator(env.alice.address, env.bob.address)).equals(
+                true
+            );
+            expect(await env.stakingInst.isOperator(env.bob.address, env.alice.address)).equals(
+                false
+            );
+
+            await expect(env.stakingInst.connect(env.alice).setOperator(env.bob.address, false))
+                .emit(env.stakingInst, "OperatorChanged")
+                .withArgs(env.alice.address, env.bob.address, false);
+            expect(await env.stakingInst.isOperator(env.alice.address, env.bob.address)).equals(
+                false
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when operator is zero address", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .setOperator(ethers.constants.AddressZero, true)
+                ).revertedWithCustomError(env.stakingInst, "AddressZero");
+            });
+
+            it("Should revert when value is the same", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).setOperator(env.bob.address, false)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{setPayoutRecipient} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            await expect(
+                env.stakingInst.connect(env.alice).setPayoutRecipient(env.deployer.address)
+            )
+                .emit(env.stakingInst, "PayoutRecipientChanged")
+                .withArgs(env.alice.address, ethers.constants.AddressZero, env.deployer.address);
+            expect(await env.stakingInst.payoutRecipients(env.alice.address)).equals(
+                env.deployer.address
+            );
+
+            await expect(
+                env.stakingInst.connect(env.alice).setPayoutRecipient(ethers.constants.AddressZero)
+            )
+                .emit(env.stakingInst, "PayoutRecipientChanged")
+                .withArgs(env.alice.address, env.deployer.address, ethers.constants.AddressZero);
+        });
+
+        it("Recipient receives withdrawn tokens", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await env.stakingInst.connect(env.alice).setPayoutRecipient(env.deployer.address);
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+            await time.increase(env.coolingPeriod);
+
+            await expect(
+                env.stakingInst.connect(env.alice).finalizeWithdraw(1)
+            ).changeTokenBalances(
+                env.erc20Inst,
+                [env.alice, env.deployer],
+                [0, env.aliceAmountToStake]
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when value is the same", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .setPayoutRecipient(ethers.constants.AddressZero)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{claimRewardsFor} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithOperator);
+
+            await time.increase(ONE_DAY);
+
+            const tx = env.stakingInst.connect(env.bob).claimRewardsFor(env.alice.address);
+            await expect(tx)
+                .emit(env.stakingInst, "RewardsClaimedByOperator")
+                .withArgs(env.bob.address, env.alice.address)
+                .emit(env.stakingInst, "RewardsClaimed");
+            await expect(tx).changeTokenBalance(env.erc20Inst, env.bob, 0);
+
+            expect(await env.erc20Inst.balanceOf(env.alice.address)).greaterThan(0);
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(0);
+        });
+
+        it("Rewards go to the payout recipient", async () => {
+            const env = await loadFixture(prepareEnvWithOperator);
+
+            await env.stakingInst.connect(env.alice).setPayoutRecipient(env.deployer.address);
+            await time.increase(ONE_DAY);
+
+            const balanceBefore = await env.erc20Inst.balanceOf(env.deployer.address);
+            await env.stakingInst.connect(env.bob).claimRewardsFor(env.alice.address);
+
+            expect(await env.erc20Inst.balanceOf(env.alice.address)).equals(0);
+            expect(await env.erc20Inst.balanceOf(env.deployer.address)).greaterThan(balanceBefore);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when sender isn't an operator", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(env.stakingInst.connect(env.bob).claimRewardsFor(env.alice.address))
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.bob.address, env.alice.address);
+            });
+        });
+    });
+
+    describe("{requestWithdrawFor} and {finalizeWithdrawFor} functions", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithOperator);
+
+            const withdrawAmount = env.aliceAmountToStake.div(2);
+            await expect(
+                env.stakingInst
+                    .connect(env.bob)
+                    .requestWithdrawFor(env.alice.address, withdrawAmount)
+            )
+                .emit(env.stakingInst, "WithdrawRequested")
+                .withArgs(env.alice.address, withdrawAmount, 1)
+                .emit(env.stakingInst, "WithdrawRequestedByOperator")
+                .withArgs(env.bob.address, env.alice.address, 1);
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake.sub(withdrawAmount)
+            );
+            expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([1]);
+            expect(await env.stakingInst.usersWithdrawIds(env.bob.address)).deep.equal([]);
+
+            await time.increase(env.coolingPeriod);
+
+            const tx = env.stakingInst.connect(env.bob).finalizeWithdrawFor(env.alice.address, 1);
+            await expect(tx)
+                .emit(env.stakingInst, "WithdrawIdFinalized")
+                .withArgs(env.alice.address, withdrawAmount, 1)
+                .emit(env.stakingInst, "WithdrawFinalizedByOperator")
+                .withArgs(env.bob.address, env.alice.address, 1);
+            await expect(tx).changeTokenBalances(
+                env.erc20Inst,
+                [env.alice, env.bob],
+                [withdrawAmount, 0]
+            );
+        });
+
+        it("Revoked operator can't act", async () => {
+            const env = await loadFixture(prepareEnvWithOperator);
+
+            await env.stakingInst.connect(env.alice).setOperator(env.bob.address, false);
+
+            await expect(
+                env.stakingInst
+                    .connect(env.bob)
+                    .requestWithdrawFor(env.alice.address, env.aliceAmountToStake)
+            )
+                .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                .withArgs(env.bob.address, env.alice.address);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when sender isn't an operator", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+                await time.increase(env.coolingPeriod);
+
+                await expect(
+                    env.stakingInst.connect(env.bob).finalizeWithdrawFor(env.alice.address, 1)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.bob.address, env.alice.address);
+            });
+
+            it("Should revert when request belongs to another user", async () => {
+                const env = await loadFixture(prepareEnvWithOperator);
+
+                await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+                await time.increase(env.coolingPeriod);
+
+                await expect(
+                    env.stakingInst.connect(env.bob).finalizeWithdrawFor(env.bob.address, 1)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.bob.address, env.alice.address);
+            });
+        });
+    });
+});
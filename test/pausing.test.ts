@@ -0,0 +1,408 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithAliceStake } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+const Operation = {
+    Stake: 0,
+    Claim: 1,
+    RequestWithdraw: 2,
+    FinalizeWithdraw: 3,
+};
+
+async function prepareEnvWithPauser() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    const pauser = (await ethers.getSigners())[4];
+    const PAUSER_ROLE = await env.stakingInst.PAUSER_ROLE();
+    await env.stakingInst.grantRole(PAUSER_ROLE, pauser.address);
+
+    await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY, 150_00);
+
+    // alice has a flexible stake, a locked position and a matured withdrawal request
+    await env.erc20Inst.connect(env.alice).mint(env.aliceAmountToStake);
+    await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, env.aliceAmountToStake);
+    await env.stakingInst.connect(env.alice).stakeLocked(env.aliceAmountToStake, 0);
+
+    await env.erc20Inst.connect(env.alice).mint(env.aliceAmountToStake);
+    await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, env.aliceAmountToStake);
+    await env.stakingInst.connect(env.alice).stake(env.aliceAmountToStake);
+    await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+    await time.increase(env.coolingPeriod);
+
+    return {
+        ...env,
+        pauser,
+        PAUSER_ROLE,
+        positionId: 1,
+        withdrawId: 1,
+    };
+}
+
+type Env = Awaited<ReturnType<typeof prepareEnvWithPauser>>;
+
+// every path of the users that should respect the flag of the operation
+const pausedCalls: { [operation: number]: { [name: string]: (env: Env) => Promise<unknown> } } = {
+    [Operation.Stake]: {
+        stake: (env) => env.stakingInst.connect(env.alice).stake(env.minStakeAmount),
+        stakeFor: (env) =>
+            env.stakingInst.connect(env.alice).stakeFor(env.bob.address, env.minStakeAmount),
+        stakeWithPermit: (env) =>
+            env.stakingInst
+                .connect(env.alice)
+                .stakeWithPermit(
+                    env.minStakeAmount,
+                    0,
+                    0,
+                    ethers.constants.HashZero,
+                    ethers.constants.HashZero
+                ),
+        stakeLocked: (env) => env.stakingInst.connect(env.alice).stakeLocked(env.minStakeAmount, 0),
+        cancelWithdraw: (env) => env.stakingInst.connect(env.alice).cancelWithdraw(env.withdrawId),
+        cancelWithdrawals: (env) =>
+            env.stakingInst.connect(env.alice).cancelWithdrawals([env.withdrawId]),
+    },
+    [Operation.Claim]: {
+        claimRewards: (env) => env.stakingInst.connect(env.alice).claimRewards(),
+        claimRewardsFor: (env) =>
+            env.stakingInst.connect(env.bob).claimRewardsFor(env.alice.address),
+        claimRewardsBySig: (env) =>
+            env.stakingInst.connect(env.bob).claimRewardsBySig(env.alice.address, 0, "0x"),
+        compoundRewards: (env) => env.stakingInst.connect(env.alice).compoundRewards(),
+        claimPositionRewards: (env) =>
+            env.stakingInst.connect(env.alice).claimPositionRewards(env.positionId),
+    },
+    [Operation.RequestWithdraw]: {
+        requestWithdraw: (env) =>
+            env.stakingInst.connect(env.alice).requestWithdraw(env.minStakeAmount),
+        requestWithdrawFor: (env) =>
+            env.stakingInst
+                .connect(env.bob)
+                .requestWithdrawFor(env.alice.address, env.minStakeAmount),
+        requestWithdrawBySig: (env) =>
+            env.stakingInst
+                .connect(env.bob)
+                .requestWithdrawBySig(env.alice.address, env.minStakeAmount, 0, "0x"),
+        requestPositionWithdraw: (env) =>
+            env.stakingInst.connect(env.alice).requestPositionWithdraw(env.positionId),
+        instantWithdraw: (env) =>
+            env.stakingInst.connect(env.alice).instantWithdraw(env.minStakeAmount),
+        migrate: (env) => env.stakingInst.connect(env.alice).migrate(env.bob.address, true),
+    },
+    [Operation.FinalizeWithdraw]: {
+        finalizeWithdraw: (env) =>
+            env.stakingInst.connect(env.alice).finalizeWithdraw(env.withdrawId),
+        finalizeWithdrawFor: (env) =>
+            env.stakingInst.connect(env.bob).finalizeWithdrawFor(env.alice.address, env.withdrawId),
+        finalizeWithdrawBySig: (env) =>
+            env.stakingInst
+                .connect(env.bob)
+                .finalizeWithdrawBySig(env.alice.address, env.withdrawId, 0, "0x"),
+        finalizeWithdrawals: (env) =>
+            env.stakingInst.connect(env.alice).finalizeWithdrawals([env.withdrawId], true),
+        finalizeAllWithdrawals: (env) =>
+            env.stakingInst.connect(env.alice).finalizeAllWithdrawals(),
+        finalizeMaturedWithdrawals: (env) =>
+            env.stakingInst.connect(env.alice).finalizeMaturedWithdrawals(1),
+        accelerateWithdraw: (env) =>
+            env.stakingInst.connect(env.alice).accelerateWithdraw(env.withdrawId),
+        instantWithdraw: (env) =>
+            env.stakingInst.connect(env.alice).instantWithdraw(env.minStakeAmount),
+    },
+};
+
+describe("Pausing and emergency shutdown", () => {
+    describe("{setPaused} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await expect(env.stakingInst.connect(env.pauser).setPaused(Operation.Claim, true))
+                .emit(env.stakingInst, "PausedChanged")
+                .withArgs(Operation.Claim, true);
+            expect(await env.stakingInst.isPaused(Operation.Claim)).true;
+            expect(await env.stakingInst.isPaused(Operation.Stake)).false;
+
+            await expect(env.stakingInst.connect(env.pauser).setPaused(Operation.Claim, false))
+                .emit(env.stakingInst, "PausedChanged")
+                .withArgs(Operation.Claim, false);
+            expect(await env.stakingInst.isPaused(Operation.Claim)).false;
+        });
+
+        for (const [key, calls] of Object.entries(pausedCalls)) {
+            const operation = Number(key);
+            it(`Pauses every path of the operation ${operation}`, async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await env.stakingInst.connect(env.alice).setOperator(env.bob.address, true);
+                await env.stakingInst.connect(env.pauser).setPaused(operation, true);
+
+                for (const [name, call] of Object.entries(calls)) {
+                    await expect(call(env), name)
+                        .revertedWithCustomError(env.stakingInst, "OperationIsPaused")
+                        .withArgs(operation);
+                }
+            });
+        }
+
+        it("Other operations keep working", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await env.stakingInst.connect(env.pauser).setPaused(Operation.Stake, true);
+            await env.stakingInst.connect(env.pauser).setPaused(Operation.RequestWithdraw, true);
+
+            await expect(env.stakingInst.connect(env.alice).claimRewards()).emit(
+                env.stakingInst,
+                "RewardsClaimed"
+            );
+            await expect(
+                env.stakingInst.connect(env.alice).finalizeWithdraw(env.withdrawId)
+            ).changeTokenBalance(env.erc20Inst, env.alice, env.aliceAmountToStake);
+
+            await env.stakingInst.connect(env.pauser).setPaused(Operation.Stake, false);
+            await env.erc20Inst.connect(env.alice).mint(env.minStakeAmount);
+            await env.erc20Inst
+                .connect(env.alice)
+                .approve(env.stakingInst.address, env.minStakeAmount);
+            await expect(env.stakingInst.connect(env.alice).stake(env.minStakeAmount)).emit(
+                env.stakingInst,
+                "TokenStaked"
+            );
+        });
+
+        it("Rewards collected while claims are paused become the debt", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await env.stakingInst.connect(env.pauser).setPaused(Operation.Claim, true);
+
+            await env.erc20Inst.connect(env.alice).mint(env.minStakeAmount);
+            await env.erc20Inst
+                .connect(env.alice)
+                .approve(env.stakingInst.address, env.minStakeAmount);
+            const tx = env.stakingInst.connect(env.alice).stake(env.minStakeAmount);
+            await expect(tx).emit(env.stakingInst, "DeptToUserChanged");
+            await expect(tx).not.emit(env.stakingInst, "RewardsClaimed");
+
+            const debt = (await env.stakingInst.stakeStates(env.alice.address)).contractDeptToUser;
+            expect(debt).greaterThan(0);
+
+            await env.stakingInst.connect(env.pauser).setPaused(Operation.Claim, false);
+            await expect(env.stakingInst.connect(env.alice).claimRewards())
+                .emit(env.stakingInst, "DeptToUserChanged")
+                .withArgs(env.alice.address, debt, 0);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setPaused(Operation.Stake, true)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.PAUSER_ROLE
+                );
+            });
+
+            it("Should revert when value is the same", async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await expect(
+                    env.stakingInst.connect(env.pauser).setPaused(Operation.Stake, false)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("{enableEmergencyShutdown} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await expect(env.stakingInst.enableEmergencyShutdown()).emit(
+                env.stakingInst,
+                "EmergencyShutdownEnabled"
+            );
+            expect(await env.stakingInst.isEmergencyShutdown()).true;
+
+            // all operations are paused
+            await env.stakingInst.connect(env.alice).setOperator(env.bob.address, true);
+            for (const [operation, calls] of Object.entries(pausedCalls)) {
+                for (const [name, call] of Object.entries(calls)) {
+                    await expect(call(env), name).revertedWithCustomError(
+                        env.stakingInst,
+                        "OperationIsPaused"
+                    );
+                }
+                expect(await env.stakingInst.isPaused(operation)).false;
+            }
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await expect(
+                    env.stakingInst.connect(env.pauser).enableEmergencyShutdown()
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.pauser.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when already enabled", async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await env.stakingInst.enableEmergencyShutdown();
+                await expect(env.stakingInst.enableEmergencyShutdown()).revertedWithCustomError(
+                    env.stakingInst,
+                    "TheSameValue"
+                );
+            });
+        });
+    });
+
+    describe("{emergencyWithdraw} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await time.increase(ONE_DAY);
+            await env.stakingInst.enableEmergencyShutdown();
+
+            // the flexible stake, the locked position and the withdrawal request
+            const principal = env.aliceAmountToStake.mul(3);
+            const totalStakedBefore = await env.stakingInst.totalStaked();
+            const tx = env.stakingInst.connect(env.alice).emergencyWithdraw();
+            await expect(tx)
+                .emit(env.stakingInst, "EmergencyWithdrawn")
+                .withArgs(env.alice.address, principal);
+            // the rewards are forfeited
+            await expect(tx).changeTokenBalances(
+                env.erc20Inst,
+                [env.alice, env.stakingInst],
+                [principal, principal.mul(-1)]
+            );
+
+            expect(await env.stakingInst.totalStaked()).equals(totalStakedBefore.sub(principal));
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.stakeAmount).equals(0);
+            expect(stakeState.contractDeptToUser).equals(0);
+            expect(await env.stakingInst.usersPositionIds(env.alice.address)).deep.equal([]);
+            expect((await env.stakingInst.positions(env.positionId)).amount).equals(0);
+            expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([]);
+            expect((await env.stakingInst.withdrawStates(env.withdrawId)).amount).equals(0);
+        });
+
+        it("Removes the stake from the reward accounting", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+            const extraTokenInst = await ERC20TestFactory.deploy();
+            await env.stakingInst
+                .connect(env.manager)
+                .addExtraRewardToken(extraTokenInst.address, env.oneToken);
+            const donatedExtraTokens = env.oneToken.mul(ONE_DAY * 10);
+            await extraTokenInst.mint(donatedExtraTokens);
+            await extraTokenInst.approve(env.stakingInst.address, donatedExtraTokens);
+            await env.stakingInst.donateExtraRewards(extraTokenInst.address, donatedExtraTokens);
+
+            // the tier rates are accrued in the unpaid rewards with the solvency throttling
+            await env.stakingInst.setSolvencyParameters(ONE_DAY * 30, 0);
+
+            // the rewards of alice become the debt
+            await time.increase(ONE_DAY);
+            await env.stakingInst.connect(env.pauser).setPaused(Operation.Claim, true);
+            await env.erc20Inst.connect(env.alice).mint(env.minStakeAmount);
+            await env.erc20Inst
+                .connect(env.alice)
+                .approve(env.stakingInst.address, env.minStakeAmount);
+            await env.stakingInst.connect(env.alice).stake(env.minStakeAmount);
+            expect(
+                (await env.stakingInst.stakeStates(env.alice.address)).contractDeptToUser
+            ).greaterThan(0);
+            const unpaidRewards = await env.stakingInst.totalUnpaidRewards();
+
+            await time.increase(ONE_DAY);
+            await env.stakingInst.enableEmergencyShutdown();
+            await env.stakingInst.connect(env.alice).emergencyWithdraw();
+
+            // alice was the only staker
+            expect(await env.stakingInst.totalRewardWeight()).equals(0);
+            // the estimate of the unpaid rewards is rounded
+            expect(await env.stakingInst.totalUnpaidRewards()).lessThan(
+                unpaidRewards.div(1_000_000)
+            );
+            expect((await env.stakingInst.tierRates(0)).totalLocked).equals(0);
+            expect(
+                (await env.stakingInst.extraRewardStates(extraTokenInst.address)).owedRewards
+            ).equals(0);
+
+            // nothing is emitted to the withdrawn stake
+            await time.increase(ONE_DAY);
+            const extraBalance = await extraTokenInst.balanceOf(env.stakingInst.address);
+            await expect(
+                env.stakingInst.receiveExcessiveExtraRewards(
+                    extraTokenInst.address,
+                    ethers.constants.MaxUint256
+                )
+            ).changeTokenBalance(extraTokenInst, env.deployer, extraBalance);
+        });
+
+        it("Admins can't touch the principal", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await env.stakingInst.enableEmergencyShutdown();
+
+            const totalStaked = await env.stakingInst.totalStaked();
+            const totalBalance = await env.erc20Inst.balanceOf(env.stakingInst.address);
+            await expect(
+                env.stakingInst.receiveExcessiveBalance(ethers.constants.MaxUint256)
+            ).changeTokenBalance(env.erc20Inst, env.deployer, totalBalance.sub(totalStaked));
+
+            await expect(env.stakingInst.connect(env.alice).emergencyWithdraw()).changeTokenBalance(
+                env.erc20Inst,
+                env.alice,
+                totalStaked
+            );
+            expect(await env.erc20Inst.balanceOf(env.stakingInst.address)).equals(0);
+        });
+
+        it("Tokens go to the payout recipient", async () => {
+            const env = await loadFixture(prepareEnvWithPauser);
+
+            await env.stakingInst.connect(env.alice).setPayoutRecipient(env.bob.address);
+            await env.stakingInst.enableEmergencyShutdown();
+
+            await expect(
+                env.stakingInst.connect(env.alice).emergencyWithdraw()
+            ).changeTokenBalances(
+                env.erc20Inst,
+                [env.alice, env.bob],
+                [0, env.aliceAmountToStake.mul(3)]
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the emergency shutdown is disabled", async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).emergencyWithdraw()
+                ).revertedWithCustomError(env.stakingInst, "EmergencyShutdownIsDisabled");
+            });
+
+            it("Should revert when nothing to withdraw", async () => {
+                const env = await loadFixture(prepareEnvWithPauser);
+
+                await env.stakingInst.enableEmergencyShutdown();
+                await expect(
+                    env.stakingInst.connect(env.bob).emergencyWithdraw()
+                ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+            });
+        });
+    });
+});
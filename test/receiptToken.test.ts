@@ -0,0 +1,334 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { deployReceiptToken, prepareEnv } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+async function prepareEnvWithReceipt(isTransferable: boolean) {
+    const env = await loadFixture(prepareEnv);
+
+    const receiptInst = await deployReceiptToken(env.stakingInst.address, isTransferable);
+    await env.stakingInst.setReceiptToken(receiptInst.address);
+
+    const aliceStakeTimestamp = env.deployTimestamp + ONE_DAY;
+    const aliceAmountToStake = env.oneToken.mul(100);
+    await env.erc20Inst.connect(env.alice).mint(aliceAmountToStake);
+    await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, aliceAmountToStake);
+    await time.setNextBlockTimestamp(aliceStakeTimestamp);
+    await env.stakingInst.connect(env.alice).stake(aliceAmountToStake);
+
+    return {
+        ...env,
+        receiptInst,
+        aliceStakeTimestamp,
+        aliceAmountToStake,
+    };
+}
+
+async function prepareEnvWithSoulboundReceipt() {
+    return prepareEnvWithReceipt(false);
+}
+
+async function prepareEnvWithTransferableReceipt() {
+    return prepareEnvWithReceipt(true);
+}
+
+type Env = Awaited<ReturnType<typeof prepareEnvWithReceipt>>;
+
+async function stake(env: Env, user: typeof env.bob, amount: typeof env.oneToken) {
+    await env.erc20Inst.connect(user).mint(amount);
+    await env.erc20Inst.connect(user).approve(env.stakingInst.address, amount);
+    await env.stakingInst.connect(user).stake(amount);
+}
+
+async function expectReceiptFollowsStake(env: Env, users: (typeof env.bob)[]) {
+    let totalStake = ethers.constants.Zero;
+    for (const user of users) {
+        const stakeAmount = (await env.stakingInst.stakeStates(user.address)).stakeAmount;
+        expect(await env.receiptInst.balanceOf(user.address)).equals(stakeAmount);
+        totalStake = totalStake.add(stakeAmount);
+    }
+    expect(await env.receiptInst.totalSupply()).equals(totalStake);
+}
+
+describe("Receipt token", () => {
+    describe("{constructor} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithTransferableReceipt);
+
+            expect(await env.receiptInst.name()).equals("Staked Token");
+            expect(await env.receiptInst.symbol()).equals("stToken");
+            expect(await env.receiptInst.decimals()).equals(await env.erc20Inst.decimals());
+            expect(await env.receiptInst.STAKING()).equals(env.stakingInst.address);
+            expect(await env.receiptInst.IS_TRANSFERABLE()).true;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the staking contract is the zero address", async () => {
+                const env = await loadFixture(prepareEnvWithTransferableReceipt);
+
+                await expect(
+                    deployReceiptToken(ethers.constants.AddressZero, true)
+                ).revertedWithCustomError(env.receiptInst, "AddressZero");
+            });
+        });
+    });
+
+    describe("{setReceiptToken} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            expect(await env.stakingInst.receiptToken()).equals(ethers.constants.AddressZero);
+
+            const receiptInst = await deployReceiptToken(env.stakingInst.address, false);
+            await expect(env.stakingInst.setReceiptToken(receiptInst.address))
+                .emit(env.stakingInst, "ReceiptTokenSet")
+                .withArgs(receiptInst.address);
+            expect(await env.stakingInst.receiptToken()).equals(receiptInst.address);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const receiptInst = await deployReceiptToken(env.stakingInst.address, false);
+                await expect(
+                    env.stakingInst.connect(env.manager).setReceiptToken(receiptInst.address)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when the token is the zero address", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(
+                    env.stakingInst.setReceiptToken(ethers.constants.AddressZero)
+                ).revertedWithCustomError(env.stakingInst, "AddressZero");
+            });
+
+            it("Should revert when the receipt token is already set", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await env.stakingInst.setReceiptToken(
+                    (
+                        await deployReceiptToken(env.stakingInst.address, false)
+                    ).address
+                );
+
+                const receiptInst = await deployReceiptToken(env.stakingInst.address, true);
+                await expect(env.stakingInst.setReceiptToken(receiptInst.address))
+                    .revertedWithCustomError(env.stakingInst, "InvalidReceiptToken")
+                    .withArgs(receiptInst.address);
+            });
+
+            it("Should revert when some tokens are already staked", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await env.erc20Inst.connect(env.alice).mint(env.minStakeAmount);
+                await env.erc20Inst
+                    .connect(env.alice)
+                    .approve(env.stakingInst.address, env.minStakeAmount);
+                await env.stakingInst.connect(env.alice).stake(env.minStakeAmount);
+
+                const receiptInst = await deployReceiptToken(env.stakingInst.address, false);
+                await expect(env.stakingInst.setReceiptToken(receiptInst.address))
+                    .revertedWithCustomError(env.stakingInst, "InvalidReceiptToken")
+                    .withArgs(receiptInst.address);
+            });
+
+            it("Should revert when the token belongs to another staking contract", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const otherStaking = await env.StakingFactory.deploy(
+                    env.erc20Inst.address,
+                    env.minStakeAmount,
+                    env.apr,
+                    env.coolingPeriod
+                );
+                const receiptInst = await deployReceiptToken(otherStaking.address, false);
+                await expect(env.stakingInst.setReceiptToken(receiptInst.address))
+                    .revertedWithCustomError(env.stakingInst, "InvalidReceiptToken")
+                    .withArgs(receiptInst.address);
+            });
+        });
+    });
+
+    describe("Receipt balances", () => {
+        it("Follow the flexible stakes", async () => {
+            const env = await loadFixture(prepareEnvWithSoulboundReceipt);
+            const users = [env.alice, env.bob];
+
+            await expectReceiptFollowsStake(env, users);
+            await stake(env, env.bob, env.oneToken.mul(1000));
+            await expectReceiptFollowsStake(env, users);
+
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.oneToken.mul(30));
+            await expectReceiptFollowsStake(env, users);
+            await env.stakingInst.connect(env.alice).cancelWithdraw(1);
+            await expectReceiptFollowsStake(env, users);
+
+            await time.increase(ONE_DAY);
+            await env.stakingInst.connect(env.alice).compoundRewards();
+            await expectReceiptFollowsStake(env, users);
+
+            await env.stakingInst.connect(env.bob).instantWithdraw(env.oneToken.mul(500));
+            await expectReceiptFollowsStake(env, users);
+
+            // locked positions don't have receipts
+            await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY, 150_00);
+            await env.erc20Inst.connect(env.bob).mint(env.minStakeAmount);
+            await env.erc20Inst
+                .connect(env.bob)
+                .approve(env.stakingInst.address, env.minStakeAmount);
+            await env.stakingInst.connect(env.bob).stakeLocked(env.minStakeAmount, 0);
+            await expectReceiptFollowsStake(env, users);
+        });
+
+        it("Are burned by the emergency withdrawal", async () => {
+            const env = await loadFixture(prepareEnvWithSoulboundReceipt);
+
+            await env.stakingInst.enableEmergencyShutdown();
+            await expect(env.stakingInst.connect(env.alice).emergencyWithdraw()).changeTokenBalance(
+                env.receiptInst,
+                env.alice,
+                env.aliceAmountToStake.mul(-1)
+            );
+            expect(await env.receiptInst.totalSupply()).equals(0);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when not the staking contract mints or burns", async () => {
+                const env = await loadFixture(prepareEnvWithSoulboundReceipt);
+
+                await expect(env.receiptInst.connect(env.alice).mint(env.alice.address, 1))
+                    .revertedWithCustomError(env.receiptInst, "NotStakingContract")
+                    .withArgs(env.alice.address);
+                await expect(env.receiptInst.connect(env.alice).burn(env.bob.address, 1))
+                    .revertedWithCustomError(env.receiptInst, "NotStakingContract")
+                    .withArgs(env.alice.address);
+            });
+        });
+    });
+
+    describe("Soulbound mode", () => {
+        it("Transfers are disabled", async () => {
+            const env = await loadFixture(prepareEnvWithSoulboundReceipt);
+
+            expect(await env.receiptInst.IS_TRANSFERABLE()).false;
+            await expect(
+                env.receiptInst.connect(env.alice).transfer(env.bob.address, 1)
+            ).revertedWithCustomError(env.receiptInst, "TransfersAreDisabled");
+
+            await env.receiptInst.connect(env.alice).approve(env.bob.address, 1);
+            await expect(
+                env.receiptInst.connect(env.bob).transferFrom(env.alice.address, env.bob.address, 1)
+            ).revertedWithCustomError(env.receiptInst, "TransfersAreDisabled");
+        });
+    });
+
+    describe("Transferable mode", () => {
+        it("A transfer moves the stake", async () => {
+            const env = await loadFixture(prepareEnvWithTransferableReceipt);
+            await stake(env, env.bob, env.oneToken.mul(1000));
+
+            const amount = env.oneToken.mul(40);
+            const totalStaked = await env.stakingInst.totalStaked();
+            await expect(env.receiptInst.connect(env.alice).transfer(env.bob.address, amount))
+                .emit(env.stakingInst, "StakeTransferred")
+                .withArgs(env.alice.address, env.bob.address, amount);
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake.sub(amount)
+            );
+            expect((await env.stakingInst.stakeStates(env.bob.address)).stakeAmount).equals(
+                env.oneToken.mul(1000).add(amount)
+            );
+            expect(await env.stakingInst.totalStaked()).equals(totalStaked);
+            await expectReceiptFollowsStake(env, [env.alice, env.bob]);
+
+            // the recipient can withdraw the moved stake
+            await env.stakingInst
+                .connect(env.bob)
+                .requestWithdraw(env.oneToken.mul(1000).add(amount));
+            await expectReceiptFollowsStake(env, [env.alice, env.bob]);
+        });
+
+        it("Rewards of both users are settled by the transfer", async () => {
+            const env = await loadFixture(prepareEnvWithTransferableReceipt);
+            await stake(env, env.bob, env.oneToken.mul(1000));
+
+            const transferTimestamp = (await time.latest()) + ONE_DAY;
+
+            // rewards that the users would claim at the time of the transfer
+            const snapshot = await takeSnapshot();
+            const claimedRewards = [];
+            for (const user of [env.alice, env.bob]) {
+                await time.setNextBlockTimestamp(transferTimestamp);
+                const receipt = await (await env.stakingInst.connect(user).claimRewards()).wait();
+                const event = receipt.events?.find((event) => event.event === "RewardsClaimed");
+                claimedRewards.push(event?.args?.amount);
+                await snapshot.restore();
+            }
+
+            await time.setNextBlockTimestamp(transferTimestamp);
+            const tx = env.receiptInst
+                .connect(env.alice)
+                .transfer(env.bob.address, env.aliceAmountToStake);
+            await expect(tx)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.alice.address, claimedRewards[0]);
+            await expect(tx)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.bob.address, claimedRewards[1]);
+
+            // the sender doesn't earn on the moved stake anymore
+            await time.increase(ONE_DAY);
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(0);
+            expect(await env.stakingInst.availableRewardsToClaim(env.bob.address)).greaterThan(0);
+        });
+
+        it("Auto-compounding users compound the settled rewards", async () => {
+            const env = await loadFixture(prepareEnvWithTransferableReceipt);
+
+            await env.stakingInst.connect(env.alice).setAutoCompounding(true);
+            await time.increase(ONE_DAY);
+
+            await expect(
+                env.receiptInst.connect(env.alice).transfer(env.bob.address, env.minStakeAmount)
+            ).emit(env.stakingInst, "RewardsCompounded");
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).greaterThan(
+                env.aliceAmountToStake.sub(env.minStakeAmount)
+            );
+            await expectReceiptFollowsStake(env, [env.alice, env.bob]);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the amount exceeds the stake", async () => {
+                const env = await loadFixture(prepareEnvWithTransferableReceipt);
+
+                await expect(
+                    env.receiptInst
+                        .connect(env.alice)
+                        .transfer(env.bob.address, env.aliceAmountToStake.add(1))
+                ).revertedWith("ERC20: transfer amount exceeds balance");
+            });
+
+            it("Should revert when not the receipt token moves a stake", async () => {
+                const env = await loadFixture(prepareEnvWithTransferableReceipt);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .onReceiptTransfer(env.bob.address, env.alice.address, 1)
+                )
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.alice.address, env.receiptInst.address);
+            });
+        });
+    });
+});
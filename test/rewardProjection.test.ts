@@ -0,0 +1,419 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { deployReceiptToken, prepareEnv, prepareEnvWithoutDonation } from "./helpers";
+import { ONE_DAY, PERCENT_DENOMINATOR } from "./constants";
+import { mulberry32 } from "./fuzzing";
+
+import { StakingModel, loadStakingModel } from "../scripts/rewardProjection";
+
+type Env = Awaited<ReturnType<typeof prepareEnvWithoutDonation>>;
+
+async function expectModelMatchesContract(env: Env, model: StakingModel, users: string[]) {
+    const onChainModel = await loadStakingModel(env.stakingInst, { users });
+
+    expect(onChainModel.state.apr).equals(model.state.apr);
+    expect(onChainModel.state.aprRamp).deep.equal(model.state.aprRamp);
+    expect(onChainModel.state.rampDuration).equals(model.state.rampDuration);
+    expect(onChainModel.state.totalStaked).equals(model.state.totalStaked);
+    expect(onChainModel.state.lastRateUpdateTimestamp).equals(model.state.lastRateUpdateTimestamp);
+    expect(onChainModel.state.ratePerStaking).equals(model.state.ratePerStaking);
+    expect(onChainModel.state.balance).equals(model.state.balance);
+
+    for (const user of users) {
+        const expected = model.stakeState(user);
+        const actual = onChainModel.stakeState(user);
+        expect(actual.stakeAmount).equals(expected.stakeAmount);
+        expect(actual.claimedAmount).equals(expected.claimedAmount);
+        expect(actual.contractDeptToUser).equals(expected.contractDeptToUser);
+    }
+    expect(onChainModel.state.autoCompoundingUsers).deep.equal(model.state.autoCompoundingUsers);
+
+    expect(onChainModel.state.lockTiers).deep.equal(model.state.lockTiers);
+    expect([...onChainModel.state.positions.entries()]).deep.equal([
+        ...model.state.positions.entries(),
+    ]);
+
+    expect(onChainModel.state.isCampaignMode).equals(model.state.isCampaignMode);
+    expect(onChainModel.state.totalRewardWeight).equals(model.state.totalRewardWeight);
+    expect(onChainModel.state.campaigns).deep.equal(model.state.campaigns);
+
+    expect(onChainModel.state.solvencyRunway).equals(model.state.solvencyRunway);
+    expect(onChainModel.state.solvencyBuffer).equals(model.state.solvencyBuffer);
+    expect(onChainModel.state.totalUnpaidRewards).equals(model.state.totalUnpaidRewards);
+}
+
+async function prepareEnvWithAprRamp() {
+    const env = await prepareEnv();
+    await env.stakingInst.setAprGuardrails(0, 0, 0, ONE_DAY * 3);
+    return env;
+}
+
+async function prepareEnvWithSolvencyThrottling() {
+    const env = await prepareEnvWithoutDonation();
+    await env.stakingInst.setSolvencyParameters(ONE_DAY * 30, env.oneToken.mul(50));
+    return env;
+}
+
+async function runRandomSequence(env: Env, seed: number, steps: number) {
+    const random = mulberry32(seed);
+    const randomInt = (max: number) => Math.floor(random() * max);
+
+    const actors = [env.alice, env.bob];
+    const users = actors.map((actor) => actor.address);
+    const model = await loadStakingModel(env.stakingInst, { users });
+
+    const withdrawals: { id: BigNumber; user: string; amount: BigNumber; timestamp: number }[] = [];
+
+    for (const lockPeriod of [ONE_DAY * 3, ONE_DAY * 10]) {
+        const aprMultiplier = 100_00 + randomInt(200_00);
+        const tx = await env.stakingInst
+            .connect(env.manager)
+            .addLockTier(lockPeriod, aprMultiplier);
+        const block = await ethers.provider.getBlock((await tx.wait()).blockNumber);
+        model.addLockTier(lockPeriod, aprMultiplier, block.timestamp);
+    }
+
+    const nextTimestamp = async () => (await time.latest()) + 1 + randomInt(ONE_DAY * 7);
+
+    for (let step = 0; step < steps; ++step) {
+        const actor = actors[randomInt(actors.length)];
+        const operation = randomInt(14);
+
+        if (operation == 0 || operation == 1) {
+            const amount = env.minStakeAmount.add(env.oneToken.mul(randomInt(10_000)));
+            await env.erc20Inst.connect(actor).mint(amount);
+            await env.erc20Inst.connect(actor).approve(env.stakingInst.address, amount);
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            await env.stakingInst.connect(actor).stake(amount);
+            model.stake(actor.address, amount, timestamp);
+        } else if (operation == 2) {
+            const stakeAmount = model.stakeState(actor.address).stakeAmount;
+            if (stakeAmount.eq(0)) {
+                continue;
+            }
+            const amount = stakeAmount.mul(1 + randomInt(100)).div(100);
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            const tx = await env.stakingInst.connect(actor).requestWithdraw(amount);
+            const receipt = await tx.wait();
+            const id = receipt.events?.find((event) => event.event == "WithdrawRequested")?.args
+                ?.withdrawId;
+            withdrawals.push({ id, user: actor.address, amount, timestamp });
+            model.requestWithdraw(actor.address, amount, timestamp);
+        } else if (operation == 3) {
+            const timestamp = await nextTimestamp();
+            const index = withdrawals.findIndex(
+                (withdrawal) => withdrawal.timestamp + env.coolingPeriod <= timestamp
+            );
+            if (index == -1) {
+                continue;
+            }
+            const [withdrawal] = withdrawals.splice(index, 1);
+            const user = actors.find((actor) => actor.address == withdrawal.user)!;
+
+            await time.setNextBlockTimestamp(timestamp);
+            await env.stakingInst.connect(user).finalizeWithdraw(withdrawal.id);
+            model.finalizeWithdraw(withdrawal.amount);
+        } else if (operation == 4) {
+            const balanceBefore = await env.erc20Inst.balanceOf(actor.address);
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            await env.stakingInst.connect(actor).claimRewards();
+            const paidRewards = model.claimRewards(actor.address, timestamp);
+
+            const balanceAfter = await env.erc20Inst.balanceOf(actor.address);
+            expect(balanceAfter.sub(balanceBefore)).equals(paidRewards);
+        } else if (operation == 5) {
+            const newApr = randomInt(PERCENT_DENOMINATOR + 1);
+            if (model.state.apr.eq(newApr)) {
+                continue;
+            }
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            await env.stakingInst.connect(env.manager).setApr(newApr);
+            model.setApr(newApr, timestamp);
+        } else if (operation == 6) {
+            const amount = env.oneToken.mul(randomInt(100));
+            await env.erc20Inst.mint(amount);
+            await env.erc20Inst.approve(env.stakingInst.address, amount);
+            await env.stakingInst.donateTokensToRewards(amount);
+            model.donateTokensToRewards(amount);
+
+            const withdrawAmount = env.oneToken.mul(randomInt(50));
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            await env.stakingInst.receiveExcessiveBalance(withdrawAmount);
+            model.receiveExcessiveBalance(withdrawAmount, timestamp);
+        } else if (operation == 7) {
+            const index = withdrawals.findIndex((withdrawal) => withdrawal.user == actor.address);
+            if (index == -1) {
+                continue;
+            }
+            const [withdrawal] = withdrawals.splice(index, 1);
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            await env.stakingInst.connect(actor).cancelWithdraw(withdrawal.id);
+            model.cancelWithdraw(actor.address, withdrawal.amount, timestamp);
+        } else if (operation == 8) {
+            const stakeAmount = model.stakeState(actor.address).stakeAmount;
+            if (stakeAmount.eq(0)) {
+                continue;
+            }
+            const penalty = randomInt(PERCENT_DENOMINATOR / 2);
+            if (!(await env.stakingInst.earlyWithdrawPenalty()).eq(penalty)) {
+                await env.stakingInst.connect(env.manager).setEarlyWithdrawPenalty(penalty);
+            }
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            if (withdrawals.length > 0 && random() < 0.5) {
+                const [withdrawal] = withdrawals.splice(randomInt(withdrawals.length), 1);
+                const user = actors.find((actor) => actor.address == withdrawal.user)!;
+                const tx = await env.stakingInst.connect(user).accelerateWithdraw(withdrawal.id);
+                const event = (await tx.wait()).events?.find(
+                    (event) => event.event == "WithdrawIdAccelerated"
+                );
+                model.accelerateWithdraw(withdrawal.amount, event?.args?.penalty);
+            } else {
+                const amount = stakeAmount.mul(1 + randomInt(100)).div(100);
+                const tx = await env.stakingInst.connect(actor).instantWithdraw(amount);
+                const event = (await tx.wait()).events?.find(
+                    (event) => event.event == "InstantWithdrawn"
+                );
+                model.instantWithdraw(actor.address, amount, event?.args?.penalty, timestamp);
+            }
+        } else if (operation == 9) {
+            const amount = env.minStakeAmount.add(env.oneToken.mul(randomInt(10_000)));
+            await env.erc20Inst.connect(actor).mint(amount);
+            await env.erc20Inst.connect(actor).approve(env.stakingInst.address, amount);
+
+            const tierId = randomInt(model.state.lockTiers.length);
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            const tx = await env.stakingInst.connect(actor).stakeLocked(amount, tierId);
+            const event = (await tx.wait()).events?.find((event) => event.event == "TokenLocked");
+            model.stakeLocked(
+                event?.args?.positionId.toNumber(),
+                actor.address,
+                amount,
+                tierId,
+                timestamp
+            );
+        } else if (operation == 10) {
+            const positionIds = [...model.state.positions.entries()]
+                .filter(([, position]) => position.user == actor.address)
+                .map(([positionId]) => positionId);
+            if (positionIds.length == 0) {
+                continue;
+            }
+            const positionId = positionIds[randomInt(positionIds.length)];
+            const position = model.state.positions.get(positionId)!;
+
+            const timestamp = await nextTimestamp();
+            await time.setNextBlockTimestamp(timestamp);
+            if (position.unlockTimestamp <= timestamp) {
+                const tx = await env.stakingInst.connect(actor).requestPositionWithdraw(positionId);
+                const receipt = await tx.wait();
+                const id = receipt.events?.find((event) => event.event == "WithdrawRequested")?.args
+                    ?.withdrawId;
+                withdrawals.push({ id, user: actor.address, amount: position.amount, timestamp });
+                model.requestPositionWithdraw(positionId, timestamp);
+            } else {
+                await env.stakingInst.connect(actor).claimPositionRewards(positionId);
+                model.claimPositionRewards(positionId, timestamp);
+            }
+        } else if (operation == 11) {
+            if (randomInt(2) == 0) {
+                const timestamp = await nextTimestamp();
+                await time.setNextBlockTimestamp(timestamp);
+                await env.stakingInst.connect(actor).compoundRewards();
+                model.compoundRewards(actor.address, timestamp);
+            } else {
+                const isEnabled = !model.state.autoCompoundingUsers.has(actor.address);
+                await env.stakingInst.connect(actor).setAutoCompounding(isEnabled);
+                model.setAutoCompounding(actor.address, isEnabled);
+            }
+        } else if (operation == 12) {
+            if (!model.state.isCampaignMode) {
+                const timestamp = await nextTimestamp();
+                await time.setNextBlockTimestamp(timestamp);
+                await env.stakingInst.connect(env.manager).enableCampaignMode();
+                model.enableCampaignMode(timestamp);
+            } else {
+                const budget = env.oneToken.mul(1 + randomInt(1_000));
+                await env.erc20Inst.connect(env.manager).mint(budget);
+                await env.erc20Inst.connect(env.manager).approve(env.stakingInst.address, budget);
+
+                const timestamp = await nextTimestamp();
+                const lastCampaign = model.state.campaigns[model.state.campaigns.length - 1];
+                const startTimestamp =
+                    Math.max(timestamp, lastCampaign?.endTimestamp ?? 0) + randomInt(ONE_DAY * 3);
+                const duration = 1 + randomInt(ONE_DAY * 20);
+                await time.setNextBlockTimestamp(timestamp);
+                await env.stakingInst
+                    .connect(env.manager)
+                    .addCampaign(startTimestamp, duration, budget);
+                model.addCampaign(startTimestamp, duration, budget);
+            }
+        } else {
+            const projectionTimestamp = (await nextTimestamp()) + randomInt(ONE_DAY * 365);
+            await time.setNextBlockTimestamp(projectionTimestamp);
+            await mine();
+
+            for (const user of users) {
+                expect(await env.stakingInst.availableRewardsToClaim(user)).equals(
+                    model.availableRewardsToClaim(user, projectionTimestamp)
+                );
+            }
+            for (const positionId of model.state.positions.keys()) {
+                expect(await env.stakingInst.positionRewards(positionId)).equals(
+                    model.positionRewards(positionId, projectionTimestamp)
+                );
+            }
+        }
+
+        await expectModelMatchesContract(env, model, users);
+    }
+}
+
+describe("Tests of the reward projection engine", () => {
+    describe("Randomized sequences mirror the contract", () => {
+        for (const seed of [1, 2, 3]) {
+            it(`With donation, seed ${seed}`, async () => {
+                const env = await loadFixture(prepareEnv);
+                await runRandomSequence(env, seed, 40);
+            });
+        }
+
+        for (const seed of [4, 5, 6]) {
+            it(`Without donation, seed ${seed}`, async () => {
+                const env = await loadFixture(prepareEnvWithoutDonation);
+                await runRandomSequence(env, seed, 40);
+            });
+        }
+
+        for (const seed of [7, 8]) {
+            it(`With the APR ramp, seed ${seed}`, async () => {
+                const env = await loadFixture(prepareEnvWithAprRamp);
+                await runRandomSequence(env, seed, 40);
+            });
+        }
+
+        for (const seed of [11, 13]) {
+            it(`With the solvency throttling, seed ${seed}`, async () => {
+                const env = await loadFixture(prepareEnvWithSolvencyThrottling);
+                await runRandomSequence(env, seed, 40);
+            });
+        }
+    });
+
+    describe("{findRunway} function", () => {
+        it("Finds the exact second when the pool runs dry", async () => {
+            const env = await loadFixture(prepareEnvWithoutDonation);
+
+            const stakeAmount = env.oneToken.mul(10_000);
+            await env.erc20Inst.connect(env.alice).mint(stakeAmount);
+            await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, stakeAmount);
+            await env.stakingInst.connect(env.alice).stake(stakeAmount);
+
+            const donatedTokens = env.oneToken.mul(7);
+            await env.erc20Inst.mint(donatedTokens);
+            await env.erc20Inst.approve(env.stakingInst.address, donatedTokens);
+            await env.stakingInst.donateTokensToRewards(donatedTokens);
+
+            const now = await time.latest();
+            const model = await loadStakingModel(env.stakingInst);
+            expect(model.rewardsPool()).equals(donatedTokens);
+
+            const runway = model.findRunway(now);
+            expect(runway).not.undefined;
+            expect(model.projectLiabilities(runway! - 1)).lessThanOrEqual(donatedTokens);
+            expect(model.projectLiabilities(runway!)).greaterThan(donatedTokens);
+
+            await time.setNextBlockTimestamp(runway! - 1);
+            await mine();
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(
+                model.projectUserRewards(env.alice.address, runway! - 1)
+            );
+
+            await time.setNextBlockTimestamp(runway!);
+            await mine();
+            expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(
+                donatedTokens
+            );
+            expect(model.projectUserRewards(env.alice.address, runway!)).greaterThan(donatedTokens);
+        });
+
+        it("Returns undefined when nothing accrues", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const model = await loadStakingModel(env.stakingInst);
+            expect(model.findRunway(await time.latest())).undefined;
+        });
+
+        it("Returns the current timestamp when the pool is already dry", async () => {
+            const env = await loadFixture(prepareEnvWithoutDonation);
+
+            const model = StakingModel.empty(env.apr);
+            model.stake(env.alice.address, env.oneToken.mul(100), 1);
+
+            expect(model.findRunway(1 + ONE_DAY)).equals(1 + ONE_DAY);
+            expect(model.projectLiabilities(1)).equals(0);
+        });
+    });
+
+    it("Loads the rate from the last {RateUpdated} event", async () => {
+        const env = await loadFixture(prepareEnv);
+
+        const stakeAmount = env.oneToken.mul(100);
+        await env.erc20Inst.connect(env.alice).mint(stakeAmount);
+        await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, stakeAmount);
+        await env.stakingInst.connect(env.alice).stake(stakeAmount);
+        await time.increase(ONE_DAY);
+        const tx = await env.stakingInst.connect(env.alice).claimRewards();
+        const receipt = await tx.wait();
+        const newRate = receipt.events?.find((event) => event.event == "RateUpdated")?.args
+            ?.newRate;
+
+        const model = await loadStakingModel(env.stakingInst);
+        expect(model.state.ratePerStaking).equals(newRate);
+        expect(model.users()).deep.equal([env.alice.address]);
+    });
+
+    it("Collects the users that received their stakes by transfers and migrations", async () => {
+        const env = await loadFixture(prepareEnv);
+        const receiptInst = await deployReceiptToken(env.stakingInst.address, true);
+        await env.stakingInst.setReceiptToken(receiptInst.address);
+        const newStakingInst = await env.StakingFactory.deploy(
+            env.erc20Inst.address,
+            env.minStakeAmount,
+            env.apr,
+            env.coolingPeriod
+        );
+        await env.stakingInst.setMigrationTarget(newStakingInst.address, true);
+        await newStakingInst.setMigrationSource(env.stakingInst.address, true);
+
+        const stakeAmount = env.oneToken.mul(100);
+        await env.erc20Inst.connect(env.alice).mint(stakeAmount);
+        await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, stakeAmount);
+        await env.stakingInst.connect(env.alice).stake(stakeAmount);
+        await receiptInst.connect(env.alice).transfer(env.bob.address, stakeAmount.div(2));
+        await env.stakingInst.connect(env.bob).migrate(newStakingInst.address, false);
+
+        const model = await loadStakingModel(env.stakingInst);
+        expect(model.users()).deep.equal([env.alice.address, env.bob.address]);
+
+        const newModel = await loadStakingModel(newStakingInst);
+        expect(newModel.users()).deep.equal([env.bob.address]);
+        expect(newModel.stakeState(env.bob.address).stakeAmount).equals(stakeAmount.div(2));
+    });
+});
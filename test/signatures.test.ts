@@ -0,0 +1,302 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithoutStakingDeployment } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+import { StakingClient } from "../scripts/stakingClient";
+import {
+    signClaimRewards,
+    signFinalizeWithdraw,
+    signPermit,
+    signRequestWithdraw,
+    stakingDomain,
+} from "../scripts/stakingSignatures";
+
+async function prepareEnvWithPermitToken() {
+    const env = await loadFixture(prepareEnvWithoutStakingDeployment);
+
+    const ERC20PermitTestFactory = await ethers.getContractFactory("ERC20PermitTest");
+    const erc20Inst = await ERC20PermitTestFactory.deploy();
+
+    const stakingInst = await env.StakingFactory.deploy(
+        erc20Inst.address,
+        env.minStakeAmount,
+        env.apr,
+        env.coolingPeriod
+    );
+
+    const donatedTokens = env.oneToken.mul(100_000);
+    await erc20Inst.mint(donatedTokens);
+    await erc20Inst.approve(stakingInst.address, donatedTokens);
+    await stakingInst.donateTokensToRewards(donatedTokens);
+
+    const aliceAmountToStake = env.oneToken.mul(100);
+    await erc20Inst.connect(env.alice).mint(aliceAmountToStake);
+
+    return {
+        ...env,
+
+        erc20Inst,
+        stakingInst,
+        aliceAmountToStake,
+    };
+}
+
+async function prepareEnvWithAliceStake() {
+    const env = await loadFixture(prepareEnvWithPermitToken);
+
+    await env.erc20Inst.connect(env.alice).approve(env.stakingInst.address, env.aliceAmountToStake);
+    await env.stakingInst.connect(env.alice).stake(env.aliceAmountToStake);
+
+    return env;
+}
+
+describe("Permits and signed actions", () => {
+    it("{DOMAIN_SEPARATOR} matches the TypeScript domain", async () => {
+        const env = await loadFixture(prepareEnvWithPermitToken);
+
+        expect(await env.stakingInst.DOMAIN_SEPARATOR()).equals(
+            ethers.utils._TypedDataEncoder.hashDomain(await stakingDomain(env.stakingInst))
+        );
+    });
+
+    describe("{stakeWithPermit} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithPermitToken);
+
+            const deadline = (await time.latest()) + ONE_DAY;
+            const { v, r, s } = await signPermit(
+                env.alice,
+                env.erc20Inst.address,
+                env.stakingInst.address,
+                env.aliceAmountToStake,
+                deadline
+            );
+
+            await expect(
+                env.stakingInst
+                    .connect(env.alice)
+                    .stakeWithPermit(env.aliceAmountToStake, deadline, v, r, s)
+            )
+                .emit(env.stakingInst, "TokenStaked")
+                .withArgs(env.alice.address, env.aliceAmountToStake);
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake
+            );
+            expect(
+                await env.erc20Inst.allowance(env.alice.address, env.stakingInst.address)
+            ).equals(0);
+        });
+
+        it("Stakes when the permit was front-run", async () => {
+            const env = await loadFixture(prepareEnvWithPermitToken);
+
+            const deadline = (await time.latest()) + ONE_DAY;
+            const { v, r, s } = await signPermit(
+                env.alice,
+                env.erc20Inst.address,
+                env.stakingInst.address,
+                env.aliceAmountToStake,
+                deadline
+            );
+            await env.erc20Inst
+                .connect(env.bob)
+                .permit(
+                    env.alice.address,
+                    env.stakingInst.address,
+                    env.aliceAmountToStake,
+                    deadline,
+                    v,
+                    r,
+                    s
+                );
+
+            await env.stakingInst
+                .connect(env.alice)
+                .stakeWithPermit(env.aliceAmountToStake, deadline, v, r, s);
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake
+            );
+        });
+
+        it("Works through {StakingClient}", async () => {
+            const env = await loadFixture(prepareEnvWithPermitToken);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            await client.stakeWithPermit(env.aliceAmountToStake, (await time.latest()) + ONE_DAY);
+
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                env.aliceAmountToStake
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the permit is invalid and there is no allowance", async () => {
+                const env = await loadFixture(prepareEnvWithPermitToken);
+
+                const deadline = (await time.latest()) + ONE_DAY;
+                const { v, r, s } = await signPermit(
+                    env.bob,
+                    env.erc20Inst.address,
+                    env.stakingInst.address,
+                    env.aliceAmountToStake,
+                    deadline
+                );
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .stakeWithPermit(env.aliceAmountToStake, deadline, v, r, s)
+                ).revertedWith("ERC20: insufficient allowance");
+            });
+        });
+    });
+
+    describe("{claimRewardsBySig} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await time.increase(ONE_DAY);
+
+            const deadline = (await time.latest()) + ONE_DAY;
+            const signature = await signClaimRewards(env.alice, env.stakingInst, deadline);
+
+            const tx = env.stakingInst
+                .connect(env.bob)
+                .claimRewardsBySig(env.alice.address, deadline, signature);
+            await expect(tx).emit(env.stakingInst, "RewardsClaimed");
+            await expect(tx).changeTokenBalance(env.erc20Inst, env.bob, 0);
+
+            expect(await env.erc20Inst.balanceOf(env.alice.address)).greaterThan(0);
+            expect(await env.stakingInst.nonces(env.alice.address)).equals(1);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the signature is replayed", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const deadline = (await time.latest()) + ONE_DAY;
+                const signature = await signClaimRewards(env.alice, env.stakingInst, deadline);
+                await env.stakingInst
+                    .connect(env.bob)
+                    .claimRewardsBySig(env.alice.address, deadline, signature);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .claimRewardsBySig(env.alice.address, deadline, signature)
+                ).revertedWithCustomError(env.stakingInst, "InvalidSignature");
+            });
+
+            it("Should revert when the deadline is over", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const deadline = (await time.latest()) + ONE_DAY;
+                const signature = await signClaimRewards(env.alice, env.stakingInst, deadline);
+
+                await time.setNextBlockTimestamp(deadline + 1);
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .claimRewardsBySig(env.alice.address, deadline, signature)
+                )
+                    .revertedWithCustomError(env.stakingInst, "SignatureExpired")
+                    .withArgs(deadline + 1, deadline);
+            });
+
+            it("Should revert when another user signed", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const deadline = (await time.latest()) + ONE_DAY;
+                const signature = await signClaimRewards(env.bob, env.stakingInst, deadline);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .claimRewardsBySig(env.alice.address, deadline, signature)
+                ).revertedWithCustomError(env.stakingInst, "InvalidSignature");
+            });
+
+            it("Should revert when the signature is malformed", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const deadline = (await time.latest()) + ONE_DAY;
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .claimRewardsBySig(env.alice.address, deadline, "0x1234")
+                ).revertedWithCustomError(env.stakingInst, "InvalidSignature");
+            });
+        });
+    });
+
+    describe("{requestWithdrawBySig} and {finalizeWithdrawBySig} functions", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const withdrawAmount = env.aliceAmountToStake.div(2);
+            let deadline = (await time.latest()) + ONE_DAY;
+            let signature = await signRequestWithdraw(
+                env.alice,
+                env.stakingInst,
+                withdrawAmount,
+                deadline
+            );
+            await expect(
+                env.stakingInst
+                    .connect(env.bob)
+                    .requestWithdrawBySig(env.alice.address, withdrawAmount, deadline, signature)
+            )
+                .emit(env.stakingInst, "WithdrawRequested")
+                .withArgs(env.alice.address, withdrawAmount, 1);
+
+            await time.increase(env.coolingPeriod);
+
+            deadline = (await time.latest()) + ONE_DAY;
+            signature = await signFinalizeWithdraw(env.alice, env.stakingInst, 1, deadline);
+            const tx = env.stakingInst
+                .connect(env.bob)
+                .finalizeWithdrawBySig(env.alice.address, 1, deadline, signature);
+            await expect(tx)
+                .emit(env.stakingInst, "WithdrawIdFinalized")
+                .withArgs(env.alice.address, withdrawAmount, 1);
+            await expect(tx).changeTokenBalances(
+                env.erc20Inst,
+                [env.alice, env.bob],
+                [withdrawAmount, 0]
+            );
+
+            expect(await env.stakingInst.nonces(env.alice.address)).equals(2);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the signed amount differs", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const deadline = (await time.latest()) + ONE_DAY;
+                const signature = await signRequestWithdraw(
+                    env.alice,
+                    env.stakingInst,
+                    env.aliceAmountToStake.div(2),
+                    deadline
+                );
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.bob)
+                        .requestWithdrawBySig(
+                            env.alice.address,
+                            env.aliceAmountToStake,
+                            deadline,
+                            signature
+                        )
+                ).revertedWithCustomError(env.stakingInst, "InvalidSignature");
+            });
+        });
+    });
+});
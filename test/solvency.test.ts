@@ -0,0 +1,293 @@
+import { expect } from "chai";
+import { BigNumber, Event } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithAliceStakeWithoutDonation } from "./helpers";
+import { ONE_DAY, ONE_YEAR, RATE_PRECISION, PERCENT_DENOMINATOR } from "./constants";
+
+const MAX_SOLVENCY_RUNWAY = ONE_DAY * 365;
+
+async function prepareEnvWithPool() {
+    const env = await loadFixture(prepareEnvWithAliceStakeWithoutDonation);
+
+    // the pool covers about 18 days of the emission
+    const donatedTokens = env.oneToken;
+    await env.erc20Inst.mint(donatedTokens);
+    await env.erc20Inst.approve(env.stakingInst.address, donatedTokens);
+    await env.stakingInst.donateTokensToRewards(donatedTokens);
+
+    return {
+        ...env,
+        donatedTokens,
+        runway: ONE_DAY * 30,
+    };
+}
+
+async function prepareEnvWithThrottling() {
+    const env = await loadFixture(prepareEnvWithPool);
+
+    await env.stakingInst.setSolvencyParameters(env.runway, 0);
+
+    return env;
+}
+
+type Env = Awaited<ReturnType<typeof prepareEnvWithPool>>;
+
+/** The reward weights multiplied by their rates, the emission is proportional to it. */
+async function getWeightedRate(env: Env) {
+    const [weight, lockTiersCount, rateEvents] = await Promise.all([
+        env.stakingInst.totalRewardWeight(),
+        env.stakingInst.lockTiersCount(),
+        env.stakingInst.queryFilter(env.stakingInst.filters.RateUpdated()),
+    ]);
+    const ratePerStaking =
+        rateEvents.length > 0 ? rateEvents[rateEvents.length - 1].args.newRate : RATE_PRECISION;
+
+    let lockedWeight = BigNumber.from(0);
+    let lockedWeightedRate = BigNumber.from(0);
+    for (let tierId = 0; tierId < lockTiersCount.toNumber(); ++tierId) {
+        const [lockTier, tierRate] = await Promise.all([
+            env.stakingInst.lockTiers(tierId),
+            env.stakingInst.tierRates(tierId),
+        ]);
+        const tierWeight = tierRate.totalLocked.mul(lockTier.aprMultiplier);
+        lockedWeight = lockedWeight.add(tierWeight);
+        lockedWeightedRate = lockedWeightedRate.add(tierWeight.mul(tierRate.ratePerStaking));
+    }
+    return weight.sub(lockedWeight).mul(ratePerStaking).add(lockedWeightedRate);
+}
+
+async function getExpectedApr(env: Env) {
+    const [balance, totalStaked, unpaidRewards, buffer, weightedRate] = await Promise.all([
+        env.erc20Inst.balanceOf(env.stakingInst.address),
+        env.stakingInst.totalStaked(),
+        env.stakingInst.totalUnpaidRewards(),
+        env.stakingInst.solvencyBuffer(),
+        getWeightedRate(env),
+    ]);
+    const fundedRewards = balance.add(buffer).sub(totalStaked).sub(unpaidRewards);
+    const runwayEmission = weightedRate
+        .mul(env.apr)
+        .mul(env.runway)
+        .div(RATE_PRECISION.mul(ONE_YEAR * PERCENT_DENOMINATOR * PERCENT_DENOMINATOR));
+    if (fundedRewards.gte(runwayEmission)) {
+        return env.apr;
+    }
+    const aprMultiplier = fundedRewards.mul(RATE_PRECISION).div(runwayEmission);
+    return aprMultiplier.mul(env.apr).div(RATE_PRECISION).toNumber();
+}
+
+async function bobLock(env: Env, amount: BigNumber, lockPeriod: number, aprMultiplier: number) {
+    await env.stakingInst.connect(env.manager).addLockTier(lockPeriod, aprMultiplier);
+    await env.erc20Inst.connect(env.bob).mint(amount);
+    await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, amount);
+    await env.stakingInst.connect(env.bob).stakeLocked(amount, 0);
+}
+
+describe("Solvency throttling", () => {
+    describe("{setSolvencyParameters} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithPool);
+
+            const tx = env.stakingInst.setSolvencyParameters(env.runway, 0);
+            await expect(tx)
+                .emit(env.stakingInst, "SolvencyParametersChanged")
+                .withArgs(env.runway, 0);
+            await expect(tx)
+                .emit(env.stakingInst, "SolvencyThrottlingChanged")
+                .withArgs(true, await getExpectedApr(env));
+
+            expect(await env.stakingInst.solvencyRunway()).equals(env.runway);
+            expect(await env.stakingInst.solvencyBuffer()).equals(0);
+            expect(await env.stakingInst.isSolvencyThrottled()).true;
+        });
+
+        it("Should disable the throttling", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            await expect(env.stakingInst.setSolvencyParameters(0, 0))
+                .emit(env.stakingInst, "SolvencyThrottlingChanged")
+                .withArgs(false, env.apr);
+            expect(await env.stakingInst.isSolvencyThrottled()).false;
+            expect(await env.stakingInst.effectiveApr()).equals(env.apr);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithPool);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setSolvencyParameters(env.runway, 0)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when the runway is too big", async () => {
+                const env = await loadFixture(prepareEnvWithPool);
+
+                await expect(env.stakingInst.setSolvencyParameters(MAX_SOLVENCY_RUNWAY + 1, 0))
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(MAX_SOLVENCY_RUNWAY + 1, MAX_SOLVENCY_RUNWAY);
+            });
+
+            it("Should revert when values are the same", async () => {
+                const env = await loadFixture(prepareEnvWithThrottling);
+
+                await expect(
+                    env.stakingInst.setSolvencyParameters(env.runway, 0)
+                ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+            });
+        });
+    });
+
+    describe("Throttling", () => {
+        it("Effective APR is scaled down by the funded runway", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            const expectedApr = await getExpectedApr(env);
+            expect(expectedApr).greaterThan(0).lessThan(env.apr);
+            expect(await env.stakingInst.effectiveApr()).equals(expectedApr);
+            // the base APR isn't changed
+            expect(await env.stakingInst.apr()).equals(env.apr);
+        });
+
+        it("Unpaid rewards can't exceed the funded rewards", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            await time.increase(ONE_YEAR);
+            const tx = env.stakingInst.connect(env.alice).claimRewards();
+            await expect(tx).changeTokenBalance(env.erc20Inst, env.alice, env.donatedTokens);
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.contractDeptToUser).equals(0);
+            expect(await env.stakingInst.totalUnpaidRewards()).equals(0);
+            expect(await env.stakingInst.effectiveApr()).equals(0);
+        });
+
+        it("Unpaid rewards can exceed the funded rewards by the buffer", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            const buffer = env.oneToken.div(2);
+            await env.stakingInst.setSolvencyParameters(env.runway, buffer);
+
+            await time.increase(ONE_YEAR);
+            await env.stakingInst.connect(env.alice).claimRewards();
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.contractDeptToUser).greaterThan(0).lessThanOrEqual(buffer);
+            expect(await env.stakingInst.totalUnpaidRewards()).equals(
+                stakeState.contractDeptToUser
+            );
+        });
+
+        it("Throttling kicks out when the pool is funded", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            const donatedTokens = env.oneToken.mul(100);
+            await env.erc20Inst.mint(donatedTokens);
+            await env.erc20Inst.approve(env.stakingInst.address, donatedTokens);
+            await env.stakingInst.donateTokensToRewards(donatedTokens);
+            expect(await env.stakingInst.effectiveApr()).equals(env.apr);
+
+            await expect(env.stakingInst.connect(env.alice).claimRewards())
+                .emit(env.stakingInst, "SolvencyThrottlingChanged")
+                .withArgs(false, env.apr);
+            expect(await env.stakingInst.isSolvencyThrottled()).false;
+        });
+
+        it("Locked positions are throttled", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, 100_00);
+            const bobAmountToLock = env.aliceAmountToStake;
+            await env.erc20Inst.connect(env.bob).mint(bobAmountToLock);
+            await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, bobAmountToLock);
+            const lockTimestamp = (await time.latest()) + 1;
+            await time.setNextBlockTimestamp(lockTimestamp);
+            await env.stakingInst.connect(env.bob).stakeLocked(bobAmountToLock, 0);
+
+            const claimTimestamp = lockTimestamp + ONE_DAY;
+            const unthrottledRewards = bobAmountToLock
+                .mul(claimTimestamp - lockTimestamp)
+                .mul(env.apr)
+                .div(ONE_YEAR * PERCENT_DENOMINATOR);
+            await time.setNextBlockTimestamp(claimTimestamp);
+            const tx = env.stakingInst.connect(env.bob).claimPositionRewards(1);
+            await expect(tx).emit(env.stakingInst, "RewardsClaimed");
+            const receipt = await (await tx).wait();
+            const event = receipt.events?.find((event: Event) => event.event == "RewardsClaimed");
+            if (event?.args === undefined) {
+                expect.fail("No RewardsClaimed event");
+            }
+            expect(event.args.amount).greaterThan(0).lessThan(unthrottledRewards);
+        });
+
+        it("Runway emission grows with the rate", async () => {
+            const env = await loadFixture(prepareEnvWithPool);
+
+            const donatedTokens = env.oneToken.mul(30);
+            await env.erc20Inst.mint(donatedTokens);
+            await env.erc20Inst.approve(env.stakingInst.address, donatedTokens);
+            await env.stakingInst.donateTokensToRewards(donatedTokens);
+            // the rate grows by the APR
+            await time.increase(ONE_YEAR);
+            await env.stakingInst.connect(env.alice).claimRewards();
+
+            const runway = ONE_YEAR;
+            await expect(env.stakingInst.setSolvencyParameters(runway, 0))
+                .emit(env.stakingInst, "SolvencyThrottlingChanged")
+                .withArgs(true, await getExpectedApr({ ...env, runway }));
+        });
+
+        it("Emission of the locked positions is capped by the funded rewards", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            await bobLock(env, env.oneToken.mul(1000), ONE_DAY * 30, 500_00);
+            await time.increase(ONE_YEAR);
+            await env.stakingInst.connect(env.bob).claimPositionRewards(1);
+            await env.stakingInst.connect(env.alice).claimRewards();
+
+            for (const user of [env.alice, env.bob]) {
+                const stakeState = await env.stakingInst.stakeStates(user.address);
+                expect(stakeState.contractDeptToUser).equals(0);
+            }
+            expect(await env.erc20Inst.balanceOf(env.stakingInst.address)).greaterThanOrEqual(
+                await env.stakingInst.totalStaked()
+            );
+        });
+
+        it("Rate is updated before the weights change", async () => {
+            const env = await loadFixture(prepareEnvWithThrottling);
+
+            const lockPeriod = ONE_DAY * 10;
+            await bobLock(env, env.aliceAmountToStake, lockPeriod, 150_00);
+            await time.increase(lockPeriod);
+            const multiplierTx = env.stakingInst
+                .connect(env.manager)
+                .setLockTierMultiplier(0, 300_00);
+            await expect(multiplierTx).emit(env.stakingInst, "RateUpdated");
+            expect(await env.stakingInst.lastRateUpdateTimestamp()).equals(await time.latest());
+
+            await time.increase(lockPeriod);
+            const withdrawTx = env.stakingInst.connect(env.bob).requestPositionWithdraw(1);
+            await expect(withdrawTx).emit(env.stakingInst, "RateUpdated");
+            expect(await env.stakingInst.lastRateUpdateTimestamp()).equals(await time.latest());
+
+            // the unpaid rewards are the earned rewards of Alice, Bob's ones are paid
+            const [stakeState, rateEvents] = await Promise.all([
+                env.stakingInst.stakeStates(env.alice.address),
+                env.stakingInst.queryFilter(env.stakingInst.filters.RateUpdated()),
+            ]);
+            const earnedRewards = stakeState.stakeAmount
+                .mul(rateEvents[rateEvents.length - 1].args.newRate)
+                .div(RATE_PRECISION)
+                .sub(stakeState.claimedAmount);
+            expect(earnedRewards).greaterThan(0);
+            expect(await env.stakingInst.totalUnpaidRewards()).closeTo(earnedRewards, 10);
+        });
+    });
+});
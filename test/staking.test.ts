@@ -1,5 +1,5 @@
 import { expect } from "chai";
-import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, mine, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
 
 import {
     prepareEnv,
@@ -16,7 +16,7 @@ import {
     ONE_YEAR,
     RATE_PRECISION,
     PERCENT_DENOMINATOR,
-    COOLING_PERIOD,
+    MAX_COOLING_PERIOD,
 } from "./constants";
 
 describe("Tests of the AtomicStaking contract", () => {
@@ -26,6 +26,7 @@ describe("Tests of the AtomicStaking contract", () => {
 
             expect(await env.stakingInst.TOKEN()).equals(env.erc20Inst.address);
             expect(await env.stakingInst.minStakeAmount()).equals(env.minStakeAmount);
+            expect(await env.stakingInst.coolingPeriod()).equals(env.coolingPeriod);
 
             expect(await env.stakingInst.hasRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address))
                 .true;
@@ -50,12 +51,26 @@ describe("Tests of the AtomicStaking contract", () => {
                     return event.topics[0] == env.stakingInst.interface.getEventTopic("AprChanged");
                 })
             ).not.equals(-1);
+
+            expect(
+                deployTx.logs.findIndex((event) => {
+                    return (
+                        event.topics[0] ==
+                        env.stakingInst.interface.getEventTopic("CoolingPeriodChanged")
+                    );
+                })
+            ).not.equals(-1);
         });
 
         it("Deploy with zero {minStakeAmount}", async () => {
             const env = await loadFixture(prepareEnvWithoutStakingDeployment);
 
-            const stakingInst = await env.StakingFactory.deploy(env.erc20Inst.address, 0, env.apr);
+            const stakingInst = await env.StakingFactory.deploy(
+                env.erc20Inst.address,
+                0,
+                env.apr,
+                env.coolingPeriod
+            );
             const deployTx = await stakingInst.deployTransaction.wait();
             expect(
                 deployTx.logs.findIndex((event) => {
@@ -73,7 +88,8 @@ describe("Tests of the AtomicStaking contract", () => {
             const stakingInst = await env.StakingFactory.deploy(
                 env.erc20Inst.address,
                 env.minStakeAmount,
-                0
+                0,
+                env.coolingPeriod
             );
             const deployTx = await stakingInst.deployTransaction.wait();
             expect(
@@ -83,6 +99,26 @@ describe("Tests of the AtomicStaking contract", () => {
             ).equals(-1);
         });
 
+        it("Deploy with zero {coolingPeriod}", async () => {
+            const env = await loadFixture(prepareEnvWithoutStakingDeployment);
+
+            const stakingInst = await env.StakingFactory.deploy(
+                env.erc20Inst.address,
+                env.minStakeAmount,
+                env.apr,
+                0
+            );
+            const deployTx = await stakingInst.deployTransaction.wait();
+            expect(
+                deployTx.logs.findIndex((event) => {
+                    return (
+                        event.topics[0] ==
+                        stakingInst.interface.getEventTopic("CoolingPeriodChanged")
+                    );
+                })
+            ).equals(-1);
+        });
+
         describe("Reverts", () => {
             it("Should revert when passing zero address", async () => {
                 const env = await loadFixture(prepareEnvWithoutStakingDeployment);
@@ -91,7 +127,8 @@ describe("Tests of the AtomicStaking contract", () => {
                     env.StakingFactory.deploy(
                         ethers.constants.AddressZero,
                         env.minStakeAmount,
-                        env.apr
+                        env.apr,
+                        env.coolingPeriod
                     )
                 ).revertedWithCustomError(env.StakingFactory, "AddressZero");
             });
@@ -100,11 +137,31 @@ describe("Tests of the AtomicStaking contract", () => {
                 const env = await loadFixture(prepareEnvWithoutStakingDeployment);
 
                 await expect(
-                    env.StakingFactory.deploy(env.erc20Inst.address, env.minStakeAmount, 100_01)
+                    env.StakingFactory.deploy(
+                        env.erc20Inst.address,
+                        env.minStakeAmount,
+                        100_01,
+                        env.coolingPeriod
+                    )
                 )
                     .revertedWithCustomError(env.StakingFactory, "TooBigValue")
                     .withArgs(100_01, 100_00);
             });
+
+            it("Should revert when too big {coolingPeriod} value", async () => {
+                const env = await loadFixture(prepareEnvWithoutStakingDeployment);
+
+                await expect(
+                    env.StakingFactory.deploy(
+                        env.erc20Inst.address,
+                        env.minStakeAmount,
+                        env.apr,
+                        MAX_COOLING_PERIOD + 1
+                    )
+                )
+                    .revertedWithCustomError(env.StakingFactory, "TooBigValue")
+                    .withArgs(MAX_COOLING_PERIOD + 1, MAX_COOLING_PERIOD);
+            });
         });
     });
 
@@ -768,6 +825,144 @@ describe("Tests of the AtomicStaking contract", () => {
         });
     });
 
+    describe("{cancelWithdraw} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const aliceWithdrawAmount = env.aliceAmountToStake.div(3);
+            const aliceRequestWithdrawTimestamp = env.aliceStakeTimestamp + ONE_DAY * 2;
+            await time.setNextBlockTimestamp(aliceRequestWithdrawTimestamp);
+            await env.stakingInst.connect(env.alice).requestWithdraw(aliceWithdrawAmount);
+
+            const requestRatePerStaking = RATE_PRECISION.add(
+                RATE_PRECISION.mul(aliceRequestWithdrawTimestamp - env.aliceStakeTimestamp)
+                    .mul(env.apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+            const aliceCancelTimestamp = aliceRequestWithdrawTimestamp + ONE_DAY * 3;
+            const cancelRatePerStaking = requestRatePerStaking.add(
+                requestRatePerStaking
+                    .mul(aliceCancelTimestamp - aliceRequestWithdrawTimestamp)
+                    .mul(env.apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+            const stakeAmountAfterRequest = env.aliceAmountToStake.sub(aliceWithdrawAmount);
+            const claimedRewards = stakeAmountAfterRequest
+                .mul(cancelRatePerStaking)
+                .div(RATE_PRECISION)
+                .sub(stakeAmountAfterRequest.mul(requestRatePerStaking).div(RATE_PRECISION));
+
+            const totalStakedBefore = await env.stakingInst.totalStaked();
+
+            await time.setNextBlockTimestamp(aliceCancelTimestamp);
+            await expect(env.stakingInst.connect(env.alice).cancelWithdraw(1))
+                .emit(env.stakingInst, "WithdrawIdCanceled")
+                .withArgs(env.alice.address, aliceWithdrawAmount, 1)
+                .emit(env.stakingInst, "RateUpdated")
+                .withArgs(cancelRatePerStaking)
+                .emit(env.stakingInst, "RewardsClaimed")
+                .withArgs(env.alice.address, claimedRewards);
+
+            expect(await env.stakingInst.totalStaked()).equals(totalStakedBefore);
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.stakeAmount).equals(env.aliceAmountToStake);
+            expect(stakeState.claimedAmount).equals(
+                env.aliceAmountToStake.mul(cancelRatePerStaking).div(RATE_PRECISION)
+            );
+            expect(stakeState.contractDeptToUser).equals(0);
+
+            const withdrawState = await env.stakingInst.withdrawStates(1);
+            expect(withdrawState.user).equals(ethers.constants.AddressZero);
+            expect(withdrawState.withdrawTimestamp).equals(0);
+            expect(withdrawState.amount).equals(0);
+
+            expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([]);
+        });
+
+        it("Cancel amount less than {minStakeAmount}", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const aliceWithdrawAmount = env.minStakeAmount.div(2);
+            await env.stakingInst.connect(env.alice).requestWithdraw(aliceWithdrawAmount);
+
+            await expect(env.stakingInst.connect(env.alice).cancelWithdraw(1))
+                .emit(env.stakingInst, "WithdrawIdCanceled")
+                .withArgs(env.alice.address, aliceWithdrawAmount, 1);
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.stakeAmount).equals(env.aliceAmountToStake);
+        });
+
+        it("Cancel several withdrawals", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const firstWithdrawAmount = env.aliceAmountToStake.div(3);
+            const secondWithdrawAmount = env.aliceAmountToStake.div(4);
+            const thirdWithdrawAmount = env.aliceAmountToStake.div(5);
+            await env.stakingInst.connect(env.alice).requestWithdraw(firstWithdrawAmount);
+            await env.stakingInst.connect(env.alice).requestWithdraw(secondWithdrawAmount);
+            await env.stakingInst.connect(env.alice).requestWithdraw(thirdWithdrawAmount);
+
+            await expect(env.stakingInst.connect(env.alice).cancelWithdrawals([3, 1]))
+                .emit(env.stakingInst, "WithdrawIdCanceled")
+                .withArgs(env.alice.address, thirdWithdrawAmount, 3)
+                .emit(env.stakingInst, "WithdrawIdCanceled")
+                .withArgs(env.alice.address, firstWithdrawAmount, 1);
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.stakeAmount).equals(env.aliceAmountToStake.sub(secondWithdrawAmount));
+
+            expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([2]);
+        });
+
+        it("Canceled withdrawal can't be finalized", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+            await env.stakingInst.connect(env.alice).cancelWithdraw(1);
+
+            await time.increase(env.coolingPeriod);
+            await expect(env.stakingInst.connect(env.alice).finalizeWithdraw(1))
+                .revertedWithCustomError(env.stakingInst, "NoSuchWithdrawId")
+                .withArgs(1);
+        });
+
+        describe("Revert", () => {
+            it("Should revert when withdraw id doesn't exists", async () => {
+                const env = await loadFixture(prepareEnvWithoutDonation);
+
+                await expect(env.stakingInst.cancelWithdraw(10))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchWithdrawId")
+                    .withArgs(10);
+            });
+
+            it("Should revert when not allowed user", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+
+                await expect(env.stakingInst.connect(env.bob).cancelWithdraw(1))
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.bob.address, env.alice.address);
+
+                await expect(env.stakingInst.connect(env.bob).cancelWithdrawals([1]))
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.bob.address, env.alice.address);
+            });
+
+            it("Should revert when the same withdraw id is passed twice", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+
+                await expect(env.stakingInst.connect(env.alice).cancelWithdrawals([1, 1]))
+                    .revertedWithCustomError(env.stakingInst, "NoSuchWithdrawId")
+                    .withArgs(1);
+            });
+        });
+    });
+
     describe("{finalizeWithdraw} function", () => {
         it("Test", async () => {
             const env = await loadFixture(prepareEnvWithAliceStake);
@@ -779,7 +974,7 @@ describe("Tests of the AtomicStaking contract", () => {
 
             const balanceBefore = await env.erc20Inst.balanceOf(env.stakingInst.address);
 
-            await time.setNextBlockTimestamp(aliceRequestWithdrawTimestamp + COOLING_PERIOD);
+            await time.setNextBlockTimestamp(aliceRequestWithdrawTimestamp + env.coolingPeriod);
             await expect(env.stakingInst.connect(env.alice).finalizeWithdraw(1))
                 .emit(env.stakingInst, "WithdrawIdFinalized")
                 .withArgs(env.alice.address, aliceWithdrawAmount, 1);
@@ -795,6 +990,47 @@ describe("Tests of the AtomicStaking contract", () => {
             expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([]);
         });
 
+        it("Withdrawal request keeps the cooling period of the request time", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const aliceWithdrawAmount = env.aliceAmountToStake.div(3);
+            const firstRequestTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            await time.setNextBlockTimestamp(firstRequestTimestamp);
+            await env.stakingInst.connect(env.alice).requestWithdraw(aliceWithdrawAmount);
+
+            const newCoolingPeriod = env.coolingPeriod * 2;
+            await env.stakingInst.connect(env.manager).setCoolingPeriod(newCoolingPeriod);
+
+            const secondRequestTimestamp = firstRequestTimestamp + ONE_DAY;
+            await time.setNextBlockTimestamp(secondRequestTimestamp);
+            await env.stakingInst.connect(env.alice).requestWithdraw(aliceWithdrawAmount);
+
+            expect((await env.stakingInst.withdrawStates(1)).coolingPeriod).equals(
+                env.coolingPeriod
+            );
+            expect((await env.stakingInst.withdrawStates(2)).coolingPeriod).equals(
+                newCoolingPeriod
+            );
+
+            await time.setNextBlockTimestamp(firstRequestTimestamp + env.coolingPeriod);
+            await expect(env.stakingInst.connect(env.alice).finalizeWithdraw(1))
+                .emit(env.stakingInst, "WithdrawIdFinalized")
+                .withArgs(env.alice.address, aliceWithdrawAmount, 1);
+
+            await time.setNextBlockTimestamp(secondRequestTimestamp + env.coolingPeriod);
+            await expect(env.stakingInst.connect(env.alice).finalizeWithdraw(2))
+                .revertedWithCustomError(env.stakingInst, "WithdrawIdNotFinalizableYet")
+                .withArgs(
+                    secondRequestTimestamp + env.coolingPeriod,
+                    secondRequestTimestamp + newCoolingPeriod
+                );
+
+            await time.setNextBlockTimestamp(secondRequestTimestamp + newCoolingPeriod);
+            await expect(env.stakingInst.connect(env.alice).finalizeWithdraw(2))
+                .emit(env.stakingInst, "WithdrawIdFinalized")
+                .withArgs(env.alice.address, aliceWithdrawAmount, 2);
+        });
+
         describe("Revert", () => {
             it("Should revert when withdraw id doesn't exists", async () => {
                 const env = await loadFixture(prepareEnvWithoutDonation);
@@ -829,12 +1065,613 @@ describe("Tests of the AtomicStaking contract", () => {
                     .revertedWithCustomError(env.stakingInst, "WithdrawIdNotFinalizableYet")
                     .withArgs(
                         aliceFinalizeRequestTimestamp,
-                        aliceRequestWithdrawTimestamp + COOLING_PERIOD
+                        aliceRequestWithdrawTimestamp + env.coolingPeriod
                     );
             });
         });
     });
 
+    describe("Early withdrawal", () => {
+        const penaltyPercent = 10_00;
+
+        async function prepareEnvWithPenalty() {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await env.stakingInst.connect(env.manager).setEarlyWithdrawPenalty(penaltyPercent);
+
+            return env;
+        }
+
+        describe("{instantWithdraw} function", () => {
+            it("Penalty goes to the rewards pool", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+
+                const withdrawAmount = env.aliceAmountToStake.div(4);
+                const penalty = withdrawAmount.mul(penaltyPercent).div(PERCENT_DENOMINATOR);
+                const totalStakedBefore = await env.stakingInst.totalStaked();
+
+                await time.setNextBlockTimestamp(env.aliceStakeTimestamp + ONE_DAY);
+                await expect(env.stakingInst.connect(env.alice).instantWithdraw(withdrawAmount))
+                    .emit(env.stakingInst, "InstantWithdrawn")
+                    .withArgs(env.alice.address, withdrawAmount, penalty)
+                    .emit(env.stakingInst, "TokensDonated")
+                    .withArgs(env.alice.address, penalty)
+                    .emit(env.stakingInst, "RewardsClaimed");
+
+                expect(await env.stakingInst.totalStaked()).equals(
+                    totalStakedBefore.sub(withdrawAmount)
+                );
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                expect(stakeState.stakeAmount).equals(env.aliceAmountToStake.sub(withdrawAmount));
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([]);
+            });
+
+            it("Penalty goes to the penalty receiver", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+
+                const treasury = ethers.Wallet.createRandom().address;
+                await expect(env.stakingInst.setPenaltyReceiver(treasury))
+                    .emit(env.stakingInst, "PenaltyReceiverChanged")
+                    .withArgs(ethers.constants.AddressZero, treasury);
+
+                const penalty = env.aliceAmountToStake.mul(penaltyPercent).div(PERCENT_DENOMINATOR);
+                await expect(
+                    env.stakingInst.connect(env.alice).instantWithdraw(env.aliceAmountToStake)
+                )
+                    .emit(env.stakingInst, "InstantWithdrawn")
+                    .withArgs(env.alice.address, env.aliceAmountToStake, penalty)
+                    .not.emit(env.stakingInst, "TokensDonated");
+                expect(await env.erc20Inst.balanceOf(treasury)).equals(penalty);
+            });
+
+            it("Pro-rated penalty is full for instant withdrawals", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+
+                await expect(env.stakingInst.connect(env.manager).setPenaltyProRated(true))
+                    .emit(env.stakingInst, "PenaltyProRatedChanged")
+                    .withArgs(true);
+
+                const withdrawAmount = env.aliceAmountToStake.div(2);
+                await expect(env.stakingInst.connect(env.alice).instantWithdraw(withdrawAmount))
+                    .emit(env.stakingInst, "InstantWithdrawn")
+                    .withArgs(
+                        env.alice.address,
+                        withdrawAmount,
+                        withdrawAmount.mul(penaltyPercent).div(PERCENT_DENOMINATOR)
+                    );
+            });
+
+            it("No penalty when the cooling period is zero", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+
+                await env.stakingInst.connect(env.manager).setCoolingPeriod(0);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).instantWithdraw(env.aliceAmountToStake)
+                )
+                    .emit(env.stakingInst, "InstantWithdrawn")
+                    .withArgs(env.alice.address, env.aliceAmountToStake, 0);
+            });
+
+            describe("Revert", () => {
+                it("Should revert when zero amount", async () => {
+                    const env = await loadFixture(prepareEnvWithPenalty);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).instantWithdraw(0)
+                    ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+                });
+
+                it("Should revert when amount is bigger than the stake", async () => {
+                    const env = await loadFixture(prepareEnvWithPenalty);
+
+                    await expect(
+                        env.stakingInst
+                            .connect(env.alice)
+                            .instantWithdraw(env.aliceAmountToStake.add(1))
+                    )
+                        .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                        .withArgs(env.aliceAmountToStake.add(1), env.aliceAmountToStake);
+                });
+            });
+        });
+
+        describe("{accelerateWithdraw} function", () => {
+            it("Charges the full penalty", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+
+                const withdrawAmount = env.aliceAmountToStake.div(2);
+                await env.stakingInst.connect(env.alice).requestWithdraw(withdrawAmount);
+
+                const totalStakedBefore = await env.stakingInst.totalStaked();
+                const penalty = withdrawAmount.mul(penaltyPercent).div(PERCENT_DENOMINATOR);
+
+                await time.increase(env.coolingPeriod / 2);
+                await expect(env.stakingInst.connect(env.alice).accelerateWithdraw(1))
+                    .emit(env.stakingInst, "WithdrawIdAccelerated")
+                    .withArgs(env.alice.address, withdrawAmount, penalty, 1)
+                    .changeTokenBalances(
+                        env.erc20Inst,
+                        [env.alice, env.stakingInst],
+                        [withdrawAmount.sub(penalty), withdrawAmount.sub(penalty).mul(-1)]
+                    );
+
+                expect(await env.stakingInst.totalStaked()).equals(
+                    totalStakedBefore.sub(withdrawAmount)
+                );
+                const withdrawState = await env.stakingInst.withdrawStates(1);
+                expect(withdrawState.withdrawTimestamp).equals(0);
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([]);
+            });
+
+            it("Charges the pro-rated penalty", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+                await env.stakingInst.connect(env.manager).setPenaltyProRated(true);
+
+                const withdrawAmount = env.aliceAmountToStake.div(2);
+                const requestTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+                await time.setNextBlockTimestamp(requestTimestamp);
+                await env.stakingInst.connect(env.alice).requestWithdraw(withdrawAmount);
+
+                const remainingTime = ONE_DAY;
+                await time.setNextBlockTimestamp(
+                    requestTimestamp + env.coolingPeriod - remainingTime
+                );
+                await expect(env.stakingInst.connect(env.alice).accelerateWithdraw(1))
+                    .emit(env.stakingInst, "WithdrawIdAccelerated")
+                    .withArgs(
+                        env.alice.address,
+                        withdrawAmount,
+                        withdrawAmount
+                            .mul(penaltyPercent)
+                            .div(PERCENT_DENOMINATOR)
+                            .mul(remainingTime)
+                            .div(env.coolingPeriod),
+                        1
+                    );
+            });
+
+            it("No penalty after the cooling period", async () => {
+                const env = await loadFixture(prepareEnvWithPenalty);
+
+                const withdrawAmount = env.aliceAmountToStake.div(2);
+                await env.stakingInst.connect(env.alice).requestWithdraw(withdrawAmount);
+
+                await time.increase(env.coolingPeriod);
+                await expect(env.stakingInst.connect(env.alice).accelerateWithdraw(1))
+                    .emit(env.stakingInst, "WithdrawIdAccelerated")
+                    .withArgs(env.alice.address, withdrawAmount, 0, 1)
+                    .changeTokenBalance(env.erc20Inst, env.alice, withdrawAmount);
+            });
+
+            describe("Revert", () => {
+                it("Should revert when withdraw id doesn't exists", async () => {
+                    const env = await loadFixture(prepareEnvWithPenalty);
+
+                    await expect(env.stakingInst.accelerateWithdraw(10))
+                        .revertedWithCustomError(env.stakingInst, "NoSuchWithdrawId")
+                        .withArgs(10);
+                });
+
+                it("Should revert when not allowed user", async () => {
+                    const env = await loadFixture(prepareEnvWithPenalty);
+
+                    await env.stakingInst
+                        .connect(env.alice)
+                        .requestWithdraw(env.aliceAmountToStake);
+
+                    await expect(env.stakingInst.accelerateWithdraw(1))
+                        .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                        .withArgs(env.deployer.address, env.alice.address);
+                });
+            });
+        });
+    });
+
+    describe("Batch finalization of withdrawals", () => {
+        // Alice requests `count` withdrawals one day apart, the first one matures at the returned timestamp
+        async function prepareEnvWithAliceRequests(count: number) {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const withdrawAmount = env.aliceAmountToStake.div(count * 2);
+            const firstRequestTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            for (let i = 0; i < count; ++i) {
+                await time.setNextBlockTimestamp(firstRequestTimestamp + ONE_DAY * i);
+                await env.stakingInst.connect(env.alice).requestWithdraw(withdrawAmount);
+            }
+
+            return {
+                ...env,
+                withdrawAmount,
+                firstUnlockTimestamp: firstRequestTimestamp + env.coolingPeriod,
+            };
+        }
+
+        describe("{finalizeWithdrawals} function", () => {
+            it("Finalizes matured requests with one transfer", async () => {
+                const env = await prepareEnvWithAliceRequests(3);
+
+                const totalStakedBefore = await env.stakingInst.totalStaked();
+
+                await time.setNextBlockTimestamp(env.firstUnlockTimestamp + ONE_DAY);
+                const tx = env.stakingInst.connect(env.alice).finalizeWithdrawals([2, 1, 3], false);
+                await expect(tx)
+                    .emit(env.stakingInst, "WithdrawIdFinalized")
+                    .withArgs(env.alice.address, env.withdrawAmount, 1)
+                    .emit(env.stakingInst, "WithdrawIdFinalized")
+                    .withArgs(env.alice.address, env.withdrawAmount, 2)
+                    .changeTokenBalances(
+                        env.erc20Inst,
+                        [env.alice, env.stakingInst],
+                        [env.withdrawAmount.mul(2), env.withdrawAmount.mul(-2)]
+                    );
+
+                const receipt = await (await tx).wait();
+                const transfers = receipt.logs.filter(
+                    (log) => log.address == env.erc20Inst.address
+                );
+                expect(transfers.length).equals(1);
+
+                expect(await env.stakingInst.totalStaked()).equals(
+                    totalStakedBefore.sub(env.withdrawAmount.mul(2))
+                );
+                expect((await env.stakingInst.withdrawStates(3)).amount).equals(env.withdrawAmount);
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([3]);
+            });
+
+            it("Does nothing when no request is matured", async () => {
+                const env = await prepareEnvWithAliceRequests(2);
+
+                await expect(env.stakingInst.connect(env.alice).finalizeWithdrawals([1, 2], false))
+                    .not.emit(env.stakingInst, "WithdrawIdFinalized")
+                    .not.emit(env.erc20Inst, "Transfer");
+
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([
+                    1, 2,
+                ]);
+            });
+
+            it("Costs less gas than finalizing one by one", async () => {
+                const count = 5;
+                const env = await prepareEnvWithAliceRequests(count);
+                const withdrawIds = [...Array(count).keys()].map((i) => i + 1);
+
+                await time.setNextBlockTimestamp(env.firstUnlockTimestamp + ONE_DAY * count);
+                await mine();
+                const snapshot = await takeSnapshot();
+
+                let loopGasUsed = ethers.BigNumber.from(0);
+                for (const withdrawId of withdrawIds) {
+                    const tx = await env.stakingInst
+                        .connect(env.alice)
+                        .finalizeWithdraw(withdrawId);
+                    loopGasUsed = loopGasUsed.add((await tx.wait()).gasUsed);
+                }
+
+                await snapshot.restore();
+                const tx = await env.stakingInst
+                    .connect(env.alice)
+                    .finalizeWithdrawals(withdrawIds, true);
+                const batchGasUsed = (await tx.wait()).gasUsed;
+
+                expect(batchGasUsed).lessThan(loopGasUsed);
+            });
+
+            describe("Revert", () => {
+                it("Should revert when withdraw id doesn't exists", async () => {
+                    const env = await prepareEnvWithAliceRequests(1);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).finalizeWithdrawals([1, 10], false)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "NoSuchWithdrawId")
+                        .withArgs(10);
+                });
+
+                it("Should revert when the same withdraw id is passed twice", async () => {
+                    const env = await prepareEnvWithAliceRequests(1);
+
+                    await time.setNextBlockTimestamp(env.firstUnlockTimestamp);
+                    await expect(
+                        env.stakingInst.connect(env.alice).finalizeWithdrawals([1, 1], false)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "NoSuchWithdrawId")
+                        .withArgs(1);
+                });
+
+                it("Should revert when not allowed user", async () => {
+                    const env = await prepareEnvWithAliceRequests(1);
+
+                    await expect(env.stakingInst.finalizeWithdrawals([1], false))
+                        .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                        .withArgs(env.deployer.address, env.alice.address);
+                });
+
+                it("Should revert when withdrawal request isn't finalizable yet", async () => {
+                    const env = await prepareEnvWithAliceRequests(2);
+
+                    await time.setNextBlockTimestamp(env.firstUnlockTimestamp);
+                    await expect(
+                        env.stakingInst.connect(env.alice).finalizeWithdrawals([1, 2], true)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "WithdrawIdNotFinalizableYet")
+                        .withArgs(env.firstUnlockTimestamp, env.firstUnlockTimestamp + ONE_DAY);
+                });
+            });
+        });
+
+        describe("{finalizeAllWithdrawals} function", () => {
+            it("Finalizes all matured requests", async () => {
+                const env = await prepareEnvWithAliceRequests(4);
+
+                await time.setNextBlockTimestamp(env.firstUnlockTimestamp + ONE_DAY * 2);
+                await expect(env.stakingInst.connect(env.alice).finalizeAllWithdrawals())
+                    .emit(env.stakingInst, "WithdrawIdFinalized")
+                    .withArgs(env.alice.address, env.withdrawAmount, 1)
+                    .emit(env.stakingInst, "WithdrawIdFinalized")
+                    .withArgs(env.alice.address, env.withdrawAmount, 2)
+                    .emit(env.stakingInst, "WithdrawIdFinalized")
+                    .withArgs(env.alice.address, env.withdrawAmount, 3)
+                    .changeTokenBalance(env.erc20Inst, env.alice, env.withdrawAmount.mul(3));
+
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([4]);
+            });
+
+            it("Call with no requests", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(env.stakingInst.connect(env.alice).finalizeAllWithdrawals()).not.emit(
+                    env.stakingInst,
+                    "WithdrawIdFinalized"
+                );
+            });
+        });
+
+        describe("{finalizeMaturedWithdrawals} function", () => {
+            it("Drains the queue in chunks", async () => {
+                const env = await prepareEnvWithAliceRequests(5);
+
+                await time.setNextBlockTimestamp(env.firstUnlockTimestamp + ONE_DAY * 3);
+                await expect(
+                    env.stakingInst.connect(env.alice).finalizeMaturedWithdrawals(3)
+                ).changeTokenBalance(env.erc20Inst, env.alice, env.withdrawAmount.mul(3));
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).to.have.lengthOf(
+                    2
+                );
+
+                await expect(
+                    env.stakingInst.connect(env.alice).finalizeMaturedWithdrawals(3)
+                ).changeTokenBalance(env.erc20Inst, env.alice, env.withdrawAmount);
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([5]);
+            });
+
+            it("Skips not matured requests", async () => {
+                const env = await prepareEnvWithAliceRequests(3);
+
+                // the newest request is the first one in the set after this cancellation
+                await env.stakingInst.connect(env.alice).cancelWithdraw(1);
+
+                await time.setNextBlockTimestamp(env.firstUnlockTimestamp + ONE_DAY);
+                await expect(env.stakingInst.connect(env.alice).finalizeMaturedWithdrawals(1))
+                    .emit(env.stakingInst, "WithdrawIdFinalized")
+                    .withArgs(env.alice.address, env.withdrawAmount, 2);
+                expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([3]);
+            });
+
+            describe("Revert", () => {
+                it("Should revert when zero max count", async () => {
+                    const env = await prepareEnvWithAliceRequests(1);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).finalizeMaturedWithdrawals(0)
+                    ).revertedWithCustomError(env.stakingInst, "ZeroValue");
+                });
+            });
+        });
+    });
+
+    describe("Reward compounding", () => {
+        const rateAfter = (apr: number, seconds: number) =>
+            RATE_PRECISION.add(
+                RATE_PRECISION.mul(seconds)
+                    .mul(apr)
+                    .div(ONE_YEAR * PERCENT_DENOMINATOR)
+            );
+
+        describe("{compoundRewards} function", () => {
+            it("Test", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const compoundTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+                const newRatePerStaking = rateAfter(env.apr, ONE_DAY);
+                const rewards = env.aliceAmountToStake
+                    .mul(newRatePerStaking)
+                    .div(RATE_PRECISION)
+                    .sub(env.aliceAmountToStake);
+                // compounding isn't limited by {minStakeAmount}
+                expect(rewards).lessThan(env.minStakeAmount);
+
+                const totalStakedBefore = await env.stakingInst.totalStaked();
+
+                await time.setNextBlockTimestamp(compoundTimestamp);
+                const tx = env.stakingInst.connect(env.alice).compoundRewards();
+                await expect(tx)
+                    .emit(env.stakingInst, "RateUpdated")
+                    .withArgs(newRatePerStaking)
+                    .emit(env.stakingInst, "RewardsCompounded")
+                    .withArgs(env.alice.address, rewards)
+                    .not.emit(env.stakingInst, "RewardsClaimed");
+                await expect(tx).changeTokenBalances(
+                    env.erc20Inst,
+                    [env.alice, env.stakingInst],
+                    [0, 0]
+                );
+
+                expect(await env.stakingInst.totalStaked()).equals(totalStakedBefore.add(rewards));
+
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                const newStakeAmount = env.aliceAmountToStake.add(rewards);
+                expect(stakeState.stakeAmount).equals(newStakeAmount);
+                expect(stakeState.claimedAmount).equals(
+                    newStakeAmount.mul(newRatePerStaking).div(RATE_PRECISION)
+                );
+                expect(stakeState.contractDeptToUser).equals(0);
+
+                expect(await env.stakingInst.availableRewardsToClaim(env.alice.address)).equals(0);
+            });
+
+            it("Compound with almost enough reward balance", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStakeWithoutDonation);
+
+                const compoundTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+                const newRatePerStaking = rateAfter(env.apr, ONE_DAY);
+                const rewards = env.aliceAmountToStake
+                    .mul(newRatePerStaking)
+                    .div(RATE_PRECISION)
+                    .sub(env.aliceAmountToStake);
+
+                const tokenToDonate = rewards.div(3);
+                await env.erc20Inst.mint(tokenToDonate);
+                await env.erc20Inst.approve(env.stakingInst.address, tokenToDonate);
+                await env.stakingInst.donateTokensToRewards(tokenToDonate);
+
+                await time.setNextBlockTimestamp(compoundTimestamp);
+                await expect(env.stakingInst.connect(env.alice).compoundRewards())
+                    .emit(env.stakingInst, "DeptToUserChanged")
+                    .withArgs(env.alice.address, 0, rewards.sub(tokenToDonate))
+                    .emit(env.stakingInst, "RewardsCompounded")
+                    .withArgs(env.alice.address, tokenToDonate);
+
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                expect(stakeState.stakeAmount).equals(env.aliceAmountToStake.add(tokenToDonate));
+                expect(stakeState.contractDeptToUser).equals(rewards.sub(tokenToDonate));
+
+                // the whole balance is staked now
+                expect(await env.stakingInst.totalStaked()).equals(
+                    await env.erc20Inst.balanceOf(env.stakingInst.address)
+                );
+            });
+
+            it("Compound with no rewards", async () => {
+                const env = await loadFixture(prepareEnvWithoutDonation);
+
+                await expect(env.stakingInst.connect(env.alice).compoundRewards()).not.emit(
+                    env.stakingInst,
+                    "RewardsCompounded"
+                );
+
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                expect(stakeState.stakeAmount).equals(0);
+            });
+        });
+
+        describe("{setAutoCompounding} function", () => {
+            it("Test", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                expect(await env.stakingInst.isAutoCompounding(env.alice.address)).equals(false);
+
+                await expect(env.stakingInst.connect(env.alice).setAutoCompounding(true))
+                    .emit(env.stakingInst, "AutoCompoundingChanged")
+                    .withArgs(env.alice.address, true);
+                expect(await env.stakingInst.isAutoCompounding(env.alice.address)).equals(true);
+                expect(await env.stakingInst.isAutoCompounding(env.bob.address)).equals(false);
+
+                await expect(env.stakingInst.connect(env.alice).setAutoCompounding(false))
+                    .emit(env.stakingInst, "AutoCompoundingChanged")
+                    .withArgs(env.alice.address, false);
+                expect(await env.stakingInst.isAutoCompounding(env.alice.address)).equals(false);
+            });
+
+            it("Rewards are compounded on {requestWithdraw}", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await env.stakingInst.connect(env.alice).setAutoCompounding(true);
+
+                const requestTimestamp = env.aliceStakeTimestamp + ONE_DAY * 2;
+                const newRatePerStaking = rateAfter(env.apr, ONE_DAY * 2);
+                const rewards = env.aliceAmountToStake
+                    .mul(newRatePerStaking)
+                    .div(RATE_PRECISION)
+                    .sub(env.aliceAmountToStake);
+
+                const withdrawAmount = env.aliceAmountToStake.div(2);
+
+                await time.setNextBlockTimestamp(requestTimestamp);
+                const tx = env.stakingInst.connect(env.alice).requestWithdraw(withdrawAmount);
+                await expect(tx)
+                    .emit(env.stakingInst, "RewardsCompounded")
+                    .withArgs(env.alice.address, rewards)
+                    .emit(env.stakingInst, "WithdrawRequested")
+                    .withArgs(env.alice.address, withdrawAmount, 1);
+                await expect(tx).changeTokenBalance(env.erc20Inst, env.alice, 0);
+
+                const newStakeAmount = env.aliceAmountToStake.add(rewards).sub(withdrawAmount);
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                expect(stakeState.stakeAmount).equals(newStakeAmount);
+                expect(stakeState.claimedAmount).equals(
+                    newStakeAmount.mul(newRatePerStaking).div(RATE_PRECISION)
+                );
+            });
+
+            it("Rewards are compounded on {stake}", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await env.stakingInst.connect(env.alice).setAutoCompounding(true);
+
+                await env.erc20Inst.connect(env.alice).mint(env.aliceAmountToStake);
+                await env.erc20Inst
+                    .connect(env.alice)
+                    .approve(env.stakingInst.address, env.aliceAmountToStake);
+
+                const stakeTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+                const rewards = env.aliceAmountToStake
+                    .mul(rateAfter(env.apr, ONE_DAY))
+                    .div(RATE_PRECISION)
+                    .sub(env.aliceAmountToStake);
+
+                await time.setNextBlockTimestamp(stakeTimestamp);
+                await expect(env.stakingInst.connect(env.alice).stake(env.aliceAmountToStake))
+                    .emit(env.stakingInst, "RewardsCompounded")
+                    .withArgs(env.alice.address, rewards);
+
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                expect(stakeState.stakeAmount).equals(env.aliceAmountToStake.mul(2).add(rewards));
+            });
+
+            it("{claimRewards} still transfers rewards", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await env.stakingInst.connect(env.alice).setAutoCompounding(true);
+
+                const claimTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+                const rewards = env.aliceAmountToStake
+                    .mul(rateAfter(env.apr, ONE_DAY))
+                    .div(RATE_PRECISION)
+                    .sub(env.aliceAmountToStake);
+
+                await time.setNextBlockTimestamp(claimTimestamp);
+                await expect(env.stakingInst.connect(env.alice).claimRewards())
+                    .emit(env.stakingInst, "RewardsClaimed")
+                    .withArgs(env.alice.address, rewards)
+                    .not.emit(env.stakingInst, "RewardsCompounded");
+
+                const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+                expect(stakeState.stakeAmount).equals(env.aliceAmountToStake);
+            });
+
+            describe("Reverts", () => {
+                it("Should revert when value is the same", async () => {
+                    const env = await loadFixture(prepareEnvWithAliceStake);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).setAutoCompounding(false)
+                    ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+                });
+            });
+        });
+    });
+
     describe("{availableRewardsToClaim} function", () => {
         it("Call with no available balance", async () => {
             const env = await loadFixture(prepareEnvWithAliceStakeWithoutDonation);
@@ -1038,6 +1875,181 @@ describe("Tests of the AtomicStaking contract", () => {
             });
         });
 
+        describe("{setCoolingPeriod} function", () => {
+            it("Set new value", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const newValue = env.coolingPeriod + ONE_DAY;
+
+                await expect(env.stakingInst.connect(env.manager).setCoolingPeriod(newValue))
+                    .emit(env.stakingInst, "CoolingPeriodChanged")
+                    .withArgs(env.coolingPeriod, newValue);
+
+                expect(await env.stakingInst.coolingPeriod()).equals(newValue);
+            });
+
+            describe("Reverts", () => {
+                it("Should revert when a wrong user calls", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(env.stakingInst.setCoolingPeriod(0)).revertedWith(
+                        "AccessControl: account " +
+                            env.deployer.address.toLocaleLowerCase() +
+                            " is missing role " +
+                            env.MANAGER_ROLE
+                    );
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).setCoolingPeriod(0)
+                    ).revertedWith(
+                        "AccessControl: account " +
+                            env.alice.address.toLocaleLowerCase() +
+                            " is missing role " +
+                            env.MANAGER_ROLE
+                    );
+                });
+
+                it("Should revert when the same value", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.manager).setCoolingPeriod(env.coolingPeriod)
+                    ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+                });
+
+                it("Should revert when the too big value", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst
+                            .connect(env.manager)
+                            .setCoolingPeriod(MAX_COOLING_PERIOD + 1)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                        .withArgs(MAX_COOLING_PERIOD + 1, MAX_COOLING_PERIOD);
+                });
+            });
+        });
+
+        describe("{setEarlyWithdrawPenalty} function", () => {
+            it("Set new value", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const newValue = 5_00;
+
+                await expect(env.stakingInst.connect(env.manager).setEarlyWithdrawPenalty(newValue))
+                    .emit(env.stakingInst, "EarlyWithdrawPenaltyChanged")
+                    .withArgs(0, newValue);
+
+                expect(await env.stakingInst.earlyWithdrawPenalty()).equals(newValue);
+            });
+
+            describe("Reverts", () => {
+                it("Should revert when a wrong user calls", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).setEarlyWithdrawPenalty(1)
+                    ).revertedWith(
+                        "AccessControl: account " +
+                            env.alice.address.toLocaleLowerCase() +
+                            " is missing role " +
+                            env.MANAGER_ROLE
+                    );
+                });
+
+                it("Should revert when the same value", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.manager).setEarlyWithdrawPenalty(0)
+                    ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+                });
+
+                it("Should revert when the too big value", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst
+                            .connect(env.manager)
+                            .setEarlyWithdrawPenalty(PERCENT_DENOMINATOR + 1)
+                    )
+                        .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                        .withArgs(PERCENT_DENOMINATOR + 1, PERCENT_DENOMINATOR);
+                });
+            });
+        });
+
+        describe("{setPenaltyProRated} function", () => {
+            it("Set new value", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(env.stakingInst.connect(env.manager).setPenaltyProRated(true))
+                    .emit(env.stakingInst, "PenaltyProRatedChanged")
+                    .withArgs(true);
+
+                expect(await env.stakingInst.isPenaltyProRated()).true;
+            });
+
+            describe("Reverts", () => {
+                it("Should revert when a wrong user calls", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.alice).setPenaltyProRated(true)
+                    ).revertedWith(
+                        "AccessControl: account " +
+                            env.alice.address.toLocaleLowerCase() +
+                            " is missing role " +
+                            env.MANAGER_ROLE
+                    );
+                });
+
+                it("Should revert when the same value", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.manager).setPenaltyProRated(false)
+                    ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+                });
+            });
+        });
+
+        describe("{setPenaltyReceiver} function", () => {
+            it("Set new value", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                await expect(env.stakingInst.setPenaltyReceiver(env.bob.address))
+                    .emit(env.stakingInst, "PenaltyReceiverChanged")
+                    .withArgs(ethers.constants.AddressZero, env.bob.address);
+
+                expect(await env.stakingInst.penaltyReceiver()).equals(env.bob.address);
+            });
+
+            describe("Reverts", () => {
+                it("Should revert when a wrong user calls", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.connect(env.manager).setPenaltyReceiver(env.bob.address)
+                    ).revertedWith(
+                        "AccessControl: account " +
+                            env.manager.address.toLocaleLowerCase() +
+                            " is missing role " +
+                            env.DEFAULT_ADMIN_ROLE
+                    );
+                });
+
+                it("Should revert when the same value", async () => {
+                    const env = await loadFixture(prepareEnv);
+
+                    await expect(
+                        env.stakingInst.setPenaltyReceiver(ethers.constants.AddressZero)
+                    ).revertedWithCustomError(env.stakingInst, "TheSameValue");
+                });
+            });
+        });
+
         describe("{receiveExcessiveBalance} function", () => {
             it("Call with no available balance", async () => {
                 const env = await loadFixture(prepareEnvWithoutDonation);
@@ -0,0 +1,308 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnv, prepareEnvWithAliceStake } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+import {
+    STAKING_ERROR_NAMES,
+    StakingClient,
+    StakingContractError,
+    decodeStakingError,
+    isStakingError,
+} from "../scripts/stakingClient";
+import { AtomicStaking__factory } from "../typechain-types";
+
+describe("Tests of the StakingClient SDK", () => {
+    describe("{stakeWithApproval} function", () => {
+        it("Approves and stakes", async () => {
+            const env = await loadFixture(prepareEnv);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const stakeAmount = env.oneToken.mul(1000);
+            await env.erc20Inst.connect(env.alice).mint(stakeAmount);
+
+            await client.stakeWithApproval(stakeAmount);
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.stakeAmount).equals(stakeAmount);
+            expect(
+                await env.erc20Inst.allowance(env.alice.address, env.stakingInst.address)
+            ).equals(0);
+        });
+
+        it("Doesn't approve with enough allowance", async () => {
+            const env = await loadFixture(prepareEnv);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const stakeAmount = env.oneToken.mul(1000);
+            await env.erc20Inst.connect(env.alice).mint(stakeAmount);
+            await env.erc20Inst
+                .connect(env.alice)
+                .approve(env.stakingInst.address, stakeAmount.mul(2));
+
+            await client.stakeWithApproval(stakeAmount);
+
+            expect(
+                await env.erc20Inst.allowance(env.alice.address, env.stakingInst.address)
+            ).equals(stakeAmount);
+        });
+
+        it("Throws a typed error when less than minimum amount", async () => {
+            const env = await loadFixture(prepareEnv);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const stakeAmount = env.minStakeAmount.sub(1);
+            await env.erc20Inst.connect(env.alice).mint(stakeAmount);
+
+            const error = await client.stakeWithApproval(stakeAmount).catch((error) => error);
+            expect(isStakingError(error, "LessThanMinAmount")).true;
+            expect((error as StakingContractError).args.suppliedAmount).equals(stakeAmount);
+            expect((error as StakingContractError).args.minStakeAmount).equals(env.minStakeAmount);
+        });
+    });
+
+    describe("Locked positions", () => {
+        it("Locks, claims and withdraws a position", async () => {
+            const env = await loadFixture(prepareEnv);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const lockPeriod = ONE_DAY * 30;
+            await env.stakingInst.connect(env.manager).addLockTier(lockPeriod, 150_00);
+
+            const amount = env.oneToken.mul(1000);
+            await env.erc20Inst.connect(env.alice).mint(amount);
+            const { positionId } = await client.stakeLockedWithApproval(amount, 0);
+            expect(positionId).equals(1);
+
+            await time.increase(ONE_DAY);
+            await client.claimPositionRewards(positionId);
+
+            const lockedError = await client
+                .requestPositionWithdraw(positionId)
+                .catch((error) => error);
+            expect(isStakingError(lockedError, "PositionIsLocked")).true;
+
+            await time.increase(lockPeriod);
+            const { withdrawId } = await client.requestPositionWithdraw(positionId);
+            expect((await env.stakingInst.withdrawStates(withdrawId)).amount).equals(amount);
+        });
+    });
+
+    describe("{requestWithdraw} function", () => {
+        it("Returns the parsed withdraw id", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const firstResult = await client.requestWithdraw(env.aliceAmountToStake.div(2));
+            expect(firstResult.withdrawId).equals(1);
+
+            const secondResult = await client.requestWithdraw(env.aliceAmountToStake.div(2));
+            expect(secondResult.withdrawId).equals(2);
+        });
+
+        it("Throws a typed error when amount is zero", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const error = await client.requestWithdraw(0).catch((error) => error);
+            expect(isStakingError(error, "ZeroValue")).true;
+        });
+    });
+
+    describe("Operators", () => {
+        it("Stakes for a user and withdraws as his operator", async () => {
+            const env = await loadFixture(prepareEnv);
+            const aliceClient = new StakingClient(env.stakingInst.connect(env.alice));
+            const bobClient = new StakingClient(env.stakingInst.connect(env.bob));
+
+            const stakeAmount = env.oneToken.mul(1000);
+            await env.erc20Inst.connect(env.bob).mint(stakeAmount);
+            await bobClient.stakeForWithApproval(env.alice.address, stakeAmount);
+            expect((await env.stakingInst.stakeStates(env.alice.address)).stakeAmount).equals(
+                stakeAmount
+            );
+
+            const error = await bobClient
+                .requestWithdrawFor(env.alice.address, stakeAmount)
+                .catch((error) => error);
+            expect(isStakingError(error, "NotAllowedUser")).true;
+
+            await aliceClient.setOperator(env.bob.address, true);
+            const { withdrawId } = await bobClient.requestWithdrawFor(
+                env.alice.address,
+                stakeAmount
+            );
+            expect((await aliceClient.pendingWithdrawals()).map((w) => w.withdrawId)).deep.equal([
+                withdrawId,
+            ]);
+        });
+    });
+
+    describe("{pendingWithdrawals} function", () => {
+        it("Computes unlock times", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const firstRequestTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            const secondRequestTimestamp = firstRequestTimestamp + ONE_DAY * 5;
+            const withdrawAmount = env.aliceAmountToStake.div(4);
+
+            await time.setNextBlockTimestamp(firstRequestTimestamp);
+            await client.requestWithdraw(withdrawAmount);
+            await time.setNextBlockTimestamp(secondRequestTimestamp);
+            await client.requestWithdraw(withdrawAmount);
+
+            await time.increaseTo(firstRequestTimestamp + env.coolingPeriod);
+
+            const pendingWithdrawals = await client.pendingWithdrawals(env.alice.address);
+            expect(pendingWithdrawals.length).equals(2);
+
+            expect(pendingWithdrawals[0].withdrawId).equals(1);
+            expect(pendingWithdrawals[0].amount).equals(withdrawAmount);
+            expect(pendingWithdrawals[0].requestTimestamp).equals(firstRequestTimestamp);
+            expect(pendingWithdrawals[0].unlockTimestamp).equals(
+                firstRequestTimestamp + env.coolingPeriod
+            );
+            expect(pendingWithdrawals[0].isReady).true;
+
+            expect(pendingWithdrawals[1].withdrawId).equals(2);
+            expect(pendingWithdrawals[1].unlockTimestamp).equals(
+                secondRequestTimestamp + env.coolingPeriod
+            );
+            expect(pendingWithdrawals[1].isReady).false;
+        });
+    });
+
+    describe("{finalizeAllReady} function", () => {
+        it("Finalizes only matured requests", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const firstRequestTimestamp = env.aliceStakeTimestamp + ONE_DAY;
+            const withdrawAmount = env.aliceAmountToStake.div(4);
+
+            await time.setNextBlockTimestamp(firstRequestTimestamp);
+            await client.requestWithdraw(withdrawAmount);
+            await time.setNextBlockTimestamp(firstRequestTimestamp + ONE_DAY);
+            await client.requestWithdraw(withdrawAmount);
+            await time.setNextBlockTimestamp(firstRequestTimestamp + ONE_DAY * 20);
+            await client.requestWithdraw(withdrawAmount);
+
+            const balanceBefore = await env.erc20Inst.balanceOf(env.alice.address);
+            const receipt = await client.finalizeAllReady();
+            const finalizedEvents = receipt?.events?.filter(
+                (event) => event.event == "WithdrawIdFinalized"
+            );
+            expect(finalizedEvents?.length).equals(2);
+
+            const balanceAfter = await env.erc20Inst.balanceOf(env.alice.address);
+            expect(balanceAfter.sub(balanceBefore)).equals(withdrawAmount.mul(2));
+
+            expect(await env.stakingInst.usersWithdrawIds(env.alice.address)).deep.equal([3]);
+        });
+    });
+
+    describe("{cancelWithdrawals} function", () => {
+        it("Cancels one or several requests", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const withdrawAmount = env.aliceAmountToStake.div(4);
+            const { withdrawId: firstId } = await client.requestWithdraw(withdrawAmount);
+            const { withdrawId: secondId } = await client.requestWithdraw(withdrawAmount);
+            const { withdrawId: thirdId } = await client.requestWithdraw(withdrawAmount);
+
+            await client.cancelWithdrawals([secondId]);
+            expect((await client.pendingWithdrawals()).map((w) => w.withdrawId)).deep.equal([
+                firstId,
+                thirdId,
+            ]);
+
+            await client.cancelWithdrawals([firstId, thirdId]);
+            expect(await client.pendingWithdrawals()).deep.equal([]);
+
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(stakeState.stakeAmount).equals(env.aliceAmountToStake);
+
+            const error = await client.cancelWithdrawals([firstId]).catch((error) => error);
+            expect(isStakingError(error, "NoSuchWithdrawId")).true;
+        });
+    });
+
+    describe("{waitUntilFinalizable} function", () => {
+        it("Resolves once the cooling period is over", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const client = new StakingClient(env.stakingInst.connect(env.alice));
+
+            const { withdrawId } = await client.requestWithdraw(env.aliceAmountToStake);
+            const withdrawState = await env.stakingInst.withdrawStates(withdrawId);
+
+            const waiting = client.waitUntilFinalizable(withdrawId, 10);
+            await time.increase(env.coolingPeriod);
+
+            const pendingWithdrawal = await waiting;
+            expect(pendingWithdrawal.isReady).true;
+            expect(pendingWithdrawal.unlockTimestamp).equals(
+                withdrawState.withdrawTimestamp.add(env.coolingPeriod)
+            );
+
+            await client.finalizeWithdraw(withdrawId);
+        });
+    });
+
+    describe("Typed errors", () => {
+        it("Decodes {finalizeWithdraw} reverts", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+            const aliceClient = new StakingClient(env.stakingInst.connect(env.alice));
+            const bobClient = new StakingClient(env.stakingInst.connect(env.bob));
+
+            const { withdrawId } = await aliceClient.requestWithdraw(env.aliceAmountToStake);
+
+            const notAllowedError = await bobClient
+                .finalizeWithdraw(withdrawId)
+                .catch((error) => error);
+            expect(isStakingError(notAllowedError, "NotAllowedUser")).true;
+            expect((notAllowedError as StakingContractError).args.allowedUser).equals(
+                env.alice.address
+            );
+
+            const notFinalizableError = await aliceClient
+                .finalizeWithdraw(withdrawId)
+                .catch((error) => error);
+            expect(isStakingError(notFinalizableError, "WithdrawIdNotFinalizableYet")).true;
+
+            const noSuchIdError = await aliceClient.finalizeWithdraw(10).catch((error) => error);
+            expect(isStakingError(noSuchIdError, "NoSuchWithdrawId")).true;
+        });
+
+        it("Decodes {migrate} reverts", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const targetError = await env.stakingInst
+                .connect(env.alice)
+                .migrate(env.bob.address, false)
+                .catch((error) => error);
+            expect(decodeStakingError(targetError)?.errorName).equals("NotMigrationTarget");
+            expect(decodeStakingError(targetError)?.args[0]).equals(env.bob.address);
+
+            const sourceError = await env.stakingInst
+                .connect(env.bob)
+                .onStakeMigrated(env.alice.address, env.minStakeAmount)
+                .catch((error) => error);
+            expect(isStakingError(decodeStakingError(sourceError), "NotMigrationSource")).true;
+        });
+
+        it("Knows every custom error of the contract", async () => {
+            const errorNames = Object.values(AtomicStaking__factory.createInterface().errors).map(
+                (error) => error.name
+            );
+            expect([...STAKING_ERROR_NAMES].sort()).deep.equals([...new Set(errorNames)].sort());
+        });
+
+        it("Doesn't decode unrelated errors", async () => {
+            expect(decodeStakingError(new Error("Some error"))).undefined;
+            expect(decodeStakingError({ data: "0x12345678" })).undefined;
+        });
+    });
+});
@@ -0,0 +1,404 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadFixture, mine, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import {
+    deployReceiptToken,
+    prepareEnv,
+    prepareEnvWithAliceStake,
+    prepareEnvWithAliceStakeWithoutDonation,
+} from "./helpers";
+import { ONE_DAY } from "./constants";
+
+import { StakingIndexer } from "../scripts/stakingIndexer";
+import type { RateUpdatedEvent } from "../typechain-types/contracts/AtomicStaking";
+
+type Env = Awaited<ReturnType<typeof prepareEnvWithAliceStakeWithoutDonation>>;
+
+async function openIndexer(env: Env, dbPath?: string) {
+    return StakingIndexer.open(env.stakingInst, {
+        fromBlock: env.stakingInst.deployTransaction.blockNumber!,
+        dbPath,
+        batchSize: 3,
+    });
+}
+
+async function bobStake(
+    env: Pick<Env, "erc20Inst" | "stakingInst" | "bob" | "oneToken">,
+    amount = env.oneToken.mul(1000)
+) {
+    await env.erc20Inst.connect(env.bob).mint(amount);
+    await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, amount);
+    await env.stakingInst.connect(env.bob).stake(amount);
+}
+
+describe("Tests of the staking event indexer", () => {
+    it("Rebuilds the staking state from events", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        await time.increase(ONE_DAY);
+        await bobStake(env);
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(2));
+        await env.stakingInst.connect(env.bob).requestWithdraw(env.oneToken.mul(100));
+        await time.increase(env.coolingPeriod);
+        await env.stakingInst.connect(env.alice).finalizeWithdraw(1);
+        await env.stakingInst.connect(env.manager).setApr(env.apr * 2);
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.bob).claimRewards();
+
+        const indexer = await openIndexer(env);
+        expect(await indexer.sync()).equals(await time.latestBlock());
+
+        expect(indexer.users()).deep.equal(
+            [env.alice.address, env.bob.address].sort((a, b) => (a < b ? -1 : 1))
+        );
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(
+            env.aliceAmountToStake.sub(env.aliceAmountToStake.div(2))
+        );
+        expect(indexer.userState(env.bob.address).stakeAmount).equals(env.oneToken.mul(900));
+        expect(indexer.userState(env.bob.address).claimedRewards).greaterThan(0);
+
+        const pendingWithdrawals = indexer.pendingWithdrawals();
+        expect(pendingWithdrawals.length).equals(1);
+        expect(pendingWithdrawals[0].withdrawId).equals(2);
+        expect(pendingWithdrawals[0].user).equals(env.bob.address);
+        expect(pendingWithdrawals[0].unlockTimestamp).equals(
+            pendingWithdrawals[0].requestTimestamp + env.coolingPeriod
+        );
+
+        expect(indexer.totalStaked()).equals(await env.stakingInst.totalStaked());
+
+        const rateEvents = await env.stakingInst.queryFilter(env.stakingInst.filters.RateUpdated());
+        expect(indexer.rateHistory().map((entry) => entry.rate)).deep.equal(
+            rateEvents.map((event: RateUpdatedEvent) => event.args?.newRate)
+        );
+        expect(indexer.aprHistory().map((entry) => entry.newValue.toNumber())).deep.equal([
+            env.apr,
+            env.apr * 2,
+        ]);
+
+        const report = await indexer.checkConsistency();
+        expect(report.mismatches).deep.equal([]);
+        expect(report.isConsistent).true;
+
+        indexer.close();
+    });
+
+    it("Restakes canceled withdrawal requests", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(2));
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(4));
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.alice).cancelWithdraw(1);
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+
+        expect(indexer.pendingWithdrawals().map((withdrawal) => withdrawal.withdrawId)).deep.equal([
+            2,
+        ]);
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(
+            env.aliceAmountToStake.sub(env.aliceAmountToStake.div(4))
+        );
+        expect(indexer.totalStaked()).equals(await env.stakingInst.totalStaked());
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Handles early withdrawals", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        await env.stakingInst.connect(env.manager).setEarlyWithdrawPenalty(10_00);
+        await env.stakingInst.connect(env.alice).instantWithdraw(env.aliceAmountToStake.div(4));
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(4));
+        await env.stakingInst.connect(env.alice).accelerateWithdraw(1);
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+
+        expect(indexer.pendingWithdrawals()).deep.equal([]);
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(
+            env.aliceAmountToStake.div(2)
+        );
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Takes the cooling periods of withdrawal requests from the contract", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        // the cooling period of the deployment isn't indexed
+        const fromBlock = await time.latestBlock();
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(4));
+        await env.stakingInst.connect(env.manager).setCoolingPeriod(env.coolingPeriod * 2);
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(4));
+
+        const indexer = await StakingIndexer.open(env.stakingInst, { fromBlock });
+        await indexer.sync();
+
+        const pendingWithdrawals = indexer.pendingWithdrawals();
+        expect(pendingWithdrawals.map((withdrawal) => withdrawal.unlockTimestamp)).deep.equal([
+            pendingWithdrawals[0].requestTimestamp + env.coolingPeriod,
+            pendingWithdrawals[1].requestTimestamp + env.coolingPeriod * 2,
+        ]);
+
+        indexer.close();
+    });
+
+    it("Adds compounded rewards to the stake", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.alice).compoundRewards();
+        await env.stakingInst.connect(env.alice).setAutoCompounding(true);
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(2));
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+
+        const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+        expect(stakeState.stakeAmount).greaterThan(env.aliceAmountToStake.div(2));
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(stakeState.stakeAmount);
+        expect(indexer.userState(env.alice.address).claimedRewards).equals(
+            stakeState.stakeAmount.sub(env.aliceAmountToStake.div(2))
+        );
+        expect(indexer.totalStaked()).equals(await env.stakingInst.totalStaked());
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Tracks locked positions", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        const lockPeriod = ONE_DAY * 30;
+        await env.stakingInst.connect(env.manager).addLockTier(lockPeriod, 150_00);
+        await env.stakingInst.connect(env.manager).addLockTier(lockPeriod * 2, 200_00);
+        await env.stakingInst.connect(env.manager).setLockTierActive(1, false);
+
+        const amount = env.oneToken.mul(1000);
+        await env.erc20Inst.connect(env.bob).mint(amount.mul(2));
+        await env.erc20Inst.connect(env.bob).approve(env.stakingInst.address, amount.mul(2));
+        await env.stakingInst.connect(env.bob).stakeLocked(amount, 0);
+        await env.stakingInst.connect(env.bob).stakeLocked(amount, 0);
+        await time.increase(lockPeriod);
+        await env.stakingInst.connect(env.bob).requestPositionWithdraw(1);
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+
+        expect(indexer.lockTiers().map((tier) => tier.isActive)).deep.equal([true, false]);
+        expect(indexer.positions().map((position) => position.positionId)).deep.equal([2]);
+        expect(indexer.pendingWithdrawals(env.bob.address).length).equals(1);
+        expect(indexer.userState(env.bob.address).stakeAmount).equals(0);
+        expect(indexer.totalStaked()).equals(await env.stakingInst.totalStaked());
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Removes everything of a user after the emergency withdrawal", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, 150_00);
+        await env.erc20Inst.connect(env.alice).mint(env.aliceAmountToStake);
+        await env.erc20Inst
+            .connect(env.alice)
+            .approve(env.stakingInst.address, env.aliceAmountToStake);
+        await env.stakingInst.connect(env.alice).stakeLocked(env.aliceAmountToStake, 0);
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(2));
+        await bobStake(env);
+        await time.increase(ONE_DAY);
+        await env.stakingInst.enableEmergencyShutdown();
+        await env.stakingInst.connect(env.alice).emergencyWithdraw();
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(0);
+        expect(indexer.positions(env.alice.address)).deep.equal([]);
+        expect(indexer.pendingWithdrawals(env.alice.address)).deep.equal([]);
+        expect(indexer.userState(env.bob.address).stakeAmount).equals(env.oneToken.mul(1000));
+        expect(indexer.totalStaked()).equals(await env.stakingInst.totalStaked());
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Moves migrated stakes to the successor", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+
+        const newStakingInst = await env.StakingFactory.deploy(
+            env.erc20Inst.address,
+            env.minStakeAmount,
+            env.apr,
+            env.coolingPeriod
+        );
+        await env.stakingInst.setMigrationTarget(newStakingInst.address, true);
+        await newStakingInst.setMigrationSource(env.stakingInst.address, true);
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake.div(4));
+        await bobStake(env);
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.alice).migrate(newStakingInst.address, true);
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+        const newIndexer = await StakingIndexer.open(newStakingInst, {
+            fromBlock: newStakingInst.deployTransaction.blockNumber!,
+        });
+        await newIndexer.sync();
+
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(0);
+        expect(indexer.pendingWithdrawals(env.alice.address)).deep.equal([]);
+        expect(indexer.totalStaked()).equals(env.oneToken.mul(1000));
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        const migratedAmount = (await newStakingInst.stakeStates(env.alice.address)).stakeAmount;
+        expect(migratedAmount).greaterThan(env.aliceAmountToStake);
+        expect(newIndexer.userState(env.alice.address).stakeAmount).equals(migratedAmount);
+        expect(newIndexer.totalStaked()).equals(await newStakingInst.totalStaked());
+        expect((await newIndexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+        newIndexer.close();
+    });
+
+    it("Moves stakes by transfers of the receipt token", async () => {
+        const env = await loadFixture(prepareEnv);
+
+        const receiptInst = await deployReceiptToken(env.stakingInst.address, true);
+        await env.stakingInst.setReceiptToken(receiptInst.address);
+
+        const amount = env.oneToken.mul(1000);
+        await bobStake(env, amount);
+        await time.increase(ONE_DAY);
+        await receiptInst.connect(env.bob).transfer(env.alice.address, amount.div(4));
+
+        const indexer = await StakingIndexer.open(env.stakingInst, {
+            fromBlock: env.stakingInst.deployTransaction.blockNumber!,
+        });
+        await indexer.sync();
+
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(amount.div(4));
+        expect(indexer.userState(env.bob.address).stakeAmount).equals(amount.sub(amount.div(4)));
+        expect((await indexer.checkConsistency()).mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Tracks the contract's debt to users", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStakeWithoutDonation);
+
+        await time.increase(ONE_DAY);
+        await env.stakingInst.connect(env.alice).claimRewards();
+
+        const indexer = await openIndexer(env);
+        await indexer.sync();
+
+        const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+        expect(stakeState.contractDeptToUser).greaterThan(0);
+        expect(indexer.userState(env.alice.address).contractDeptToUser).equals(
+            stakeState.contractDeptToUser
+        );
+        expect((await indexer.checkConsistency()).isConsistent).true;
+
+        indexer.close();
+    });
+
+    it("Resumes from the checkpoint stored in the database file", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+        const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "db.sqlite");
+
+        const firstIndexer = await openIndexer(env, dbPath);
+        const firstIndexedBlock = await firstIndexer.sync();
+        firstIndexer.close();
+
+        await bobStake(env);
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.oneToken);
+
+        const secondIndexer = await openIndexer(env, dbPath);
+        expect(secondIndexer.lastIndexedBlock()).equals(firstIndexedBlock);
+        expect(await secondIndexer.sync()).equals(await time.latestBlock());
+
+        expect(secondIndexer.users().length).equals(2);
+        expect(secondIndexer.pendingWithdrawals(env.alice.address).length).equals(1);
+        expect((await secondIndexer.checkConsistency()).isConsistent).true;
+
+        secondIndexer.close();
+        fs.rmSync(path.dirname(dbPath), { recursive: true });
+    });
+
+    it("Rolls back reorganized blocks", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+        const indexer = await openIndexer(env);
+
+        await indexer.sync();
+        const snapshot = await takeSnapshot();
+
+        await env.stakingInst.connect(env.alice).requestWithdraw(env.aliceAmountToStake);
+        await mine(2);
+        await indexer.sync();
+        expect(indexer.pendingWithdrawals().length).equals(1);
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(0);
+
+        // the other branch of the chain is longer than the indexed one
+        await snapshot.restore();
+        await bobStake(env);
+        await mine(5);
+
+        expect(await indexer.sync()).equals(await time.latestBlock());
+        expect(indexer.pendingWithdrawals().length).equals(0);
+        expect(indexer.userState(env.alice.address).stakeAmount).equals(env.aliceAmountToStake);
+        expect(indexer.userState(env.bob.address).stakeAmount).equals(env.oneToken.mul(1000));
+
+        const report = await indexer.checkConsistency();
+        expect(report.mismatches).deep.equal([]);
+
+        indexer.close();
+    });
+
+    it("Indexes up to the given block", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+        const indexer = await openIndexer(env);
+
+        const lastIndexedBlock = await indexer.sync();
+        await bobStake(env);
+        expect(await indexer.sync(lastIndexedBlock)).equals(lastIndexedBlock);
+        expect((await indexer.checkConsistency()).isConsistent).true;
+
+        const bobStakeState = await env.stakingInst.stakeStates(env.bob.address);
+        expect(bobStakeState.stakeAmount).greaterThan(0);
+        expect(indexer.users()).deep.equal([env.alice.address]);
+
+        indexer.close();
+    });
+
+    it("Rejects a database of another contract", async () => {
+        const env = await loadFixture(prepareEnvWithAliceStake);
+        const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "db.sqlite");
+
+        const indexer = await openIndexer(env, dbPath);
+        indexer.close();
+
+        const otherStaking = await env.StakingFactory.deploy(
+            env.erc20Inst.address,
+            env.minStakeAmount,
+            env.apr,
+            env.coolingPeriod
+        );
+        const error = await StakingIndexer.open(otherStaking, { fromBlock: 0, dbPath }).catch(
+            (error) => error
+        );
+        expect(error).instanceOf(Error);
+        expect(error.message).contains("belongs to");
+
+        fs.rmSync(path.dirname(dbPath), { recursive: true });
+    });
+});
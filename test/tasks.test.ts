@@ -0,0 +1,382 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { prepareEnvWithAliceStake, prepareEnvWithoutDonation } from "./helpers";
+import { ONE_DAY } from "./constants";
+import { isStakingError } from "../scripts/stakingClient";
+import type { StakingStatus, UserStatus } from "../tasks/staking";
+
+const Change = {
+    Apr: 0,
+    MinStakeAmount: 1,
+};
+
+/** The hash of the params of a timelocked change, `pendingChanges` stores it as the value. */
+function encodeValueHash(value: number) {
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(["uint256"], [value]));
+}
+
+async function prepareEnvWithManagerDeployer() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    // the tasks are sent by the first signer
+    await env.stakingInst.grantRole(env.MANAGER_ROLE, env.deployer.address);
+
+    return env;
+}
+
+async function prepareEnvWithChangeDelay() {
+    const env = await loadFixture(prepareEnvWithManagerDeployer);
+
+    const changeDelay = ONE_DAY * 2;
+    await env.stakingInst.setChangeDelay(changeDelay);
+
+    return { ...env, changeDelay };
+}
+
+describe("Hardhat tasks", () => {
+    const log = console.log;
+
+    before(() => {
+        console.log = () => undefined;
+    });
+
+    after(() => {
+        console.log = log;
+    });
+
+    describe("Deployments file", () => {
+        it("Should read the address from the deployments file", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+            fs.writeFileSync(
+                path.join(deploymentsDir, `${hre.network.name}.json`),
+                JSON.stringify({
+                    network: hre.network.name,
+                    chainId: hre.network.config.chainId,
+                    contracts: { AtomicStaking: { address: env.stakingInst.address } },
+                })
+            );
+
+            const status: StakingStatus = await hre.run("staking:status", { deploymentsDir });
+            expect(status.totalStaked).equals(env.aliceAmountToStake);
+        });
+
+        it("Should revert when the staking isn't deployed", async () => {
+            const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+
+            const error = await hre
+                .run("staking:status", { deploymentsDir })
+                .catch((error: unknown) => error);
+            if (!(error instanceof Error)) {
+                expect.fail("The task didn't throw");
+            }
+            expect(error.message).contains("No AtomicStaking");
+        });
+    });
+
+    describe("{staking:status} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const status: StakingStatus = await hre.run("staking:status", {
+                staking: env.stakingInst.address,
+            });
+            const balance = await env.erc20Inst.balanceOf(env.stakingInst.address);
+            expect(status.apr).equals(env.apr);
+            expect(status.effectiveApr).equals(env.apr);
+            expect(status.minStakeAmount).equals(env.minStakeAmount);
+            expect(status.totalStaked).equals(env.aliceAmountToStake);
+            expect(status.poolBalance).equals(balance.sub(env.aliceAmountToStake));
+            expect(status.runwayDays).greaterThan(0);
+        });
+
+        it("Runway is undefined without stakes", async () => {
+            const env = await loadFixture(prepareEnvWithoutDonation);
+
+            const status: StakingStatus = await hre.run("staking:status", {
+                staking: env.stakingInst.address,
+            });
+            expect(status.runwayDays).undefined;
+        });
+    });
+
+    describe("{staking:set-apr} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithManagerDeployer);
+
+            await hre.run("staking:set-apr", { staking: env.stakingInst.address, apr: "12.5" });
+            expect(await env.stakingInst.apr()).equals(12_50);
+        });
+
+        it("Dry run doesn't send the transaction", async () => {
+            const env = await loadFixture(prepareEnvWithManagerDeployer);
+
+            const receipt = await hre.run("staking:set-apr", {
+                staking: env.stakingInst.address,
+                apr: "12.5",
+                dryRun: true,
+            });
+            expect(receipt).undefined;
+            expect(await env.stakingInst.apr()).equals(env.apr);
+        });
+
+        it("Should propose and then execute the timelocked change", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await hre.run("staking:set-apr", { staking: env.stakingInst.address, apr: "12.5" });
+            const pendingChange = await env.stakingInst.pendingChanges(Change.Apr);
+            expect(pendingChange.value).equals(encodeValueHash(12_50));
+            expect(pendingChange.executableTimestamp).equals(
+                (await time.latest()) + env.changeDelay
+            );
+            expect(await env.stakingInst.apr()).equals(env.apr);
+
+            // the delay hasn't passed yet
+            const receipt = await hre.run("staking:set-apr", {
+                staking: env.stakingInst.address,
+                apr: "12.5",
+            });
+            expect(receipt).undefined;
+            expect(await env.stakingInst.apr()).equals(env.apr);
+
+            await time.increase(env.changeDelay);
+            await hre.run("staking:set-apr", { staking: env.stakingInst.address, apr: "12.5" });
+            expect(await env.stakingInst.apr()).equals(12_50);
+            expect((await env.stakingInst.pendingChanges(Change.Apr)).executableTimestamp).equals(
+                0
+            );
+        });
+
+        it("Should replace the pending change with another value", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await hre.run("staking:set-apr", { staking: env.stakingInst.address, apr: "12.5" });
+            await time.increase(env.changeDelay);
+            await hre.run("staking:set-apr", { staking: env.stakingInst.address, apr: "15" });
+
+            expect(await env.stakingInst.apr()).equals(env.apr);
+            expect((await env.stakingInst.pendingChanges(Change.Apr)).value).equals(
+                encodeValueHash(15_00)
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should decode the custom error in the dry run", async () => {
+                const env = await loadFixture(prepareEnvWithManagerDeployer);
+
+                const error = await hre
+                    .run("staking:set-apr", {
+                        staking: env.stakingInst.address,
+                        apr: ethers.utils.formatUnits(env.apr, 2),
+                        dryRun: true,
+                    })
+                    .catch((error) => error);
+                expect(isStakingError(error, "TheSameValue")).true;
+            });
+        });
+    });
+
+    describe("{staking:set-min-stake} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithManagerDeployer);
+
+            await hre.run("staking:set-min-stake", {
+                staking: env.stakingInst.address,
+                amount: "10.5",
+            });
+            expect(await env.stakingInst.minStakeAmount()).equals(env.oneToken.mul(105).div(10));
+        });
+
+        it("Should propose and then execute the timelocked change", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            const args = { staking: env.stakingInst.address, amount: "10.5" };
+            await hre.run("staking:set-min-stake", args);
+            expect(await env.stakingInst.minStakeAmount()).equals(env.minStakeAmount);
+
+            await time.increase(env.changeDelay);
+            await hre.run("staking:set-min-stake", args);
+            expect(await env.stakingInst.minStakeAmount()).equals(env.oneToken.mul(105).div(10));
+        });
+    });
+
+    describe("{staking:donate} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const amount = env.oneToken.mul(1000);
+            await env.erc20Inst.mint(amount);
+
+            const balanceBefore = await env.erc20Inst.balanceOf(env.stakingInst.address);
+            await hre.run("staking:donate", { staking: env.stakingInst.address, amount: "1000" });
+            expect(await env.erc20Inst.balanceOf(env.stakingInst.address)).equals(
+                balanceBefore.add(amount)
+            );
+        });
+
+        it("Dry run doesn't approve the tokens", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await env.erc20Inst.mint(env.oneToken);
+            await hre.run("staking:donate", {
+                staking: env.stakingInst.address,
+                amount: "1",
+                dryRun: true,
+            });
+            expect(
+                await env.erc20Inst.allowance(env.deployer.address, env.stakingInst.address)
+            ).equals(0);
+        });
+    });
+
+    describe("{staking:withdraw-excess} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const balanceBefore = await env.erc20Inst.balanceOf(env.deployer.address);
+            await hre.run("staking:withdraw-excess", {
+                staking: env.stakingInst.address,
+                amount: "1",
+            });
+            expect(await env.erc20Inst.balanceOf(env.deployer.address)).equals(
+                balanceBefore.add(env.oneToken)
+            );
+        });
+
+        it("Should propose and then execute the timelocked withdrawal", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            const args = { staking: env.stakingInst.address, amount: "1" };
+            const balanceBefore = await env.erc20Inst.balanceOf(env.deployer.address);
+            await hre.run("staking:withdraw-excess", args);
+            expect(await env.erc20Inst.balanceOf(env.deployer.address)).equals(balanceBefore);
+
+            await time.increase(env.changeDelay);
+            await hre.run("staking:withdraw-excess", args);
+            expect(await env.erc20Inst.balanceOf(env.deployer.address)).equals(
+                balanceBefore.add(env.oneToken)
+            );
+        });
+    });
+
+    describe("{staking:cancel-change} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await hre.run("staking:set-apr", { staking: env.stakingInst.address, apr: "12.5" });
+            await hre.run("staking:cancel-change", {
+                staking: env.stakingInst.address,
+                change: "Apr",
+            });
+            expect((await env.stakingInst.pendingChanges(Change.Apr)).executableTimestamp).equals(
+                0
+            );
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when there is no pending change", async () => {
+                const env = await loadFixture(prepareEnvWithChangeDelay);
+
+                const error = await hre
+                    .run("staking:cancel-change", {
+                        staking: env.stakingInst.address,
+                        change: "MinStakeAmount",
+                    })
+                    .catch((error: unknown) => error);
+                expect(isStakingError(error, "NoPendingChange")).true;
+            });
+        });
+    });
+
+    describe("{staking:grant-role} and {staking:revoke-role} tasks", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            await hre.run("staking:grant-role", {
+                staking: env.stakingInst.address,
+                role: "MANAGER_ROLE",
+                account: env.bob.address,
+            });
+            expect(await env.stakingInst.hasRole(env.MANAGER_ROLE, env.bob.address)).true;
+
+            await hre.run("staking:revoke-role", {
+                staking: env.stakingInst.address,
+                role: env.MANAGER_ROLE,
+                account: env.bob.address,
+            });
+            expect(await env.stakingInst.hasRole(env.MANAGER_ROLE, env.bob.address)).false;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the role is unknown", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const error = await hre
+                    .run("staking:grant-role", {
+                        staking: env.stakingInst.address,
+                        role: "OWNER_ROLE",
+                        account: env.bob.address,
+                    })
+                    .catch((error: unknown) => error);
+                if (!(error instanceof Error)) {
+                    expect.fail("The task didn't throw");
+                }
+                expect(error.message).contains("Unknown role OWNER_ROLE");
+            });
+
+            it("Should revert when the role is DEFAULT_ADMIN_ROLE", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                const grantRole = (role: string) =>
+                    hre
+                        .run("staking:grant-role", {
+                            staking: env.stakingInst.address,
+                            role,
+                            account: env.bob.address,
+                        })
+                        .catch((error: unknown) => error);
+
+                const nameError = await grantRole("DEFAULT_ADMIN_ROLE");
+                const hashError = await grantRole(env.DEFAULT_ADMIN_ROLE);
+                if (!(nameError instanceof Error) || !(hashError instanceof Error)) {
+                    expect.fail("The task didn't throw");
+                }
+                expect(nameError.message).contains("Unknown role DEFAULT_ADMIN_ROLE");
+                expect(hashError.message).contains("beginDefaultAdminTransfer");
+            });
+        });
+    });
+
+    describe("{staking:user} task", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const amountToWithdraw = env.aliceAmountToStake.div(2);
+            await env.stakingInst.connect(env.alice).requestWithdraw(amountToWithdraw);
+            const withdrawTimestamp = await time.latest();
+            await time.increase(ONE_DAY);
+
+            const userStatus: UserStatus = await hre.run("staking:user", {
+                staking: env.stakingInst.address,
+                user: env.alice.address,
+            });
+            const stakeState = await env.stakingInst.stakeStates(env.alice.address);
+            expect(userStatus.stakeAmount).equals(env.aliceAmountToStake.sub(amountToWithdraw));
+            expect(userStatus.debt).equals(stakeState.contractDeptToUser);
+            expect(userStatus.rewardsToClaim).equals(
+                await env.stakingInst.availableRewardsToClaim(env.alice.address)
+            );
+            expect(userStatus.withdrawals).lengthOf(1);
+            expect(userStatus.withdrawals[0].amount).equals(amountToWithdraw);
+            expect(userStatus.withdrawals[0].unlockTimestamp).equals(
+                withdrawTimestamp + env.coolingPeriod
+            );
+        });
+    });
+});
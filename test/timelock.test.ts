@@ -0,0 +1,722 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumberish } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { prepareEnvWithAliceStake } from "./helpers";
+import { ONE_DAY } from "./constants";
+
+const Change = {
+    Apr: 0,
+    MinStakeAmount: 1,
+    ExcessiveBalance: 2,
+    ChangeDelay: 3,
+    CoolingPeriod: 4,
+    EarlyWithdrawPenalty: 5,
+    PenaltyReceiver: 6,
+    ExtraRewardRate: 7,
+    AprGuardrails: 8,
+    SolvencyParameters: 9,
+    MigrationTarget: 10,
+    MigrationSource: 11,
+    EmergencyShutdown: 12,
+    LockTierMultiplier: 13,
+};
+
+function encodeParams(types: string[], values: unknown[]) {
+    return ethers.utils.defaultAbiCoder.encode(types, values);
+}
+
+function encodeValue(value: BigNumberish) {
+    return encodeParams(["uint256"], [value]);
+}
+
+async function prepareEnvWithChangeDelay() {
+    const env = await loadFixture(prepareEnvWithAliceStake);
+
+    const changeDelay = ONE_DAY;
+    await env.stakingInst.setChangeDelay(changeDelay);
+
+    return {
+        ...env,
+        changeDelay,
+    };
+}
+
+async function prepareEnvWithProposedApr() {
+    const env = await loadFixture(prepareEnvWithChangeDelay);
+
+    const newApr = env.apr + 1;
+    const proposeTimestamp = (await time.latest()) + 10;
+    await time.setNextBlockTimestamp(proposeTimestamp);
+    await env.stakingInst.connect(env.manager).proposeChange(Change.Apr, encodeValue(newApr));
+
+    return {
+        ...env,
+        newApr,
+        executableTimestamp: proposeTimestamp + env.changeDelay,
+    };
+}
+
+async function prepareEnvWithAdminTransfer() {
+    const env = await loadFixture(prepareEnvWithChangeDelay);
+
+    const newAdmin = env.bob;
+    const scheduleTimestamp = (await time.latest()) + 10;
+    await time.setNextBlockTimestamp(scheduleTimestamp);
+    await env.stakingInst.beginDefaultAdminTransfer(newAdmin.address);
+
+    return {
+        ...env,
+        newAdmin,
+        acceptableTimestamp: scheduleTimestamp + env.changeDelay,
+    };
+}
+
+describe("Timelocked changes", () => {
+    describe("{setChangeDelay} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            expect(await env.stakingInst.changeDelay()).equals(0);
+            await expect(env.stakingInst.setChangeDelay(ONE_DAY))
+                .emit(env.stakingInst, "ChangeDelayChanged")
+                .withArgs(0, ONE_DAY);
+            expect(await env.stakingInst.changeDelay()).equals(ONE_DAY);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).setChangeDelay(ONE_DAY)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+
+            it("Should revert when value is too big", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(env.stakingInst.setChangeDelay(31 * ONE_DAY))
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(31 * ONE_DAY, 30 * ONE_DAY);
+            });
+
+            it("Should revert when value is the same", async () => {
+                const env = await loadFixture(prepareEnvWithAliceStake);
+
+                await expect(env.stakingInst.setChangeDelay(0)).revertedWithCustomError(
+                    env.stakingInst,
+                    "TheSameValue"
+                );
+            });
+        });
+    });
+
+    describe("Timelocked setters", () => {
+        it("Should revert when the delay is set", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await expect(env.stakingInst.connect(env.manager).setApr(env.apr + 1))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.Apr);
+            await expect(env.stakingInst.connect(env.manager).setMinStakeAmount(1))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.MinStakeAmount);
+            await expect(env.stakingInst.receiveExcessiveBalance(1))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.ExcessiveBalance);
+            await expect(env.stakingInst.setChangeDelay(0))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.ChangeDelay);
+            await expect(env.stakingInst.connect(env.manager).setCoolingPeriod(ONE_DAY))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.CoolingPeriod);
+            await expect(env.stakingInst.connect(env.manager).setEarlyWithdrawPenalty(1))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.EarlyWithdrawPenalty);
+            await expect(env.stakingInst.setPenaltyReceiver(env.bob.address))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.PenaltyReceiver);
+            await expect(
+                env.stakingInst.connect(env.manager).setExtraRewardRate(env.erc20Inst.address, 1)
+            )
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.ExtraRewardRate);
+            await expect(env.stakingInst.setAprGuardrails(1, 0, 0, 0))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.AprGuardrails);
+            await expect(env.stakingInst.setSolvencyParameters(ONE_DAY, 0))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.SolvencyParameters);
+            await expect(env.stakingInst.setMigrationTarget(env.bob.address, true))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.MigrationTarget);
+            await expect(env.stakingInst.setMigrationSource(env.bob.address, true))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.MigrationSource);
+            await expect(env.stakingInst.enableEmergencyShutdown())
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.EmergencyShutdown);
+            await expect(env.stakingInst.connect(env.manager).setLockTierMultiplier(0, 150_00))
+                .revertedWithCustomError(env.stakingInst, "ChangeIsTimelocked")
+                .withArgs(Change.LockTierMultiplier);
+        });
+
+        it("Other setters aren't timelocked", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await expect(env.stakingInst.connect(env.manager).setPenaltyProRated(true)).emit(
+                env.stakingInst,
+                "PenaltyProRatedChanged"
+            );
+        });
+    });
+
+    describe("{proposeChange} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            const params = encodeValue(1);
+            const proposeTimestamp = (await time.latest()) + 10;
+            await time.setNextBlockTimestamp(proposeTimestamp);
+            await expect(env.stakingInst.connect(env.manager).proposeChange(Change.Apr, params))
+                .emit(env.stakingInst, "ChangeProposed")
+                .withArgs(Change.Apr, params, proposeTimestamp + env.changeDelay);
+
+            // only the hash of the params is stored
+            const pendingChange = await env.stakingInst.pendingChanges(Change.Apr);
+            expect(pendingChange.value).equals(ethers.utils.keccak256(params));
+            expect(pendingChange.executableTimestamp).equals(proposeTimestamp + env.changeDelay);
+            // the change isn't made yet
+            expect(await env.stakingInst.apr()).equals(env.apr);
+        });
+
+        it("A new proposal replaces the pending one", async () => {
+            const env = await loadFixture(prepareEnvWithProposedApr);
+
+            await time.increase(env.changeDelay / 2);
+            const params = encodeValue(env.newApr + 1);
+            await env.stakingInst.connect(env.manager).proposeChange(Change.Apr, params);
+
+            const pendingChange = await env.stakingInst.pendingChanges(Change.Apr);
+            expect(pendingChange.value).equals(ethers.utils.keccak256(params));
+            expect(pendingChange.executableTimestamp).greaterThan(env.executableTimestamp);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithChangeDelay);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).proposeChange(Change.Apr, encodeValue(1))
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .proposeChange(Change.ExcessiveBalance, encodeValue(1))
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+        });
+    });
+
+    describe("{executeChange} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithProposedApr);
+
+            await time.setNextBlockTimestamp(env.executableTimestamp);
+            const params = encodeValue(env.newApr);
+            const tx = env.stakingInst.connect(env.manager).executeChange(Change.Apr, params);
+            await expect(tx).emit(env.stakingInst, "AprChanged").withArgs(env.apr, env.newApr);
+            await expect(tx).emit(env.stakingInst, "ChangeExecuted").withArgs(Change.Apr, params);
+
+            expect(await env.stakingInst.apr()).equals(env.newApr);
+            expect((await env.stakingInst.pendingChanges(Change.Apr)).executableTimestamp).equals(
+                0
+            );
+        });
+
+        it("Should change the min stake amount", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            const newAmount = env.minStakeAmount.mul(2);
+            const params = encodeValue(newAmount);
+            await env.stakingInst.connect(env.manager).proposeChange(Change.MinStakeAmount, params);
+            await time.increase(env.changeDelay);
+
+            await expect(
+                env.stakingInst.connect(env.manager).executeChange(Change.MinStakeAmount, params)
+            )
+                .emit(env.stakingInst, "MinStakeAmountChanged")
+                .withArgs(env.minStakeAmount, newAmount);
+            expect(await env.stakingInst.minStakeAmount()).equals(newAmount);
+        });
+
+        it("Should withdraw the excessive balance", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            const amount = env.oneToken.mul(10);
+            const params = encodeValue(amount);
+            await env.stakingInst.proposeChange(Change.ExcessiveBalance, params);
+            await time.increase(env.changeDelay);
+
+            const tx = env.stakingInst.executeChange(Change.ExcessiveBalance, params);
+            await expect(tx)
+                .emit(env.stakingInst, "ExcessiveBalanceWithdrawn")
+                .withArgs(env.deployer.address, amount);
+            await expect(tx).changeTokenBalances(
+                env.erc20Inst,
+                [env.stakingInst, env.deployer],
+                [amount.mul(-1), amount]
+            );
+        });
+
+        it("Should change the delay", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await env.stakingInst.proposeChange(Change.ChangeDelay, encodeValue(0));
+            await time.increase(env.changeDelay);
+
+            await expect(env.stakingInst.executeChange(Change.ChangeDelay, encodeValue(0)))
+                .emit(env.stakingInst, "ChangeDelayChanged")
+                .withArgs(env.changeDelay, 0);
+
+            // setters work directly again
+            await expect(env.stakingInst.connect(env.manager).setApr(env.apr + 1)).emit(
+                env.stakingInst,
+                "AprChanged"
+            );
+        });
+
+        it("Should make the changes of the other setters", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+            const extraTokenInst = await ERC20TestFactory.deploy();
+            await env.stakingInst
+                .connect(env.manager)
+                .addExtraRewardToken(extraTokenInst.address, 0);
+            await env.stakingInst.connect(env.manager).addLockTier(ONE_DAY * 30, 120_00);
+
+            const changes = [
+                {
+                    change: Change.CoolingPeriod,
+                    signer: env.manager,
+                    params: encodeValue(ONE_DAY),
+                    event: "CoolingPeriodChanged",
+                },
+                {
+                    change: Change.EarlyWithdrawPenalty,
+                    signer: env.manager,
+                    params: encodeValue(10_00),
+                    event: "EarlyWithdrawPenaltyChanged",
+                },
+                {
+                    change: Change.PenaltyReceiver,
+                    signer: env.deployer,
+                    params: encodeParams(["address"], [env.bob.address]),
+                    event: "PenaltyReceiverChanged",
+                },
+                {
+                    change: Change.ExtraRewardRate,
+                    signer: env.manager,
+                    params: encodeParams(["address", "uint256"], [extraTokenInst.address, 1]),
+                    event: "ExtraRewardRateChanged",
+                },
+                {
+                    change: Change.AprGuardrails,
+                    signer: env.deployer,
+                    params: encodeParams(
+                        ["uint256", "uint256", "uint256", "uint256"],
+                        [50_00, 0, ONE_DAY, 0]
+                    ),
+                    event: "AprGuardrailsChanged",
+                },
+                {
+                    change: Change.SolvencyParameters,
+                    signer: env.deployer,
+                    params: encodeParams(["uint256", "uint256"], [ONE_DAY * 30, 0]),
+                    event: "SolvencyParametersChanged",
+                },
+                {
+                    change: Change.MigrationTarget,
+                    signer: env.deployer,
+                    params: encodeParams(["address", "bool"], [env.bob.address, true]),
+                    event: "MigrationTargetChanged",
+                },
+                {
+                    change: Change.MigrationSource,
+                    signer: env.deployer,
+                    params: encodeParams(["address", "bool"], [env.bob.address, true]),
+                    event: "MigrationSourceChanged",
+                },
+                {
+                    change: Change.LockTierMultiplier,
+                    signer: env.manager,
+                    params: encodeParams(["uint256", "uint256"], [0, 150_00]),
+                    event: "LockTierMultiplierChanged",
+                },
+                {
+                    change: Change.EmergencyShutdown,
+                    signer: env.deployer,
+                    params: "0x",
+                    event: "EmergencyShutdownEnabled",
+                },
+            ];
+            for (const { change, signer, params } of changes) {
+                await env.stakingInst.connect(signer).proposeChange(change, params);
+            }
+            await time.increase(env.changeDelay);
+
+            for (const { change, signer, params, event } of changes) {
+                await expect(env.stakingInst.connect(signer).executeChange(change, params))
+                    .emit(env.stakingInst, event)
+                    .and.emit(env.stakingInst, "ChangeExecuted")
+                    .withArgs(change, params);
+            }
+            expect(await env.stakingInst.coolingPeriod()).equals(ONE_DAY);
+            expect(await env.stakingInst.earlyWithdrawPenalty()).equals(10_00);
+            expect(await env.stakingInst.penaltyReceiver()).equals(env.bob.address);
+            expect(
+                (await env.stakingInst.extraRewardStates(extraTokenInst.address)).rewardRate
+            ).equals(1);
+            expect((await env.stakingInst.aprGuardrails()).maxApr).equals(50_00);
+            expect(await env.stakingInst.solvencyRunway()).equals(ONE_DAY * 30);
+            expect(await env.stakingInst.isMigrationTarget(env.bob.address)).true;
+            expect(await env.stakingInst.isMigrationSource(env.bob.address)).true;
+            expect((await env.stakingInst.lockTiers(0)).aprMultiplier).equals(150_00);
+            expect(await env.stakingInst.isEmergencyShutdown()).true;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithProposedApr);
+
+                await time.increase(env.changeDelay);
+                await expect(
+                    env.stakingInst
+                        .connect(env.alice)
+                        .executeChange(Change.Apr, encodeValue(env.newApr))
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+
+            it("Should revert when the change isn't proposed", async () => {
+                const env = await loadFixture(prepareEnvWithProposedApr);
+
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .executeChange(Change.MinStakeAmount, encodeValue(env.newApr))
+                )
+                    .revertedWithCustomError(env.stakingInst, "NoPendingChange")
+                    .withArgs(Change.MinStakeAmount);
+            });
+
+            it("Should revert when the delay hasn't passed", async () => {
+                const env = await loadFixture(prepareEnvWithProposedApr);
+
+                await time.setNextBlockTimestamp(env.executableTimestamp - 1);
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .executeChange(Change.Apr, encodeValue(env.newApr))
+                )
+                    .revertedWithCustomError(env.stakingInst, "ChangeNotExecutableYet")
+                    .withArgs(env.executableTimestamp - 1, env.executableTimestamp);
+            });
+
+            it("Should revert when the params differ from the proposed ones", async () => {
+                const env = await loadFixture(prepareEnvWithProposedApr);
+
+                await time.increase(env.changeDelay);
+                await expect(
+                    env.stakingInst
+                        .connect(env.manager)
+                        .executeChange(Change.Apr, encodeValue(env.newApr + 1))
+                )
+                    .revertedWithCustomError(env.stakingInst, "InvalidChangeParams")
+                    .withArgs(Change.Apr);
+            });
+
+            it("Should validate the value as the setter", async () => {
+                const env = await loadFixture(prepareEnvWithChangeDelay);
+
+                const params = encodeValue(100_01);
+                await env.stakingInst.connect(env.manager).proposeChange(Change.Apr, params);
+                await time.increase(env.changeDelay);
+
+                await expect(env.stakingInst.connect(env.manager).executeChange(Change.Apr, params))
+                    .revertedWithCustomError(env.stakingInst, "TooBigValue")
+                    .withArgs(100_01, 100_00);
+            });
+        });
+    });
+
+    describe("{cancelChange} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithProposedApr);
+
+            await expect(env.stakingInst.connect(env.manager).cancelChange(Change.Apr))
+                .emit(env.stakingInst, "ChangeCanceled")
+                .withArgs(Change.Apr);
+
+            await time.increase(env.changeDelay);
+            await expect(
+                env.stakingInst
+                    .connect(env.manager)
+                    .executeChange(Change.Apr, encodeValue(env.newApr))
+            ).revertedWithCustomError(env.stakingInst, "NoPendingChange");
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithProposedApr);
+
+                await expect(
+                    env.stakingInst.connect(env.alice).cancelChange(Change.Apr)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.alice.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.MANAGER_ROLE
+                );
+            });
+
+            it("Should revert when the change isn't proposed", async () => {
+                const env = await loadFixture(prepareEnvWithChangeDelay);
+
+                await expect(env.stakingInst.connect(env.manager).cancelChange(Change.Apr))
+                    .revertedWithCustomError(env.stakingInst, "NoPendingChange")
+                    .withArgs(Change.Apr);
+            });
+        });
+    });
+});
+
+describe("Default admin transfer", () => {
+    describe("{beginDefaultAdminTransfer} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            expect(await env.stakingInst.defaultAdmin()).equals(env.deployer.address);
+
+            const scheduleTimestamp = (await time.latest()) + 10;
+            await time.setNextBlockTimestamp(scheduleTimestamp);
+            await expect(env.stakingInst.beginDefaultAdminTransfer(env.bob.address))
+                .emit(env.stakingInst, "DefaultAdminTransferScheduled")
+                .withArgs(env.bob.address, scheduleTimestamp + env.changeDelay);
+
+            const pendingDefaultAdmin = await env.stakingInst.pendingDefaultAdmin();
+            expect(pendingDefaultAdmin.newAdmin).equals(env.bob.address);
+            expect(pendingDefaultAdmin.acceptableTimestamp).equals(
+                scheduleTimestamp + env.changeDelay
+            );
+        });
+
+        it("Should delay the transfer without the change delay", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const scheduleTimestamp = (await time.latest()) + 10;
+            await time.setNextBlockTimestamp(scheduleTimestamp);
+            await expect(env.stakingInst.beginDefaultAdminTransfer(env.bob.address))
+                .emit(env.stakingInst, "DefaultAdminTransferScheduled")
+                .withArgs(env.bob.address, scheduleTimestamp + ONE_DAY);
+
+            await time.setNextBlockTimestamp(scheduleTimestamp + ONE_DAY - 1);
+            await expect(env.stakingInst.connect(env.bob).acceptDefaultAdminTransfer())
+                .revertedWithCustomError(env.stakingInst, "AdminTransferNotAcceptableYet")
+                .withArgs(scheduleTimestamp + ONE_DAY - 1, scheduleTimestamp + ONE_DAY);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithChangeDelay);
+
+                await expect(
+                    env.stakingInst.connect(env.manager).beginDefaultAdminTransfer(env.bob.address)
+                ).revertedWith(
+                    "AccessControl: account " +
+                        env.manager.address.toLocaleLowerCase() +
+                        " is missing role " +
+                        env.DEFAULT_ADMIN_ROLE
+                );
+            });
+        });
+    });
+
+    describe("{acceptDefaultAdminTransfer} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAdminTransfer);
+
+            await time.setNextBlockTimestamp(env.acceptableTimestamp);
+            const tx = env.stakingInst.connect(env.newAdmin).acceptDefaultAdminTransfer();
+            await expect(tx)
+                .emit(env.stakingInst, "RoleRevoked")
+                .withArgs(env.DEFAULT_ADMIN_ROLE, env.deployer.address, env.newAdmin.address);
+            await expect(tx)
+                .emit(env.stakingInst, "RoleGranted")
+                .withArgs(env.DEFAULT_ADMIN_ROLE, env.newAdmin.address, env.newAdmin.address);
+
+            expect(await env.stakingInst.defaultAdmin()).equals(env.newAdmin.address);
+            expect(await env.stakingInst.hasRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address))
+                .false;
+            expect((await env.stakingInst.pendingDefaultAdmin()).acceptableTimestamp).equals(0);
+
+            // the new admin manages the roles
+            await env.stakingInst
+                .connect(env.newAdmin)
+                .revokeRole(env.MANAGER_ROLE, env.manager.address);
+            expect(await env.stakingInst.hasRole(env.MANAGER_ROLE, env.manager.address)).false;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when a wrong user calls", async () => {
+                const env = await loadFixture(prepareEnvWithAdminTransfer);
+
+                await time.increase(env.changeDelay);
+                await expect(env.stakingInst.connect(env.alice).acceptDefaultAdminTransfer())
+                    .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                    .withArgs(env.alice.address, env.newAdmin.address);
+            });
+
+            it("Should revert when the delay hasn't passed", async () => {
+                const env = await loadFixture(prepareEnvWithAdminTransfer);
+
+                await time.setNextBlockTimestamp(env.acceptableTimestamp - 1);
+                await expect(env.stakingInst.connect(env.newAdmin).acceptDefaultAdminTransfer())
+                    .revertedWithCustomError(env.stakingInst, "AdminTransferNotAcceptableYet")
+                    .withArgs(env.acceptableTimestamp - 1, env.acceptableTimestamp);
+            });
+        });
+    });
+
+    describe("{cancelDefaultAdminTransfer} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAdminTransfer);
+
+            await expect(env.stakingInst.cancelDefaultAdminTransfer()).emit(
+                env.stakingInst,
+                "DefaultAdminTransferCanceled"
+            );
+
+            await time.increase(env.changeDelay);
+            await expect(env.stakingInst.connect(env.newAdmin).acceptDefaultAdminTransfer())
+                .revertedWithCustomError(env.stakingInst, "NotAllowedUser")
+                .withArgs(env.newAdmin.address, ethers.constants.AddressZero);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when no transfer is scheduled", async () => {
+                const env = await loadFixture(prepareEnvWithChangeDelay);
+
+                await expect(env.stakingInst.cancelDefaultAdminTransfer()).revertedWithCustomError(
+                    env.stakingInst,
+                    "TheSameValue"
+                );
+            });
+        });
+    });
+
+    describe("Protection of DEFAULT_ADMIN_ROLE", () => {
+        it("Should revert when the role is granted or revoked directly", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await expect(
+                env.stakingInst.grantRole(env.DEFAULT_ADMIN_ROLE, env.bob.address)
+            ).revertedWithCustomError(env.stakingInst, "DefaultAdminRoleIsProtected");
+            await expect(
+                env.stakingInst.revokeRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address)
+            ).revertedWithCustomError(env.stakingInst, "DefaultAdminRoleIsProtected");
+
+            // other roles are managed as usual
+            await expect(env.stakingInst.grantRole(env.MANAGER_ROLE, env.bob.address)).emit(
+                env.stakingInst,
+                "RoleGranted"
+            );
+        });
+
+        it("Should renounce the role only after the scheduled renouncement", async () => {
+            const env = await loadFixture(prepareEnvWithChangeDelay);
+
+            await expect(
+                env.stakingInst.renounceRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address)
+            ).revertedWithCustomError(env.stakingInst, "DefaultAdminRoleIsProtected");
+
+            await env.stakingInst.beginDefaultAdminTransfer(ethers.constants.AddressZero);
+            await expect(
+                env.stakingInst.renounceRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address)
+            ).revertedWithCustomError(env.stakingInst, "AdminTransferNotAcceptableYet");
+
+            await time.increase(env.changeDelay);
+            await expect(env.stakingInst.renounceRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address))
+                .emit(env.stakingInst, "RoleRevoked")
+                .withArgs(env.DEFAULT_ADMIN_ROLE, env.deployer.address, env.deployer.address);
+            expect(await env.stakingInst.defaultAdmin()).equals(ethers.constants.AddressZero);
+        });
+
+        it("Should not renounce the role when it is transferred to another admin", async () => {
+            const env = await loadFixture(prepareEnvWithAdminTransfer);
+
+            await time.increase(env.changeDelay);
+            await expect(
+                env.stakingInst.renounceRole(env.DEFAULT_ADMIN_ROLE, env.deployer.address)
+            ).revertedWithCustomError(env.stakingInst, "DefaultAdminRoleIsProtected");
+        });
+    });
+
+    describe("TimelockController as the admin", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnvWithAliceStake);
+
+            const TimelockFactory = await ethers.getContractFactory("TimelockController");
+            const timelockInst = await TimelockFactory.deploy(
+                ONE_DAY,
+                [env.manager.address],
+                [env.manager.address],
+                ethers.constants.AddressZero
+            );
+
+            await env.stakingInst.beginDefaultAdminTransfer(timelockInst.address);
+
+            const payload = env.stakingInst.interface.encodeFunctionData(
+                "acceptDefaultAdminTransfer"
+            );
+            const salt = ethers.constants.HashZero;
+            await timelockInst
+                .connect(env.manager)
+                .schedule(env.stakingInst.address, 0, payload, salt, salt, ONE_DAY);
+            await time.increase(ONE_DAY);
+            await timelockInst
+                .connect(env.manager)
+                .execute(env.stakingInst.address, 0, payload, salt, salt);
+
+            expect(await env.stakingInst.defaultAdmin()).equals(timelockInst.address);
+            await expect(env.stakingInst.receiveExcessiveBalance(1)).revertedWith(
+                "AccessControl: account " +
+                    env.deployer.address.toLocaleLowerCase() +
+                    " is missing role " +
+                    env.DEFAULT_ADMIN_ROLE
+            );
+        });
+    });
+});
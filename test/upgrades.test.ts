@@ -0,0 +1,303 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { config } from "../config";
+import { readDeployment, writeDeployment } from "../scripts/deployments";
+import { DeployConfig, deployStaking, upgradeStaking } from "../scripts/deployPipeline";
+import { StorageLayout, compareStorageLayouts, getStorageLayout } from "../scripts/storageLayout";
+import type { AtomicStakingUpgradeableV2Test } from "../typechain-types";
+
+// the snapshot of the deployed layout, run the tests with UPDATE_STORAGE_LAYOUT=1 to update it
+const LAYOUT_SNAPSHOT_PATH = path.join(
+    __dirname,
+    "storageLayouts",
+    "AtomicStakingUpgradeable.json"
+);
+
+const CORE_VARIABLES = ["_stakeStates", "_ratePerStaking", "_withdrawStates", "_usersWithdrawIds"];
+
+async function prepareEnv() {
+    const [deployer, alice] = await ethers.getSigners();
+
+    const ERC20TestFactory = await ethers.getContractFactory("ERC20Test");
+    const erc20Inst = await ERC20TestFactory.deploy();
+    const oneToken = ethers.utils.parseUnits("1", await erc20Inst.decimals());
+
+    const deployConfig: DeployConfig = {
+        ...config.deploy,
+        token: { ...config.deploy.token, [hre.network.name]: erc20Inst.address },
+        timelock: { ...config.deploy.timelock, isEnabled: false },
+        actions: [{ type: "donate", amount: oneToken.mul(1000) }],
+        isUpgradeable: true,
+    };
+    const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+
+    await erc20Inst.mint(oneToken.mul(1000));
+    const { staking } = await deployStaking(hre, deployConfig, { deploymentsDir });
+
+    await erc20Inst.connect(alice).mint(oneToken.mul(100));
+    await erc20Inst.connect(alice).approve(staking.address, oneToken.mul(100));
+    await staking.connect(alice).stake(oneToken.mul(100));
+    await time.increase(30 * 24 * 60 * 60);
+    await staking.connect(alice).requestWithdraw(oneToken.mul(40));
+
+    return {
+        deployer,
+        alice,
+        erc20Inst,
+        oneToken,
+        deployConfig,
+        deploymentsDir,
+        staking,
+    };
+}
+
+function swapSlots(layout: StorageLayout, firstLabel: string, secondLabel: string): StorageLayout {
+    const first = layout.storage.find((variable) => variable.label == firstLabel)!;
+    const second = layout.storage.find((variable) => variable.label == secondLabel)!;
+    return {
+        ...layout,
+        storage: layout.storage.map((variable) => {
+            if (variable.label == firstLabel) {
+                return { ...variable, slot: second.slot, offset: second.offset };
+            }
+            if (variable.label == secondLabel) {
+                return { ...variable, slot: first.slot, offset: first.offset };
+            }
+            return variable;
+        }),
+    };
+}
+
+describe("Upgradeable staking", () => {
+    const log = console.log;
+
+    before(() => {
+        console.log = () => undefined;
+    });
+
+    after(() => {
+        console.log = log;
+    });
+
+    describe("Storage layout", () => {
+        it("Should be compatible with the snapshot", async () => {
+            const layout = await getStorageLayout(hre, "AtomicStakingUpgradeable");
+            if (process.env.UPDATE_STORAGE_LAYOUT) {
+                fs.writeFileSync(LAYOUT_SNAPSHOT_PATH, JSON.stringify(layout, null, 4) + "\n");
+            }
+
+            const snapshot: StorageLayout = JSON.parse(
+                fs.readFileSync(LAYOUT_SNAPSHOT_PATH, "utf8")
+            );
+            const snapshotLabels = snapshot.storage.map((variable) => variable.label);
+            expect(snapshotLabels).includes.members(CORE_VARIABLES);
+            expect(compareStorageLayouts(snapshot, layout)).deep.equals([]);
+        });
+
+        it("Should keep the layout of AtomicStaking", async () => {
+            const layout = await getStorageLayout(hre, "AtomicStakingUpgradeable");
+            const stakingLayout = await getStorageLayout(hre, "AtomicStaking");
+            expect(compareStorageLayouts(stakingLayout, layout)).deep.equals([]);
+        });
+
+        it("Should allow appending variables", async () => {
+            const layout = await getStorageLayout(hre, "AtomicStakingUpgradeable");
+            const newLayout = await getStorageLayout(hre, "AtomicStakingUpgradeableV2Test");
+            expect(newLayout.storage.length).equals(layout.storage.length + 1);
+            expect(compareStorageLayouts(layout, newLayout)).deep.equals([]);
+        });
+    });
+
+    describe("{compareStorageLayouts} function", () => {
+        it("Should report reordered variables", async () => {
+            const layout = await getStorageLayout(hre, "AtomicStakingUpgradeable");
+
+            for (const label of CORE_VARIABLES) {
+                const otherLabel = label == "_stakeStates" ? "_withdrawStates" : "_stakeStates";
+                const errors = compareStorageLayouts(layout, swapSlots(layout, label, otherLabel));
+                expect(errors).lengthOf(2);
+                expect(errors.join("\n")).contains(`${label} is moved from slot`);
+            }
+        });
+
+        it("Should report removed variables and changed types", async () => {
+            const layout = await getStorageLayout(hre, "AtomicStakingUpgradeable");
+            const stakeStates = layout.storage.find(
+                (variable) => variable.label == "_stakeStates"
+            )!;
+
+            const withoutRate = {
+                ...layout,
+                storage: layout.storage.filter((variable) => variable.label != "_ratePerStaking"),
+            };
+            expect(compareStorageLayouts(layout, withoutRate)).deep.equals([
+                "_ratePerStaking is removed",
+            ]);
+
+            const stakeStateType = layout.types[layout.types[stakeStates.type].value!];
+            const changedStakeState = {
+                ...layout,
+                types: {
+                    ...layout.types,
+                    [layout.types[stakeStates.type].value!]: {
+                        ...stakeStateType,
+                        members: [...stakeStateType.members!].reverse(),
+                    },
+                },
+            };
+            const errors = compareStorageLayouts(layout, changedStakeState);
+            expect(errors).lengthOf(1);
+            expect(errors[0]).contains("_stakeStates type is changed");
+        });
+    });
+
+    describe("{initialize} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            expect(await env.staking.TOKEN()).equals(env.erc20Inst.address);
+            expect(await env.staking.apr()).equals(env.deployConfig.apr);
+            expect(await env.staking.minStakeAmount()).equals(env.deployConfig.minStakeAmount);
+            expect(await env.staking.coolingPeriod()).equals(env.deployConfig.coolingPeriod);
+            expect(
+                await env.staking.hasRole(
+                    await env.staking.DEFAULT_ADMIN_ROLE(),
+                    env.deployer.address
+                )
+            ).true;
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the proxy is initialized twice", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const proxy = await ethers.getContractAt(
+                    "AtomicStakingUpgradeable",
+                    env.staking.address
+                );
+                const error = await proxy
+                    .initialize(env.erc20Inst.address, 0, 0, 0)
+                    .catch((error: unknown) => error);
+                if (!(error instanceof Error)) {
+                    expect.fail("The initialization didn't revert");
+                }
+                expect(error.message).contains("Initializable: contract is already initialized");
+            });
+
+            it("Should revert when the implementation is initialized", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const deployment = readDeployment(hre.network.name, env.deploymentsDir)!;
+                const implementation = await ethers.getContractAt(
+                    "AtomicStakingUpgradeable",
+                    deployment.contracts.AtomicStakingUpgradeable.address
+                );
+                const error = await implementation
+                    .initialize(env.erc20Inst.address, 0, 0, 0)
+                    .catch((error: unknown) => error);
+                if (!(error instanceof Error)) {
+                    expect.fail("The initialization didn't revert");
+                }
+                expect(error.message).contains("Initializable: contract is already initialized");
+            });
+        });
+    });
+
+    describe("{upgradeStaking} function", () => {
+        it("Test", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const stakeState = await env.staking.stakeStates(env.alice.address);
+            const withdrawIds = await env.staking.usersWithdrawIds(env.alice.address);
+            const withdrawState = await env.staking.withdrawStates(withdrawIds[0]);
+            expect(withdrawIds).lengthOf(1);
+
+            await upgradeStaking(hre, "AtomicStakingUpgradeableV2Test", {
+                deploymentsDir: env.deploymentsDir,
+            });
+
+            const upgraded = (await ethers.getContractAt(
+                "AtomicStakingUpgradeableV2Test",
+                env.staking.address
+            )) as AtomicStakingUpgradeableV2Test;
+            expect(await upgraded.version()).equals(2);
+            expect(await upgraded.newVariable()).equals(0);
+            expect(await upgraded.TOKEN()).equals(env.erc20Inst.address);
+            expect(await upgraded.stakeStates(env.alice.address)).deep.equals(stakeState);
+            expect(await upgraded.usersWithdrawIds(env.alice.address)).deep.equals(withdrawIds);
+            expect(await upgraded.withdrawStates(withdrawIds[0])).deep.equals(withdrawState);
+
+            // the pending withdrawal is finalized by the new implementation
+            await time.increase(env.deployConfig.coolingPeriod);
+            // the rewards of the remaining stake keep accruing
+            expect(await upgraded.availableRewardsToClaim(env.alice.address)).gt(0);
+            const balanceBefore = await env.erc20Inst.balanceOf(env.alice.address);
+            await upgraded.connect(env.alice).finalizeWithdraw(withdrawIds[0]);
+            const balanceAfter = await env.erc20Inst.balanceOf(env.alice.address);
+            expect(balanceAfter.sub(balanceBefore)).equals(env.oneToken.mul(40));
+
+            const deployment = readDeployment(hre.network.name, env.deploymentsDir)!;
+            expect(deployment.contracts.AtomicStaking.address).equals(env.staking.address);
+            expect(deployment.contracts.AtomicStakingUpgradeable.artifactName).equals(
+                "AtomicStakingUpgradeableV2Test"
+            );
+        });
+
+        it("Should keep the proxy when the staking is deployed again", async () => {
+            const env = await loadFixture(prepareEnv);
+
+            const { staking } = await deployStaking(hre, env.deployConfig, {
+                deploymentsDir: env.deploymentsDir,
+            });
+            expect(staking.address).equals(env.staking.address);
+        });
+
+        describe("Reverts", () => {
+            it("Should revert when the storage layout is incompatible", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const deployment = readDeployment(hre.network.name, env.deploymentsDir)!;
+                const record = deployment.contracts.AtomicStakingUpgradeable;
+                record.storageLayout = swapSlots(
+                    record.storageLayout!,
+                    "_ratePerStaking",
+                    "_usersWithdrawIds"
+                );
+                writeDeployment(deployment, env.deploymentsDir);
+
+                const error = await upgradeStaking(hre, "AtomicStakingUpgradeableV2Test", {
+                    deploymentsDir: env.deploymentsDir,
+                }).catch((error: unknown) => error);
+                if (!(error instanceof Error)) {
+                    expect.fail("The upgrade didn't throw");
+                }
+                expect(error.message).contains("Storage layout of AtomicStakingUpgradeableV2Test");
+                expect(error.message).contains("_ratePerStaking is moved from slot");
+            });
+
+            it("Should revert when the staking isn't behind a proxy", async () => {
+                const env = await loadFixture(prepareEnv);
+
+                const deploymentsDir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+                await deployStaking(
+                    hre,
+                    { ...env.deployConfig, isUpgradeable: false, actions: [] },
+                    { deploymentsDir }
+                );
+
+                const error = await upgradeStaking(hre, "AtomicStakingUpgradeableV2Test", {
+                    deploymentsDir,
+                }).catch((error: unknown) => error);
+                if (!(error instanceof Error)) {
+                    expect.fail("The upgrade didn't throw");
+                }
+                expect(error.message).contains("isn't deployed behind a proxy");
+            });
+        });
+    });
+});